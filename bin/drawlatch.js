@@ -19,6 +19,7 @@ import {
 import { stat } from "node:fs/promises";
 import { join, resolve, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { createInterface } from "node:readline";
 
 // ── Paths & constants ─────────────────────────────────────────────
 const __filename = fileURLToPath(import.meta.url);
@@ -26,17 +27,27 @@ const __dirname = dirname(__filename);
 const PKG_ROOT = resolve(__dirname, "..");
 const SERVER_ENTRY = join(PKG_ROOT, "dist/remote/server.js");
 const GENERATE_KEYS_ENTRY = join(PKG_ROOT, "dist/cli/generate-keys.js");
+const AUDIT_ENTRY = join(PKG_ROOT, "dist/remote/audit.js");
+const SECRETS_STORE_ENTRY = join(PKG_ROOT, "dist/shared/secrets/store.js");
+const CRYPTO_ENTRY = join(PKG_ROOT, "dist/shared/crypto/index.js");
 
 // Import config helpers from compiled drawlatch code
-const { getConfigDir, getEnvFilePath, loadRemoteConfig } = await import(
-  join(PKG_ROOT, "dist/shared/config.js")
-);
+const {
+  getConfigDir,
+  getEnvFilePath,
+  getSecretsStorePath,
+  getRevokedKeysPath,
+  loadRemoteConfig,
+  loadProxyConfig,
+} = await import(join(PKG_ROOT, "dist/shared/config.js"));
 
 const CONFIG_DIR = getConfigDir();
 const ENV_FILE = getEnvFilePath();
+const SECRETS_FILE = getSecretsStorePath();
 const PID_FILE = join(CONFIG_DIR, "drawlatch.pid");
 const LOG_DIR = join(CONFIG_DIR, "logs");
 const LOG_FILE = join(LOG_DIR, "drawlatch.log");
+const ADMIN_TOKEN_FILE = join(CONFIG_DIR, "admin.token");
 
 // Read version from package.json
 const pkgJson = JSON.parse(
@@ -58,11 +69,26 @@ try {
       version: { type: "boolean", short: "v", default: false },
       foreground: { type: "boolean", short: "f", default: false },
       tunnel: { type: "boolean", short: "t", default: false },
+      watch: { type: "boolean", short: "w", default: false },
       port: { type: "string" },
       host: { type: "string" },
       lines: { type: "string", short: "n", default: "50" },
       follow: { type: "boolean", default: true },
       path: { type: "boolean", default: false },
+      reason: { type: "string" },
+      all: { type: "boolean", default: false },
+      caller: { type: "string" },
+      route: { type: "string" },
+      action: { type: "string" },
+      outcome: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      json: { type: "boolean", default: false },
+      id: { type: "string" },
+      "skip-verification": { type: "boolean", default: false },
+      "not-before": { type: "string" },
+      "not-after": { type: "string" },
+      grace: { type: "string" },
     },
     strict: false,
     allowPositionals: true,
@@ -107,6 +133,13 @@ switch (subcommand) {
       await cmdRestart();
     }
     break;
+  case "reload":
+    if (values.help) {
+      printReloadHelp();
+    } else {
+      cmdReload();
+    }
+    break;
   case "status":
     if (values.help) {
       printStatusHelp();
@@ -128,6 +161,41 @@ switch (subcommand) {
       cmdConfig();
     }
     break;
+  case "approvals":
+    if (values.help) {
+      printApprovalsHelp();
+    } else {
+      await cmdApprovals();
+    }
+    break;
+  case "audit":
+    if (values.help) {
+      printAuditHelp();
+    } else {
+      await cmdAudit();
+    }
+    break;
+  case "webhooks":
+    if (values.help) {
+      printWebhooksHelp();
+    } else {
+      await cmdWebhooks();
+    }
+    break;
+  case "secrets":
+    if (values.help) {
+      printSecretsHelp();
+    } else {
+      await cmdSecrets();
+    }
+    break;
+  case "keys":
+    if (values.help) {
+      printKeysHelp();
+    } else {
+      await cmdKeys();
+    }
+    break;
   case "generate-keys":
     if (values.help) {
       printGenerateKeysHelp();
@@ -184,6 +252,7 @@ async function cmdStart() {
       ...(values.port ? { DRAWLATCH_PORT: String(port) } : {}),
       ...(values.host ? { DRAWLATCH_HOST: host } : {}),
       ...(values.tunnel ? { DRAWLATCH_TUNNEL: "1" } : {}),
+      ...(values.watch ? { DRAWLATCH_WATCH_CONFIG: "1" } : {}),
     },
     cwd: PKG_ROOT,
   });
@@ -224,6 +293,7 @@ async function cmdStartForeground() {
   if (values.port) process.env.DRAWLATCH_PORT = values.port;
   if (values.host) process.env.DRAWLATCH_HOST = values.host;
   if (values.tunnel) process.env.DRAWLATCH_TUNNEL = "1";
+  if (values.watch) process.env.DRAWLATCH_WATCH_CONFIG = "1";
 
   ensureConfigDir();
 
@@ -262,6 +332,23 @@ async function cmdStop() {
   console.log("Server stopped.");
 }
 
+function cmdReload() {
+  const pid = readPid();
+  if (!pid) {
+    console.log("Remote server is not running.");
+    process.exit(1);
+  }
+
+  try {
+    process.kill(pid, "SIGHUP");
+  } catch (err) {
+    console.error(`Failed to signal server (PID ${pid}): ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`Sent reload signal to remote server (PID ${pid}).`);
+  console.log(`  Check the result: drawlatch logs`);
+}
+
 async function cmdRestart() {
   const pid = readPid();
   if (pid) {
@@ -395,6 +482,7 @@ function cmdConfig() {
   console.log(`\nPaths:`);
   console.log(`  Config dir:  ${CONFIG_DIR}`);
   console.log(`  Env file:    ${ENV_FILE}`);
+  console.log(`  Secrets:     ${SECRETS_FILE}${existsSync(SECRETS_FILE) ? "" : " (not created)"}`);
   console.log(`  Remote cfg:  ${join(CONFIG_DIR, "remote.config.json")}`);
   console.log(`  Proxy cfg:   ${join(CONFIG_DIR, "proxy.config.json")}`);
   console.log(`  Logs:        ${LOG_FILE}`);
@@ -402,6 +490,497 @@ function cmdConfig() {
   console.log();
 }
 
+async function cmdApprovals() {
+  const action = positionals[0] ?? "list";
+  const id = positionals[1];
+
+  if (action === "list") {
+    const query = values.all ? "" : "?status=pending";
+    const tickets = await adminRequest("GET", `/admin/approvals${query}`);
+    if (tickets.length === 0) {
+      console.log(values.all ? "No approval requests." : "No pending approval requests.");
+      return;
+    }
+    for (const ticket of tickets) {
+      printTicket(ticket);
+    }
+    return;
+  }
+
+  if (action !== "approve" && action !== "deny" && action !== "show") {
+    console.error(`Unknown approvals action: ${action}\n`);
+    printApprovalsHelp();
+    process.exit(1);
+  }
+  if (!id) {
+    console.error(`Usage: drawlatch approvals ${action} <id>`);
+    process.exit(1);
+  }
+
+  if (action === "show") {
+    const ticket = await adminRequest("GET", `/admin/approvals/${encodeURIComponent(id)}`);
+    printTicket(ticket);
+    if (ticket.request.bodyPreview) {
+      console.log(`  Body:     ${ticket.request.bodyPreview}`);
+    }
+    return;
+  }
+
+  const decidedBy = process.env.USER;
+  const body =
+    action === "deny" ? { reason: values.reason, decidedBy } : { decidedBy };
+  const ticket = await adminRequest(
+    "POST",
+    `/admin/approvals/${encodeURIComponent(id)}/${action}`,
+    body,
+  );
+  printTicket(ticket);
+  if (ticket.status === "completed") {
+    console.log(`  Upstream: ${ticket.result?.status} ${ticket.result?.statusText ?? ""}`);
+  } else if (ticket.status === "failed") {
+    console.log(`  Error:    ${ticket.error}`);
+  }
+}
+
+async function cmdAudit() {
+  const { auditLogOptions, queryAuditLog, verifyAuditLog } = await import(AUDIT_ENTRY);
+  const { dir } = auditLogOptions(loadRemoteConfig().audit);
+  if (!dir) {
+    console.log("The persistent audit log is disabled (audit.disabled in remote.config.json).");
+    return;
+  }
+
+  if (positionals[0] === "verify") {
+    const result = verifyAuditLog(dir);
+    if (result.ok) {
+      console.log(
+        `Audit log OK: ${result.entries} entries in ${result.files.length} file(s)` +
+          (result.firstSeq > 1 ? ` (starting at seq ${result.firstSeq})` : ""),
+      );
+      return;
+    }
+    const { file, line, seq, reason } = result.error;
+    console.error(`Audit log verification FAILED at ${file}:${line}` + (seq ? ` (seq ${seq})` : ""));
+    console.error(`  ${reason}`);
+    console.error(`  ${result.entries} entries verified before the break.`);
+    process.exit(1);
+  }
+  if (positionals[0] && positionals[0] !== "list") {
+    console.error(`Unknown audit action: ${positionals[0]}\n`);
+    printAuditHelp();
+    process.exit(1);
+  }
+
+  const limit = parseInt(values.lines, 10);
+  const records = queryAuditLog(dir, {
+    ...(values.caller && { caller: values.caller }),
+    ...(values.route && { route: values.route }),
+    ...(values.action && { action: values.action }),
+    ...(values.outcome && { outcome: values.outcome }),
+    ...(values.since && { since: parseTimeArg(values.since) }),
+    ...(values.until && { until: parseTimeArg(values.until) }),
+    ...(limit > 0 && { limit }),
+  });
+
+  if (values.json) {
+    for (const record of records) console.log(JSON.stringify(record));
+    return;
+  }
+  if (records.length === 0) {
+    console.log("No matching audit entries.");
+    return;
+  }
+  for (const r of records) {
+    const request = [r.method, r.host].filter(Boolean).join(" ");
+    const parts = [
+      r.timestamp,
+      `#${r.seq}`,
+      r.action,
+      r.caller,
+      r.route && `route=${r.route}`,
+      request,
+      r.status !== undefined && `status=${r.status}`,
+      r.latencyMs !== undefined && `${r.latencyMs}ms`,
+      r.outcome && `[${r.outcome}]`,
+      r.reason ?? r.error,
+    ];
+    console.log(parts.filter(Boolean).join("  "));
+  }
+}
+
+/** ISO timestamp, ms since epoch, or a relative duration ago ("30m", "2h", "7d"). */
+function parseTimeArg(value) {
+  const relative = /^(\d+)([smhd])$/.exec(value);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2]];
+    return Date.now() - Number(relative[1]) * unit;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    console.error(`Invalid time: ${value}`);
+    process.exit(1);
+  }
+  return time;
+}
+
+async function cmdWebhooks() {
+  const action = positionals[0] ?? "list";
+  const webhookPath = positionals[1];
+  const filter = {
+    ...(webhookPath && { path: webhookPath }),
+    ...(values.id && { id: values.id }),
+    ...(values.since && { since: parseTimeArg(values.since) }),
+    ...(values.until && { until: parseTimeArg(values.until) }),
+  };
+
+  if (action === "list") {
+    const limit = parseInt(values.lines, 10);
+    const query = new URLSearchParams({
+      ...Object.fromEntries(Object.entries(filter).map(([k, v]) => [k, String(v)])),
+      ...(limit > 0 && { limit: String(limit) }),
+    });
+    const entries = await adminRequest("GET", `/admin/webhooks?${query}`);
+    if (values.json) {
+      for (const entry of entries) console.log(JSON.stringify(entry));
+      return;
+    }
+    if (entries.length === 0) {
+      console.log("No matching webhook requests.");
+      return;
+    }
+    for (const e of entries) {
+      const size = Buffer.from(e.body, "base64").length;
+      const parts = [e.receivedAt, e.id, `/webhooks/${e.path}`, e.deliveryId, `${size} bytes`];
+      console.log(parts.filter(Boolean).join("  "));
+    }
+    return;
+  }
+
+  if (action !== "replay") {
+    console.error(`Unknown webhooks action: ${action}\n`);
+    printWebhooksHelp();
+    process.exit(1);
+  }
+  if (!filter.id && !filter.since) {
+    console.error("Usage: drawlatch webhooks replay [path] (--id <id> | --since <time>)");
+    process.exit(1);
+  }
+
+  const { replayed, results } = await adminRequest("POST", "/admin/webhooks/replay", {
+    ...filter,
+    ...(values["skip-verification"] && { skipVerification: true }),
+  });
+  if (values.json) {
+    for (const result of results) console.log(JSON.stringify(result));
+    return;
+  }
+  for (const r of results) {
+    const label = `${r.id}  /webhooks/${r.path}` + (r.deliveryId ? `  ${r.deliveryId}` : "");
+    if (r.results.length === 0) {
+      console.log(`${label}  [no ingestor on this path]`);
+      continue;
+    }
+    for (const { connection, accepted, reason } of r.results) {
+      console.log(`${label}  ${connection}  ` + (accepted ? "[accepted]" : `[rejected] ${reason}`));
+    }
+  }
+  console.log(`Replayed ${replayed} request(s).`);
+}
+
+async function cmdSecrets() {
+  const store = await import(SECRETS_STORE_ENTRY);
+  const action = positionals[0] ?? "list";
+  const name = positionals[1];
+
+  if (!["list", "get", "set", "rm", "import"].includes(action)) {
+    console.error(`Unknown secrets action: ${action}\n`);
+    printSecretsHelp();
+    process.exit(1);
+  }
+  if ((action === "get" || action === "set" || action === "rm") && !name) {
+    console.error(`Usage: drawlatch secrets ${action} <NAME>`);
+    process.exit(1);
+  }
+
+  let key, secrets;
+  try {
+    key = store.resolveSecretsStoreKey(loadRemoteConfig().localKeysDir);
+    secrets = existsSync(SECRETS_FILE) ? store.readSecretsStore(SECRETS_FILE, key) : {};
+  } catch (err) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+
+  if (action === "list") {
+    const names = Object.keys(secrets).sort();
+    if (names.length === 0) {
+      console.log(`No secrets stored in ${SECRETS_FILE}.`);
+      return;
+    }
+    const width = Math.max(...names.map((n) => n.length));
+    for (const n of names) {
+      console.log(`${n.padEnd(width)}  ${store.maskSecret(secrets[n])}`);
+    }
+    return;
+  }
+
+  if (action === "get") {
+    if (!(name in secrets)) {
+      console.error(`No secret named ${name}.`);
+      process.exit(1);
+    }
+    console.log(store.maskSecret(secrets[name]));
+    return;
+  }
+
+  if (action === "rm") {
+    if (!(name in secrets)) {
+      console.error(`No secret named ${name}.`);
+      process.exit(1);
+    }
+    delete secrets[name];
+    writeSecretsOrExit(store, secrets, key);
+    console.log(`Removed ${name}.`);
+    printReloadHint();
+    return;
+  }
+
+  if (action === "import") {
+    // Import KEY=value lines from a .env file (default: ~/.drawlatch/.env)
+    const { parse } = await import("dotenv");
+    const file = positionals[1] ?? ENV_FILE;
+    if (!existsSync(file)) {
+      console.error(`File not found: ${file}`);
+      process.exit(1);
+    }
+    const imported = parse(readFileSync(file));
+    Object.assign(secrets, imported);
+    writeSecretsOrExit(store, secrets, key);
+    console.log(`Imported ${Object.keys(imported).length} secret(s) from ${file}.`);
+    console.log(`  Delete ${file} once the server runs without it.`);
+    printReloadHint();
+    return;
+  }
+
+  // set: value from the argument, piped stdin, or a hidden prompt
+  const value = positionals[2] ?? (await readSecretValue(`Value for ${name}: `));
+  if (!value) {
+    console.error("Refusing to store an empty value.");
+    process.exit(1);
+  }
+  const existed = name in secrets;
+  secrets[name] = value;
+  writeSecretsOrExit(store, secrets, key);
+  console.log(`${existed ? "Updated" : "Stored"} ${name} (${store.maskSecret(value)}).`);
+  printReloadHint();
+}
+
+function writeSecretsOrExit(store, secrets, key) {
+  try {
+    store.writeSecretsStore(SECRETS_FILE, secrets, key);
+  } catch (err) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+function printReloadHint() {
+  if (readPid()) console.log("  Run 'drawlatch reload' to apply it to the running server.");
+}
+
+/** Read a secret from piped stdin, or prompt for it without echoing. */
+async function readSecretValue(question) {
+  if (!process.stdin.isTTY) {
+    let data = "";
+    for await (const chunk of process.stdin) data += chunk;
+    return data.replace(/\r?\n$/, "");
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  process.stdout.write(question);
+  // Swallow the echo of typed characters
+  rl._writeToOutput = () => {};
+  const answer = await new Promise((res) => rl.question("", res));
+  rl.close();
+  process.stdout.write("\n");
+  return answer;
+}
+
+async function cmdKeys() {
+  const keys = await import(CRYPTO_ENTRY);
+  const action = positionals[0] ?? "list";
+  const target = positionals[1];
+  const revokedFile = getRevokedKeysPath();
+
+  const usage = {
+    add: "add <caller|remote-server> <public-key-dir>",
+    expire: "expire <caller|remote-server> <id>",
+    remove: "remove <caller|remote-server> <id>",
+    revoke: "revoke <fingerprint | caller|remote-server <id>>",
+  };
+  if (![...Object.keys(usage), "list", "revoked", "stage", "promote"].includes(action)) {
+    console.error(`Unknown keys action: ${action}\n`);
+    printKeysHelp();
+    process.exit(1);
+  }
+  const needed = { add: 3, expire: 3, remove: 3, revoke: 2 }[action] ?? 0;
+  if (positionals.length < needed) {
+    console.error(`Usage: drawlatch keys ${usage[action]}`);
+    process.exit(1);
+  }
+
+  try {
+    if (action === "list") {
+      let targets = target ? [target] : Object.keys(loadRemoteConfig().callers ?? {});
+      if (!target && existsSync(loadProxyConfig().remotePublicKeysDir)) {
+        targets = [...targets, "remote-server"];
+      }
+      if (targets.length === 0) {
+        console.log("No callers configured.");
+        return;
+      }
+      const revoked = keys.loadRevokedFingerprints(revokedFile);
+      for (const t of targets) {
+        const dir = resolveKeyDir(t);
+        console.log(`${t}  (${dir})`);
+        const peerKeys = keys.loadPeerKeys(dir);
+        if (peerKeys.length === 0) console.log("  (no keys)");
+        for (const key of peerKeys) printPeerKey(key, keys.keyState(key, revoked));
+      }
+      return;
+    }
+
+    if (action === "add") {
+      const dir = resolveKeyDir(target);
+      const pub = keys.loadPublicKeys(positionals[2]);
+      const now = Date.now();
+      const window = {
+        ...(values["not-before"] && { notBefore: parseTimeArg(values["not-before"]) }),
+        ...(values["not-after"] && { notAfter: parseTimeArg(values["not-after"]) }),
+      };
+      const revoked = keys.loadRevokedFingerprints(revokedFile);
+      const previous = keys
+        .loadPeerKeys(dir)
+        .filter((k) => keys.keyState(k, revoked, now) === "active");
+
+      const stamp = new Date(now).toISOString().slice(0, 19).replace(/[-:]/g, "");
+      const id = values.id ?? stamp.replace("T", "-");
+      const added = keys.addPeerKey(dir, id, pub, window);
+      console.log(`Added key "${added.id}" to ${dir}`);
+      printPeerKey(added, keys.keyState(added, revoked, now));
+
+      // Retire the keys it replaces once the grace period is over
+      if (values.grace) {
+        const notAfter = (window.notBefore ?? now) + parseDurationArg(values.grace);
+        for (const key of previous) {
+          if (key.notAfter !== undefined && key.notAfter <= notAfter) continue;
+          printPeerKey(keys.setKeyWindow(dir, key.id, { notAfter }), "active");
+        }
+      }
+      printReloadHint();
+      return;
+    }
+
+    if (action === "expire") {
+      const dir = resolveKeyDir(target);
+      const notAfter = Date.now() + (values.grace ? parseDurationArg(values.grace) : 0);
+      const key = keys.setKeyWindow(dir, positionals[2], { notAfter });
+      printPeerKey(key, keys.keyState(key, keys.loadRevokedFingerprints(revokedFile)));
+      printReloadHint();
+      return;
+    }
+
+    if (action === "remove") {
+      const dir = resolveKeyDir(target);
+      keys.removePeerKey(dir, positionals[2]);
+      console.log(`Removed key "${positionals[2]}" from ${dir}.`);
+      printReloadHint();
+      return;
+    }
+
+    if (action === "revoke") {
+      let fp = target;
+      if (!/^[0-9a-f]{2}(:[0-9a-f]{2}){15}$/i.test(target)) {
+        const dir = resolveKeyDir(target);
+        const key = keys.loadPeerKeys(dir).find((k) => k.id === positionals[2]);
+        if (!key) {
+          console.error(`Usage: drawlatch keys ${usage.revoke}`);
+          process.exit(1);
+        }
+        fp = key.fingerprint;
+      }
+      const entry = keys.revokeKey(revokedFile, fp, values.reason);
+      console.log(`Revoked ${entry.fingerprint} (listed in ${revokedFile}).`);
+      console.log("  New handshakes with this key are refused immediately.");
+      printReloadHint();
+      return;
+    }
+
+    if (action === "revoked") {
+      const entries = keys.loadRevokedKeys(revokedFile);
+      if (entries.length === 0) {
+        console.log("No revoked keys.");
+        return;
+      }
+      for (const r of entries) {
+        console.log([r.revokedAt, r.fingerprint, r.reason].filter(Boolean).join("  "));
+      }
+      return;
+    }
+
+    // The remote server's own keypair: stage the next one, then promote it
+    const keysDir = loadRemoteConfig().localKeysDir;
+    if (action === "stage") {
+      const bundle = keys.stageNextKeyBundle(keysDir);
+      const nextDir = join(keysDir, "next");
+      console.log(`Staged the next server keypair in ${nextDir}`);
+      console.log(`  Fingerprint: ${keys.fingerprint(keys.extractPublicKeys(bundle))}`);
+      console.log("\n  Next steps:");
+      console.log(`  1. Copy ${nextDir}/*.pub.pem to every proxy and run there:`);
+      console.log("       drawlatch keys add remote-server <copied-dir> --grace 7d");
+      console.log("  2. Once every proxy trusts it: drawlatch keys promote");
+      return;
+    }
+
+    const retiredDir = keys.promoteNextKeyBundle(keysDir);
+    console.log(`Promoted the staged keypair in ${keysDir}`);
+    console.log(`  Previous keypair moved to ${retiredDir}`);
+    printReloadHint();
+  } catch (err) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+/** Key directory for a caller alias, "remote-server" (the proxy's copy), or a path. */
+function resolveKeyDir(target) {
+  if (target === "remote-server") return loadProxyConfig().remotePublicKeysDir;
+  const caller = loadRemoteConfig().callers?.[target];
+  if (caller) return caller.peerKeyDir;
+  if (target.includes("/") && existsSync(target)) return resolve(target);
+  console.error(`Unknown caller: ${target} (pass a caller alias, remote-server, or a key directory)`);
+  process.exit(1);
+}
+
+function printPeerKey(key, state) {
+  const dates = [
+    key.notBefore !== undefined && `from ${new Date(key.notBefore).toISOString()}`,
+    key.notAfter !== undefined && `until ${new Date(key.notAfter).toISOString()}`,
+  ];
+  console.log(
+    [`  ${key.id}`, key.fingerprint, `[${state}]`, ...dates].filter(Boolean).join("  "),
+  );
+}
+
+/** A duration such as "30m", "12h" or "7d", in ms. */
+function parseDurationArg(value) {
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (!match) {
+    console.error(`Invalid duration: ${value} (use e.g. 30m, 12h, 7d)`);
+    process.exit(1);
+  }
+  return Number(match[1]) * { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2]];
+}
+
 async function cmdGenerateKeys() {
   // Forward all remaining positional args to the generate-keys script
   const child = spawn(process.execPath, [GENERATE_KEYS_ENTRY, ...positionals], {
@@ -415,6 +994,55 @@ async function cmdGenerateKeys() {
 
 // ── PID utilities ─────────────────────────────────────────────────
 
+/** Call the running server's admin API with the local admin token. */
+async function adminRequest(method, path, body) {
+  const token =
+    process.env.DRAWLATCH_ADMIN_TOKEN?.trim() ||
+    (existsSync(ADMIN_TOKEN_FILE) ? readFileSync(ADMIN_TOKEN_FILE, "utf-8").trim() : "");
+  if (!token) {
+    console.error(`No admin token found. Start the server once to create ${ADMIN_TOKEN_FILE},`);
+    console.error("or set DRAWLATCH_ADMIN_TOKEN.");
+    process.exit(1);
+  }
+
+  const config = loadRemoteConfig();
+  let res;
+  try {
+    res = await fetch(`http://${config.host}:${config.port}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(body && { "Content-Type": "application/json" }),
+      },
+      ...(body && { body: JSON.stringify(body) }),
+      signal: AbortSignal.timeout(60_000),
+    });
+  } catch (err) {
+    console.error(`Could not reach the remote server at ${config.host}:${config.port}: ${err.message}`);
+    console.error("  Is it running? drawlatch status");
+    process.exit(1);
+  }
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error(`Error: ${data.error ?? `${res.status} ${res.statusText}`}`);
+    process.exit(1);
+  }
+  return data;
+}
+
+function printTicket(ticket) {
+  const age = formatUptime(Date.now() - ticket.createdAt);
+  console.log(`${ticket.id}  [${ticket.status}]`);
+  console.log(`  Caller:   ${ticket.callerAlias}`);
+  console.log(
+    `  Request:  ${ticket.request.method} ${ticket.request.url}` +
+      (ticket.request.route ? ` (${ticket.request.route})` : ""),
+  );
+  console.log(`  Age:      ${age}`);
+  if (ticket.reason) console.log(`  Reason:   ${ticket.reason}`);
+}
+
 function isProcessAlive(pid) {
   try {
     process.kill(pid, 0);
@@ -561,9 +1189,15 @@ Commands:
   start              Start the remote server (background by default)
   stop               Stop the background remote server
   restart            Restart the background remote server
+  reload             Reload remote.config.json and .env without restarting
   status             Show server status (PID, port, uptime, health, sessions)
   logs               View and follow remote server logs
   config             Show effective configuration
+  approvals          List, approve or deny requests waiting for approval
+  audit              Query or verify the persistent audit log
+  webhooks           List or replay archived webhook requests
+  secrets            Manage the encrypted secrets store
+  keys               Rotate, expire and revoke keys
   generate-keys      Generate Ed25519 + X25519 keypairs
 
 Options:
@@ -579,8 +1213,14 @@ Examples:
   drawlatch start -f --tunnel          Start with a public tunnel for webhooks
   drawlatch start --port 8080          Start on a custom port
   drawlatch status                     Check if server is running
+  drawlatch reload                     Apply config changes without a restart
   drawlatch logs -n 100                View last 100 log lines
+  drawlatch approvals                  List requests waiting for approval
+  drawlatch audit --since 1h           Audit entries from the last hour
+  drawlatch webhooks replay --since 2h Replay webhooks received in the last 2 hours
+  drawlatch secrets set GITHUB_TOKEN   Store a secret (prompts for the value)
   drawlatch generate-keys remote       Generate remote server keypair
+  drawlatch keys revoke laptop old     Refuse a caller's lost key
   drawlatch generate-keys local mybot  Generate local keypair for alias "mybot"
 `);
 }
@@ -596,6 +1236,8 @@ Usage: drawlatch start [options]
 Options:
   -f, --foreground   Run in foreground (default when no command given)
   -t, --tunnel       Start a Cloudflare tunnel for webhook ingestion (requires cloudflared)
+  -w, --watch        Reload automatically when remote.config.json, .env or
+                     secrets.enc changes
   --port <number>    Override the configured port
   --host <address>   Override the configured host
   -h, --help         Show this help message
@@ -621,6 +1263,24 @@ Falls back to SIGKILL if the process does not exit within 5 seconds.
 `);
 }
 
+function printReloadHelp() {
+  console.log(`
+drawlatch reload
+
+Reload the remote server's configuration without restarting it.
+
+Usage: drawlatch reload [options]
+
+Options:
+  -h, --help   Show this help message
+
+Sends SIGHUP to the server process. The server re-reads remote.config.json,
+.env and secrets.enc, re-resolves routes for live sessions (sessions stay connected),
+closes sessions for removed callers or changed keys, and starts, stops or
+restarts only the ingestors whose configuration changed.
+`);
+}
+
 function printRestartHelp() {
   console.log(`
 drawlatch restart
@@ -688,6 +1348,167 @@ server configuration including callers and connections.
 `);
 }
 
+function printApprovalsHelp() {
+  console.log(`
+drawlatch approvals
+
+Review requests that are waiting for operator approval.
+
+Usage: drawlatch approvals [action] [id] [options]
+
+Actions:
+  list               List pending requests (default)
+  show <id>          Show one request, including a body excerpt
+  approve <id>       Approve and run the request
+  deny <id>          Deny the request
+
+Options:
+  --all              With list: include decided and expired requests
+  --reason <text>    With deny: reason returned to the agent
+  -h, --help         Show this help message
+
+Requests are parked when their route or a policy rule sets
+"requireApproval". The agent collects the outcome with the
+approval_status tool. Authenticates with ~/.drawlatch/admin.token
+(or DRAWLATCH_ADMIN_TOKEN).
+`);
+}
+
+function printAuditHelp() {
+  console.log(`
+drawlatch audit
+
+Query or verify the persistent, hash-chained audit log.
+
+Usage: drawlatch audit [list|verify] [options]
+
+Actions:
+  list               Show matching entries, oldest first (default)
+  verify             Check the hash chain for tampering or gaps
+
+Options:
+  --caller <alias>   Only entries for this caller
+  --route <name>     Only requests on this route
+  --action <name>    Only this action (e.g. response, policy_denied)
+  --outcome <value>  success, error, or denied
+  --since <time>     From this time: ISO 8601, ms, or relative (30m, 2h, 7d)
+  --until <time>     Up to this time (same formats)
+  -n, --lines <num>  Show at most this many entries (default: 50)
+  --json             Print raw JSON lines
+  -h, --help         Show this help message
+
+Reads the audit files directly from ~/.drawlatch/audit/ (or the
+"audit.dir" set in remote.config.json); the server does not need
+to be running.
+`);
+}
+
+function printWebhooksHelp() {
+  console.log(`
+drawlatch webhooks
+
+List or replay the raw webhook requests kept in the webhook archive.
+
+Usage: drawlatch webhooks [list|replay] [path] [options]
+
+Actions:
+  list               Show archived requests, oldest first (default)
+  replay             Feed archived requests back into their ingestors
+
+Options:
+  --id <id>          Only this archive ID or provider delivery ID
+  --since <time>     From this time: ISO 8601, ms, or relative (30m, 2h, 7d)
+  --until <time>     Up to this time (same formats)
+  -n, --lines <num>  With list: show at most this many requests (default: 50)
+  --skip-verification
+                     With replay: accept requests without checking their
+                     signatures (for providers that reject old timestamps)
+  --json             Print raw JSON lines
+  -h, --help         Show this help message
+
+[path] is the /webhooks/<path> segment the requests were posted to.
+Replay needs --id or --since; ingestors drop deliveries they already
+buffered. Requires "webhookArchive" in remote.config.json and a running
+server. Authenticates with ~/.drawlatch/admin.token (or
+DRAWLATCH_ADMIN_TOKEN).
+`);
+}
+
+function printSecretsHelp() {
+  console.log(`
+drawlatch secrets
+
+Manage the encrypted secrets store (~/.drawlatch/secrets.enc), an
+encrypted-at-rest replacement for .env. The server reads it at startup
+and on reload; "\${VAR}" references not set in the environment resolve
+from it.
+
+Usage: drawlatch secrets [action] [NAME] [options]
+
+Actions:
+  list               List stored names with masked values (default)
+  get <NAME>         Show a masked value
+  set <NAME> [value] Store a value. Without a value, reads piped stdin
+                     or prompts without echo (keeps it out of shell history)
+  rm <NAME>          Remove a value
+  import [file]      Import KEY=value lines from a .env file
+                     (default: ~/.drawlatch/.env)
+
+Options:
+  -h, --help         Show this help message
+
+Values are never printed in full. The key comes from the first of:
+  DRAWLATCH_SECRETS_PASSPHRASE   a passphrase
+  DRAWLATCH_SECRETS_KEY_FILE     a file holding the key
+  the remote server keypair      keys/remote (localKeysDir)
+The server must be started with the same key source.
+`);
+}
+
+function printKeysHelp() {
+  console.log(`
+drawlatch keys
+
+Manage the public keys each side accepts: several keys per caller with
+validity dates, a revocation list, and rotation of the server keypair.
+
+Usage: drawlatch keys <action> [args] [options]
+
+Actions:
+  list [target]                  Keys with their fingerprint and state
+  add <target> <pub-dir>         Accept the public keys in <pub-dir>
+  expire <target> <id>           Stop accepting a key (now, or after --grace)
+  remove <target> <id>           Delete a key from the directory
+  revoke <fingerprint>           Refuse a key everywhere on this machine
+  revoke <target> <id>           Same, by key ID
+  revoked                        Show the revocation list
+  stage                          Generate the next server keypair (keys/remote/next/)
+  promote                        Switch the server to the staged keypair
+
+<target> is a caller alias (its peerKeyDir), remote-server (the proxy's
+remotePublicKeysDir), or a key directory path.
+
+Options:
+  --id <id>            With add: key ID (default: a timestamp)
+  --not-before <time>  With add: accept the key from this time (ISO 8601 or ms)
+  --not-after <time>   With add: stop accepting it at this time
+  --grace <duration>   With add: expire the keys it replaces after this long
+                       (e.g. 7d); with expire: delay the expiry
+  --reason <text>      With revoke: why the key was revoked
+  -h, --help           Show this help message
+
+Rotating a caller key: generate a new keypair on the caller's machine
+(drawlatch generate-keys local <alias>), copy its *.pub.pem files to the
+server, run "drawlatch keys add <caller> <dir> --grace 7d", and switch the
+proxy to the new alias. Rotating the server keypair: "keys stage" on the
+server, "keys add remote-server <dir> --grace 7d" on every proxy, then
+"keys promote" and "drawlatch reload" on the server.
+
+The revocation list (~/.drawlatch/keys/revoked.json) is checked on every
+handshake. Reload the server to close sessions that use a revoked key.
+`);
+}
+
 function printGenerateKeysHelp() {
   console.log(`
 drawlatch generate-keys
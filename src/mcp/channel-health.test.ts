@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ChannelHealth, PING_FAILURES_DOWN } from './channel-health.js';
+
+describe('ChannelHealth', () => {
+  it('should be unknown until a ping is answered', () => {
+    const health = new ChannelHealth();
+    expect(health.snapshot()).toEqual({ state: 'unknown', consecutiveFailures: 0 });
+
+    health.recordPing(0);
+    expect(health.state).toBe('unknown');
+  });
+
+  it('should summarize round-trip times of answered pings', () => {
+    const health = new ChannelHealth();
+    for (const rtt of [10, 30, 20]) {
+      health.recordPing(1_000);
+      health.recordPong(rtt, 2_000);
+    }
+
+    expect(health.snapshot()).toEqual({
+      state: 'healthy',
+      lastPingAt: new Date(1_000).toISOString(),
+      lastPongAt: new Date(2_000).toISOString(),
+      rttMs: { last: 20, min: 10, avg: 20, max: 30, samples: 3 },
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should keep only the most recent samples', () => {
+    const health = new ChannelHealth();
+    for (let rtt = 1; rtt <= 25; rtt++) health.recordPong(rtt);
+
+    expect(health.snapshot().rttMs).toMatchObject({ min: 6, max: 25, samples: 20 });
+  });
+
+  it('should degrade on failures, go down after several, and recover on a pong', () => {
+    const health = new ChannelHealth();
+    health.recordPing();
+    health.recordFailure('fetch failed');
+    expect(health.state).toBe('degraded');
+
+    for (let i = 1; i < PING_FAILURES_DOWN; i++) health.recordFailure('fetch failed');
+    expect(health.snapshot()).toMatchObject({
+      state: 'down',
+      consecutiveFailures: PING_FAILURES_DOWN,
+      lastError: 'fetch failed',
+    });
+
+    health.recordPong(5);
+    expect(health.snapshot()).toMatchObject({ state: 'healthy', consecutiveFailures: 0 });
+    expect(health.snapshot()).not.toHaveProperty('lastError');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Health of the MCP proxy's encrypted channel, from periodic pings.
+ *
+ * The proxy sends an encrypted PingMessage to the remote server's `/ping`
+ * endpoint every `pingIntervalSeconds`. Each answered ping keeps the session
+ * from idling out and yields a round-trip time; failed pings are counted so
+ * a dead remote shows up in `channel_status` before a tool call fails.
+ */
+
+/** Default interval between pings (1 minute — well below the remote's 30-minute SESSION_TTL). */
+export const PING_INTERVAL_SECONDS = 60;
+
+/** Consecutive failed pings after which the remote is reported down. */
+export const PING_FAILURES_DOWN = 3;
+
+/** Round-trip times kept for the min / avg / max figures. */
+const RTT_SAMPLES = 20;
+
+/**
+ * "unknown" before the first ping, "healthy" when the last ping was answered,
+ * "degraded" after a few failures, "down" after PING_FAILURES_DOWN in a row.
+ */
+export type ChannelState = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface ChannelHealthSnapshot {
+  state: ChannelState;
+  lastPingAt?: string;
+  lastPongAt?: string;
+  /** Round-trip times in ms over the last RTT_SAMPLES answered pings */
+  rttMs?: { last: number; min: number; avg: number; max: number; samples: number };
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+export class ChannelHealth {
+  private readonly samples: number[] = [];
+  private lastPingAt: number | null = null;
+  private lastPongAt: number | null = null;
+  private failures = 0;
+  private lastError: string | null = null;
+
+  /** A ping is being sent. */
+  recordPing(now: number = Date.now()): void {
+    this.lastPingAt = now;
+  }
+
+  /** The remote answered a ping after `rttMs`. */
+  recordPong(rttMs: number, now: number = Date.now()): void {
+    this.lastPongAt = now;
+    this.failures = 0;
+    this.lastError = null;
+    this.samples.push(rttMs);
+    if (this.samples.length > RTT_SAMPLES) this.samples.shift();
+  }
+
+  /** A ping failed or went unanswered. */
+  recordFailure(error: string): void {
+    this.failures++;
+    this.lastError = error;
+  }
+
+  get state(): ChannelState {
+    if (this.lastPingAt === null) return 'unknown';
+    if (this.failures === 0) return this.lastPongAt === null ? 'unknown' : 'healthy';
+    return this.failures >= PING_FAILURES_DOWN ? 'down' : 'degraded';
+  }
+
+  snapshot(): ChannelHealthSnapshot {
+    const rtt = this.samples;
+    return {
+      state: this.state,
+      ...(this.lastPingAt !== null && { lastPingAt: new Date(this.lastPingAt).toISOString() }),
+      ...(this.lastPongAt !== null && { lastPongAt: new Date(this.lastPongAt).toISOString() }),
+      ...(rtt.length > 0 && {
+        rttMs: {
+          last: rtt[rtt.length - 1],
+          min: Math.min(...rtt),
+          avg: Math.round((rtt.reduce((sum, ms) => sum + ms, 0) / rtt.length) * 10) / 10,
+          max: Math.max(...rtt),
+          samples: rtt.length,
+        },
+      }),
+      consecutiveFailures: this.failures,
+      ...(this.lastError !== null && { lastError: this.lastError }),
+    };
+  }
+}
@@ -0,0 +1,439 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs';
+import http, { type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import {
+  ENDPOINT_RETRY_AFTER_MS,
+  EndpointPool,
+  isIdempotent,
+  isNetworkError,
+  isUndelivered,
+  withFailover,
+} from './failover.js';
+import { createApp } from '../remote/server.js';
+import type { RemoteServerConfig } from '../shared/config.js';
+import {
+  generateKeyBundle,
+  extractPublicKeys,
+  saveKeyBundle,
+  savePublicKeys,
+  EncryptedChannel,
+  type KeyBundle,
+} from '../shared/crypto/index.js';
+import {
+  HandshakeInitiator,
+  ResumptionInitiator,
+  type HandshakeReply,
+  type ResumeReply,
+  type SessionTicket,
+} from '../shared/protocol/index.js';
+
+// The proxy (./server.js) serves MCP over stdio — hand it one end of an
+// in-memory pair instead, so the test can call its tools as a client
+const proxyTransport = vi.hoisted(() => ({ client: undefined as InMemoryTransport | undefined }));
+vi.mock('@modelcontextprotocol/sdk/server/stdio.js', async () => {
+  const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+  const [client, server] = InMemoryTransport.createLinkedPair();
+  proxyTransport.client = client;
+  return {
+    StdioServerTransport: function StdioServerTransport() {
+      return server;
+    },
+  };
+});
+
+describe('EndpointPool', () => {
+  const urls = ['http://a', 'http://b', 'http://c'];
+
+  it('should try the current endpoint first, then the ones after it', () => {
+    const pool = new EndpointPool(urls);
+    expect(pool.current).toBe('http://a');
+    pool.use('http://b');
+    expect(pool.candidates()).toEqual(['http://b', 'http://c', 'http://a']);
+  });
+
+  it('should try recently failed endpoints last, longest-failed first', () => {
+    const pool = new EndpointPool(urls);
+    pool.markFailed('http://b', 'fetch failed', 2_000);
+    pool.markFailed('http://a', 'fetch failed', 1_000);
+
+    expect(pool.candidates(3_000)).toEqual(['http://c', 'http://a', 'http://b']);
+    expect(pool.candidates(1_000 + ENDPOINT_RETRY_AFTER_MS)).toEqual([
+      'http://a',
+      'http://c',
+      'http://b',
+    ]);
+  });
+
+  it('should forget the failures of an endpoint it switches to', () => {
+    const pool = new EndpointPool(urls);
+    pool.markFailed('http://c', 'fetch failed', 0);
+    pool.use('http://c');
+
+    expect(pool.snapshot()).toEqual([
+      { url: 'http://a', current: false },
+      { url: 'http://b', current: false },
+      { url: 'http://c', current: true },
+    ]);
+  });
+
+  it('should start at a random endpoint when balancing', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(urls).toContain(new EndpointPool(urls, { random: true }).current);
+    }
+    expect(() => new EndpointPool([])).toThrow('EndpointPool needs at least one URL');
+  });
+});
+
+describe('isIdempotent', () => {
+  it('should allow retrying reads and repeatable writes only', () => {
+    expect(isIdempotent('http_request', { method: 'GET' })).toBe(true);
+    expect(isIdempotent('http_request', { method: 'PUT' })).toBe(true);
+    expect(isIdempotent('http_request', { method: 'POST' })).toBe(false);
+    expect(isIdempotent('http_request', { method: 'PATCH' })).toBe(false);
+    expect(isIdempotent('poll_events', {})).toBe(true);
+    expect(isIdempotent('consume_events', { consumer: 'bot' })).toBe(false);
+    expect(isIdempotent('consume_events', { consumer: 'bot', ack: false })).toBe(true);
+  });
+});
+
+describe('Failover between replicated remote servers', () => {
+  let serverKeys: KeyBundle;
+  let clientKeys: KeyBundle;
+  const servers: Server[] = [];
+  let replicaA: string;
+  let replicaB: string;
+  /** A port nothing listens on */
+  let downUrl: string;
+  /** Accepts connections and drops them without answering */
+  let droppingUrl: string;
+  /** Accepts requests and never answers them */
+  let hangingUrl: string;
+
+  async function listen(server: Server): Promise<string> {
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeAll(async () => {
+    serverKeys = generateKeyBundle();
+    clientKeys = generateKeyBundle();
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [],
+      callers: { 'test-client': { peerKeyDir: '', connections: [] } },
+      rateLimitPerMinute: 60,
+    };
+    // Two replicas sharing the server keypair
+    const replica = () =>
+      http.createServer(
+        createApp({
+          config,
+          ownKeys: serverKeys,
+          authorizedPeers: [{ alias: 'test-client', keys: extractPublicKeys(clientKeys) }],
+        }),
+      );
+    replicaA = await listen(replica());
+    replicaB = await listen(replica());
+    droppingUrl = await listen(http.createServer((req) => req.socket.destroy()));
+    hangingUrl = await listen(http.createServer(() => undefined));
+
+    const down = http.createServer();
+    downUrl = await listen(down);
+    servers.pop();
+    await new Promise<void>((resolve) => down.close(() => resolve()));
+  });
+
+  afterAll(async () => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  /** Full handshake with one endpoint; returns the channel and its session ticket */
+  async function handshake(
+    url: string,
+  ): Promise<{ channel: EncryptedChannel; ticket: SessionTicket }> {
+    const initiator = new HandshakeInitiator(clientKeys, extractPublicKeys(serverKeys));
+    const initResp = await fetch(`${url}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    if (!initResp.ok) throw new Error(`Handshake init failed: ${initResp.status}`);
+    const keys = initiator.processReply((await initResp.json()) as HandshakeReply);
+
+    const finishResp = await fetch(`${url}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': keys.sessionId },
+      body: JSON.stringify(initiator.createFinish(keys)),
+    });
+    const finished = (await finishResp.json()) as { ticket: string; ticketExpiresAt: number };
+    return {
+      channel: new EncryptedChannel(keys),
+      ticket: {
+        ticket: finished.ticket,
+        resumptionSecret: keys.resumptionSecret,
+        expiresAt: finished.ticketExpiresAt,
+      },
+    };
+  }
+
+  it('should re-handshake on the next endpoint when the current one is down', async () => {
+    const pool = new EndpointPool([downUrl, replicaA]);
+    const passedOver: string[] = [];
+
+    const { channel } = await withFailover(pool, handshake, undefined, (url) => {
+      passedOver.push(url);
+    });
+
+    expect(channel.sessionId).toBeTruthy();
+    expect(passedOver).toEqual([downUrl]);
+    expect(pool.current).toBe(replicaA);
+    expect(pool.snapshot()[0]).toMatchObject({ url: downUrl, current: false });
+    expect(pool.snapshot()[0].lastError).toContain('ECONNREFUSED');
+  });
+
+  it('should throw the last error when every endpoint is down', async () => {
+    const pool = new EndpointPool([downUrl, droppingUrl]);
+    await expect(withFailover(pool, handshake)).rejects.toThrow('fetch failed');
+    expect(pool.current).toBe(downUrl);
+  });
+
+  it('should not fail over on errors the caller does not retry', async () => {
+    const pool = new EndpointPool([downUrl, replicaA]);
+    await expect(withFailover(pool, handshake, isUndelivered)).resolves.toBeDefined();
+
+    const dropping = new EndpointPool([droppingUrl, replicaA]);
+    await expect(withFailover(dropping, handshake, isUndelivered)).rejects.toThrow('fetch failed');
+  });
+
+  it('should tell a refused connection from a dropped one', async () => {
+    const refused: unknown = await fetch(downUrl).catch((err: unknown) => err);
+    expect(isNetworkError(refused)).toBe(true);
+    expect(isUndelivered(refused)).toBe(true);
+
+    const dropped: unknown = await fetch(droppingUrl, { method: 'POST', body: 'x' }).catch(
+      (err: unknown) => err,
+    );
+    expect(isNetworkError(dropped)).toBe(true);
+    expect(isUndelivered(dropped)).toBe(false);
+
+    expect(isNetworkError(new Error('Request failed: 500'))).toBe(false);
+  });
+
+  it('should count a timeout as a network error, but not as undelivered', async () => {
+    const timedOut: unknown = await fetch(hangingUrl, { signal: AbortSignal.timeout(50) }).catch(
+      (err: unknown) => err,
+    );
+    expect(isNetworkError(timedOut)).toBe(true);
+    expect(isUndelivered(timedOut)).toBe(false);
+  });
+
+  it('should resume a session ticket from one replica on another', async () => {
+    const { ticket } = await handshake(replicaA);
+
+    const initiator = new ResumptionInitiator(ticket);
+    const resp = await fetch(`${replicaB}/handshake/resume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    expect(resp.status).toBe(200);
+    const keys = initiator.processReply((await resp.json()) as ResumeReply);
+    expect(keys.sessionId).toBeTruthy();
+  });
+});
+
+describe('Proxy failover', () => {
+  const servers: Server[] = [];
+  let configDir: string;
+  let client: Client;
+  let targetUrl: string;
+  /** Upstream requests that reached the API, as "METHOD /path" */
+  const received: string[] = [];
+  /** Serves replica A — or stops answering, as the test needs */
+  let front: { url: string; server: Server; hits: string[]; mode: 'forward' | 'hang' | 'drop' };
+  let replicaB: string;
+  /** Requests replica B received, by path */
+  const hitsB: string[] = [];
+  let replicaA: ReturnType<typeof createApp>;
+
+  async function listen(server: Server): Promise<string> {
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /** A new first endpoint — a changed URL list also gives the proxy a fresh channel */
+  async function useNewFront(): Promise<void> {
+    const hits: string[] = [];
+    const server = http.createServer((req, res) => {
+      hits.push(req.url ?? '');
+      // No keep-alive: once the server closes, the next request is refused outright
+      res.setHeader('Connection', 'close');
+      if (front.mode === 'forward') replicaA(req, res);
+      else if (front.mode === 'drop') req.socket.destroy();
+    });
+    front = { url: '', server, hits, mode: 'forward' };
+    front.url = await listen(server);
+    fs.writeFileSync(
+      path.join(configDir, 'proxy.config.json'),
+      JSON.stringify({
+        remoteUrls: [front.url, replicaB],
+        localKeysDir: path.join(configDir, 'keys', 'local', 'agent'),
+        remotePublicKeysDir: path.join(configDir, 'keys', 'remote'),
+        connectTimeout: 500,
+        requestTimeout: 500,
+        pushEvents: false,
+        pingIntervalSeconds: 0,
+      }),
+    );
+    received.length = 0;
+    hitsB.length = 0;
+  }
+
+  async function callTool(
+    name: string,
+    args: Record<string, unknown> = {},
+  ): Promise<{ text: string; isError: boolean }> {
+    const result = (await client.callTool({ name, arguments: args })) as {
+      content: { text: string }[];
+      isError?: boolean;
+    };
+    return { text: result.content[0].text, isError: result.isError ?? false };
+  }
+
+  beforeAll(async () => {
+    const serverKeys = generateKeyBundle();
+    const clientKeys = generateKeyBundle();
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-failover-'));
+    saveKeyBundle(clientKeys, path.join(configDir, 'keys', 'local', 'agent'));
+    savePublicKeys(extractPublicKeys(serverKeys), path.join(configDir, 'keys', 'remote'));
+
+    targetUrl = await listen(
+      http.createServer((req, res) => {
+        received.push(`${req.method} ${req.url}`);
+        req.resume();
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"ok":true}');
+      }),
+    );
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [{ alias: 'api', allowedEndpoints: [`${targetUrl}/**`] }],
+      callers: { agent: { peerKeyDir: '', connections: ['api'] } },
+      rateLimitPerMinute: 600,
+    };
+    // Replicas share the keypair but not their sessions
+    const replica = () =>
+      createApp({
+        config,
+        ownKeys: serverKeys,
+        authorizedPeers: [{ alias: 'agent', keys: extractPublicKeys(clientKeys) }],
+      });
+    replicaA = replica();
+    const appB = replica();
+    replicaB = await listen(
+      http.createServer((req, res) => {
+        hitsB.push(req.url ?? '');
+        appB(req, res);
+      }),
+    );
+    await useNewFront();
+
+    vi.stubEnv('MCP_CONFIG_DIR', configDir);
+    vi.stubEnv('MCP_KEY_ALIAS', '');
+    await import('./server.js');
+    client = new Client({ name: 'failover-test', version: '1.0.0' });
+    if (!proxyTransport.client) throw new Error('The proxy did not open its transport');
+    await client.connect(proxyTransport.client);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    vi.unstubAllEnvs();
+    for (const server of servers) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should retry an idempotent call on the next endpoint after a timeout', async () => {
+    await useNewFront();
+    expect((await callTool('list_routes')).isError).toBe(false);
+    expect(front.hits).toEqual(['/handshake/init', '/handshake/finish', '/request']);
+
+    front.mode = 'hang';
+    const result = await callTool('secure_request', { method: 'GET', url: `${targetUrl}/items` });
+
+    expect(result.isError).toBe(false);
+    // A new session on B (resumed from A's ticket) before the retried request
+    expect(hitsB).toEqual(['/handshake/resume', '/handshake/finish', '/request']);
+    expect(received).toEqual(['GET /items']);
+  });
+
+  it('should retry a call that never reached the endpoint, even if not idempotent', async () => {
+    await useNewFront();
+    expect((await callTool('list_routes')).isError).toBe(false);
+
+    front.server.closeAllConnections();
+    await new Promise<void>((resolve) => front.server.close(() => resolve()));
+    servers.splice(servers.indexOf(front.server), 1);
+    const result = await callTool('secure_request', { method: 'POST', url: `${targetUrl}/items` });
+
+    expect(result.isError).toBe(false);
+    expect(hitsB).toEqual(['/handshake/resume', '/handshake/finish', '/request']);
+    expect(received).toEqual(['POST /items']);
+  });
+
+  it.each(['drop', 'hang'] as const)(
+    'should not retry a non-idempotent call when the endpoint fails mid-flight (%s)',
+    async (mode) => {
+      await useNewFront();
+      expect((await callTool('list_routes')).isError).toBe(false);
+
+      front.mode = mode;
+      const result = await callTool('secure_request', {
+        method: 'POST',
+        url: `${targetUrl}/items`,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(mode === 'drop' ? /fetch failed/ : /timed out/);
+      expect(hitsB).toEqual([]);
+      expect(received).toEqual([]);
+    },
+  );
+
+  it('should fail over when a ping times out', async () => {
+    await useNewFront();
+    expect((await callTool('list_routes')).isError).toBe(false);
+
+    front.mode = 'hang';
+    const status = JSON.parse((await callTool('channel_status', { probe: true })).text) as {
+      endpoints: { url: string; lastError?: string }[];
+    };
+    expect(status.endpoints[0]).toMatchObject({ url: front.url });
+    expect(status.endpoints[0].lastError).toMatch(/timeout/);
+
+    // The next call goes straight to B instead of timing out on A again
+    const hitsBefore = front.hits.length;
+    expect((await callTool('list_routes')).isError).toBe(false);
+    expect(front.hits).toHaveLength(hitsBefore);
+    expect(hitsB).toEqual(['/handshake/resume', '/handshake/finish', '/request']);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Failover between replicated endpoints of one remote server.
+ *
+ * A remote may list several equivalent URLs (`remoteUrls`) — replicas that
+ * share the server keypair, so a session ticket from one resumes on another.
+ * The proxy stays on one endpoint until it fails, then re-handshakes on the
+ * next. Endpoints that failed recently are tried last.
+ *
+ * A failed request is retried on the next endpoint only when that cannot
+ * repeat it: when the connection was never made, or, for idempotent tool
+ * calls, after any network error — a timeout included, since a hung replica
+ * is as dead as one that refuses connections.
+ */
+
+/** How long a failed endpoint is tried only after the others */
+export const ENDPOINT_RETRY_AFTER_MS = 30_000;
+
+/** Connection errors (the `cause.code` of a failed fetch) raised before any bytes were sent */
+const UNDELIVERED_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/** HTTP methods whose requests can be sent twice */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Tools that only read, or whose effect does not change when repeated */
+const IDEMPOTENT_TOOLS = new Set([
+  'list_routes',
+  'poll_events',
+  'ingestor_status',
+  'approval_status',
+  'ack_events',
+  'reset_consumer',
+]);
+
+export interface EndpointStatus {
+  url: string;
+  current: boolean;
+  failedAt?: string;
+  lastError?: string;
+}
+
+export class EndpointPool {
+  private readonly urls: string[];
+  private currentIndex: number;
+  private readonly failures = new Map<string, { at: number; error: string }>();
+
+  /**
+   * @param random - Start at a random endpoint instead of the first, spreading
+   *   proxies across the replicas
+   */
+  constructor(urls: string[], { random = false }: { random?: boolean } = {}) {
+    if (urls.length === 0) throw new Error('EndpointPool needs at least one URL');
+    this.urls = [...urls];
+    this.currentIndex = random ? Math.floor(Math.random() * urls.length) : 0;
+  }
+
+  /** The endpoint in use */
+  get current(): string {
+    return this.urls[this.currentIndex];
+  }
+
+  get size(): number {
+    return this.urls.length;
+  }
+
+  /**
+   * Endpoints in the order to try them: the current one and then the others
+   * after it, skipping any that failed in the last ENDPOINT_RETRY_AFTER_MS —
+   * those come last, longest-failed first.
+   */
+  candidates(now: number = Date.now()): string[] {
+    const rotated = this.urls.map((_, i) => this.urls[(this.currentIndex + i) % this.urls.length]);
+    const recent = (url: string): boolean => {
+      const failure = this.failures.get(url);
+      return failure !== undefined && now - failure.at < ENDPOINT_RETRY_AFTER_MS;
+    };
+    const failed = rotated
+      .filter(recent)
+      .sort((a, b) => (this.failures.get(a)?.at ?? 0) - (this.failures.get(b)?.at ?? 0));
+    return [...rotated.filter((url) => !recent(url)), ...failed];
+  }
+
+  /** Switch to the endpoint a connection was just made to, and forget its failures. */
+  use(url: string): void {
+    const index = this.urls.indexOf(url);
+    if (index === -1) throw new Error(`Unknown endpoint ${url}`);
+    this.currentIndex = index;
+    this.failures.delete(url);
+  }
+
+  markFailed(url: string, error: string, now: number = Date.now()): void {
+    this.failures.set(url, { at: now, error });
+  }
+
+  snapshot(): EndpointStatus[] {
+    return this.urls.map((url, i) => {
+      const failure = this.failures.get(url);
+      return {
+        url,
+        current: i === this.currentIndex,
+        ...(failure && { failedAt: new Date(failure.at).toISOString(), lastError: failure.error }),
+      };
+    });
+  }
+}
+
+/**
+ * Whether fetch() failed without a response — the endpoint is unreachable,
+ * dropped the connection, or did not answer in time.
+ */
+export function isNetworkError(err: unknown): boolean {
+  return isFetchFailure(err) || isTimeout(err);
+}
+
+/**
+ * Whether fetch() failed before the connection was made, so the request never
+ * left the proxy. A timeout never counts: the remote may have received it.
+ */
+export function isUndelivered(err: unknown): boolean {
+  if (!isFetchFailure(err)) return false;
+  const cause = err.cause as { code?: unknown } | undefined;
+  return typeof cause?.code === 'string' && UNDELIVERED_CODES.has(cause.code);
+}
+
+/** undici's error for a request that got no response */
+function isFetchFailure(err: unknown): err is TypeError {
+  return err instanceof TypeError && err.message === 'fetch failed';
+}
+
+/** A request aborted by its timeout signal (`AbortSignal.timeout` raises a TimeoutError) */
+function isTimeout(err: unknown): boolean {
+  return err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+}
+
+/** An error's message, with the underlying cause of a failed fetch (e.g., "connect ECONNREFUSED"). */
+export function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  return isFetchFailure(err) && err.cause instanceof Error
+    ? `${err.message}: ${err.cause.message}`
+    : err.message;
+}
+
+/** Whether a tool call has the same effect when the remote receives it twice. */
+export function isIdempotent(toolName: string, toolInput: Record<string, unknown>): boolean {
+  if (toolName === 'http_request') {
+    return typeof toolInput.method === 'string' && IDEMPOTENT_METHODS.has(toolInput.method);
+  }
+  // Consuming moves the consumer's position unless it only peeks
+  if (toolName === 'consume_events') return toolInput.ack === false;
+  return IDEMPOTENT_TOOLS.has(toolName);
+}
+
+/**
+ * Run `attempt` on each endpoint in candidate order until one succeeds, and
+ * make that endpoint current.
+ *
+ * @param shouldFailOver - Whether an error moves on to the next endpoint
+ *   (default: any error)
+ * @param onFailure - Called for each endpoint that failed and was passed over
+ * @throws the last endpoint's error when all fail, or the first error
+ *   shouldFailOver rejects
+ */
+export async function withFailover<T>(
+  pool: EndpointPool,
+  attempt: (url: string) => Promise<T>,
+  shouldFailOver: (err: unknown) => boolean = () => true,
+  onFailure?: (url: string, message: string) => void,
+): Promise<T> {
+  const candidates = pool.candidates();
+  for (let i = 0; ; i++) {
+    const url = candidates[i];
+    try {
+      const result = await attempt(url);
+      pool.use(url);
+      return result;
+    } catch (err) {
+      if (!shouldFailOver(err)) throw err;
+      const message = describeError(err);
+      pool.markFailed(url, message);
+      if (i === candidates.length - 1) throw err;
+      onFailure?.(url, message);
+    }
+  }
+}
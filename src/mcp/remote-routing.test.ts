@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { remotesForUrl, selectRemote, type RouteSummary } from './remote-routing.js';
+
+const routesByRemote = new Map<string, RouteSummary[]>([
+  ['work', [{ allowedEndpoints: ['https://api.github.com/**'] }, { allowedEndpoints: [] }]],
+  [
+    'personal',
+    [
+      { allowedEndpoints: ['https://api.openai.com/v1/*'] },
+      { allowedEndpoints: ['https://api.github.com/users/*'] },
+    ],
+  ],
+]);
+
+describe('remotesForUrl', () => {
+  it('should return every remote with a matching route', () => {
+    expect(remotesForUrl('https://api.openai.com/v1/models', routesByRemote)).toEqual(['personal']);
+    expect(remotesForUrl('https://api.github.com/users/octocat', routesByRemote)).toEqual([
+      'work',
+      'personal',
+    ]);
+  });
+
+  it('should not treat routes without endpoints as matching everything', () => {
+    expect(remotesForUrl('https://example.com/', routesByRemote)).toEqual([]);
+  });
+});
+
+describe('selectRemote', () => {
+  it('should pick the only remote with a matching route', () => {
+    expect(selectRemote('https://api.github.com/repos/a/b', routesByRemote)).toBe('work');
+  });
+
+  it('should refuse to guess between several matching remotes', () => {
+    expect(() => selectRemote('https://api.github.com/users/octocat', routesByRemote)).toThrow(
+      'matches routes on several remotes (work, personal) — pass remote to choose one',
+    );
+  });
+
+  it('should name unreachable remotes when nothing matches', () => {
+    expect(() => selectRemote('https://example.com/', routesByRemote, ['staging'])).toThrow(
+      'No remote has a route matching https://example.com/ (could not list routes on staging)' +
+        ' — pass remote to choose one of: work, personal, staging',
+    );
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Choosing the remote server for a secure_request when the MCP proxy has
+ * several (the proxy config's `remotes`).
+ *
+ * Each remote's routes come from its list_routes tool. A request goes to the
+ * remote with a route whose allowedEndpoints match its URL — matched the way
+ * the remote's own matchRoute does — unless the caller names a remote.
+ */
+
+import { isEndpointAllowed } from '../shared/endpoints.js';
+
+/** How long a remote's route list is reused for routing before it is fetched again */
+export const ROUTES_CACHE_MS = 60_000;
+
+/** The part of a list_routes entry that routing needs */
+export interface RouteSummary {
+  allowedEndpoints: string[];
+}
+
+/**
+ * Names of the remotes with a route matching the URL, in map order.
+ * Routes with empty allowedEndpoints match nothing.
+ */
+export function remotesForUrl(
+  url: string,
+  routesByRemote: ReadonlyMap<string, RouteSummary[]>,
+): string[] {
+  return [...routesByRemote]
+    .filter(([, routes]) =>
+      routes.some(
+        (route) =>
+          route.allowedEndpoints.length > 0 && isEndpointAllowed(url, route.allowedEndpoints),
+      ),
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Pick the remote that should handle a request for the URL.
+ *
+ * @param unreachable - Remotes whose routes could not be listed, named in the error
+ * @throws Error if no remote or more than one remote has a matching route
+ */
+export function selectRemote(
+  url: string,
+  routesByRemote: ReadonlyMap<string, RouteSummary[]>,
+  unreachable: string[] = [],
+): string {
+  const matches = remotesForUrl(url, routesByRemote);
+  if (matches.length === 1) return matches[0];
+
+  if (matches.length > 1) {
+    throw new Error(
+      `${url} matches routes on several remotes (${matches.join(', ')}) — pass remote to choose one`,
+    );
+  }
+  const names = [...routesByRemote.keys(), ...unreachable];
+  throw new Error(
+    `No remote has a route matching ${url}` +
+      (unreachable.length > 0 ? ` (could not list routes on ${unreachable.join(', ')})` : '') +
+      ` — pass remote to choose one of: ${names.join(', ')}`,
+  );
+}
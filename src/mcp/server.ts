@@ -4,6 +4,12 @@
  * Claude Code spawns this as a child process (stdio transport).
  * It exposes MCP tools, encrypts requests, forwards them to the remote
  * secure server over HTTP, decrypts responses, and returns them to Claude.
+ * Ingested events are pushed from the remote's /events stream and forwarded
+ * to the client as logging notifications.
+ *
+ * The proxy can hold several named remote servers (the config's `remotes`),
+ * each with its own handshake and channel. secure_request goes to the remote
+ * whose routes match the URL; the other tools take an optional `remote`.
  *
  * The proxy holds NO secrets. It only has:
  *   - Its own Ed25519 + X25519 keypair (for authentication + encryption)
@@ -15,24 +21,196 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 import crypto from 'node:crypto';
 
-import { loadProxyConfig } from '../shared/config.js';
-import { loadKeyBundle, loadPublicKeys, EncryptedChannel } from '../shared/crypto/index.js';
+import {
+  DEFAULT_REMOTE,
+  getRevokedKeysPath,
+  loadProxyConfig,
+  resolveProxyRemotes,
+  type ProxyConfig,
+} from '../shared/config.js';
+import {
+  loadKeyBundle,
+  loadPeerKeys,
+  loadRevokedFingerprints,
+  keyState,
+  EncryptedChannel,
+  type SessionKeys,
+} from '../shared/crypto/index.js';
 import {
   HandshakeInitiator,
+  ResumptionInitiator,
+  RekeyInitiator,
+  REKEY_AFTER_MESSAGES,
+  REKEY_AFTER_MS,
+  readProxyStream,
+  readEventStream,
+  decodeBody,
+  STREAM_CONTENT_TYPE,
+  EVENT_HEARTBEAT_INTERVAL,
+  type EventSubscribe,
+  type HandshakeFinish,
+  type PingMessage,
+  type PongMessage,
   type ProxyRequest,
   type ProxyResponse,
+  type RekeyResponse,
+  type ResumeReply,
+  type SessionTicket,
 } from '../shared/protocol/index.js';
+import { ChannelHealth, PING_INTERVAL_SECONDS } from './channel-health.js';
+import {
+  EndpointPool,
+  describeError,
+  isIdempotent,
+  isNetworkError,
+  isUndelivered,
+  withFailover,
+} from './failover.js';
+import { ROUTES_CACHE_MS, selectRemote, type RouteSummary } from './remote-routing.js';
 
 // ── State ──────────────────────────────────────────────────────────────────
 
-let channel: EncryptedChannel | null = null;
-let remoteUrl: string;
+/** One remote server from the proxy config and the encrypted channel to it */
+interface Remote {
+  name: string;
+  /** Endpoints from the config, in order */
+  urls: string[];
+  /** The endpoint in use and the failover state of the others */
+  endpoints: EndpointPool;
+  publicKeysDir: string;
+  channel: EncryptedChannel | null;
+  /** Handshake in progress, shared by concurrent callers of getChannel() */
+  pendingChannel: Promise<EncryptedChannel> | null;
+  /** Ticket from the last established session, for resuming without a full handshake */
+  resumption: SessionTicket | null;
+  /** Highest event id forwarded so far — the catch-up cursor after a reconnect */
+  lastEventId: number;
+  /** Results of the periodic pings, reported by channel_status */
+  health: ChannelHealth;
+  /** Last list_routes result, used to route secure_request */
+  routes: { list: RouteSummary[]; fetchedAt: number } | null;
+}
+
+/** Remotes by name, in config order — refreshed from the config by configuredRemotes() */
+const remotes = new Map<string, Remote>();
+/** Whether main() has started; remotes added to the config later get their loops then */
+let backgroundStarted = false;
+/** When the channel's keys are replaced (from the proxy config) */
+let rekeyPolicy = { afterMessages: REKEY_AFTER_MESSAGES, afterMs: REKEY_AFTER_MS };
+
+/** Logger name on the logging notifications that carry pushed events */
+const EVENT_LOGGER = 'drawlatch-events';
+/** Reconnect backoff for the event stream (ms) */
+const EVENT_RECONNECT_MIN = 1_000;
+const EVENT_RECONNECT_MAX = 60_000;
+
+/**
+ * The remotes in the current proxy config. A remote whose URLs or key
+ * directory changed starts over with a fresh channel; removed remotes are
+ * dropped, which also ends their event stream and ping loops.
+ */
+function configuredRemotes(): Remote[] {
+  const config = loadProxyConfig();
+  const resolved = resolveProxyRemotes(config);
+
+  for (const name of remotes.keys()) {
+    if (!(name in resolved)) remotes.delete(name);
+  }
+  for (const [name, { remoteUrls, remotePublicKeysDir }] of Object.entries(resolved)) {
+    const existing = remotes.get(name);
+    if (
+      existing?.urls.join(' ') === remoteUrls.join(' ') &&
+      existing.publicKeysDir === remotePublicKeysDir
+    ) {
+      continue;
+    }
+    // A changed entry may be a different server — nothing carries over
+
+    const remote: Remote = {
+      name,
+      urls: remoteUrls,
+      endpoints: new EndpointPool(remoteUrls, { random: config.balanceEndpoints }),
+      publicKeysDir: remotePublicKeysDir,
+      channel: null,
+      pendingChannel: null,
+      resumption: null,
+      lastEventId: -1,
+      health: new ChannelHealth(),
+      routes: null,
+    };
+    remotes.set(name, remote);
+    if (backgroundStarted) startBackgroundLoops(remote, config);
+  }
+  return [...remotes.values()];
+}
+
+/** Whether the config names its remotes — results then say which remote they came from. */
+function namedRemotes(): boolean {
+  return remotes.size !== 1 || !remotes.has(DEFAULT_REMOTE);
+}
+
+/**
+ * Look up a remote by name, or the first configured remote when no name is given.
+ * @throws Error if no remote has that name
+ */
+function resolveRemote(name?: string): Remote {
+  const all = configuredRemotes();
+  if (name === undefined) return all[0];
+
+  const remote = remotes.get(name);
+  if (!remote) {
+    throw new Error(
+      `Unknown remote "${name}" — configured remotes: ${all.map((r) => r.name).join(', ')}`,
+    );
+  }
+  return remote;
+}
+
+/** Whether the remote is still the configured one (its loops stop once it is not). */
+function isCurrent(remote: Remote): boolean {
+  return remotes.get(remote.name) === remote;
+}
+
+/** Log prefix naming the remote when there are several. */
+function tag(remote: Remote): string {
+  return remote.name === DEFAULT_REMOTE ? '[mcp-proxy]' : `[mcp-proxy:${remote.name}]`;
+}
 
 // ── Handshake ──────────────────────────────────────────────────────────────
 
-async function establishChannel(): Promise<EncryptedChannel> {
+/** Establish a session on the current endpoint, or on the next one that answers. */
+async function connect(remote: Remote): Promise<EncryptedChannel> {
+  return withFailover(
+    remote.endpoints,
+    (url) => establishChannel(remote, url),
+    undefined,
+    (url, message) => {
+      console.error(
+        `${tag(remote)} Could not connect to ${url} (${message}), trying the next endpoint`,
+      );
+    },
+  );
+}
+
+async function establishChannel(remote: Remote, url: string): Promise<EncryptedChannel> {
   const config = loadProxyConfig();
-  remoteUrl = config.remoteUrl;
+  rekeyPolicy = {
+    afterMessages: config.rekeyAfterMessages ?? REKEY_AFTER_MESSAGES,
+    afterMs: (config.rekeyAfterMinutes ?? REKEY_AFTER_MS / 60_000) * 60_000,
+  };
+
+  // A ticket from an earlier session skips the Ed25519 handshake
+  if (remote.resumption && remote.resumption.expiresAt > Date.now()) {
+    try {
+      return await resumeChannel(remote, url, remote.resumption, config.connectTimeout);
+    } catch (err) {
+      // An unreachable endpoint will not take a full handshake either
+      if (isNetworkError(err)) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${tag(remote)} ${message} — falling back to a full handshake`);
+    }
+  }
+  remote.resumption = null;
 
   // Log which key identity is being used
   const envAlias = process.env.MCP_KEY_ALIAS?.trim();
@@ -44,13 +222,21 @@ async function establishChannel(): Promise<EncryptedChannel> {
   console.error(`[mcp-proxy] Local keys dir: ${config.localKeysDir}`);
 
   const ownKeys = loadKeyBundle(config.localKeysDir);
-  const remotePub = loadPublicKeys(config.remotePublicKeysDir);
+  // Every remote key still inside its window — old and new overlap while the
+  // remote server rotates its keypair
+  const revoked = loadRevokedFingerprints(getRevokedKeysPath());
+  const remotePub = loadPeerKeys(remote.publicKeysDir)
+    .filter((key) => keyState(key, revoked) === 'active')
+    .map((key) => key.keys);
+  if (remotePub.length === 0) {
+    throw new Error(`No active remote server key in ${remote.publicKeysDir}`);
+  }
 
   const initiator = new HandshakeInitiator(ownKeys, remotePub);
 
   // Step 1: Send HandshakeInit
   const initMsg = initiator.createInit();
-  const initResp = await fetch(`${remoteUrl}/handshake/init`, {
+  const initResp = await fetch(`${url}/handshake/init`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(initMsg),
@@ -66,40 +252,188 @@ async function establishChannel(): Promise<EncryptedChannel> {
 
   // Step 3: Process reply and derive keys
   const sessionKeys = initiator.processReply(reply);
-  const newChannel = new EncryptedChannel(sessionKeys);
 
   // Step 3b: Send encrypted "finish" to prove we derived the right keys
-  const finishMsg = initiator.createFinish(sessionKeys);
-  const finishResp = await fetch(`${remoteUrl}/handshake/finish`, {
+  const newChannel = await finishHandshake(
+    remote,
+    url,
+    sessionKeys,
+    initiator.createFinish(sessionKeys),
+    config.connectTimeout,
+  );
+  console.error(`${tag(remote)} Secure channel established (session: ${sessionKeys.sessionId})`);
+  return newChannel;
+}
+
+/**
+ * Resume with a session ticket (see shared/protocol/resumption.ts).
+ * @throws Error if the remote refuses the ticket — a full handshake is needed then
+ */
+async function resumeChannel(
+  remote: Remote,
+  url: string,
+  ticket: SessionTicket,
+  timeout: number,
+): Promise<EncryptedChannel> {
+  const initiator = new ResumptionInitiator(ticket);
+  const resumeResp = await fetch(`${url}/handshake/resume`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(initiator.createInit()),
+    signal: AbortSignal.timeout(timeout),
+  });
+
+  if (!resumeResp.ok) {
+    const errText = await resumeResp.text();
+    throw new Error(`Session resumption failed: ${resumeResp.status} ${errText}`);
+  }
+
+  const sessionKeys = initiator.processReply((await resumeResp.json()) as ResumeReply);
+  const newChannel = await finishHandshake(
+    remote,
+    url,
+    sessionKeys,
+    initiator.createFinish(sessionKeys),
+    timeout,
+  );
+  console.error(`${tag(remote)} Secure channel resumed (session: ${sessionKeys.sessionId})`);
+  return newChannel;
+}
+
+/** Send the finish message and keep the session ticket the remote returns. */
+async function finishHandshake(
+  remote: Remote,
+  url: string,
+  sessionKeys: SessionKeys,
+  finishMsg: HandshakeFinish,
+  timeout: number,
+): Promise<EncryptedChannel> {
+  const finishResp = await fetch(`${url}/handshake/finish`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'X-Session-Id': sessionKeys.sessionId,
     },
     body: JSON.stringify(finishMsg),
-    signal: AbortSignal.timeout(config.connectTimeout),
+    signal: AbortSignal.timeout(timeout),
   });
 
   if (!finishResp.ok) {
     throw new Error(`Handshake finish failed: ${finishResp.status}`);
   }
 
-  console.error(`[mcp-proxy] Secure channel established (session: ${sessionKeys.sessionId})`);
-  return newChannel;
+  const finished = (await finishResp.json()) as { ticket?: string; ticketExpiresAt?: number };
+  remote.resumption =
+    finished.ticket && finished.ticketExpiresAt
+      ? {
+          ticket: finished.ticket,
+          resumptionSecret: sessionKeys.resumptionSecret,
+          expiresAt: finished.ticketExpiresAt,
+        }
+      : null;
+  return new EncryptedChannel(sessionKeys);
+}
+
+/**
+ * Replace the session keys in place (see shared/protocol/rekey.ts). If the
+ * remote refuses, a new session is established instead.
+ */
+async function rekeyChannel(remote: Remote, ch: EncryptedChannel): Promise<EncryptedChannel> {
+  const config = loadProxyConfig();
+  const initiator = new RekeyInitiator(ch.getKeys());
+
+  const url = remote.endpoints.current;
+  let resp: Response;
+  try {
+    resp = await fetch(`${url}/rekey`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': ch.sessionId,
+      },
+      body: new Uint8Array(ch.encryptJSON(initiator.createRequest())),
+      signal: AbortSignal.timeout(config.connectTimeout),
+    });
+  } catch (err) {
+    if (remote.endpoints.size === 1 || !isNetworkError(err)) throw err;
+    failOver(remote, url, err);
+    return connect(remote);
+  }
+
+  // The session expired, or the remote does not support rekeying
+  if (!resp.ok) {
+    console.error(`${tag(remote)} Rekey refused (${resp.status}), establishing a new session`);
+    return connect(remote);
+  }
+
+  const response = ch.decryptJSON<RekeyResponse>(Buffer.from(await resp.arrayBuffer()));
+  const keys = initiator.processResponse(response);
+  console.error(
+    `${tag(remote)} Session keys replaced after ${ch.messageCount} message(s) (session: ${ch.sessionId})`,
+  );
+  return new EncryptedChannel(keys);
 }
 
-async function getChannel(): Promise<EncryptedChannel> {
-  channel ??= await establishChannel();
-  return channel;
+/** Whether the channel's keys are due for replacement. */
+function needsRekey(ch: EncryptedChannel): boolean {
+  return (
+    ch.messageCount >= rekeyPolicy.afterMessages || Date.now() - ch.createdAt >= rekeyPolicy.afterMs
+  );
+}
+
+async function getChannel(remote: Remote): Promise<EncryptedChannel> {
+  if (remote.channel && needsRekey(remote.channel)) {
+    remote.pendingChannel ??= rekeyChannel(remote, remote.channel).finally(() => {
+      remote.pendingChannel = null;
+    });
+    remote.channel = await remote.pendingChannel;
+    return remote.channel;
+  }
+  if (remote.channel) return remote.channel;
+  remote.pendingChannel ??= connect(remote).finally(() => {
+    remote.pendingChannel = null;
+  });
+  remote.channel = await remote.pendingChannel;
+  return remote.channel;
 }
 
 // ── Encrypted request/response ─────────────────────────────────────────────
 
+/** Running totals reported while a streamed response is being received. */
+type StreamProgressListener = (received: { chunks: number; bytes: number }) => void;
+
+/**
+ * Send a tool call to the remote. If the endpoint is unreachable, the call is
+ * retried on the remote's next endpoint — after any network error when the
+ * call is idempotent, otherwise only when it was never delivered.
+ */
 async function sendEncryptedRequest(
+  remote: Remote,
   toolName: string,
   toolInput: Record<string, unknown>,
+  onStreamProgress?: StreamProgressListener,
+): Promise<unknown> {
+  const retryable = isIdempotent(toolName, toolInput) ? isNetworkError : isUndelivered;
+  for (let attempt = 1; ; attempt++) {
+    const ch = await getChannel(remote);
+    const url = remote.endpoints.current;
+    try {
+      return await sendOverChannel(remote, ch, url, toolName, toolInput, onStreamProgress);
+    } catch (err) {
+      if (attempt >= remote.endpoints.size || !retryable(err)) throw err;
+      failOver(remote, url, err);
+    }
+  }
+}
+
+async function sendOverChannel(
+  remote: Remote,
+  ch: EncryptedChannel,
+  url: string,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  onStreamProgress?: StreamProgressListener,
 ): Promise<unknown> {
-  const ch = await getChannel();
   const config = loadProxyConfig();
 
   const request: ProxyRequest = {
@@ -113,43 +447,310 @@ async function sendEncryptedRequest(
   // Encrypt the entire request
   const encrypted = ch.encryptJSON(request);
 
-  const resp = await fetch(`${remoteUrl}/request`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/octet-stream',
-      'X-Session-Id': ch.sessionId,
-    },
-    body: new Uint8Array(encrypted),
-    signal: AbortSignal.timeout(config.requestTimeout),
-  });
+  // requestTimeout bounds the whole exchange — except for streams, where it
+  // bounds the gap between frames so long downloads are not cut off. Aborting
+  // with a TimeoutError lets an idempotent call fail over to the next endpoint.
+  const abort = new AbortController();
+  let idleTimer = setTimeout(() => {
+    abort.abort(
+      new DOMException(`Request timed out after ${config.requestTimeout}ms`, 'TimeoutError'),
+    );
+  }, config.requestTimeout);
+  const resetIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      abort.abort(
+        new DOMException(`Stream idle for more than ${config.requestTimeout}ms`, 'TimeoutError'),
+      );
+    }, config.requestTimeout);
+  };
 
-  if (!resp.ok) {
-    // If session expired, re-establish
+  try {
+    const resp = await fetch(`${url}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': ch.sessionId,
+      },
+      body: new Uint8Array(encrypted),
+      signal: abort.signal,
+    });
+
+    if (!resp.ok) {
+      // If session expired, re-establish
+      if (resp.status === 401) {
+        console.error(`${tag(remote)} Session expired, re-establishing...`);
+        remote.channel = null;
+        clearTimeout(idleTimer);
+        return await sendEncryptedRequest(remote, toolName, toolInput, onStreamProgress);
+      }
+      throw new Error(`Request failed: ${resp.status} ${await resp.text()}`);
+    }
+
+    // Streamed response — reassemble the encrypted frames
+    if (resp.headers.get('content-type')?.startsWith(STREAM_CONTENT_TYPE) && resp.body) {
+      resetIdleTimer();
+      const { start, end, body } = await readProxyStream(resp.body, ch, request.id, (received) => {
+        resetIdleTimer();
+        onStreamProgress?.(received);
+      });
+      if (end.error) {
+        throw new Error(`Upstream stream failed after ${end.totalBytes} bytes: ${end.error}`);
+      }
+      return {
+        status: start.status,
+        statusText: start.statusText,
+        headers: start.headers,
+        ...decodeBody(body, start.headers['content-type'] ?? ''),
+      };
+    }
+
+    // Decrypt the response
+    const encryptedResponse = Buffer.from(await resp.arrayBuffer());
+    const response = ch.decryptJSON<ProxyResponse>(encryptedResponse);
+
+    if (!response.success) {
+      throw new Error(response.error ?? 'Remote server returned failure');
+    }
+
+    return response.result;
+  } finally {
+    clearTimeout(idleTimer);
+  }
+}
+
+/**
+ * Move off an endpoint that failed with a network error or timed out. The
+ * next getChannel() re-handshakes, trying the remote's other endpoints first.
+ */
+function failOver(remote: Remote, url: string, err: unknown): void {
+  if (remote.endpoints.size === 1 || !isNetworkError(err)) return;
+  remote.endpoints.markFailed(url, describeError(err));
+  if (remote.endpoints.current === url) remote.channel = null;
+  console.error(`${tag(remote)} ${url} unreachable (${describeError(err)}), failing over`);
+}
+
+// ── Routing across remotes ─────────────────────────────────────────────────
+
+/** Fetch the remote's routes and keep them for routing. */
+async function fetchRoutes(remote: Remote): Promise<unknown> {
+  const result = await sendEncryptedRequest(remote, 'list_routes', {});
+  if (Array.isArray(result)) {
+    remote.routes = { list: result as RouteSummary[], fetchedAt: Date.now() };
+  }
+  return result;
+}
+
+/**
+ * Choose the remote for a secure_request: the named one, the only one, or
+ * the one whose routes match the URL.
+ * @throws Error if the name is unknown or the URL does not single out a remote
+ */
+async function remoteForRequest(url: string, name?: string): Promise<Remote> {
+  const all = configuredRemotes();
+  if (name !== undefined || all.length === 1) return resolveRemote(name);
+
+  const listed = await Promise.all(
+    all.map(async (remote) => {
+      if (!remote.routes || Date.now() - remote.routes.fetchedAt > ROUTES_CACHE_MS) {
+        try {
+          await fetchRoutes(remote);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(`${tag(remote)} Could not list routes: ${message}`);
+        }
+      }
+      return remote;
+    }),
+  );
+  const routesByRemote = new Map<string, RouteSummary[]>();
+  const unreachable: string[] = [];
+  for (const remote of listed) {
+    if (remote.routes) routesByRemote.set(remote.name, remote.routes.list);
+    else unreachable.push(remote.name);
+  }
+  return resolveRemote(selectRemote(url, routesByRemote, unreachable));
+}
+
+// ── Event push ─────────────────────────────────────────────────────────────
+
+/**
+ * Hold one /events subscription open until it ends, forwarding each pushed
+ * event as a logging notification. After a reconnect, events buffered on the
+ * remote since the last forwarded one are replayed first.
+ *
+ * @param onOpen - Called once the remote has accepted the subscription
+ */
+async function subscribeEvents(remote: Remote, onOpen: () => void): Promise<void> {
+  const ch = await getChannel(remote);
+  const url = remote.endpoints.current;
+  const subscription: EventSubscribe = {
+    type: 'event_subscribe',
+    id: crypto.randomUUID(),
+    ...(remote.lastEventId >= 0 && { afterId: remote.lastEventId }),
+    timestamp: Date.now(),
+  };
+
+  // A live stream carries at least one frame per heartbeat interval
+  const abort = new AbortController();
+  let idleTimer: NodeJS.Timeout | undefined;
+  const resetIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      abort.abort(new Error('Event stream idle — no heartbeat from the remote server'));
+    }, EVENT_HEARTBEAT_INTERVAL * 3);
+  };
+
+  try {
+    resetIdleTimer();
+    let resp: Response;
+    try {
+      resp = await fetch(`${url}/events`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Session-Id': ch.sessionId,
+        },
+        body: new Uint8Array(ch.encryptJSON(subscription)),
+        signal: abort.signal,
+      });
+    } catch (err) {
+      failOver(remote, url, err);
+      throw err;
+    }
     if (resp.status === 401) {
-      console.error('[mcp-proxy] Session expired, re-establishing...');
-      channel = null;
-      return sendEncryptedRequest(toolName, toolInput);
+      remote.channel = null;
+      throw new Error('Session expired');
+    }
+    if (!resp.ok || !resp.body) {
+      throw new Error(`Event subscription failed: ${resp.status} ${await resp.text()}`);
     }
-    throw new Error(`Request failed: ${resp.status} ${await resp.text()}`);
+    onOpen();
+
+    const end = await readEventStream(resp.body, ch, subscription.id, (message) => {
+      resetIdleTimer();
+      if (message.type !== 'event_push') return;
+      remote.lastEventId = Math.max(remote.lastEventId, message.event.id);
+      const data = namedRemotes() ? { remote: remote.name, ...message.event } : message.event;
+      void server
+        .sendLoggingMessage({ level: 'info', logger: EVENT_LOGGER, data })
+        .catch(() => undefined);
+    });
+    // "rekeyed" needs nothing more — the reconnect subscribes with the new keys
+    if (end?.reason === 'session_closed' && remote.channel === ch) remote.channel = null;
+    // The reconnect replays what was still buffered for us from lastEventId
+    if (end?.reason === 'slow_consumer') {
+      console.error(`${tag(remote)} Event stream fell behind — reopening it`);
+    }
+  } finally {
+    clearTimeout(idleTimer);
+  }
+}
+
+/** Keep the remote's event subscription open while it is configured, reconnecting with backoff. */
+async function runEventStream(remote: Remote): Promise<void> {
+  let backoff = EVENT_RECONNECT_MIN;
+  while (isCurrent(remote)) {
+    try {
+      await subscribeEvents(remote, () => {
+        backoff = EVENT_RECONNECT_MIN;
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${tag(remote)} Event stream closed: ${message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, backoff));
+    backoff = Math.min(backoff * 2, EVENT_RECONNECT_MAX);
+  }
+}
+
+// ── Channel health ─────────────────────────────────────────────────────────
+
+/**
+ * Send one encrypted ping and wait for the pong.
+ * @returns the round-trip time in ms
+ */
+async function sendPing(remote: Remote): Promise<number> {
+  const ch = await getChannel(remote);
+  const url = remote.endpoints.current;
+  const config = loadProxyConfig();
+  const ping: PingMessage = { type: 'ping', timestamp: Date.now() };
+
+  const started = performance.now();
+  let resp: Response;
+  try {
+    resp = await fetch(`${url}/ping`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': ch.sessionId,
+      },
+      body: new Uint8Array(ch.encryptJSON(ping)),
+      signal: AbortSignal.timeout(config.connectTimeout),
+    });
+  } catch (err) {
+    // A dead endpoint is left before a tool call runs into it
+    failOver(remote, url, err);
+    throw err;
+  }
+  if (resp.status === 401) {
+    // The next ping (or request) resumes or re-handshakes
+    if (remote.channel === ch) remote.channel = null;
+    throw new Error('Session expired');
+  }
+  if (!resp.ok) {
+    throw new Error(`Ping failed: ${resp.status} ${await resp.text()}`);
   }
 
-  // Decrypt the response
-  const encryptedResponse = Buffer.from(await resp.arrayBuffer());
-  const response = ch.decryptJSON<ProxyResponse>(encryptedResponse);
+  const pong = ch.decryptJSON<PongMessage>(Buffer.from(await resp.arrayBuffer()));
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime validation of the decrypted reply
+  if (pong.type !== 'pong' || pong.echoTimestamp !== ping.timestamp) {
+    throw new Error('Ping failed: unexpected reply');
+  }
+  return Math.round((performance.now() - started) * 10) / 10;
+}
 
-  if (!response.success) {
-    throw new Error(response.error ?? 'Remote server returned failure');
+/** Ping once and record the outcome. */
+async function probeChannel(remote: Remote): Promise<void> {
+  remote.health.recordPing();
+  try {
+    remote.health.recordPong(await sendPing(remote));
+  } catch (err) {
+    const message = describeError(err);
+    remote.health.recordFailure(message);
+    console.error(`${tag(remote)} Ping failed: ${message}`);
   }
+}
 
-  return response.result;
+/** Ping the remote while it is configured, keeping the session alive. */
+async function runPingLoop(remote: Remote, intervalMs: number): Promise<void> {
+  while (isCurrent(remote)) {
+    await probeChannel(remote);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/** Start the remote's event stream and ping loop, as the config asks. */
+function startBackgroundLoops(remote: Remote, config: ProxyConfig): void {
+  if (config.pushEvents !== false) {
+    void runEventStream(remote);
+  }
+  const pingInterval = config.pingIntervalSeconds ?? PING_INTERVAL_SECONDS;
+  if (pingInterval > 0) {
+    void runPingLoop(remote, pingInterval * 1000);
+  }
 }
 
 // ── MCP Server ─────────────────────────────────────────────────────────────
 
-const server = new McpServer({
-  name: 'secure-proxy',
-  version: '1.0.0',
-});
+const server = new McpServer(
+  {
+    name: 'secure-proxy',
+    version: '1.0.0',
+  },
+  // Logging carries events pushed from the remote server
+  { capabilities: { logging: {} } },
+);
 
 /**
  * Generic HTTP request tool — similar to the api-proxy but all traffic is
@@ -167,21 +768,66 @@ server.tool(
       .optional()
       .describe('Request headers, may contain ${VAR} placeholders'),
     body: z.any().optional().describe('Request body (object for JSON, string for raw)'),
+    bodyEncoding: z
+      .enum(['base64'])
+      .optional()
+      .describe(
+        'Set to "base64" when body is base64-encoded binary data (file uploads). Binary responses are returned base64-encoded with bodyEncoding: "base64".',
+      ),
+    stream: z
+      .boolean()
+      .optional()
+      .describe(
+        'Stream the response body in chunks instead of buffering it on the remote. Use for large downloads or server-sent events.',
+      ),
+    remote: z
+      .string()
+      .optional()
+      .describe(
+        'Remote server to send the request to (see list_routes). Omit to use the remote whose routes match the URL.',
+      ),
   },
-  async ({ method, url, headers, body }) => {
+  async ({ method, url, headers, body, bodyEncoding, stream, remote: remoteName }, extra) => {
     try {
-      const result = await sendEncryptedRequest('http_request', {
-        method,
-        url,
-        headers: headers ?? {},
-        body,
-      });
+      const remote = await remoteForRequest(url, remoteName);
+
+      // Report download progress when the client asked for it
+      const progressToken = extra._meta?.progressToken;
+      const onStreamProgress: StreamProgressListener | undefined =
+        stream && progressToken !== undefined
+          ? ({ bytes }) => {
+              void extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress: bytes },
+                })
+                .catch(() => undefined);
+            }
+          : undefined;
+
+      const result = await sendEncryptedRequest(
+        remote,
+        'http_request',
+        {
+          method,
+          url,
+          headers: headers ?? {},
+          body,
+          ...(bodyEncoding && { bodyEncoding }),
+          ...(stream && { stream: true }),
+        },
+        onStreamProgress,
+      );
+      const attributed =
+        namedRemotes() && typeof result === 'object' && result !== null
+          ? { remote: remote.name, ...result }
+          : result;
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+            text: typeof attributed === 'string' ? attributed : JSON.stringify(attributed, null, 2),
           },
         ],
       };
@@ -203,18 +849,44 @@ server.tool(
 // eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
 server.tool(
   'list_routes',
-  'List all available routes on the remote server. Returns metadata (name, description, docs link), allowed endpoint patterns, available secret placeholder names (not values), and auto-injected header names for each route. Use this to discover which APIs are available and how to call them.',
+  'List all available routes on the remote server (on every remote server, each route naming its remote, when several are configured). Returns metadata (name, description, docs link), allowed endpoint patterns, available secret placeholder names (not values), and auto-injected header names for each route. Use this to discover which APIs are available and how to call them.',
   // Empty schema — no input needed
   { _: z.string().optional().describe('unused') },
   async () => {
     try {
-      const result = await sendEncryptedRequest('list_routes', {});
+      const all = configuredRemotes();
+      if (!namedRemotes()) {
+        const result = await fetchRoutes(all[0]);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      // Merge every remote's routes, noting which remote each belongs to
+      const listed = await Promise.allSettled(all.map((remote) => fetchRoutes(remote)));
+      const routes: unknown[] = [];
+      const failures: string[] = [];
+      listed.forEach((outcome, i) => {
+        const name = all[i].name;
+        if (outcome.status === 'rejected') {
+          const reason: unknown = outcome.reason;
+          const message = reason instanceof Error ? reason.message : String(reason);
+          failures.push(`Could not list routes on remote "${name}": ${message}`);
+        } else if (Array.isArray(outcome.value)) {
+          for (const route of outcome.value as object[]) routes.push({ remote: name, ...route });
+        }
+      });
+      if (failures.length === all.length) throw new Error(failures.join('; '));
+
       return {
         content: [
-          {
-            type: 'text' as const,
-            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-          },
+          { type: 'text' as const, text: JSON.stringify(routes, null, 2) },
+          ...failures.map((text) => ({ type: 'text' as const, text })),
         ],
       };
     } catch (err) {
@@ -235,7 +907,7 @@ server.tool(
 // eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
 server.tool(
   'poll_events',
-  'Poll for new events from ingestors (Discord messages, GitHub webhooks, etc.). Returns events received since the given cursor. Pass after_id from the last event you received to get only new events. Omit connection to get events from all ingestors.',
+  'Poll for new events from ingestors (Discord messages, GitHub webhooks, etc.). Returns events received since the given cursor. Pass after_id from the last event you received to get only new events. Omit connection to get events from all ingestors. Payloads can be large: narrow them with event_types, filter and limit, and return only the fields you need with fields.',
   {
     connection: z
       .string()
@@ -245,12 +917,37 @@ server.tool(
       .number()
       .optional()
       .describe('Return events with id > after_id. Omit or -1 for all buffered events.'),
+    event_types: z
+      .array(z.string())
+      .optional()
+      .describe('Only return events of these types (e.g., ["MESSAGE_CREATE"])'),
+    filter: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Field conditions that must all hold, as "path == value" or "path != value" (e.g., "data.channel_id == 123")',
+      ),
+    limit: z.number().optional().describe('Return at most this many events (the oldest matching)'),
+    fields: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Only return these fields of each event, as dotted paths (e.g., ["eventType", "data.content", "data.author.username"]). id is always included.',
+      ),
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
   },
-  async ({ connection, after_id }) => {
+  async ({ connection, after_id, event_types, filter, limit, fields, remote }) => {
     try {
-      const result = await sendEncryptedRequest('poll_events', {
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'poll_events', {
         connection,
         after_id,
+        event_types,
+        filter,
+        limit,
+        fields,
       });
       return {
         content: [
@@ -277,11 +974,68 @@ server.tool(
 // eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
 server.tool(
   'ingestor_status',
-  'Get the status of all active ingestors for this caller. Shows connection state, buffer sizes, event counts, and any errors.',
-  { _: z.string().optional().describe('unused') },
-  async () => {
+  'Get the status of all active ingestors for this caller. Shows connection state, buffer sizes, event counts, any errors, and forwarding dead letters.',
+  {
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
+  },
+  async ({ remote }) => {
+    try {
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'ingestor_status', {});
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Read events through a named consumer whose position the server keeps.
+ * Several agents sharing one identity can each use their own consumer.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
+server.tool(
+  'consume_events',
+  'Read events through a named consumer whose position the server remembers, so you do not need to track after_id. Returns unacknowledged events oldest first and acknowledges them, unless ack is false (then acknowledge with ack_events after processing). Use a distinct consumer name per agent or task to read the same events independently.',
+  {
+    consumer: z
+      .string()
+      .describe('Consumer name (letters, digits, ".", "_", "-"), e.g., "triage-bot"'),
+    connection: z
+      .string()
+      .optional()
+      .describe('Only consume events from this connection alias. Omit for all.'),
+    limit: z.number().optional().describe('Maximum number of events to return (default: 100)'),
+    ack: z
+      .boolean()
+      .optional()
+      .describe('Acknowledge the returned events (default: true). false = peek without moving.'),
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
+  },
+  async ({ consumer, connection, limit, ack, remote }) => {
     try {
-      const result = await sendEncryptedRequest('ingestor_status', {});
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'consume_events', {
+        consumer,
+        connection,
+        limit,
+        ack,
+      });
       return {
         content: [
           {
@@ -300,12 +1054,195 @@ server.tool(
   },
 );
 
+/**
+ * Acknowledge events a consumer read with ack: false.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
+server.tool(
+  'ack_events',
+  'Acknowledge events read with consume_events (ack: false) once processed. Acknowledging an event also acknowledges all earlier events from the same connection. Pass connection only if an event id is reported as ambiguous.',
+  {
+    consumer: z.string().describe('Consumer name used with consume_events'),
+    event_ids: z.array(z.number()).describe('IDs of the processed events'),
+    connection: z
+      .string()
+      .optional()
+      .describe('Connection alias the events came from (their "source")'),
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
+  },
+  async ({ consumer, event_ids, connection, remote }) => {
+    try {
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'ack_events', {
+        consumer,
+        event_ids,
+        connection,
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Move a consumer's position to re-read or skip events.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
+server.tool(
+  'reset_consumer',
+  'Move a consumer to re-read or skip events: "earliest" re-reads everything still buffered, "latest" skips to new events only, and an ISO timestamp re-reads events received at or after that time.',
+  {
+    consumer: z.string().describe('Consumer name used with consume_events'),
+    to: z.string().describe('"earliest", "latest", or an ISO 8601 timestamp'),
+    connection: z
+      .string()
+      .optional()
+      .describe('Only move the position for this connection alias. Omit for all.'),
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
+  },
+  async ({ consumer, to, connection, remote }) => {
+    try {
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'reset_consumer', {
+        consumer,
+        to,
+        connection,
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Check on requests that secure_request parked for operator approval.
+ * Returns the upstream result once an operator has approved the request.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
+server.tool(
+  'approval_status',
+  'Check on requests that need operator approval. When secure_request returns status "pending_approval", pass its approvalId to get the outcome: "pending", "denied" (with reason), "completed" (with the upstream response in result), "failed", or "expired". Omit approval_id to list your recent approval requests.',
+  {
+    approval_id: z
+      .string()
+      .optional()
+      .describe('approvalId returned by secure_request. Omit to list all your approval requests.'),
+    status: z
+      .enum(['pending', 'approved', 'denied', 'completed', 'failed', 'expired'])
+      .optional()
+      .describe('When listing, only return requests with this status'),
+    remote: z
+      .string()
+      .optional()
+      .describe('Remote server to ask (see list_routes). Omit for the first configured remote.'),
+  },
+  async ({ approval_id, status, remote }) => {
+    try {
+      const result = await sendEncryptedRequest(resolveRemote(remote), 'approval_status', {
+        approval_id,
+        status,
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Report the encrypted channel's state and the results of the periodic pings,
+ * optionally pinging first. Answered locally — only the ping reaches the remote.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- registerTool is not available in this SDK version
+server.tool(
+  'channel_status',
+  'Check the encrypted channel to the remote server (to each remote server, when several are configured): whether a session is open, how old its keys are, round-trip times of recent pings, and whether the remote is "healthy", "degraded" or "down". Set probe to ping the remote now instead of reporting the last ping.',
+  {
+    probe: z.boolean().optional().describe('Ping the remote server before reporting'),
+  },
+  async ({ probe }) => {
+    const all = configuredRemotes();
+    if (probe) await Promise.all(all.map((remote) => probeChannel(remote)));
+
+    const config = loadProxyConfig();
+    const statuses = all.map((remote) => {
+      const ch = remote.channel;
+      return {
+        ...(namedRemotes() && { remote: remote.name }),
+        remoteUrl: remote.endpoints.current,
+        ...(remote.endpoints.size > 1 && { endpoints: remote.endpoints.snapshot() }),
+        session: ch
+          ? {
+              sessionId: ch.sessionId,
+              keysAgeSeconds: Math.round((Date.now() - ch.createdAt) / 1000),
+              messages: ch.messageCount,
+            }
+          : null,
+        ...(remote.resumption && {
+          ticketExpiresAt: new Date(remote.resumption.expiresAt).toISOString(),
+        }),
+        pingIntervalSeconds: config.pingIntervalSeconds ?? PING_INTERVAL_SECONDS,
+        health: remote.health.snapshot(),
+      };
+    });
+    const status = namedRemotes() ? statuses : statuses[0];
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(status, null, 2) }],
+    };
+  },
+);
+
 // ── Start ──────────────────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('[mcp-proxy] MCP Secure Proxy server started (stdio transport)');
+
+  const config = loadProxyConfig();
+  for (const remote of configuredRemotes()) {
+    startBackgroundLoops(remote, config);
+  }
+  backgroundStarted = true;
 }
 
 main().catch((err: unknown) => {
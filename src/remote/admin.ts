@@ -0,0 +1,332 @@
+/**
+ * Operator-facing admin API, mounted at `/admin` on the remote server.
+ *
+ * Unlike `/request`, these endpoints are not used by agents and do not go
+ * through the encrypted channel. They are authenticated with a bearer token
+ * read from DRAWLATCH_ADMIN_TOKEN or ~/.drawlatch/admin.token (created with
+ * 0600 permissions on first server start). Without a token the admin API is
+ * disabled.
+ *
+ *   GET  /admin/approvals[?status=&caller=]  — list approval tickets
+ *   GET  /admin/approvals/:id                — one ticket
+ *   POST /admin/approvals/:id/approve        — run the parked request
+ *   POST /admin/approvals/:id/deny           — discard it ({ reason? })
+ *   GET  /admin/audit[?caller=&route=&action=&outcome=&since=&until=&limit=]
+ *                                            — query the persistent audit log
+ *   GET  /admin/audit/verify                 — check the audit hash chain
+ *   GET  /admin/webhooks[?path=&id=&since=&until=&limit=]
+ *                                            — list archived webhook requests
+ *   POST /admin/webhooks/replay              — replay them ({ path?, id?, since?,
+ *                                              until?, limit?, skipVerification? })
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import express from 'express';
+
+import { getAdminTokenPath } from '../shared/config.js';
+import type { ApprovalQueue, ApprovalStatus } from './approvals.js';
+import type { AuditLog, AuditOutcome, AuditQuery } from './audit.js';
+import type { IngestorManager } from './ingestors/index.js';
+import {
+  replayWebhooks,
+  type WebhookArchive,
+  type WebhookArchiveQuery,
+} from './webhook-archive.js';
+
+const APPROVAL_STATUSES: ApprovalStatus[] = [
+  'pending',
+  'approved',
+  'denied',
+  'completed',
+  'failed',
+  'expired',
+];
+
+const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'error', 'denied'];
+
+/** Archived requests listed when no `limit` is given. */
+const DEFAULT_WEBHOOK_LIST_LIMIT = 100;
+
+/** Parse a `since` / `until` query value: ISO 8601 or ms since epoch. */
+function parseTime(value: string | number): number {
+  const time = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid time: ${value}`);
+  return time;
+}
+
+/** Build an audit query from request query parameters. */
+function parseAuditQuery(query: Record<string, unknown>): AuditQuery {
+  const param = (name: string) => (typeof query[name] === 'string' ? query[name] : undefined);
+  const filter: AuditQuery = {};
+
+  const caller = param('caller');
+  const route = param('route');
+  const action = param('action');
+  const outcome = param('outcome');
+  const since = param('since');
+  const until = param('until');
+  const limit = param('limit');
+
+  if (caller) filter.caller = caller;
+  if (route) filter.route = route;
+  if (action) filter.action = action;
+  if (outcome) {
+    if (!AUDIT_OUTCOMES.includes(outcome as AuditOutcome)) {
+      throw new Error(`Unknown outcome: ${JSON.stringify(outcome)}`);
+    }
+    filter.outcome = outcome as AuditOutcome;
+  }
+  if (since) filter.since = parseTime(since);
+  if (until) filter.until = parseTime(until);
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid limit: ${limit}`);
+    filter.limit = n;
+  }
+  return filter;
+}
+
+/**
+ * Build a webhook archive query from query parameters or a JSON body, where
+ * times and the limit may also be numbers.
+ */
+function parseWebhookQuery(source: Record<string, unknown>): WebhookArchiveQuery {
+  const param = (name: string) => {
+    const value = source[name];
+    return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+  };
+  const filter: WebhookArchiveQuery = {};
+
+  const webhookPath = param('path');
+  const id = param('id');
+  const since = param('since');
+  const until = param('until');
+  const limit = param('limit');
+
+  if (webhookPath !== undefined) filter.path = String(webhookPath);
+  if (id !== undefined) filter.id = String(id);
+  if (since !== undefined) filter.since = parseTime(since);
+  if (until !== undefined) filter.until = parseTime(until);
+  if (limit !== undefined) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid limit: ${limit}`);
+    filter.limit = n;
+  }
+  return filter;
+}
+
+/**
+ * The configured admin token: DRAWLATCH_ADMIN_TOKEN, else the token file.
+ * Returns null when neither is set (admin API disabled).
+ */
+export function readAdminToken(): string | null {
+  const fromEnv = process.env.DRAWLATCH_ADMIN_TOKEN?.trim();
+  if (fromEnv) return fromEnv;
+  const tokenPath = getAdminTokenPath();
+  if (!fs.existsSync(tokenPath)) return null;
+  return fs.readFileSync(tokenPath, 'utf-8').trim() || null;
+}
+
+/**
+ * Return the admin token, generating and saving one (0600) if none exists.
+ * Called once at server startup so the CLI on the same machine can authenticate.
+ */
+export function ensureAdminToken(): string {
+  const existing = readAdminToken();
+  if (existing) return existing;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const tokenPath = getAdminTokenPath();
+  fs.mkdirSync(path.dirname(tokenPath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(tokenPath, token + '\n', { mode: 0o600 });
+  console.log(`[remote] Generated admin token: ${tokenPath}`);
+  return token;
+}
+
+/** Constant-time bearer token check. */
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) return false;
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+export interface AdminRouterOptions {
+  /** Bearer token required on every admin request. Null disables the admin API. */
+  token: string | null;
+  approvals: ApprovalQueue;
+  /** The persistent audit log, for the query and verify endpoints */
+  auditLog: AuditLog;
+  /** Archived webhook requests; null when `webhookArchive` is not configured */
+  webhookArchive: WebhookArchive | null;
+  /** Receives replayed webhook requests */
+  ingestorManager: IngestorManager;
+  /** Records operator actions in the audit log */
+  onAction: (action: string, details: Record<string, unknown>) => void;
+}
+
+export function createAdminRouter(options: AdminRouterOptions): express.Router {
+  const { token, approvals, auditLog, webhookArchive, ingestorManager, onAction } = options;
+  const router = express.Router();
+
+  router.use(express.json());
+
+  router.use((req, res, next) => {
+    if (!token) {
+      res.status(404).json({ error: 'Admin API is disabled (no admin token configured)' });
+      return;
+    }
+    if (!tokenMatches(req.headers.authorization, token)) {
+      res.status(401).json({ error: 'Invalid or missing admin token' });
+      return;
+    }
+    next();
+  });
+
+  // ── Approvals ──────────────────────────────────────────────────────────
+
+  router.get('/approvals', (req, res) => {
+    const { status, caller } = req.query;
+    if (status !== undefined && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+      res.status(400).json({ error: `Unknown status: ${JSON.stringify(status)}` });
+      return;
+    }
+    res.json(
+      approvals.list({
+        ...(typeof caller === 'string' && { callerAlias: caller }),
+        ...(status !== undefined && { status: status as ApprovalStatus }),
+      }),
+    );
+  });
+
+  router.get('/approvals/:id', (req, res) => {
+    const ticket = approvals.get(req.params.id);
+    if (!ticket) {
+      res.status(404).json({ error: `Approval not found: ${req.params.id}` });
+      return;
+    }
+    res.json(ticket);
+  });
+
+  router.post('/approvals/:id/approve', async (req, res) => {
+    const body = (req.body ?? {}) as { decidedBy?: string };
+    const ticket = approvals.get(req.params.id);
+    if (!ticket) {
+      res.status(404).json({ error: `Approval not found: ${req.params.id}` });
+      return;
+    }
+    try {
+      const decided = await approvals.approve(ticket.id, body.decidedBy);
+      onAction('approval_approved', {
+        approvalId: decided.id,
+        caller: decided.callerAlias,
+        method: decided.request.method,
+        url: decided.request.url,
+        outcome: decided.status,
+        ...(decided.decidedBy && { decidedBy: decided.decidedBy }),
+      });
+      res.json(decided);
+    } catch (err) {
+      res.status(409).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  router.post('/approvals/:id/deny', (req, res) => {
+    const body = (req.body ?? {}) as { reason?: string; decidedBy?: string };
+    const ticket = approvals.get(req.params.id);
+    if (!ticket) {
+      res.status(404).json({ error: `Approval not found: ${req.params.id}` });
+      return;
+    }
+    try {
+      const decided = approvals.deny(ticket.id, body.reason, body.decidedBy);
+      onAction('approval_denied', {
+        approvalId: decided.id,
+        caller: decided.callerAlias,
+        method: decided.request.method,
+        url: decided.request.url,
+        ...(decided.reason && { reason: decided.reason }),
+        ...(decided.decidedBy && { decidedBy: decided.decidedBy }),
+      });
+      res.json(decided);
+    } catch (err) {
+      res.status(409).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // ── Audit log ──────────────────────────────────────────────────────────
+
+  router.get('/audit', async (req, res) => {
+    let filter: AuditQuery;
+    try {
+      filter = parseAuditQuery(req.query);
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    res.json(await auditLog.query(filter));
+  });
+
+  router.get('/audit/verify', async (_req, res) => {
+    res.json(await auditLog.verify());
+  });
+
+  // ── Webhook archive ────────────────────────────────────────────────────
+
+  router.use('/webhooks', (_req, res, next) => {
+    if (!webhookArchive) {
+      res.status(404).json({
+        error: 'Webhook archive is disabled (set webhookArchive in remote.config.json)',
+      });
+      return;
+    }
+    next();
+  });
+
+  router.get('/webhooks', (req, res) => {
+    let filter: WebhookArchiveQuery;
+    try {
+      filter = parseWebhookQuery(req.query);
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    res.json(webhookArchive?.query({ limit: DEFAULT_WEBHOOK_LIST_LIMIT, ...filter }));
+  });
+
+  router.post('/webhooks/replay', (req, res) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    let filter: WebhookArchiveQuery;
+    try {
+      filter = parseWebhookQuery(body);
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    // Never replay the whole archive by accident
+    if (filter.id === undefined && filter.since === undefined) {
+      res.status(400).json({ error: 'Pass id or since to choose the requests to replay' });
+      return;
+    }
+
+    const skipVerification = body.skipVerification === true;
+    const results = replayWebhooks(
+      webhookArchive?.query(filter) ?? [],
+      ingestorManager,
+      skipVerification,
+    );
+    onAction('webhooks_replayed', {
+      count: results.length,
+      skipVerification,
+      ...(filter.path !== undefined && { path: filter.path }),
+      ...(filter.id !== undefined && { id: filter.id }),
+      ...(filter.since !== undefined && { since: filter.since }),
+      ...(filter.until !== undefined && { until: filter.until }),
+    });
+    res.json({ replayed: results.length, results });
+  });
+
+  return router;
+}
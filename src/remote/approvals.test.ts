@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { ApprovalQueue, previewBody, type ApprovalRequestSummary } from './approvals.js';
+
+const REQUEST: ApprovalRequestSummary = {
+  method: 'POST',
+  url: 'https://api.stripe.com/v1/refunds',
+  headers: {},
+  bodyPreview: '{"charge":"ch_123"}',
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ApprovalQueue', () => {
+  it('should park a request as pending without running it', () => {
+    const queue = new ApprovalQueue();
+    const execute = vi.fn(() => Promise.resolve('done'));
+
+    const ticket = queue.submit('agent', REQUEST, execute);
+
+    expect(ticket.status).toBe('pending');
+    expect(ticket.request).toEqual(REQUEST);
+    expect(execute).not.toHaveBeenCalled();
+    expect(queue.list({ status: 'pending' })).toEqual([ticket]);
+  });
+
+  it('should run the request on approval and keep the result', async () => {
+    const queue = new ApprovalQueue();
+    const ticket = queue.submit('agent', REQUEST, () => Promise.resolve({ status: 200 }));
+
+    const decided = await queue.approve(ticket.id, 'alice');
+
+    expect(decided.status).toBe('completed');
+    expect(decided.result).toEqual({ status: 200 });
+    expect(decided.decidedBy).toBe('alice');
+    expect(queue.get(ticket.id)?.status).toBe('completed');
+  });
+
+  it('should mark the ticket failed when the approved request throws', async () => {
+    const queue = new ApprovalQueue();
+    const ticket = queue.submit('agent', REQUEST, () => Promise.reject(new Error('upstream down')));
+
+    const decided = await queue.approve(ticket.id);
+
+    expect(decided.status).toBe('failed');
+    expect(decided.error).toBe('upstream down');
+  });
+
+  it('should discard the request on denial', async () => {
+    const queue = new ApprovalQueue();
+    const execute = vi.fn(() => Promise.resolve('done'));
+    const ticket = queue.submit('agent', REQUEST, execute);
+
+    const decided = queue.deny(ticket.id, 'not during business hours', 'bob');
+
+    expect(decided.status).toBe('denied');
+    expect(decided.reason).toBe('not during business hours');
+    await expect(queue.approve(ticket.id)).rejects.toThrow('is denied, not pending');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject decisions on unknown tickets', async () => {
+    const queue = new ApprovalQueue();
+    await expect(queue.approve('nope')).rejects.toThrow('Approval not found: nope');
+    expect(() => queue.deny('nope')).toThrow('Approval not found: nope');
+  });
+
+  it('should hide tickets from other callers', () => {
+    const queue = new ApprovalQueue();
+    const ticket = queue.submit('agent', REQUEST, () => Promise.resolve(null));
+
+    expect(queue.get(ticket.id, 'agent')).toBe(ticket);
+    expect(queue.get(ticket.id, 'other-agent')).toBeUndefined();
+    expect(queue.list({ callerAlias: 'other-agent' })).toEqual([]);
+  });
+
+  it('should expire pending tickets and drop decided tickets after retention', () => {
+    vi.useFakeTimers();
+    const queue = new ApprovalQueue({ ttlMs: 1000, retentionMs: 5000 });
+    const ticket = queue.submit('agent', REQUEST, () => Promise.resolve(null));
+
+    vi.advanceTimersByTime(1000);
+    expect(queue.get(ticket.id)?.status).toBe('expired');
+    expect(() => queue.deny(ticket.id)).toThrow('is expired, not pending');
+
+    vi.advanceTimersByTime(5000);
+    expect(queue.get(ticket.id)).toBeUndefined();
+  });
+});
+
+describe('previewBody', () => {
+  it('should return nothing for an empty body', () => {
+    expect(previewBody(undefined)).toBeUndefined();
+    expect(previewBody(null)).toBeUndefined();
+  });
+
+  it('should serialize objects and truncate long bodies', () => {
+    expect(previewBody({ a: 1 })).toBe('{"a":1}');
+    const preview = previewBody('x'.repeat(5000)) ?? '';
+    expect(preview.startsWith('x'.repeat(2000))).toBe(true);
+    expect(preview).toContain('(5000 chars)');
+  });
+
+  it('should describe binary bodies instead of showing them', () => {
+    expect(previewBody(Buffer.from('hello').toString('base64'), 'base64')).toBe(
+      '[binary, 5 bytes]',
+    );
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Human-in-the-loop approval queue for sensitive proxied requests.
+ *
+ * Requests on routes (or matching policy rules) with `requireApproval` are not
+ * sent upstream right away. `http_request` parks them here and returns a
+ * pending ticket; an operator approves or denies the ticket through the admin
+ * API (or `drawlatch approvals`), and the agent collects the outcome with the
+ * `approval_status` tool.
+ *
+ * Approved requests are executed when the operator approves them, and the
+ * result is kept on the ticket until it is collected or the retention period
+ * ends. Tickets live in memory only — a restart drops pending approvals.
+ */
+
+import crypto from 'node:crypto';
+
+import { createLogger } from '../shared/logger.js';
+
+const log = createLogger('approvals');
+
+/** How long a ticket waits for a decision before it expires. */
+export const DEFAULT_APPROVAL_TTL = 60 * 60 * 1000; // 1 hour
+
+/** How long decided tickets (and their results) are kept for collection. */
+export const DEFAULT_APPROVAL_RETENTION = 60 * 60 * 1000; // 1 hour
+
+/** Longest request body excerpt shown to the operator. */
+const BODY_PREVIEW_LIMIT = 2000;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'completed' | 'failed' | 'expired';
+
+/** What the operator sees when deciding — the request as the agent sent it (no secrets). */
+export interface ApprovalRequestSummary {
+  method: string;
+  /** Client URL with ${VAR} placeholders unresolved */
+  url: string;
+  /** Name of the matched route, when it has one */
+  route?: string;
+  /** Client-provided headers (unresolved; route-injected headers are not shown) */
+  headers: Record<string, string>;
+  /** Truncated body excerpt */
+  bodyPreview?: string;
+}
+
+export interface ApprovalTicket {
+  id: string;
+  callerAlias: string;
+  status: ApprovalStatus;
+  request: ApprovalRequestSummary;
+  createdAt: number;
+  /** Pending tickets expire at this time (ms since epoch) */
+  expiresAt: number;
+  decidedAt?: number;
+  /** Who approved or denied the ticket (free-form, from the admin request) */
+  decidedBy?: string;
+  /** Denial reason */
+  reason?: string;
+  /** Upstream result once an approved request has run */
+  result?: unknown;
+  /** Error message when an approved request failed to run */
+  error?: string;
+}
+
+export interface ApprovalQueueOptions {
+  /** Pending ticket lifetime in ms (default: 1 hour) */
+  ttlMs?: number;
+  /** How long decided tickets are kept in ms (default: 1 hour) */
+  retentionMs?: number;
+}
+
+export class ApprovalQueue {
+  private readonly ttlMs: number;
+  private readonly retentionMs: number;
+  private readonly tickets = new Map<string, ApprovalTicket>();
+  /** Deferred executions for pending tickets — kept apart so tickets stay plain data. */
+  private readonly executors = new Map<string, () => Promise<unknown>>();
+
+  constructor(options: ApprovalQueueOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_APPROVAL_TTL;
+    this.retentionMs = options.retentionMs ?? DEFAULT_APPROVAL_RETENTION;
+  }
+
+  /**
+   * Park a request until an operator decides on it.
+   * @param execute - Runs the request once approved; its result is stored on the ticket
+   */
+  submit(
+    callerAlias: string,
+    request: ApprovalRequestSummary,
+    execute: () => Promise<unknown>,
+  ): ApprovalTicket {
+    this.sweep();
+    const now = Date.now();
+    const ticket: ApprovalTicket = {
+      id: crypto.randomUUID(),
+      callerAlias,
+      status: 'pending',
+      request,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+    this.tickets.set(ticket.id, ticket);
+    this.executors.set(ticket.id, execute);
+    log.info(`Approval ${ticket.id} pending: ${request.method} ${request.url} (${callerAlias})`);
+    return ticket;
+  }
+
+  /**
+   * Look up a ticket. When `callerAlias` is given, tickets of other callers
+   * are treated as missing.
+   */
+  get(id: string, callerAlias?: string): ApprovalTicket | undefined {
+    this.sweep();
+    const ticket = this.tickets.get(id);
+    if (!ticket || (callerAlias !== undefined && ticket.callerAlias !== callerAlias)) {
+      return undefined;
+    }
+    return ticket;
+  }
+
+  /** Tickets, newest first, optionally filtered by caller and status. */
+  list(filter: { callerAlias?: string; status?: ApprovalStatus } = {}): ApprovalTicket[] {
+    this.sweep();
+    return [...this.tickets.values()]
+      .filter(
+        (t) =>
+          (filter.callerAlias === undefined || t.callerAlias === filter.callerAlias) &&
+          (filter.status === undefined || t.status === filter.status),
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Approve a pending ticket and run the parked request. Resolves once the
+   * request has finished; the ticket is then `completed` or `failed`.
+   *
+   * @throws Error if the ticket does not exist or is not pending
+   */
+  async approve(id: string, decidedBy?: string): Promise<ApprovalTicket> {
+    const ticket = this.takePending(id);
+    const execute = this.executors.get(id);
+    this.executors.delete(id);
+
+    ticket.status = 'approved';
+    ticket.decidedAt = Date.now();
+    if (decidedBy) ticket.decidedBy = decidedBy;
+    log.info(`Approval ${id} approved${decidedBy ? ` by ${decidedBy}` : ''}`);
+
+    try {
+      if (!execute) throw new Error('Approved request is no longer available');
+      ticket.result = await execute();
+      ticket.status = 'completed';
+    } catch (err) {
+      ticket.error = err instanceof Error ? err.message : String(err);
+      ticket.status = 'failed';
+      log.warn(`Approved request ${id} failed: ${ticket.error}`);
+    }
+    return ticket;
+  }
+
+  /**
+   * Deny a pending ticket. The parked request is discarded.
+   * @throws Error if the ticket does not exist or is not pending
+   */
+  deny(id: string, reason?: string, decidedBy?: string): ApprovalTicket {
+    const ticket = this.takePending(id);
+    this.executors.delete(id);
+
+    ticket.status = 'denied';
+    ticket.decidedAt = Date.now();
+    if (reason) ticket.reason = reason;
+    if (decidedBy) ticket.decidedBy = decidedBy;
+    log.info(`Approval ${id} denied${decidedBy ? ` by ${decidedBy}` : ''}`);
+    return ticket;
+  }
+
+  private takePending(id: string): ApprovalTicket {
+    this.sweep();
+    const ticket = this.tickets.get(id);
+    if (!ticket) throw new Error(`Approval not found: ${id}`);
+    if (ticket.status !== 'pending') {
+      throw new Error(`Approval ${id} is ${ticket.status}, not pending`);
+    }
+    return ticket;
+  }
+
+  /** Expire overdue pending tickets and drop decided tickets past retention. */
+  private sweep(now: number = Date.now()): void {
+    for (const [id, ticket] of this.tickets) {
+      if (ticket.status === 'pending' && ticket.expiresAt <= now) {
+        ticket.status = 'expired';
+        ticket.decidedAt = now;
+        this.executors.delete(id);
+      } else if (
+        ticket.status !== 'pending' &&
+        ticket.status !== 'approved' &&
+        (ticket.decidedAt ?? ticket.createdAt) + this.retentionMs <= now
+      ) {
+        this.tickets.delete(id);
+      }
+    }
+  }
+}
+
+/** Short, secret-free excerpt of a request body for the operator. */
+export function previewBody(body: unknown, bodyEncoding?: string): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (bodyEncoding === 'base64' && typeof body === 'string') {
+    return `[binary, ${Buffer.from(body, 'base64').length} bytes]`;
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return text.length > BODY_PREVIEW_LIMIT
+    ? `${text.slice(0, BODY_PREVIEW_LIMIT)}… (${text.length} chars)`
+    : text;
+}
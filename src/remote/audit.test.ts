@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  AuditLog,
+  GENESIS_HASH,
+  auditLogOptions,
+  listAuditFiles,
+  queryAuditLog,
+  verifyAuditLog,
+  type AuditRecord,
+} from './audit.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-audit-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function readLines(file = 'audit.jsonl'): string[] {
+  return fs.readFileSync(path.join(dir, file), 'utf-8').split('\n').filter(Boolean);
+}
+
+function writeLines(lines: string[], file = 'audit.jsonl'): void {
+  fs.writeFileSync(path.join(dir, file), lines.join('\n') + '\n');
+}
+
+describe('AuditLog', () => {
+  it('should chain each entry to the previous one', async () => {
+    const audit = new AuditLog({ dir });
+
+    const first = audit.append({ action: 'handshake_complete', caller: 'agent' });
+    const second = audit.append({ action: 'response', caller: 'agent', status: 200 });
+    await audit.flush();
+
+    expect(first.seq).toBe(1);
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+    expect(readLines().map((l) => JSON.parse(l) as AuditRecord)).toEqual([first, second]);
+    expect(verifyAuditLog(dir)).toMatchObject({ ok: true, entries: 2, firstSeq: 1 });
+  });
+
+  it('should continue the chain after a restart', async () => {
+    const before = new AuditLog({ dir });
+    before.append({ action: 'request' });
+    const last = before.append({ action: 'response' });
+    await before.flush();
+
+    const after = new AuditLog({ dir });
+    const next = after.append({ action: 'request' });
+    await after.flush();
+
+    expect(next.seq).toBe(3);
+    expect(next.prevHash).toBe(last.hash);
+    expect(verifyAuditLog(dir).ok).toBe(true);
+  });
+
+  it('should rotate files and keep the chain across them', async () => {
+    const audit = new AuditLog({ dir, maxFileBytes: 400 });
+    for (let i = 0; i < 10; i++) audit.append({ action: 'request', caller: 'agent' });
+    await audit.flush();
+
+    const files = listAuditFiles(dir);
+    expect(files.length).toBeGreaterThan(1);
+    expect(files[files.length - 1]).toBe('audit.jsonl');
+    expect(files[0]).toBe('audit.000000000001.jsonl');
+    expect(verifyAuditLog(dir)).toMatchObject({ ok: true, entries: 10 });
+  });
+
+  it('should prune the oldest rotated files beyond maxFiles', async () => {
+    const audit = new AuditLog({ dir, maxFileBytes: 300, maxFiles: 1 });
+    for (let i = 0; i < 10; i++) audit.append({ action: 'request' });
+    await audit.flush();
+
+    const files = listAuditFiles(dir);
+    expect(files).toHaveLength(2);
+
+    // The remaining files still verify, starting after the pruned entries
+    const result = verifyAuditLog(dir);
+    expect(result.ok).toBe(true);
+    expect(result.firstSeq).toBeGreaterThan(1);
+  });
+
+  it('should keep the chain in memory without a directory', async () => {
+    const audit = new AuditLog({ dir: null });
+    const first = audit.append({ action: 'request' });
+    const second = audit.append({ action: 'response' });
+
+    expect(second.prevHash).toBe(first.hash);
+    expect(await audit.query()).toEqual([]);
+    expect(await audit.verify()).toEqual({ ok: true, entries: 0, files: [] });
+  });
+
+  it('should read back entries still being written', async () => {
+    const audit = new AuditLog({ dir });
+    audit.append({ action: 'request' });
+
+    expect(await audit.query()).toHaveLength(1);
+    expect((await audit.verify()).entries).toBe(1);
+  });
+
+  it('should continue after the head when entries were cut off the end', async () => {
+    const before = new AuditLog({ dir });
+    for (let i = 0; i < 3; i++) before.append({ action: 'request' });
+    await before.flush();
+    writeLines(readLines().slice(0, 2));
+
+    const after = new AuditLog({ dir });
+    expect(after.append({ action: 'request' }).seq).toBe(4);
+    await after.flush();
+    expect(verifyAuditLog(dir).error?.reason).toBe('expected seq 3, found 4');
+  });
+});
+
+describe('verifyAuditLog', () => {
+  beforeEach(async () => {
+    const audit = new AuditLog({ dir });
+    audit.append({ action: 'request', caller: 'agent' });
+    audit.append({ action: 'response', caller: 'agent', status: 200 });
+    audit.append({ action: 'request', caller: 'agent' });
+    await audit.flush();
+  });
+
+  it('should detect an edited entry', () => {
+    const lines = readLines();
+    const edited = JSON.parse(lines[1]) as AuditRecord;
+    edited.status = 500;
+    lines[1] = JSON.stringify(edited);
+    writeLines(lines);
+
+    expect(verifyAuditLog(dir)).toMatchObject({
+      ok: false,
+      entries: 1,
+      error: { file: 'audit.jsonl', line: 2, seq: 2, reason: 'hash does not match entry content' },
+    });
+  });
+
+  it('should detect a deleted entry', () => {
+    const lines = readLines();
+    writeLines([lines[0], lines[2]]);
+
+    expect(verifyAuditLog(dir).error?.reason).toBe('expected seq 2, found 3');
+  });
+
+  it('should detect a rewritten chain that no longer links', () => {
+    const lines = readLines();
+    const forged = JSON.parse(lines[2]) as AuditRecord;
+    forged.prevHash = GENESIS_HASH;
+    lines[2] = JSON.stringify(forged);
+    writeLines(lines);
+
+    expect(verifyAuditLog(dir).error?.reason).toBe('prevHash does not match the previous entry');
+  });
+
+  it('should detect entries cut off the end', () => {
+    writeLines(readLines().slice(0, 2));
+
+    expect(verifyAuditLog(dir)).toMatchObject({
+      ok: false,
+      entries: 2,
+      error: { file: 'audit.head', reason: 'log ends at seq 2, but audit.head records seq 3' },
+    });
+  });
+
+  it('should detect a damaged line', () => {
+    const lines = readLines();
+    lines[1] = lines[1].slice(0, 20);
+    writeLines(lines);
+
+    expect(verifyAuditLog(dir).error).toMatchObject({ line: 2, reason: 'line is not valid JSON' });
+  });
+});
+
+describe('queryAuditLog', () => {
+  beforeEach(async () => {
+    const audit = new AuditLog({ dir });
+    audit.append({ action: 'response', caller: 'alice', route: 'GitHub', outcome: 'success' });
+    audit.append({ action: 'policy_denied', caller: 'alice', route: 'Stripe', outcome: 'denied' });
+    audit.append({ action: 'response', caller: 'bob', route: 'GitHub', outcome: 'error' });
+    await audit.flush();
+  });
+
+  it('should filter by caller, route, action and outcome', () => {
+    expect(queryAuditLog(dir, { caller: 'alice' })).toHaveLength(2);
+    expect(queryAuditLog(dir, { route: 'github' })).toHaveLength(2);
+    expect(queryAuditLog(dir, { action: 'policy_denied' })[0].route).toBe('Stripe');
+    expect(queryAuditLog(dir, { caller: 'alice', outcome: 'success' })).toHaveLength(1);
+  });
+
+  it('should filter by time range', () => {
+    const now = Date.now();
+    expect(queryAuditLog(dir, { since: now - 60_000 })).toHaveLength(3);
+    expect(queryAuditLog(dir, { since: now + 60_000 })).toEqual([]);
+    expect(queryAuditLog(dir, { until: now - 60_000 })).toEqual([]);
+  });
+
+  it('should return the most recent entries up to the limit', () => {
+    const records = queryAuditLog(dir, { limit: 2 });
+    expect(records.map((r) => r.seq)).toEqual([2, 3]);
+  });
+});
+
+describe('auditLogOptions', () => {
+  it('should default to the config dir and honor overrides', () => {
+    expect(auditLogOptions().dir).toMatch(/audit$/);
+    expect(auditLogOptions({ dir: '/var/log/drawlatch', maxFiles: 5 })).toEqual({
+      dir: '/var/log/drawlatch',
+      maxFiles: 5,
+    });
+    expect(auditLogOptions({ disabled: true }).dir).toBeNull();
+  });
+});
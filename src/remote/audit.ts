@@ -0,0 +1,423 @@
+/**
+ * Persistent, tamper-evident audit log.
+ *
+ * Every audit entry is appended as one JSON line to `audit.jsonl` in the
+ * audit directory (default ~/.drawlatch/audit/, files 0600). Each entry
+ * carries the hash of the entry before it, and its own hash covers its
+ * content plus that link:
+ *
+ *   hash = sha256(prevHash + "\n" + JSON of the entry without `hash`)
+ *
+ * Editing, inserting or deleting any line breaks the chain from that point
+ * on, which `verifyAuditLog()` reports. Cutting entries off the end leaves a
+ * valid chain, so the newest seq and hash are also kept in `audit.head`, and
+ * a log that ends before its head fails verification. Whoever can rewrite
+ * the head as well can hide such a cut; ship entries off the host when that
+ * matters. When the active file grows past `maxFileBytes` it is renamed to
+ * `audit.<first seq>.jsonl` and a new file is started; the chain continues
+ * across files.
+ *
+ * Entries are hashed as they are appended and written to disk in the
+ * background, in order, so request handling never waits on the disk.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getAuditDir, type AuditConfig } from '../shared/config.js';
+import { createLogger } from '../shared/logger.js';
+
+const log = createLogger('audit');
+
+/** prevHash of the very first entry. */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Default size at which the active file is rotated. */
+export const DEFAULT_AUDIT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const ACTIVE_FILE = 'audit.jsonl';
+const ROTATED_FILE = /^audit\.(\d+)\.jsonl$/;
+const HEAD_FILE = 'audit.head';
+
+/** The newest entry written, as recorded in `audit.head` */
+interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+/** What callers pass to `append()` — any extra fields are stored as-is. */
+export interface AuditEntryInput {
+  action: string;
+  /** Full session ID (stdout shows a truncated form) */
+  sessionId?: string;
+  caller?: string;
+  /** Name of the route a proxied request used */
+  route?: string;
+  method?: string;
+  /** Resolved upstream host */
+  host?: string;
+  /** Upstream response status */
+  status?: number;
+  latencyMs?: number;
+  /** success | error | denied (requests only) */
+  outcome?: AuditOutcome;
+  [key: string]: unknown;
+}
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+/** An entry's position in the chain, before its own hash is computed. */
+interface UnhashedRecord extends AuditEntryInput {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+}
+
+/** A stored entry: the input plus its position in the chain. */
+export interface AuditRecord extends UnhashedRecord {
+  hash: string;
+}
+
+export interface AuditQuery {
+  caller?: string;
+  /** Route name (case-insensitive) */
+  route?: string;
+  action?: string;
+  outcome?: AuditOutcome;
+  /** Inclusive lower bound (ms since epoch) */
+  since?: number;
+  /** Exclusive upper bound (ms since epoch) */
+  until?: number;
+  /** Return at most this many entries — the most recent ones (default: 100) */
+  limit?: number;
+}
+
+export interface AuditVerifyResult {
+  ok: boolean;
+  /** Entries checked */
+  entries: number;
+  /** Files checked, oldest first */
+  files: string[];
+  /** seq of the first entry checked (> 0 when older files were pruned) */
+  firstSeq?: number;
+  /** The first broken link, when `ok` is false */
+  error?: { file: string; line: number; seq?: number; reason: string };
+}
+
+export interface AuditLogOptions {
+  /** Directory for the JSONL files. Null keeps the chain in memory only (no persistence). */
+  dir: string | null;
+  /** Rotate the active file once it exceeds this size (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Keep at most this many rotated files; 0 keeps them all (default) */
+  maxFiles?: number;
+}
+
+/** AuditLogOptions for a server config's `audit` block. */
+export function auditLogOptions(config: AuditConfig = {}): AuditLogOptions {
+  return {
+    dir: config.disabled ? null : (config.dir ?? getAuditDir()),
+    ...(config.maxFileBytes !== undefined && { maxFileBytes: config.maxFileBytes }),
+    ...(config.maxFiles !== undefined && { maxFiles: config.maxFiles }),
+  };
+}
+
+/** Read `audit.head`, or undefined when there is none or it is unreadable. */
+function readHead(dir: string): AuditHead | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, HEAD_FILE), 'utf-8')) as AuditHead;
+  } catch {
+    return undefined;
+  }
+}
+
+function computeHash(record: UnhashedRecord): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${record.prevHash}\n${JSON.stringify(record)}`)
+    .digest('hex');
+}
+
+export class AuditLog {
+  readonly dir: string | null;
+  private readonly maxFileBytes: number;
+  private readonly maxFiles: number;
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+  /** seq of the first entry in the active file */
+  private activeFirstSeq = 1;
+  private activeBytes = 0;
+  /** Entries appended but not yet written */
+  private pending: AuditRecord[] = [];
+  /** The running write loop, while there are pending entries */
+  private writing: Promise<void> | null = null;
+
+  constructor(options: AuditLogOptions) {
+    this.dir = options.dir;
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_AUDIT_MAX_FILE_BYTES;
+    this.maxFiles = options.maxFiles ?? 0;
+    if (this.dir) this.recover(this.dir);
+  }
+
+  /**
+   * Append an entry to the chain. It is written in the background (see
+   * flush()); persistence failures are logged, never thrown — auditing must
+   * not take request handling down with it.
+   */
+  append(entry: AuditEntryInput): AuditRecord {
+    const { action, ...details } = entry;
+    const unhashed: UnhashedRecord = {
+      seq: this.seq + 1,
+      timestamp: new Date().toISOString(),
+      action,
+      ...details,
+      prevHash: this.lastHash,
+    };
+    const record: AuditRecord = { ...unhashed, hash: computeHash(unhashed) };
+    this.seq = record.seq;
+    this.lastHash = record.hash;
+
+    if (this.dir) {
+      this.pending.push(record);
+      this.writing ??= this.drain(this.dir);
+    }
+    return record;
+  }
+
+  /** Resolves once every entry appended so far is on disk. Never rejects. */
+  async flush(): Promise<void> {
+    while (this.writing) await this.writing;
+  }
+
+  /** Matching entries from the persisted files (empty without a directory). */
+  async query(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.flush();
+    return this.dir ? queryAuditLog(this.dir, filter) : [];
+  }
+
+  /** Check the hash chain of the persisted files. */
+  async verify(): Promise<AuditVerifyResult> {
+    await this.flush();
+    return this.dir ? verifyAuditLog(this.dir) : { ok: true, entries: 0, files: [] };
+  }
+
+  // ── Persistence ──────────────────────────────────────────────────────────
+
+  /** Write pending entries in batches until none are left. */
+  private async drain(dir: string): Promise<void> {
+    try {
+      while (this.pending.length > 0) {
+        const batch = this.pending.splice(0);
+        try {
+          await this.write(dir, batch);
+        } catch (err) {
+          const range = `${batch[0].seq}–${batch[batch.length - 1].seq}`;
+          log.error(`Failed to persist audit entries ${range}:`, err);
+        }
+      }
+    } finally {
+      this.writing = null;
+    }
+  }
+
+  private async write(dir: string, records: AuditRecord[]): Promise<void> {
+    let chunk = '';
+    for (const record of records) {
+      const line = JSON.stringify(record) + '\n';
+      const bytes = Buffer.byteLength(line);
+      if (this.activeBytes > 0 && this.activeBytes + bytes > this.maxFileBytes) {
+        await this.appendActive(dir, chunk);
+        chunk = '';
+        await this.rotate(dir);
+      }
+      if (this.activeBytes === 0) this.activeFirstSeq = record.seq;
+      chunk += line;
+      this.activeBytes += bytes;
+    }
+    await this.appendActive(dir, chunk);
+
+    const last = records[records.length - 1];
+    const head: AuditHead = { seq: last.seq, hash: last.hash };
+    const tmpPath = path.join(dir, `${HEAD_FILE}.tmp`);
+    await fs.promises.writeFile(tmpPath, JSON.stringify(head) + '\n', { mode: 0o600 });
+    await fs.promises.rename(tmpPath, path.join(dir, HEAD_FILE));
+  }
+
+  private async appendActive(dir: string, chunk: string): Promise<void> {
+    if (chunk) await fs.promises.appendFile(path.join(dir, ACTIVE_FILE), chunk, { mode: 0o600 });
+  }
+
+  private async rotate(dir: string): Promise<void> {
+    const rotated = `audit.${String(this.activeFirstSeq).padStart(12, '0')}.jsonl`;
+    await fs.promises.rename(path.join(dir, ACTIVE_FILE), path.join(dir, rotated));
+    this.activeBytes = 0;
+    log.info(`Rotated audit log to ${rotated}`);
+
+    if (this.maxFiles > 0) {
+      const files = listAuditFiles(dir).filter((f) => f !== ACTIVE_FILE);
+      for (const old of files.slice(0, Math.max(0, files.length - this.maxFiles))) {
+        await fs.promises.unlink(path.join(dir, old));
+      }
+    }
+  }
+
+  /** Pick up seq / hash / active file size from existing files after a restart. */
+  private recover(dir: string): void {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const activePath = path.join(dir, ACTIVE_FILE);
+    if (fs.existsSync(activePath)) {
+      const content = fs.readFileSync(activePath, 'utf-8');
+      this.activeBytes = Buffer.byteLength(content);
+      const lines = content.split('\n').filter(Boolean);
+      try {
+        if (lines.length > 0) this.activeFirstSeq = (JSON.parse(lines[0]) as AuditRecord).seq;
+      } catch {
+        // Damaged first line — verifyAuditLog() reports it
+      }
+    }
+
+    // The newest entry is the last readable line of the newest non-empty file.
+    // A damaged tail is left in place for verifyAuditLog() to report.
+    this.recoverLast(dir);
+
+    // Entries cut off the end: continue after the head, so the gap stays visible
+    const head = readHead(dir);
+    if (head && head.seq > this.seq) {
+      log.warn(`Audit log ends at seq ${this.seq}, but its head records seq ${head.seq}`);
+      this.seq = head.seq;
+      this.lastHash = head.hash;
+    }
+  }
+
+  private recoverLast(dir: string): void {
+    for (const file of listAuditFiles(dir).reverse()) {
+      const lines = fs.readFileSync(path.join(dir, file), 'utf-8').split('\n').filter(Boolean);
+      for (const raw of lines.reverse()) {
+        try {
+          const last = JSON.parse(raw) as AuditRecord;
+          this.seq = last.seq;
+          this.lastHash = last.hash;
+          return;
+        } catch {
+          log.warn(`Skipping unreadable audit line in ${file}`);
+        }
+      }
+    }
+  }
+}
+
+// ── Reading ──────────────────────────────────────────────────────────────
+
+/** Audit files in chain order: rotated files by first seq, then the active file. */
+export function listAuditFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const names = fs.readdirSync(dir);
+  const rotated = names.filter((n) => ROTATED_FILE.test(n)).sort();
+  return names.includes(ACTIVE_FILE) ? [...rotated, ACTIVE_FILE] : rotated;
+}
+
+function* readRecords(dir: string): Generator<{ file: string; line: number; raw: string }> {
+  for (const file of listAuditFiles(dir)) {
+    const lines = fs.readFileSync(path.join(dir, file), 'utf-8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i]) yield { file, line: i + 1, raw: lines[i] };
+    }
+  }
+}
+
+/**
+ * Read matching entries from an audit directory, oldest first, keeping the
+ * most recent `limit` (default 100). Unparseable lines are skipped.
+ */
+export function queryAuditLog(dir: string, filter: AuditQuery = {}): AuditRecord[] {
+  const limit = filter.limit ?? 100;
+  const route = filter.route?.toLowerCase();
+  const matches: AuditRecord[] = [];
+
+  for (const { raw } of readRecords(dir)) {
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(raw) as AuditRecord;
+    } catch {
+      continue;
+    }
+    const time = Date.parse(record.timestamp);
+    if (filter.caller !== undefined && record.caller !== filter.caller) continue;
+    if (route !== undefined && record.route?.toLowerCase() !== route) continue;
+    if (filter.action !== undefined && record.action !== filter.action) continue;
+    if (filter.outcome !== undefined && record.outcome !== filter.outcome) continue;
+    if (filter.since !== undefined && time < filter.since) continue;
+    if (filter.until !== undefined && time >= filter.until) continue;
+
+    matches.push(record);
+    if (matches.length > limit) matches.shift();
+  }
+  return matches;
+}
+
+/**
+ * Recompute the hash chain across all files of an audit directory.
+ * Stops at the first entry that does not parse, is out of sequence, does not
+ * link to its predecessor, or whose hash does not match its content — and
+ * fails when the chain ends before the entry recorded in `audit.head`.
+ */
+export function verifyAuditLog(dir: string): AuditVerifyResult {
+  const files = listAuditFiles(dir);
+  const result: AuditVerifyResult = { ok: true, entries: 0, files };
+  const head = readHead(dir);
+  let previous: AuditRecord | undefined;
+
+  for (const { file, line, raw } of readRecords(dir)) {
+    const fail = (reason: string, seq?: number): AuditVerifyResult => ({
+      ...result,
+      ok: false,
+      error: { file, line, ...(seq !== undefined && { seq }), reason },
+    });
+
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(raw) as AuditRecord;
+    } catch {
+      return fail('line is not valid JSON');
+    }
+
+    const { hash, ...unhashed } = record;
+    if (previous) {
+      if (record.seq !== previous.seq + 1) {
+        return fail(`expected seq ${previous.seq + 1}, found ${record.seq}`, record.seq);
+      }
+      if (record.prevHash !== previous.hash) {
+        return fail('prevHash does not match the previous entry', record.seq);
+      }
+    } else {
+      result.firstSeq = record.seq;
+      if (record.seq === 1 && record.prevHash !== GENESIS_HASH) {
+        return fail('first entry does not start from the genesis hash', record.seq);
+      }
+    }
+    if (computeHash(unhashed) !== hash) {
+      return fail('hash does not match entry content', record.seq);
+    }
+    if (record.seq === head?.seq && hash !== head.hash) {
+      return fail(`hash does not match the one recorded in ${HEAD_FILE}`, record.seq);
+    }
+
+    previous = record;
+    result.entries++;
+  }
+
+  const lastSeq = previous?.seq ?? 0;
+  if (head && head.seq > lastSeq) {
+    return {
+      ...result,
+      ok: false,
+      error: {
+        file: HEAD_FILE,
+        line: 1,
+        reason: `log ends at seq ${lastSeq}, but ${HEAD_FILE} records seq ${head.seq}`,
+      },
+    };
+  }
+  return result;
+}
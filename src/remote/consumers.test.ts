@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ConsumerCursors } from './consumers.js';
+import { IngestorManager } from './ingestors/index.js';
+import type { RemoteServerConfig } from '../shared/config.js';
+
+const config: RemoteServerConfig = {
+  host: '127.0.0.1',
+  port: 9999,
+  localKeysDir: '',
+  connectors: ['hook-a', 'hook-b'].map((alias) => ({
+    alias,
+    secrets: { HOOK_SECRET: 'secret' },
+    allowedEndpoints: [],
+    ingestor: {
+      type: 'webhook' as const,
+      webhook: {
+        path: alias,
+        signatureHeader: 'x-hub-signature-256',
+        signatureSecret: 'HOOK_SECRET',
+      },
+    },
+  })),
+  callers: {
+    alice: { peerKeyDir: '', connections: ['hook-a', 'hook-b'] },
+  },
+  rateLimitPerMinute: 60,
+};
+
+let manager: IngestorManager;
+let tmpDir: string;
+
+beforeEach(async () => {
+  manager = new IngestorManager(config);
+  await manager.startAll();
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-consumers-'));
+});
+
+afterEach(async () => {
+  await manager.stopAll();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** Deliver a webhook and return the resulting event's id. */
+function deliver(webhookPath: string, n: number): number {
+  const body = Buffer.from(JSON.stringify({ n }));
+  const sig = `sha256=${crypto.createHmac('sha256', 'secret').update(body).digest('hex')}`;
+  const [ingestor] = manager.getWebhookIngestors(webhookPath);
+  ingestor.handleWebhook({ 'x-hub-signature-256': sig }, body);
+  return ingestor.getEvents().at(-1)?.id ?? -1;
+}
+
+const payloads = (events: { data: unknown }[]) =>
+  events.map((e) => (e.data as { payload: { n: number } }).payload.n);
+
+describe('ConsumerCursors', () => {
+  it('should give each consumer its own position', () => {
+    const cursors = new ConsumerCursors(manager, { storePath: null });
+    deliver('hook-a', 1);
+    deliver('hook-b', 2);
+
+    expect(payloads(cursors.consume('alice', 'one').events)).toEqual([1, 2]);
+    expect(cursors.consume('alice', 'one').events).toEqual([]);
+
+    deliver('hook-a', 3);
+    expect(payloads(cursors.consume('alice', 'one').events)).toEqual([3]);
+    expect(payloads(cursors.consume('alice', 'two').events)).toEqual([1, 2, 3]);
+  });
+
+  it('should peek without ack and respect the limit', () => {
+    const cursors = new ConsumerCursors(manager, { storePath: null });
+    deliver('hook-a', 1);
+    deliver('hook-a', 2);
+
+    const peek = cursors.consume('alice', 'c', { ack: false, limit: 1 });
+    expect(peek).toMatchObject({ acked: false, remaining: 1 });
+    expect(payloads(peek.events)).toEqual([1]);
+    expect(payloads(cursors.consume('alice', 'c', { ack: false }).events)).toEqual([1, 2]);
+  });
+
+  it('should ack through an event on its own connection only', () => {
+    const cursors = new ConsumerCursors(manager, { storePath: null });
+    deliver('hook-a', 1);
+    const second = deliver('hook-a', 2);
+    deliver('hook-b', 3);
+
+    expect(cursors.ack('alice', 'c', [second], 'hook-a')).toBe(2);
+    expect(payloads(cursors.consume('alice', 'c').events)).toEqual([3]);
+    expect(() => cursors.ack('alice', 'c', [second], 'hook-a')).toThrow(
+      `Event ${second} is not pending for consumer c`,
+    );
+  });
+
+  it('should reject an ID pending on several connections without a connection', () => {
+    const cursors = new ConsumerCursors(manager, { storePath: null });
+    // Both ingestors started in the same second, so their first IDs collide
+    const a = deliver('hook-a', 1);
+    const b = deliver('hook-b', 2);
+    expect(a).toBe(b);
+
+    expect(() => cursors.ack('alice', 'c', [a])).toThrow('pass connection');
+    expect(cursors.ack('alice', 'c', [a], 'hook-b')).toBe(1);
+  });
+
+  it('should reset to earliest, latest or a point in time', () => {
+    const cursors = new ConsumerCursors(manager, { storePath: null });
+    deliver('hook-a', 1);
+    const [first] = manager.getEvents('alice', 'hook-a');
+    first.receivedAtMs -= 60_000; // received a minute ago
+    deliver('hook-a', 2);
+    cursors.consume('alice', 'c');
+
+    cursors.reset('alice', 'c', 'earliest');
+    expect(payloads(cursors.consume('alice', 'c', { ack: false }).events)).toEqual([1, 2]);
+
+    cursors.reset('alice', 'c', Date.now() - 30_000);
+    expect(payloads(cursors.consume('alice', 'c', { ack: false }).events)).toEqual([2]);
+
+    cursors.reset('alice', 'c', 'latest');
+    expect(cursors.consume('alice', 'c').events).toEqual([]);
+  });
+
+  it('should persist cursors and reject invalid names', () => {
+    const storePath = path.join(tmpDir, 'consumers.json');
+    deliver('hook-a', 1);
+    new ConsumerCursors(manager, { storePath }).consume('alice', 'c');
+
+    expect(fs.statSync(storePath).mode & 0o777).toBe(0o600);
+    const reloaded = new ConsumerCursors(manager, { storePath });
+    expect(reloaded.consume('alice', 'c').events).toEqual([]);
+    expect(() => reloaded.consume('alice', '../etc')).toThrow('Invalid consumer name');
+  });
+});
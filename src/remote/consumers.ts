@@ -0,0 +1,227 @@
+/**
+ * Named consumer cursors for ingested events.
+ *
+ * With `poll_events` the agent has to remember its `after_id`. Consumers keep
+ * that position on the server instead: each caller can have any number of
+ * named consumers, each with its own acknowledged position, so several
+ * agents sharing one caller identity can work through the same events
+ * independently, and an agent that loses its context picks up where its
+ * consumer left off.
+ *
+ * Positions are kept per connection, because event IDs are only ordered
+ * within one ingestor. They are saved to ~/.drawlatch/consumers.json (0600)
+ * whenever they change.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getConsumerStorePath } from '../shared/config.js';
+import { createLogger } from '../shared/logger.js';
+import type { IngestedEvent, IngestorManager } from './ingestors/index.js';
+
+const log = createLogger('consumers');
+
+/** Events returned by one consume() call unless the caller asks for fewer. */
+export const DEFAULT_CONSUME_LIMIT = 100;
+
+/** Consumer names: letters, digits, `.`, `_` and `-`, up to 64 characters. */
+const CONSUMER_NAME = /^[\w.-]{1,64}$/;
+
+export interface ConsumerState {
+  /** Last acknowledged event ID per connection alias */
+  cursors: Record<string, number>;
+  updatedAt: number;
+}
+
+export interface ConsumeOptions {
+  /** Only consume events from this connection (default: all of the caller's ingestors) */
+  connection?: string;
+  /** Return at most this many events (default: 100) */
+  limit?: number;
+  /** Acknowledge the returned events (default: true); false peeks without moving the cursor */
+  ack?: boolean;
+}
+
+export interface ConsumeResult {
+  consumer: string;
+  /** Unacknowledged events, oldest first */
+  events: IngestedEvent[];
+  /** Whether the returned events were acknowledged */
+  acked: boolean;
+  /** Unacknowledged events left after these */
+  remaining: number;
+}
+
+/** Where reset() moves a consumer: the oldest buffered event, past the newest, or a time (ms). */
+export type ConsumerResetPosition = 'earliest' | 'latest' | number;
+
+export interface ConsumerCursorsOptions {
+  /** Where cursors are saved; null keeps them in memory only (default: ~/.drawlatch/consumers.json) */
+  storePath?: string | null;
+}
+
+export class ConsumerCursors {
+  private readonly storePath: string | null;
+  /** Consumer state keyed by `callerAlias:consumer`. */
+  private consumers: Map<string, ConsumerState> | null = null;
+
+  constructor(
+    private readonly ingestors: IngestorManager,
+    options: ConsumerCursorsOptions = {},
+  ) {
+    this.storePath = options.storePath === undefined ? getConsumerStorePath() : options.storePath;
+  }
+
+  /**
+   * Return the consumer's unacknowledged events, oldest first, and by default
+   * acknowledge them. A consumer that does not exist yet starts at the oldest
+   * buffered event.
+   *
+   * @throws Error if the consumer name is invalid
+   */
+  consume(callerAlias: string, consumer: string, options: ConsumeOptions = {}): ConsumeResult {
+    const state = this.state(callerAlias, consumer);
+    const pending = this.connections(callerAlias, options.connection)
+      .flatMap((connection) =>
+        this.ingestors.getEvents(callerAlias, connection, state.cursors[connection] ?? -1),
+      )
+      .sort((a, b) => a.receivedAtMs - b.receivedAtMs || a.id - b.id);
+
+    const events = pending.slice(0, Math.max(1, options.limit ?? DEFAULT_CONSUME_LIMIT));
+    const acked = options.ack !== false && events.length > 0;
+    if (acked) {
+      this.advance(callerAlias, consumer, events);
+    }
+    return { consumer, events, acked, remaining: pending.length - events.length };
+  }
+
+  /**
+   * Acknowledge events by ID. Acknowledging an event also acknowledges every
+   * earlier event from the same connection.
+   *
+   * @param connection  Connection the events came from (their `source`); needed
+   *   only when an ID is pending on more than one connection.
+   * @returns the number of events that became acknowledged
+   * @throws Error if an event is not pending for this consumer, or is ambiguous
+   */
+  ack(callerAlias: string, consumer: string, eventIds: number[], connection?: string): number {
+    const state = this.state(callerAlias, consumer);
+    const pendingByConnection = new Map(
+      this.connections(callerAlias, connection).map((conn) => [
+        conn,
+        this.ingestors.getEvents(callerAlias, conn, state.cursors[conn] ?? -1),
+      ]),
+    );
+
+    const through: IngestedEvent[] = [];
+    for (const eventId of eventIds) {
+      const matches = Array.from(pendingByConnection.values()).flatMap((events) =>
+        events.filter((e) => e.id === eventId),
+      );
+      if (matches.length === 0) {
+        throw new Error(`Event ${eventId} is not pending for consumer ${consumer}`);
+      }
+      if (matches.length > 1) {
+        throw new Error(`Event ${eventId} is pending on several connections — pass connection`);
+      }
+      through.push(matches[0]);
+    }
+
+    const { cursors } = this.advance(callerAlias, consumer, through);
+    let acked = 0;
+    for (const [conn, events] of pendingByConnection) {
+      acked += events.filter((e) => e.id <= (cursors[conn] ?? -1)).length;
+    }
+    return acked;
+  }
+
+  /**
+   * Move a consumer's cursor — backwards to re-read events, or forwards to
+   * skip them. Positions only cover buffered events.
+   *
+   * @returns the consumer's new cursors
+   * @throws Error if the consumer name is invalid
+   */
+  reset(
+    callerAlias: string,
+    consumer: string,
+    position: ConsumerResetPosition,
+    connection?: string,
+  ): ConsumerState {
+    const state = this.state(callerAlias, consumer);
+    const cursors = { ...state.cursors };
+
+    for (const conn of this.connections(callerAlias, connection)) {
+      const buffered = this.ingestors.getEvents(callerAlias, conn);
+      const before =
+        position === 'earliest'
+          ? []
+          : position === 'latest'
+            ? buffered
+            : buffered.filter((e) => e.receivedAtMs < position);
+      cursors[conn] = before.at(-1)?.id ?? -1;
+    }
+
+    return this.save(callerAlias, consumer, cursors);
+  }
+
+  private connections(callerAlias: string, connection?: string): string[] {
+    return connection
+      ? [connection]
+      : this.ingestors.getStatuses(callerAlias).map((s) => s.connection);
+  }
+
+  private state(callerAlias: string, consumer: string): ConsumerState {
+    if (!CONSUMER_NAME.test(consumer)) {
+      throw new Error(`Invalid consumer name: ${consumer}`);
+    }
+    return this.load().get(`${callerAlias}:${consumer}`) ?? { cursors: {}, updatedAt: 0 };
+  }
+
+  /** Move cursors forward to cover `events` (never backwards). */
+  private advance(callerAlias: string, consumer: string, events: IngestedEvent[]): ConsumerState {
+    const cursors = { ...this.state(callerAlias, consumer).cursors };
+    for (const event of events) {
+      cursors[event.source] = Math.max(cursors[event.source] ?? -1, event.id);
+    }
+    return this.save(callerAlias, consumer, cursors);
+  }
+
+  // ── Persistence ──────────────────────────────────────────────────────────
+
+  private load(): Map<string, ConsumerState> {
+    if (this.consumers) return this.consumers;
+    this.consumers = new Map();
+    if (this.storePath && fs.existsSync(this.storePath)) {
+      try {
+        const raw = JSON.parse(fs.readFileSync(this.storePath, 'utf-8')) as Record<
+          string,
+          ConsumerState
+        >;
+        for (const [key, state] of Object.entries(raw)) this.consumers.set(key, state);
+      } catch (err) {
+        log.warn(`Ignoring unreadable consumer store ${this.storePath}:`, err);
+      }
+    }
+    return this.consumers;
+  }
+
+  private save(
+    callerAlias: string,
+    consumer: string,
+    cursors: Record<string, number>,
+  ): ConsumerState {
+    const state: ConsumerState = { cursors, updatedAt: Date.now() };
+    const consumers = this.load();
+    consumers.set(`${callerAlias}:${consumer}`, state);
+
+    if (this.storePath) {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.storePath, JSON.stringify(Object.fromEntries(consumers), null, 2), {
+        mode: 0o600,
+      });
+    }
+    return state;
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import {
+  EventForwarder,
+  FORWARD_SIGNATURE_SCHEME,
+  FORWARD_SIGNATURE_HEADER,
+  FORWARD_TIMESTAMP_HEADER,
+} from './forwarding.js';
+import { IngestorManager, verifyHmacSignature, type IngestedEvent } from './ingestors/index.js';
+import type { CallerConfig, RemoteServerConfig } from '../shared/config.js';
+
+const config: RemoteServerConfig = {
+  host: '127.0.0.1',
+  port: 9999,
+  localKeysDir: '',
+  connectors: ['hook-a', 'hook-b'].map((alias) => ({
+    alias,
+    secrets: { HOOK_SECRET: 'secret' },
+    allowedEndpoints: [],
+    ingestor: {
+      type: 'webhook' as const,
+      webhook: {
+        path: alias,
+        signatureHeader: 'x-hub-signature-256',
+        signatureSecret: 'HOOK_SECRET',
+      },
+    },
+  })),
+  callers: {
+    alice: { peerKeyDir: '', connections: ['hook-a', 'hook-b'] },
+  },
+  rateLimitPerMinute: 60,
+};
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let manager: IngestorManager;
+let forwarder: EventForwarder;
+let standIn: http.Server;
+let standInUrl: string;
+let received: Received[];
+/** Status codes the stand-in answers with, in order; 200 once exhausted. */
+let replies: number[];
+
+beforeEach(async () => {
+  manager = new IngestorManager(config);
+  await manager.startAll();
+  forwarder = new EventForwarder(manager, { retryBaseMs: 10 });
+  received = [];
+  replies = [];
+
+  standIn = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString() });
+      res.writeHead(replies.shift() ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => standIn.listen(0, '127.0.0.1', resolve));
+  standInUrl = `http://127.0.0.1:${(standIn.address() as AddressInfo).port}/hook`;
+});
+
+afterEach(async () => {
+  forwarder.stop();
+  await manager.stopAll();
+  await new Promise((resolve) => standIn.close(resolve));
+});
+
+function forwardTo(forwarding: CallerConfig['forwarding']): void {
+  forwarder.configure({ alice: { ...config.callers.alice, forwarding } });
+}
+
+/** Deliver a webhook to one of alice's ingestors. */
+function deliver(webhookPath: string, n: number, event = 'push'): void {
+  const body = Buffer.from(JSON.stringify({ n }));
+  const sig = `sha256=${crypto.createHmac('sha256', 'secret').update(body).digest('hex')}`;
+  const [ingestor] = manager.getWebhookIngestors(webhookPath);
+  ingestor.handleWebhook({ 'x-hub-signature-256': sig, 'x-github-event': event }, body);
+}
+
+describe('EventForwarder', () => {
+  it('should POST each event signed with the destination secret', async () => {
+    forwardTo([{ url: standInUrl, secret: 'forward-secret' }]);
+    deliver('hook-a', 1);
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [{ headers, body }] = received;
+    const event = JSON.parse(body) as IngestedEvent;
+    expect(event).toMatchObject({ source: 'hook-a', eventType: 'push' });
+    expect(headers['x-drawlatch-event']).toBe('push');
+    expect(headers['x-drawlatch-delivery']).toBe(event.idempotencyKey);
+    expect(
+      verifyHmacSignature(
+        FORWARD_SIGNATURE_SCHEME,
+        {
+          rawBody: Buffer.from(body),
+          timestamp: headers[FORWARD_TIMESTAMP_HEADER.toLowerCase()] as string,
+        },
+        headers[FORWARD_SIGNATURE_HEADER.toLowerCase()] as string,
+        'forward-secret',
+      ),
+    ).toEqual({ valid: true });
+    await vi.waitFor(() => expect(forwarder.getStatus('alice', 'hook-a')?.delivered).toBe(1));
+  });
+
+  it('should only forward matching connections and event types', async () => {
+    forwardTo([{ url: standInUrl, connections: ['hook-b'], eventTypes: ['issues'] }]);
+    deliver('hook-a', 1, 'issues');
+    deliver('hook-b', 2, 'push');
+    deliver('hook-b', 3, 'issues');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(JSON.parse(received[0].body)).toMatchObject({ data: { payload: { n: 3 } } });
+    expect(received[0].headers).not.toHaveProperty('x-drawlatch-signature');
+    expect(forwarder.getStatus('alice', 'hook-a')).toBeUndefined();
+  });
+
+  it('should retry server errors with the same delivery ID', async () => {
+    replies = [503, 500];
+    forwardTo([{ url: standInUrl }]);
+    deliver('hook-a', 1);
+
+    await vi.waitFor(() => expect(forwarder.getStatus('alice', 'hook-a')?.delivered).toBe(1));
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers['x-drawlatch-delivery'])).size).toBe(1);
+    expect(forwarder.getStatus('alice', 'hook-a')?.deadLetters).toEqual([]);
+  });
+
+  it('should dead-letter events after the last attempt, and client errors at once', async () => {
+    replies = [500, 500, 404];
+    forwardTo([{ url: standInUrl, maxAttempts: 2 }]);
+    deliver('hook-a', 1);
+    await vi.waitFor(() =>
+      expect(forwarder.getStatus('alice', 'hook-a')?.deadLetters).toHaveLength(1),
+    );
+    deliver('hook-a', 2);
+
+    await vi.waitFor(() =>
+      expect(forwarder.getStatus('alice', 'hook-a')?.deadLetters).toHaveLength(2),
+    );
+    expect(forwarder.getStatus('alice', 'hook-a')).toMatchObject({
+      delivered: 0,
+      retrying: 0,
+      deadLetters: [
+        { url: standInUrl, attempts: 2, error: 'HTTP 500', eventType: 'push' },
+        { url: standInUrl, attempts: 1, error: 'HTTP 404' },
+      ],
+    });
+  });
+
+  it('should resolve the secret from the caller env and stop forwarding after stop()', async () => {
+    forwarder.configure({
+      alice: {
+        ...config.callers.alice,
+        env: { FORWARD_SECRET: 'from-env' },
+        forwarding: [{ url: standInUrl, secret: '${FORWARD_SECRET}' }],
+      },
+    });
+    deliver('hook-a', 1);
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    const [{ headers, body }] = received;
+    expect(
+      verifyHmacSignature(
+        FORWARD_SIGNATURE_SCHEME,
+        { rawBody: Buffer.from(body), timestamp: headers['x-drawlatch-timestamp'] as string },
+        headers['x-drawlatch-signature'] as string,
+        'from-env',
+      ).valid,
+    ).toBe(true);
+
+    forwarder.stop();
+    deliver('hook-a', 2);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Outbound forwarding of ingested events.
+ *
+ * Consumers that are not MCP agents — a CI bot, a dashboard — can receive a
+ * caller's events as HTTP POSTs instead of polling. Every destination in the
+ * caller's `forwarding` config gets each matching `IngestedEvent` as JSON,
+ * signed the way Stripe signs its webhooks:
+ *
+ *   X-Drawlatch-Timestamp: <unix seconds>
+ *   X-Drawlatch-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${body}`>
+ *   X-Drawlatch-Event:     <eventType>
+ *   X-Drawlatch-Delivery:  <idempotencyKey>  (the same on every retry)
+ *
+ * Failed deliveries are retried with exponential backoff. Events that still
+ * fail, or that the destination rejects with a 4xx, go to a dead-letter list
+ * kept per caller and connection and reported by `ingestor_status`.
+ */
+
+import { resolveSecrets, type CallerConfig } from '../shared/config.js';
+import { isSecretReference } from '../shared/secrets/reference.js';
+import { createLogger } from '../shared/logger.js';
+import {
+  computeHmacSignature,
+  DEFAULT_TIMESTAMP_TOLERANCE,
+  type HmacSignatureScheme,
+  type IngestedEvent,
+  type IngestorManager,
+} from './ingestors/index.js';
+
+const log = createLogger('forwarding');
+
+/** Delivery attempts per event unless the destination sets `maxAttempts`. */
+export const DEFAULT_FORWARD_ATTEMPTS = 5;
+
+/** Dead letters kept per caller and connection; the oldest are dropped first. */
+export const MAX_DEAD_LETTERS = 100;
+
+/** Upper bound for the delay between retries. */
+const MAX_RETRY_DELAY = 30_000;
+
+/** How long one delivery attempt may take. */
+const DELIVERY_TIMEOUT = 10_000;
+
+export const FORWARD_SIGNATURE_HEADER = 'X-Drawlatch-Signature';
+export const FORWARD_TIMESTAMP_HEADER = 'X-Drawlatch-Timestamp';
+export const FORWARD_EVENT_HEADER = 'X-Drawlatch-Event';
+export const FORWARD_DELIVERY_HEADER = 'X-Drawlatch-Delivery';
+
+/** How forwarded events are signed — receivers can verify with `verifyHmacSignature`. */
+export const FORWARD_SIGNATURE_SCHEME: HmacSignatureScheme = {
+  algorithm: 'sha256',
+  encoding: 'hex',
+  prefix: 'sha256=',
+  signedPayload: 'timestamp+body',
+  timestampSeparator: '.',
+  timestampTolerance: DEFAULT_TIMESTAMP_TOLERANCE,
+};
+
+/** An event that could not be delivered to a destination. */
+export interface ForwardDeadLetter {
+  url: string;
+  eventId: number;
+  eventType: string;
+  idempotencyKey: string;
+  attempts: number;
+  /** Last failure: an HTTP status or a network error */
+  error: string;
+  failedAt: string;
+}
+
+/** Forwarding counters for one caller's connection. */
+export interface ForwardingStatus {
+  /** Events delivered since the server started */
+  delivered: number;
+  /** Deliveries waiting for a retry */
+  retrying: number;
+  /** Undeliverable events, oldest first */
+  deadLetters: ForwardDeadLetter[];
+}
+
+export interface EventForwarderOptions {
+  /** Delay before the first retry; doubles with each attempt, up to 30 s (default: 1000) */
+  retryBaseMs?: number;
+}
+
+/** A forwarding destination with its secret resolved. */
+interface Destination {
+  callerAlias: string;
+  url: string;
+  secret?: string;
+  connections?: string[];
+  eventTypes?: string[];
+  maxAttempts: number;
+}
+
+export class EventForwarder {
+  private readonly retryBaseMs: number;
+  private destinations: Destination[] = [];
+  private unsubscribes: (() => void)[] = [];
+  /** Pending retry timers, cleared by stop(). */
+  private readonly timers = new Set<NodeJS.Timeout>();
+  /** Counters keyed by `callerAlias:connectionAlias`; kept across reloads. */
+  private readonly statuses = new Map<string, ForwardingStatus>();
+
+  constructor(
+    private readonly ingestors: IngestorManager,
+    options: EventForwarderOptions = {},
+  ) {
+    this.retryBaseMs = options.retryBaseMs ?? 1000;
+  }
+
+  /**
+   * Subscribe to the events of every caller with `forwarding` destinations,
+   * replacing the previous configuration (called at startup and on reload).
+   * Retries already scheduled keep their original destination.
+   */
+  configure(callers: Record<string, CallerConfig>): void {
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+    this.unsubscribes = [];
+    this.destinations = [];
+
+    for (const [callerAlias, caller] of Object.entries(callers)) {
+      const destinations = (caller.forwarding ?? []).flatMap((forward): Destination[] => {
+        let secret: string | undefined;
+        if (forward.secret !== undefined) {
+          secret = resolveSecrets({ secret: forward.secret }, resolveSecrets(caller.env ?? {}))
+            .secret as string | undefined;
+          if (secret === undefined || isSecretReference(secret)) {
+            log.error(`Not forwarding ${callerAlias} events to ${forward.url}: secret unavailable`);
+            return [];
+          }
+        }
+        return [
+          {
+            callerAlias,
+            url: forward.url,
+            ...(secret !== undefined && { secret }),
+            ...(forward.connections && { connections: forward.connections }),
+            ...(forward.eventTypes && { eventTypes: forward.eventTypes }),
+            maxAttempts: Math.max(1, forward.maxAttempts ?? DEFAULT_FORWARD_ATTEMPTS),
+          },
+        ];
+      });
+      if (destinations.length === 0) continue;
+
+      this.destinations.push(...destinations);
+      this.unsubscribes.push(
+        this.ingestors.subscribe(callerAlias, (event) => {
+          for (const destination of destinations) {
+            if (matches(destination, event)) void this.deliver(destination, event, 1);
+          }
+        }),
+      );
+      log.info(`Forwarding ${callerAlias} events to ${destinations.length} destination(s)`);
+    }
+  }
+
+  /**
+   * Forwarding counters for a caller's connection, or `undefined` when no
+   * destination receives its events.
+   */
+  getStatus(callerAlias: string, connectionAlias: string): ForwardingStatus | undefined {
+    const forwarded = this.destinations.some(
+      (d) =>
+        d.callerAlias === callerAlias &&
+        (!d.connections || d.connections.includes(connectionAlias)),
+    );
+    const status = this.statuses.get(`${callerAlias}:${connectionAlias}`);
+    if (!forwarded && !status) return undefined;
+    return status
+      ? { ...status, deadLetters: [...status.deadLetters] }
+      : { delivered: 0, retrying: 0, deadLetters: [] };
+  }
+
+  /** Stop forwarding and drop scheduled retries (graceful shutdown). */
+  stop(): void {
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+    this.unsubscribes = [];
+    this.destinations = [];
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private async deliver(destination: Destination, event: IngestedEvent, attempt: number) {
+    const status = this.status(destination.callerAlias, event.source);
+    const body = JSON.stringify(event);
+
+    let error: string;
+    let retryable = true;
+    try {
+      const res = await fetch(destination.url, {
+        method: 'POST',
+        headers: signedHeaders(destination, event, body),
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      });
+      await res.body?.cancel();
+      if (res.ok) {
+        status.delivered++;
+        return;
+      }
+      error = `HTTP ${res.status}`;
+      // Other client errors will not change on a retry
+      retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (retryable && attempt < destination.maxAttempts) {
+      const delay = Math.min(this.retryBaseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+      log.warn(
+        `Forwarding event ${event.id} to ${destination.url} failed (${error}), ` +
+          `retrying in ${delay}ms (attempt ${attempt}/${destination.maxAttempts})`,
+      );
+      status.retrying++;
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        status.retrying--;
+        void this.deliver(destination, event, attempt + 1);
+      }, delay);
+      timer.unref();
+      this.timers.add(timer);
+      return;
+    }
+
+    log.error(
+      `Dead-lettered event ${event.id} for ${destination.url} after ${attempt} attempt(s): ${error}`,
+    );
+    status.deadLetters.push({
+      url: destination.url,
+      eventId: event.id,
+      eventType: event.eventType,
+      idempotencyKey: event.idempotencyKey,
+      attempts: attempt,
+      error,
+      failedAt: new Date().toISOString(),
+    });
+    if (status.deadLetters.length > MAX_DEAD_LETTERS) status.deadLetters.shift();
+  }
+
+  private status(callerAlias: string, connectionAlias: string): ForwardingStatus {
+    const key = `${callerAlias}:${connectionAlias}`;
+    let status = this.statuses.get(key);
+    if (!status) {
+      status = { delivered: 0, retrying: 0, deadLetters: [] };
+      this.statuses.set(key, status);
+    }
+    return status;
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function matches(destination: Destination, event: IngestedEvent): boolean {
+  if (destination.connections && !destination.connections.includes(event.source)) return false;
+  if (destination.eventTypes && !destination.eventTypes.includes(event.eventType)) return false;
+  return true;
+}
+
+/** Request headers for one delivery attempt, signed with a fresh timestamp. */
+function signedHeaders(
+  destination: Destination,
+  event: IngestedEvent,
+  body: string,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [FORWARD_EVENT_HEADER]: event.eventType,
+    [FORWARD_DELIVERY_HEADER]: event.idempotencyKey,
+  };
+  if (destination.secret !== undefined) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers[FORWARD_TIMESTAMP_HEADER] = timestamp;
+    headers[FORWARD_SIGNATURE_HEADER] = computeHmacSignature(
+      FORWARD_SIGNATURE_SCHEME,
+      { rawBody: Buffer.from(body), timestamp },
+      destination.secret,
+    );
+  }
+  return headers;
+}
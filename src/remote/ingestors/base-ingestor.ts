@@ -13,6 +13,7 @@ import crypto from 'node:crypto';
 import { EventEmitter } from 'node:events';
 
 import type { IngestedEvent, IngestorState, IngestorStatus } from './types.js';
+import type { EventStore } from './event-store.js';
 import { RingBuffer } from './ring-buffer.js';
 import { DEFAULT_BUFFER_SIZE } from './types.js';
 import { createLogger } from '../../shared/logger.js';
@@ -45,6 +46,12 @@ export abstract class BaseIngestor extends EventEmitter {
   /** Recently seen idempotency keys for deduplication. */
   private readonly seenKeys = new Set<string>();
 
+  /** Durable copy of every event, when the event store is enabled. */
+  private store?: EventStore;
+
+  /** ID of the first event pushed by this instance (minus the counter). */
+  private idBase = BOOT_EPOCH * ID_MULTIPLIER;
+
   constructor(
     /** The connection alias (e.g., 'discord-bot'). */
     protected readonly connectionAlias: string,
@@ -62,6 +69,37 @@ export abstract class BaseIngestor extends EventEmitter {
   /** Start the ingestor (connect WebSocket, begin polling, etc.). */
   abstract start(): Promise<void>;
 
+  /**
+   * Persist events to a durable store and restore what it already holds:
+   * the newest stored events refill the ring buffer, their idempotency keys
+   * are deduplicated again, and new IDs continue above the stored ones.
+   * Call before start().
+   */
+  attachStore(store: EventStore): void {
+    this.store = store;
+    for (const event of store.recent(MAX_SEEN_KEYS)) {
+      this.buffer.push(event);
+      this.seenKeys.add(event.idempotencyKey);
+      this.lastEventAt = event.receivedAt;
+    }
+    this.idBase = Math.max(this.idBase, store.lastId + 1);
+  }
+
+  /** ID the next pushed event will get. */
+  get nextId(): number {
+    return this.idBase + this.counter;
+  }
+
+  /**
+   * Continue IDs at or above `floor`, like attachStore() does for stored
+   * events. Used when this instance replaces one that already handed out IDs,
+   * so `after_id` cursors held by clients do not skip the new events.
+   * Call before start().
+   */
+  setIdFloor(floor: number): void {
+    this.idBase = Math.max(this.idBase, floor - this.counter);
+  }
+
   /** Stop the ingestor cleanly (close connections, clear timers). */
   abstract stop(): Promise<void>;
 
@@ -83,7 +121,7 @@ export abstract class BaseIngestor extends EventEmitter {
     }
 
     const now = new Date();
-    const id = BOOT_EPOCH * ID_MULTIPLIER + this.counter++;
+    const id = this.idBase + this.counter++;
     const key = idempotencyKey ?? `${this.connectionAlias}:${crypto.randomUUID()}`;
 
     const event: IngestedEvent = {
@@ -97,6 +135,12 @@ export abstract class BaseIngestor extends EventEmitter {
     };
     this.buffer.push(event);
     this.lastEventAt = event.receivedAt;
+    try {
+      this.store?.append(event);
+    } catch (err) {
+      // Keep the event in memory; only its durability is lost
+      log.error(`${this.connectionAlias} failed to persist event #${event.id}:`, err);
+    }
 
     // Track the key for future dedup checks
     this.seenKeys.add(key);
@@ -129,6 +173,10 @@ export abstract class BaseIngestor extends EventEmitter {
    */
   getEvents(afterId = -1): IngestedEvent[] {
     if (afterId < 0) return this.buffer.toArray();
+    // The buffer covers the cursor when its oldest event is at or before it;
+    // an older cursor (e.g., held across a restart) reads through to the store
+    const oldest = this.buffer.toArray().at(0);
+    if (this.store && (!oldest || oldest.id > afterId)) return this.store.since(afterId);
     return this.buffer.since(afterId);
   }
 
@@ -141,6 +189,7 @@ export abstract class BaseIngestor extends EventEmitter {
       bufferedEvents: this.buffer.size,
       totalEventsReceived: this.counter,
       lastEventAt: this.lastEventAt,
+      ...(this.store && { storedEvents: this.store.size }),
       ...(this.errorMessage && { error: this.errorMessage }),
     };
   }
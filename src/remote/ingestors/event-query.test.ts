@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { applyEventQuery, parseEventFilter, parseFieldPath } from './event-query.js';
+import type { IngestedEvent } from './types.js';
+
+function makeEvent(id: number, eventType: string, data: unknown): IngestedEvent {
+  return {
+    id,
+    idempotencyKey: `key-${id}`,
+    receivedAt: '2026-01-01T00:00:00.000Z',
+    receivedAtMs: 0,
+    source: 'discord-bot',
+    eventType,
+    data,
+  };
+}
+
+const events = [
+  makeEvent(1, 'MESSAGE_CREATE', {
+    channel_id: '123',
+    content: 'hello',
+    author: { username: 'ada', bot: false },
+    embeds: [{ url: 'https://a.example' }],
+  }),
+  makeEvent(2, 'TYPING_START', { channel_id: '123' }),
+  makeEvent(3, 'MESSAGE_CREATE', {
+    channel_id: '456',
+    content: 'beep',
+    author: { username: 'bot', bot: true },
+  }),
+];
+
+describe('parseFieldPath', () => {
+  it('should accept dotted paths with JSONPath-style prefix and indices', () => {
+    expect(parseFieldPath('data.author.id')).toEqual(['data', 'author', 'id']);
+    expect(parseFieldPath('$.data.embeds[0].url')).toEqual(['data', 'embeds', '0', 'url']);
+  });
+
+  it('should reject empty segments', () => {
+    expect(() => parseFieldPath('data..id')).toThrow('Invalid field path');
+    expect(() => parseFieldPath('$')).toThrow('Invalid field path');
+  });
+});
+
+describe('parseEventFilter', () => {
+  it('should parse the operator and strip quotes from the value', () => {
+    expect(parseEventFilter('data.channel_id == "123"')).toEqual({
+      path: ['data', 'channel_id'],
+      op: '==',
+      value: '123',
+    });
+    expect(parseEventFilter('data.author.bot!=true').op).toBe('!=');
+  });
+
+  it('should reject expressions without an operator', () => {
+    expect(() => parseEventFilter('data.channel_id')).toThrow('Invalid filter');
+  });
+});
+
+describe('applyEventQuery', () => {
+  it('should filter by event type', () => {
+    const result = applyEventQuery(events, { eventTypes: ['MESSAGE_CREATE'] });
+    expect(result.map((e) => e.id)).toEqual([1, 3]);
+  });
+
+  it('should match field values regardless of their JSON type', () => {
+    expect(applyEventQuery(events, { filters: ['data.channel_id == 123'] })).toHaveLength(2);
+    expect(
+      applyEventQuery(events, { filters: ['data.author.bot != true', 'data.content == hello'] }),
+    ).toEqual([events[0]]);
+    expect(applyEventQuery(events, { filters: ['data.author == null'] }).map((e) => e.id)).toEqual([
+      2,
+    ]);
+  });
+
+  it('should limit to the oldest matching events', () => {
+    expect(applyEventQuery(events, { limit: 2 }).map((e) => e.id)).toEqual([1, 2]);
+    expect(() => applyEventQuery(events, { limit: -1 })).toThrow('Invalid limit');
+  });
+
+  it('should project requested fields and always keep the id', () => {
+    const [projected] = applyEventQuery(events, {
+      limit: 1,
+      fields: ['eventType', 'data.author.username', '$.data.embeds[0].url', 'data.missing'],
+    });
+
+    expect(projected).toEqual({
+      id: 1,
+      eventType: 'MESSAGE_CREATE',
+      data: { author: { username: 'ada' }, embeds: { 0: { url: 'https://a.example' } } },
+    });
+  });
+
+  it('should not read inherited properties', () => {
+    expect(applyEventQuery(events, { fields: ['data.constructor'] })[0]).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Server-side event selection for `poll_events` — event type and field
+ * filters, a limit, and field projection. Applied before events are
+ * encrypted, so large payloads (Discord MESSAGE_CREATE, GitHub push) do not
+ * have to reach the agent whole.
+ *
+ * Field paths are dotted and relative to the event, with an optional
+ * JSONPath-style `$.` prefix and `[n]` array indices:
+ * `data.author.id`, `$.data.embeds[0].url`.
+ */
+
+import type { IngestedEvent } from './types.js';
+
+export interface EventQuery {
+  /** Only events of these types */
+  eventTypes?: string[];
+  /** Conditions that must all hold, e.g. `data.channel_id == 123` or `data.author.bot != true` */
+  filters?: string[];
+  /** Return at most this many events (the oldest that match) */
+  limit?: number;
+  /** Paths to keep; the event `id` is always kept so cursors keep working */
+  fields?: string[];
+}
+
+/** A projected event: `id` plus whichever requested fields were present. */
+export type ProjectedEvent = { id: number } & Record<string, unknown>;
+
+interface FieldFilter {
+  path: string[];
+  op: '==' | '!=';
+  value: string;
+}
+
+const FILTER_EXPRESSION = /^(.+?)\s*(==|!=)\s*(.*)$/;
+
+/**
+ * Split a field path into segments.
+ * @throws Error if the path is empty or has an empty segment
+ */
+export function parseFieldPath(expression: string): string[] {
+  const normalized = expression
+    .trim()
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1');
+  const segments = normalized.split('.');
+  if (!normalized || segments.some((s) => !s)) {
+    throw new Error(`Invalid field path: ${expression}`);
+  }
+  return segments;
+}
+
+/**
+ * Parse a `path == value` / `path != value` condition. Values may be quoted;
+ * unquoted `null` also matches a missing field.
+ * @throws Error if the expression is not a condition
+ */
+export function parseEventFilter(expression: string): FieldFilter {
+  const match = FILTER_EXPRESSION.exec(expression.trim());
+  if (!match) {
+    throw new Error(`Invalid filter: ${expression} (expected "path == value" or "path != value")`);
+  }
+  const [, path, op, raw] = match;
+  const quoted = /^(["'])(.*)\1$/.exec(raw);
+  return {
+    path: parseFieldPath(path),
+    op: op as FieldFilter['op'],
+    value: quoted ? quoted[2] : raw,
+  };
+}
+
+/** Read a field, or undefined when any segment is missing. */
+export function getField(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null || !Object.hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/** The text a field is compared as: strings as-is, missing as "null", the rest as JSON. */
+function fieldText(value: unknown): string {
+  if (value === undefined) return 'null';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function matches(event: IngestedEvent, filter: FieldFilter): boolean {
+  const equal = fieldText(getField(event, filter.path)) === filter.value;
+  return filter.op === '==' ? equal : !equal;
+}
+
+function project(event: IngestedEvent, fields: string[][]): ProjectedEvent {
+  const result: ProjectedEvent = { id: event.id };
+  for (const path of fields) {
+    const value = getField(event, path);
+    if (value === undefined) continue;
+
+    let target: Record<string, unknown> = result;
+    for (const segment of path.slice(0, -1)) {
+      const next = target[segment];
+      target[segment] = typeof next === 'object' && next !== null ? next : {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return result;
+}
+
+/**
+ * Filter, limit and project events (in that order).
+ * @throws Error if a filter, path or limit is invalid
+ */
+export function applyEventQuery(
+  events: IngestedEvent[],
+  query: EventQuery,
+): (IngestedEvent | ProjectedEvent)[] {
+  const filters = (query.filters ?? []).map(parseEventFilter);
+  const fields = query.fields?.map(parseFieldPath);
+  if (query.limit !== undefined && !(Number.isInteger(query.limit) && query.limit >= 0)) {
+    throw new Error(`Invalid limit: ${query.limit}`);
+  }
+
+  const selected = events
+    .filter((e) => !query.eventTypes || query.eventTypes.includes(e.eventType))
+    .filter((e) => filters.every((f) => matches(e, f)))
+    .slice(0, query.limit);
+  return fields ? selected.map((e) => project(e, fields)) : selected;
+}
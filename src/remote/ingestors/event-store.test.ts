@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { EventStore, eventStoreOptions } from './event-store.js';
+import type { IngestedEvent } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-events-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeEvent(id: number, receivedAtMs = Date.now()): IngestedEvent {
+  return {
+    id,
+    idempotencyKey: `key-${id}`,
+    receivedAt: new Date(receivedAtMs).toISOString(),
+    receivedAtMs,
+    source: 'hook',
+    eventType: 'push',
+    data: { id },
+  };
+}
+
+describe('EventStore', () => {
+  it('should return events after a cursor across segments and reopens', () => {
+    const store = new EventStore({ dir, segmentEvents: 2 });
+    for (let id = 1; id <= 5; id++) store.append(makeEvent(id));
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['1.jsonl', '3.jsonl', '5.jsonl']);
+    expect(store.since(2).map((e) => e.id)).toEqual([3, 4, 5]);
+
+    const reopened = new EventStore({ dir, segmentEvents: 2 });
+    expect(reopened.lastId).toBe(5);
+    expect(reopened.size).toBe(5);
+    expect(reopened.recent(2).map((e) => e.id)).toEqual([4, 5]);
+    expect(fs.statSync(path.join(dir, '1.jsonl')).mode & 0o777).toBe(0o600);
+  });
+
+  it('should drop whole segments beyond maxEvents', () => {
+    const store = new EventStore({ dir, segmentEvents: 2, maxEvents: 3 });
+    for (let id = 1; id <= 6; id++) store.append(makeEvent(id));
+
+    // 5 and 6 alone are fewer than 3 events, so the 3–4 segment stays
+    expect(store.since(-1).map((e) => e.id)).toEqual([3, 4, 5, 6]);
+    expect(fs.existsSync(path.join(dir, '1.jsonl'))).toBe(false);
+  });
+
+  it('should drop expired segments and never return expired events', () => {
+    const hour = 3_600_000;
+    const old = Date.now() - 3 * hour;
+    const writer = new EventStore({ dir, segmentEvents: 2, maxAgeMs: 0 });
+    writer.append(makeEvent(1, old));
+    writer.append(makeEvent(2, old));
+    writer.append(makeEvent(3, old));
+    writer.append(makeEvent(4));
+
+    const store = new EventStore({ dir, segmentEvents: 2, maxAgeMs: 2 * hour });
+    expect(fs.readdirSync(dir)).toEqual(['3.jsonl']);
+    expect(store.since(-1).map((e) => e.id)).toEqual([4]);
+  });
+
+  it('should repair a partially written last line', () => {
+    const store = new EventStore({ dir });
+    store.append(makeEvent(1));
+    fs.appendFileSync(path.join(dir, '1.jsonl'), '{"id":2,"idem');
+
+    const reopened = new EventStore({ dir });
+    reopened.append(makeEvent(3));
+
+    expect(reopened.since(-1).map((e) => e.id)).toEqual([1, 3]);
+  });
+
+  it('should give each caller and connection its own directory', () => {
+    const options = eventStoreOptions({ dir }, 'agent/one', 'github');
+    expect(options.dir).toBe(path.join(dir, 'agent%2Fone', 'github'));
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Durable event storage — append-only segment files per ingestor.
+ *
+ * Each `callerAlias:connectionAlias` gets its own directory under the store
+ * root (default ~/.drawlatch/events/<caller>/<connection>/, files 0600).
+ * Events are appended as JSON lines to the newest segment, named after the
+ * id of its first event (`<id>.jsonl`); a new segment starts every
+ * `segmentEvents` events. Retention removes whole segments, oldest first,
+ * once they fall outside `maxEvents` or `maxAgeMs` — so slightly more than
+ * `maxEvents` events may be kept on disk, but expired ones are never returned.
+ *
+ * The in-memory ring buffer stays the fast path. The store refills it after a
+ * restart, restores deduplication keys, and answers cursors older than the
+ * buffer (see BaseIngestor.attachStore()).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getEventsDir, type EventStoreConfig } from '../../shared/config.js';
+import { createLogger } from '../../shared/logger.js';
+import type { IngestedEvent } from './types.js';
+
+const log = createLogger('event-store');
+
+/** Default number of events kept per ingestor. */
+export const DEFAULT_STORE_MAX_EVENTS = 10_000;
+
+/** Default age after which events are dropped (7 days). */
+export const DEFAULT_STORE_MAX_AGE_HOURS = 168;
+
+/** Default number of events per segment file. */
+const DEFAULT_SEGMENT_EVENTS = 1_000;
+
+const SEGMENT_FILE = /^(\d+)\.jsonl$/;
+
+export interface EventStoreOptions {
+  /** Directory holding this ingestor's segment files */
+  dir: string;
+  /** Keep the newest this-many events; 0 keeps them all (default: 10 000) */
+  maxEvents?: number;
+  /** Drop events older than this many ms; 0 keeps them regardless of age (default: 7 days) */
+  maxAgeMs?: number;
+  /** Start a new segment after this many events (default: 1000) */
+  segmentEvents?: number;
+}
+
+interface Segment {
+  file: string;
+  count: number;
+  lastId: number;
+  lastAtMs: number;
+}
+
+/** Build the store options for one ingestor from the `eventStore` config block. */
+export function eventStoreOptions(
+  config: EventStoreConfig,
+  callerAlias: string,
+  connectionAlias: string,
+): EventStoreOptions {
+  return {
+    dir: path.join(
+      config.dir ?? getEventsDir(),
+      encodeURIComponent(callerAlias),
+      encodeURIComponent(connectionAlias),
+    ),
+    maxEvents: config.maxEvents ?? DEFAULT_STORE_MAX_EVENTS,
+    maxAgeMs: (config.maxAgeHours ?? DEFAULT_STORE_MAX_AGE_HOURS) * 3_600_000,
+  };
+}
+
+export class EventStore {
+  readonly dir: string;
+  private readonly maxEvents: number;
+  private readonly maxAgeMs: number;
+  private readonly segmentEvents: number;
+  /** Segment metadata, oldest first. */
+  private segments: Segment[] = [];
+
+  /**
+   * Open (or create) the store and apply retention to what is already on disk.
+   * @throws Error if the directory cannot be created or read
+   */
+  constructor(options: EventStoreOptions) {
+    this.dir = options.dir;
+    this.maxEvents = options.maxEvents ?? DEFAULT_STORE_MAX_EVENTS;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_STORE_MAX_AGE_HOURS * 3_600_000;
+    this.segmentEvents = options.segmentEvents ?? DEFAULT_SEGMENT_EVENTS;
+
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    this.scan();
+    this.prune();
+  }
+
+  /** Number of events on disk (including expired ones not yet pruned). */
+  get size(): number {
+    return this.segments.reduce((n, s) => n + s.count, 0);
+  }
+
+  /** Highest stored event id, or -1 when the store is empty. */
+  get lastId(): number {
+    return this.segments.at(-1)?.lastId ?? -1;
+  }
+
+  /** Append one event, then drop segments that fell out of retention. */
+  append(event: IngestedEvent): void {
+    let segment = this.segments.at(-1);
+    if (!segment || segment.count >= this.segmentEvents) {
+      segment = {
+        file: path.join(this.dir, `${event.id}.jsonl`),
+        count: 0,
+        lastId: -1,
+        lastAtMs: 0,
+      };
+      this.segments.push(segment);
+    }
+
+    fs.appendFileSync(segment.file, JSON.stringify(event) + '\n', { mode: 0o600 });
+    segment.count++;
+    segment.lastId = event.id;
+    segment.lastAtMs = event.receivedAtMs;
+    this.prune();
+  }
+
+  /** Events with id > afterId, oldest first. */
+  since(afterId: number): IngestedEvent[] {
+    const cutoff = this.cutoff();
+    return this.segments
+      .filter((s) => s.lastId > afterId)
+      .flatMap((s) => this.read(s.file))
+      .filter((e) => e.id > afterId && e.receivedAtMs >= cutoff);
+  }
+
+  /** The newest `limit` events, oldest first. */
+  recent(limit: number): IngestedEvent[] {
+    const events: IngestedEvent[] = [];
+    for (let i = this.segments.length - 1; i >= 0 && events.length < limit; i--) {
+      events.unshift(...this.read(this.segments[i].file));
+    }
+    const cutoff = this.cutoff();
+    return events.filter((e) => e.receivedAtMs >= cutoff).slice(-limit);
+  }
+
+  private cutoff(): number {
+    return this.maxAgeMs > 0 ? Date.now() - this.maxAgeMs : 0;
+  }
+
+  private scan(): void {
+    const files = fs
+      .readdirSync(this.dir)
+      .flatMap((name) => {
+        const match = SEGMENT_FILE.exec(name);
+        return match ? [{ name, firstId: Number(match[1]) }] : [];
+      })
+      .sort((a, b) => a.firstId - b.firstId);
+
+    for (const { name } of files) {
+      const file = path.join(this.dir, name);
+      const events = this.read(file, true);
+      const last = events.at(-1);
+      if (!last) {
+        fs.rmSync(file, { force: true });
+        continue;
+      }
+      this.segments.push({
+        file,
+        count: events.length,
+        lastId: last.id,
+        lastAtMs: last.receivedAtMs,
+      });
+    }
+  }
+
+  /**
+   * Parse a segment file.
+   * @param repair - Cut a partial last line (left by a crash mid-append) off the file
+   */
+  private read(file: string, repair = false): IngestedEvent[] {
+    const content = fs.readFileSync(file, 'utf-8');
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    if (repair && complete.length < content.length) {
+      log.warn(`Dropping a partially written event at the end of ${file}`);
+      fs.truncateSync(file, Buffer.byteLength(complete));
+    }
+
+    const events: IngestedEvent[] = [];
+    for (const line of complete.split('\n')) {
+      if (!line) continue;
+      try {
+        events.push(JSON.parse(line) as IngestedEvent);
+      } catch {
+        log.warn(`Skipping an unreadable event in ${file}`);
+      }
+    }
+    return events;
+  }
+
+  private prune(): void {
+    const cutoff = this.cutoff();
+    let total = this.size;
+    while (this.segments.length > 0) {
+      const oldest = this.segments[0];
+      const overCount = this.maxEvents > 0 && total - oldest.count >= this.maxEvents;
+      if (!overCount && oldest.lastAtMs >= cutoff) break;
+      fs.rmSync(oldest.file, { force: true });
+      this.segments.shift();
+      total -= oldest.count;
+    }
+  }
+}
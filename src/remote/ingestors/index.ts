@@ -12,8 +12,27 @@ export {
 } from './types.js';
 
 export { RingBuffer } from './ring-buffer.js';
+export {
+  type EventQuery,
+  type ProjectedEvent,
+  applyEventQuery,
+  parseEventFilter,
+  parseFieldPath,
+  getField,
+} from './event-query.js';
+export {
+  EventStore,
+  eventStoreOptions,
+  type EventStoreOptions,
+  DEFAULT_STORE_MAX_EVENTS,
+  DEFAULT_STORE_MAX_AGE_HOURS,
+} from './event-store.js';
 export { BaseIngestor } from './base-ingestor.js';
-export { IngestorManager } from './manager.js';
+export {
+  IngestorManager,
+  type IngestorReloadResult,
+  type IngestedEventListener,
+} from './manager.js';
 export { registerIngestorFactory, createIngestor } from './registry.js';
 
 // ── Providers (each self-registers on import) ────────────────────────────
@@ -26,8 +45,10 @@ export {
 
 export { SlackSocketModeIngestor } from './slack/index.js';
 
+export { GenericWebSocketIngestor } from './websocket/index.js';
+
 // ── Webhook providers ────────────────────────────────────────────────────
-export { WebhookIngestor } from './webhook/index.js';
+export { WebhookIngestor, type WebhookResult, type HandleWebhookOptions } from './webhook/index.js';
 export { GitHubWebhookIngestor } from './webhook/index.js';
 export {
   verifyGitHubSignature,
@@ -55,5 +76,34 @@ export {
   TRELLO_SIGNATURE_HEADER,
 } from './webhook/index.js';
 
+export { HmacWebhookIngestor } from './webhook/index.js';
+export {
+  computeHmacSignature,
+  verifyHmacSignature,
+  hmacSchemeFromConfig,
+  type HmacSignatureScheme,
+  type HmacSignedParts,
+} from './webhook/index.js';
+
+export { SlackWebhookIngestor } from './webhook/index.js';
+export {
+  verifySlackSignature,
+  type SlackEventsApiBody,
+  SLACK_SIGNATURE_HEADER,
+  SLACK_TIMESTAMP_HEADER,
+} from './webhook/index.js';
+
+export { DiscordInteractionsIngestor } from './webhook/index.js';
+export {
+  verifyDiscordSignature,
+  importDiscordPublicKey,
+  interactionResponse,
+  InteractionType,
+  InteractionResponseType,
+  type DiscordInteraction,
+  DISCORD_SIGNATURE_HEADER,
+  DISCORD_TIMESTAMP_HEADER,
+} from './webhook/index.js';
+
 // ── Poll provider ──────────────────────────────────────────────────────
 export { PollIngestor } from './poll/index.js';
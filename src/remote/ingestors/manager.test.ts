@@ -3,6 +3,10 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { IngestorManager } from './manager.js';
 import type { RemoteServerConfig } from '../../shared/config.js';
 import type { IngestorConfig } from './types.js';
@@ -78,6 +82,169 @@ describe('IngestorManager', () => {
   });
 });
 
+describe('IngestorManager.reload', () => {
+  /** Config with one webhook connector per entry in `secrets`, all granted to one caller */
+  function webhookConfig(
+    secrets: Record<string, string>,
+    ingestorOverrides?: Record<string, IngestorOverrides>,
+  ): RemoteServerConfig {
+    const aliases = Object.keys(secrets);
+    return {
+      host: '127.0.0.1',
+      port: 9999,
+      localKeysDir: '',
+      connectors: aliases.map((alias) => ({
+        alias,
+        secrets: { HOOK_SECRET: secrets[alias] },
+        allowedEndpoints: [],
+        ingestor: {
+          type: 'webhook' as const,
+          webhook: { path: alias, signatureHeader: 'x-sig', signatureSecret: 'HOOK_SECRET' },
+        },
+      })),
+      callers: {
+        'test-caller': { peerKeyDir: '', connections: aliases, ingestorOverrides },
+      },
+      rateLimitPerMinute: 60,
+    };
+  }
+
+  it('should start, stop and restart only the ingestors whose config changed', async () => {
+    const manager = new IngestorManager(webhookConfig({ keep: 'a', change: 'b', drop: 'c' }));
+    await manager.startAll();
+    const kept = manager.getWebhookIngestors('keep')[0];
+    const changedBefore = manager.getWebhookIngestors('change')[0];
+
+    const result = await manager.reload(webhookConfig({ keep: 'a', change: 'b2', add: 'd' }));
+
+    expect(result).toEqual({
+      started: ['test-caller:add'],
+      stopped: ['test-caller:drop'],
+      restarted: ['test-caller:change'],
+      unchanged: ['test-caller:keep'],
+    });
+    // Unchanged ingestors keep their instance (and buffer); changed ones are replaced
+    expect(manager.getWebhookIngestors('keep')[0]).toBe(kept);
+    expect(manager.getWebhookIngestors('change')[0]).not.toBe(changedBefore);
+    expect(manager.getWebhookIngestors('drop')).toEqual([]);
+    expect(manager.getStatuses('test-caller')).toHaveLength(3);
+
+    await manager.stopAll();
+  });
+
+  it('should continue event IDs above the replaced ingestor', async () => {
+    const manager = new IngestorManager(webhookConfig({ hook: 'a' }));
+    await manager.startAll();
+    const deliver = (n: number) =>
+      manager
+        .getWebhookIngestors('hook')[0]
+        .handleWebhook({ 'x-github-event': 'push' }, Buffer.from(JSON.stringify({ n })), {
+          skipVerification: true,
+        });
+    deliver(1);
+    deliver(2);
+    const lastIdBeforeReload = manager.getEvents('test-caller', 'hook')[1].id;
+
+    await manager.reload(webhookConfig({ hook: 'b' }));
+    deliver(3);
+
+    const events = manager.getEvents('test-caller', 'hook', lastIdBeforeReload);
+    expect(events.map((e) => e.data)).toMatchObject([{ payload: { n: 3 } }]);
+    await manager.stopAll();
+  });
+
+  it('should stop an ingestor that a caller override disables', async () => {
+    const manager = new IngestorManager(webhookConfig({ hook: 'a' }));
+    await manager.startAll();
+
+    const result = await manager.reload(webhookConfig({ hook: 'a' }, { hook: { disabled: true } }));
+
+    expect(result.stopped).toEqual(['test-caller:hook']);
+    expect(manager.getStatuses('test-caller')).toEqual([]);
+  });
+
+  it('should restart an ingestor when its buffer size override changes', async () => {
+    const manager = new IngestorManager(webhookConfig({ hook: 'a' }));
+    await manager.startAll();
+
+    const result = await manager.reload(webhookConfig({ hook: 'a' }, { hook: { bufferSize: 10 } }));
+
+    expect(result.restarted).toEqual(['test-caller:hook']);
+    await manager.stopAll();
+  });
+});
+
+describe('IngestorManager.subscribe', () => {
+  const config: RemoteServerConfig = {
+    host: '127.0.0.1',
+    port: 9999,
+    localKeysDir: '',
+    connectors: ['hook-a', 'hook-b'].map((alias) => ({
+      alias,
+      secrets: { HOOK_SECRET: 'secret' },
+      allowedEndpoints: [],
+      ingestor: {
+        type: 'webhook' as const,
+        webhook: {
+          path: alias,
+          signatureHeader: 'x-hub-signature-256',
+          signatureSecret: 'HOOK_SECRET',
+        },
+      },
+    })),
+    callers: {
+      'test-caller': { peerKeyDir: '', connections: ['hook-a', 'hook-b'] },
+      'other-caller': { peerKeyDir: '', connections: ['hook-a'] },
+    },
+    rateLimitPerMinute: 60,
+  };
+
+  function deliver(manager: IngestorManager, webhookPath: string, payload: unknown): void {
+    const body = Buffer.from(JSON.stringify(payload));
+    const sig = `sha256=${crypto.createHmac('sha256', 'secret').update(body).digest('hex')}`;
+    for (const ingestor of manager.getWebhookIngestors(webhookPath)) {
+      ingestor.handleWebhook({ 'x-hub-signature-256': sig }, body);
+    }
+  }
+
+  it('should deliver events to matching subscribers until they unsubscribe', async () => {
+    const manager = new IngestorManager(config);
+    await manager.startAll();
+    const all: string[] = [];
+    const onlyB: string[] = [];
+    const other: string[] = [];
+
+    const unsubscribeAll = manager.subscribe('test-caller', (e) => all.push(e.source));
+    manager.subscribe('test-caller', (e) => onlyB.push(e.source), 'hook-b');
+    manager.subscribe('other-caller', (e) => other.push(e.source));
+
+    deliver(manager, 'hook-a', { n: 1 });
+    deliver(manager, 'hook-b', { n: 2 });
+    unsubscribeAll();
+    deliver(manager, 'hook-b', { n: 3 });
+
+    expect(all).toEqual(['hook-a', 'hook-b']);
+    expect(onlyB).toEqual(['hook-b', 'hook-b']);
+    expect(other).toEqual(['hook-a']);
+    await manager.stopAll();
+  });
+
+  it('should keep delivering when a subscriber throws', async () => {
+    const manager = new IngestorManager(config);
+    await manager.startAll();
+    const received: number[] = [];
+
+    manager.subscribe('test-caller', () => {
+      throw new Error('listener failed');
+    });
+    manager.subscribe('test-caller', (e) => received.push(e.id));
+    deliver(manager, 'hook-a', { n: 1 });
+
+    expect(received).toHaveLength(1);
+    await manager.stopAll();
+  });
+});
+
 describe('IngestorManager.mergeIngestorConfig', () => {
   const baseConfig: IngestorConfig = {
     type: 'websocket',
@@ -235,3 +402,62 @@ describe('IngestorManager.mergeIngestorConfig — poll overrides', () => {
     expect(result.websocket).toBeUndefined();
   });
 });
+
+describe('IngestorManager with an event store', () => {
+  function deliver(manager: IngestorManager, deliveryId: string): void {
+    const body = Buffer.from(JSON.stringify({ deliveryId }));
+    const sig = `sha256=${crypto.createHmac('sha256', 'secret').update(body).digest('hex')}`;
+    manager
+      .getWebhookIngestors('hook')[0]
+      .handleWebhook({ 'x-hub-signature-256': sig, 'x-github-delivery': deliveryId }, body);
+  }
+
+  it('should keep events, cursors and deduplication across a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-events-'));
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 9999,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'hook',
+          secrets: { HOOK_SECRET: 'secret' },
+          allowedEndpoints: [],
+          ingestor: {
+            type: 'webhook',
+            webhook: {
+              path: 'hook',
+              signatureHeader: 'x-hub-signature-256',
+              signatureSecret: 'HOOK_SECRET',
+            },
+          },
+        },
+      ],
+      callers: { 'test-caller': { peerKeyDir: '', connections: ['hook'] } },
+      rateLimitPerMinute: 60,
+      eventStore: { dir },
+    };
+
+    try {
+      const before = new IngestorManager(config);
+      await before.startAll();
+      deliver(before, 'd-1');
+      deliver(before, 'd-2');
+      const [first] = before.getEvents('test-caller', 'hook');
+      await before.stopAll();
+
+      const after = new IngestorManager(config);
+      await after.startAll();
+      deliver(after, 'd-2'); // redelivery of an event seen before the restart
+      deliver(after, 'd-3');
+
+      const events = after.getEvents('test-caller', 'hook', first.id);
+      expect(events.map((e) => e.idempotencyKey)).toEqual(['github:d-2', 'github:d-3']);
+      expect(events[1].id).toBeGreaterThan(events[0].id);
+      expect(after.getStatuses('test-caller')[0].storedEvents).toBe(3);
+      await after.stopAll();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
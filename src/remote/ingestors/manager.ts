@@ -10,14 +10,19 @@
  * `ingestor_status` tool handlers.
  */
 
+import crypto from 'node:crypto';
+
 import {
   resolveCallerRoutes,
   resolveRoutes,
   resolveSecrets,
   type IngestorOverrides,
   type RemoteServerConfig,
+  type ResolvedRoute,
 } from '../../shared/config.js';
 import { createLogger } from '../../shared/logger.js';
+import type { SecretProviderManager } from '../../shared/secrets/index.js';
+import type { OAuthTokenManager } from '../oauth.js';
 
 const log = createLogger('ingestor');
 import type {
@@ -27,6 +32,8 @@ import type {
   WebSocketIngestorConfig,
 } from './types.js';
 import type { BaseIngestor } from './base-ingestor.js';
+import { EventStore, eventStoreOptions } from './event-store.js';
+import { applyEventQuery, type EventQuery, type ProjectedEvent } from './event-query.js';
 import { createIngestor } from './registry.js';
 import { WebhookIngestor } from './webhook/base-webhook-ingestor.js';
 
@@ -34,22 +41,127 @@ import { WebhookIngestor } from './webhook/base-webhook-ingestor.js';
 // Each provider calls registerIngestorFactory() at module load time.
 import './discord/discord-gateway.js';
 import './slack/socket-mode.js';
+import './websocket/generic-websocket.js';
 import './webhook/github-webhook-ingestor.js';
 import './webhook/stripe-webhook-ingestor.js';
 import './webhook/trello-webhook-ingestor.js';
-import './poll/poll-ingestor.js';
+import './webhook/hmac-webhook-ingestor.js';
+import './webhook/slack-webhook-ingestor.js';
+import './webhook/discord-interactions-ingestor.js';
+import { PollIngestor } from './poll/poll-ingestor.js';
+
+/** An ingestor the current config calls for, before it is created. */
+interface PlannedIngestor {
+  callerAlias: string;
+  connectionAlias: string;
+  config: IngestorConfig;
+  /** The caller's resolved route — provider-backed secrets are filled in at start */
+  route: ResolvedRoute;
+  bufferSize?: number;
+  /** Hash of everything that affects the instance — a change means restart. */
+  fingerprint: string;
+}
+
+/** Receives events as ingestors emit them (see IngestorManager.subscribe). */
+export type IngestedEventListener = (event: IngestedEvent) => void;
+
+interface Subscriber {
+  callerAlias: string;
+  connectionAlias?: string;
+  listener: IngestedEventListener;
+}
+
+/** What a reload() changed, by `callerAlias:connectionAlias` key. */
+export interface IngestorReloadResult {
+  started: string[];
+  stopped: string[];
+  restarted: string[];
+  unchanged: string[];
+}
 
 export class IngestorManager {
   /** Active ingestor instances, keyed by `callerAlias:connectionAlias`. */
   private ingestors = new Map<string, BaseIngestor>();
+  /** Config fingerprint each active ingestor was created from. */
+  private fingerprints = new Map<string, string>();
+  /** Live listeners registered with subscribe(). */
+  private readonly subscribers = new Set<Subscriber>();
+  /** Next event ID of each stopped ingestor, so its replacement never reuses IDs. */
+  private readonly idFloors = new Map<string, number>();
 
-  constructor(private readonly config: RemoteServerConfig) {}
+  /**
+   * @param secretProviders - Resolves "${provider:path#field}" secrets when an
+   *   ingestor starts. Without it, ingestors using such secrets fail to start.
+   * @param oauthTokens - Keeps the access token of OAuth-managed routes fresh
+   *   for poll ingestors. Without it, they poll with the static secret.
+   */
+  constructor(
+    private config: RemoteServerConfig,
+    private readonly secretProviders?: SecretProviderManager,
+    private readonly oauthTokens?: OAuthTokenManager,
+  ) {}
 
   /**
    * Start ingestors for all callers whose connections have an `ingestor` config.
    * Called once when the remote server starts listening.
    */
   async startAll(): Promise<void> {
+    for (const [key, planned] of this.planIngestors()) {
+      if (this.ingestors.has(key)) continue;
+      await this.startPlanned(key, planned);
+    }
+
+    const count = this.ingestors.size;
+    if (count > 0) {
+      log.info(`${count} ingestor(s) started`);
+    }
+  }
+
+  /**
+   * Apply a new config to running ingestors: start ingestors that were added,
+   * stop ones that were removed or disabled, and restart only those whose
+   * effective config or secrets changed. Unchanged ingestors keep their
+   * connection and event buffer.
+   */
+  async reload(config: RemoteServerConfig): Promise<IngestorReloadResult> {
+    this.config = config;
+    const planned = this.planIngestors();
+    const result: IngestorReloadResult = { started: [], stopped: [], restarted: [], unchanged: [] };
+
+    for (const key of Array.from(this.ingestors.keys())) {
+      if (!planned.has(key)) {
+        await this.stopOne(key);
+        result.stopped.push(key);
+      }
+    }
+
+    for (const [key, plan] of planned) {
+      if (!this.ingestors.has(key)) {
+        await this.startPlanned(key, plan);
+        result.started.push(key);
+      } else if (this.fingerprints.get(key) !== plan.fingerprint) {
+        await this.stopOne(key);
+        await this.startPlanned(key, plan);
+        result.restarted.push(key);
+      } else {
+        result.unchanged.push(key);
+      }
+    }
+
+    log.info(
+      `Reloaded ingestors: ${result.started.length} started, ${result.stopped.length} stopped, ` +
+        `${result.restarted.length} restarted, ${result.unchanged.length} unchanged`,
+    );
+    return result;
+  }
+
+  /**
+   * Work out which ingestors the current config calls for, with their
+   * effective (override-merged) config and resolved secrets.
+   */
+  private planIngestors(): Map<string, PlannedIngestor> {
+    const planned = new Map<string, PlannedIngestor>();
+
     for (const [callerAlias, callerConfig] of Object.entries(this.config.callers)) {
       // Resolve routes for this caller (raw + resolved)
       const rawRoutes = resolveCallerRoutes(this.config, callerAlias);
@@ -73,9 +185,6 @@ export class IngestorManager {
           continue;
         }
 
-        const key = `${callerAlias}:${connectionAlias}`;
-        if (this.ingestors.has(key)) continue;
-
         // Merge caller overrides into a copy of the template config
         const effectiveConfig = IngestorManager.mergeIngestorConfig(rawRoute.ingestor, overrides);
 
@@ -86,29 +195,102 @@ export class IngestorManager {
           (effectiveConfig as any)._resolvedRouteHeaders = resolvedRoute.headers;
         }
 
-        const ingestor = createIngestor(
+        const fingerprint = crypto
+          .createHash('sha256')
+          .update(
+            JSON.stringify([
+              effectiveConfig,
+              resolvedRoute.headers,
+              resolvedRoute.secrets,
+              resolvedRoute.secretRefs,
+              overrides?.bufferSize,
+              this.config.eventStore,
+            ]),
+          )
+          .digest('hex');
+
+        planned.set(`${callerAlias}:${connectionAlias}`, {
+          callerAlias,
           connectionAlias,
-          effectiveConfig,
-          resolvedRoute.secrets,
-          overrides?.bufferSize,
-        );
+          config: effectiveConfig,
+          route: resolvedRoute,
+          bufferSize: overrides?.bufferSize,
+          fingerprint,
+        });
+      }
+    }
 
-        if (ingestor) {
-          this.ingestors.set(key, ingestor);
-          log.info(`Starting ${effectiveConfig.type} ingestor for ${key}`);
-          try {
-            await ingestor.start();
-          } catch (err) {
-            log.error(`Failed to start ${key}:`, err);
-          }
-        }
+    return planned;
+  }
+
+  private async startPlanned(key: string, planned: PlannedIngestor): Promise<void> {
+    if (planned.route.secretRefs || planned.route.oauth?.credentialRefs) {
+      try {
+        if (!this.secretProviders) throw new Error('no secret providers are available');
+        await this.secretProviders.ensureFresh(planned.route);
+      } catch (err) {
+        log.error(`Cannot start ${key}: ${err instanceof Error ? err.message : String(err)}`);
+        return;
       }
     }
 
-    const count = this.ingestors.size;
-    if (count > 0) {
-      log.info(`${count} ingestor(s) started`);
+    const ingestor = createIngestor(
+      planned.connectionAlias,
+      planned.config,
+      planned.route.secrets,
+      planned.bufferSize,
+    );
+    if (!ingestor) return;
+
+    // Poll requests carry the route headers, where the token manager writes the access token
+    const { route } = planned;
+    const tokens = this.oauthTokens;
+    if (ingestor instanceof PollIngestor && route.oauth && tokens) {
+      ingestor.setAuth({
+        ensureFresh: () => tokens.ensureFresh(route),
+        invalidate: () => tokens.invalidate(route),
+      });
+    }
+
+    if (this.config.eventStore) {
+      try {
+        ingestor.attachStore(
+          new EventStore(
+            eventStoreOptions(this.config.eventStore, planned.callerAlias, planned.connectionAlias),
+          ),
+        );
+      } catch (err) {
+        log.error(`Event store unavailable for ${key}, keeping events in memory only:`, err);
+      }
+    }
+    const idFloor = this.idFloors.get(key);
+    if (idFloor !== undefined) ingestor.setIdFloor(idFloor);
+
+    ingestor.on('event', (event: IngestedEvent) => {
+      this.notify(planned.callerAlias, planned.connectionAlias, event);
+    });
+    this.ingestors.set(key, ingestor);
+    this.fingerprints.set(key, planned.fingerprint);
+    log.info(`Starting ${planned.config.type} ingestor for ${key}`);
+    try {
+      await ingestor.start();
+    } catch (err) {
+      log.error(`Failed to start ${key}:`, err);
+    }
+  }
+
+  private async stopOne(key: string): Promise<void> {
+    const ingestor = this.ingestors.get(key);
+    if (!ingestor) return;
+    log.info(`Stopping ${key}`);
+    try {
+      await ingestor.stop();
+    } catch (err) {
+      log.error(`Error stopping ${key}:`, err);
     }
+    this.idFloors.set(key, ingestor.nextId);
+    this.ingestors.delete(key);
+    this.fingerprints.delete(key);
   }
 
   /**
@@ -122,9 +304,11 @@ export class IngestorManager {
       } catch (err) {
         log.error(`Error stopping ${key}:`, err);
       }
+      this.idFloors.set(key, ingestor.nextId);
     });
     await Promise.all(stops);
     this.ingestors.clear();
+    this.fingerprints.clear();
   }
 
   /**
@@ -160,6 +344,62 @@ export class IngestorManager {
     return events;
   }
 
+  /**
+   * Get a caller's events since a cursor, filtered, limited and projected
+   * on the server (see event-query.ts).
+   * @param connectionAlias  Only events from this connection (default: all).
+   * @throws Error if the query is invalid
+   */
+  queryEvents(
+    callerAlias: string,
+    query: EventQuery,
+    connectionAlias?: string,
+    afterId = -1,
+  ): (IngestedEvent | ProjectedEvent)[] {
+    const events = connectionAlias
+      ? this.getEvents(callerAlias, connectionAlias, afterId)
+      : this.getAllEvents(callerAlias, afterId);
+    return applyEventQuery(events, query);
+  }
+
+  /**
+   * Receive a caller's events as they are ingested, instead of polling.
+   *
+   * The subscription follows the caller's ingestors across reloads — ingestors
+   * started or restarted later deliver to it too. Only new events are
+   * delivered; use getEvents()/getAllEvents() for what is already buffered.
+   *
+   * @param connectionAlias  Only deliver events from this connection (default: all).
+   * @returns A function that ends the subscription.
+   */
+  subscribe(
+    callerAlias: string,
+    listener: IngestedEventListener,
+    connectionAlias?: string,
+  ): () => void {
+    const subscriber: Subscriber = {
+      callerAlias,
+      listener,
+      ...(connectionAlias !== undefined && { connectionAlias }),
+    };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  private notify(callerAlias: string, connectionAlias: string, event: IngestedEvent): void {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.callerAlias !== callerAlias) continue;
+      if (subscriber.connectionAlias && subscriber.connectionAlias !== connectionAlias) continue;
+      try {
+        subscriber.listener(event);
+      } catch (err) {
+        log.error(`Event subscriber for ${callerAlias} failed:`, err);
+      }
+    }
+  }
+
   /**
    * Get status of all ingestors for a caller.
    */
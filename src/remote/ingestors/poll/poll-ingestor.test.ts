@@ -650,6 +650,31 @@ describe('PollIngestor', () => {
       await ingestor.stop();
     });
 
+    it('should refresh the OAuth token before each poll and drop it on 401', async () => {
+      const routeHeaders = { Authorization: 'Bearer stale' };
+      let issued = 0;
+      const auth = {
+        ensureFresh: vi.fn(() => {
+          routeHeaders.Authorization = `Bearer token-${++issued}`;
+          return Promise.resolve();
+        }),
+        invalidate: vi.fn(),
+      };
+      fetchMock.mockResolvedValueOnce(mockResponse({}, 401)).mockResolvedValue(mockResponse([]));
+
+      const ingestor = new PollIngestor('test', defaultSecrets, defaultConfig(), routeHeaders);
+      ingestor.setAuth(auth);
+      await ingestor.start();
+      expect(auth.invalidate).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(10_000);
+      const [, options] = fetchMock.mock.calls[1] as [string, RequestInit];
+      expect((options.headers as Record<string, string>).Authorization).toBe('Bearer token-2');
+      expect(ingestor.getStatus().state).toBe('connected');
+
+      await ingestor.stop();
+    });
+
     it('should reset consecutive errors on successful poll', async () => {
       fetchMock
         .mockResolvedValueOnce(mockResponse({}, 500)) // error 1
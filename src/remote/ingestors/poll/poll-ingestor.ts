@@ -37,6 +37,14 @@ const MIN_INTERVAL_MS = 5_000; // 5 seconds
 /** Maximum consecutive errors before transitioning to 'error' state. */
 const MAX_CONSECUTIVE_ERRORS = 10;
 
+/** Keeps the OAuth token in an OAuth-managed route's headers current (set by the manager). */
+export interface PollAuth {
+  /** Fetch or refresh the access token, updating the route headers in place */
+  ensureFresh(): Promise<void>;
+  /** Drop the token after the API rejected it */
+  invalidate(): void;
+}
+
 // ── Poll Ingestor ─────────────────────────────────────────────────────
 
 export class PollIngestor extends BaseIngestor {
@@ -55,6 +63,7 @@ export class PollIngestor extends BaseIngestor {
 
   /** Resolved headers from the parent connection route (injected by manager). */
   private readonly routeHeaders: Record<string, string>;
+  private auth: PollAuth | null = null;
 
   constructor(
     connectionAlias: string,
@@ -85,6 +94,11 @@ export class PollIngestor extends BaseIngestor {
     }
   }
 
+  /** Refresh the route's OAuth token before each poll. */
+  setAuth(auth: PollAuth): void {
+    this.auth = auth;
+  }
+
   // ── Lifecycle ──────────────────────────────────────────────────────
 
   async start(): Promise<void> {
@@ -119,6 +133,9 @@ export class PollIngestor extends BaseIngestor {
 
   private async poll(): Promise<void> {
     try {
+      // A failed token refresh counts as a failed poll
+      if (this.auth) await this.auth.ensureFresh();
+
       // Build headers: route headers (from connection template) merged with poll-specific headers
       const headers: Record<string, string> = {
         ...this.routeHeaders,
@@ -148,6 +165,8 @@ export class PollIngestor extends BaseIngestor {
       const response = await fetch(this.url, fetchOptions);
 
       if (!response.ok) {
+        // The token was revoked early — the next poll fetches a new one
+        if (response.status === 401) this.auth?.invalidate();
         throw new Error(`HTTP ${response.status} ${response.statusText}`);
       }
 
@@ -28,8 +28,11 @@ const factories = new Map<string, IngestorFactory>();
  * Register a factory for a given ingestor key.
  *
  * Convention for keys:
- * - WebSocket protocols: `websocket:<protocol>` (e.g., `websocket:discord`, `websocket:slack`)
- * - Webhook protocols: `webhook:<protocol>` (e.g., `webhook:generic` for GitHub, `webhook:stripe`)
+ * - WebSocket protocols: `websocket:<protocol>` (e.g., `websocket:discord`, `websocket:slack`;
+ *   default: `websocket:generic`)
+ * - Webhook protocols: `webhook:<protocol>` (e.g., `webhook:generic` for GitHub, `webhook:stripe`,
+ *   `webhook:slack`, `webhook:discord-interactions`, `webhook:hmac` for config-driven HMAC
+ *   providers)
  * - Other types: the type name directly (e.g., `poll`)
  */
 export function registerIngestorFactory(key: string, factory: IngestorFactory): void {
@@ -39,7 +42,7 @@ export function registerIngestorFactory(key: string, factory: IngestorFactory):
 /**
  * Create an ingestor instance using the registered factory for its config type.
  *
- * For WebSocket ingestors, the key is `websocket:<protocol>`.
+ * For WebSocket ingestors, the key is `websocket:<protocol>` (default: `websocket:generic`).
  * For Webhook ingestors, the key is `webhook:<protocol>` (default: `webhook:generic`).
  * For other types, the key is just the type name.
  *
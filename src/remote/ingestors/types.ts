@@ -53,6 +53,42 @@ export interface WebSocketIngestorConfig {
    *  Checks author.id, user.id, and user_id fields depending on the event type.
    *  Events without a user identifier always pass through. */
   userIds?: string[];
+
+  // ── Generic protocol (no `protocol`, or 'generic') ──
+
+  /** Headers sent with the WebSocket upgrade request (e.g., auth tokens).
+   *  Values may contain ${VAR} placeholders. */
+  headers?: Record<string, string>;
+
+  /** Query parameters appended to `gatewayUrl` (e.g., `{ "token": "${FEED_TOKEN}" }`).
+   *  Values may contain ${VAR} placeholders and are URL-encoded. */
+  query?: Record<string, string>;
+
+  /** Messages sent in order once the socket opens (auth, subscriptions).
+   *  Strings are sent as-is, anything else as JSON. ${VAR} placeholders are resolved. */
+  subscribeMessages?: unknown[];
+
+  /** Path to the event type within each message (e.g., `type`, `data.event`).
+   *  Messages without it use `defaultEventType`. */
+  eventTypePath?: string;
+
+  /** Event type for messages without one (default: 'message'). */
+  defaultEventType?: string;
+
+  /** Path to a unique ID within each message, used to drop duplicates
+   *  (e.g., replays after a reconnect). */
+  idempotencyKeyPath?: string;
+
+  /** Send `pingMessage` this often, and reconnect when nothing at all has been
+   *  received for two intervals. Omitted = no keepalive. */
+  pingIntervalMs?: number;
+
+  /** Keepalive message (strings sent as-is, anything else as JSON). Omitted = only
+   *  watch for silence. */
+  pingMessage?: unknown;
+
+  /** Event type of the server's keepalive replies; these are not buffered (default: 'pong'). */
+  pongEventType?: string;
 }
 
 /** Configuration for webhook-based ingestors (e.g., GitHub, Stripe, Trello). */
@@ -74,6 +110,49 @@ export interface WebhookIngestorConfig {
    *  Required for services like Trello that include the callback URL in their
    *  signature computation. May contain ${VAR} placeholders resolved from secrets. */
   callbackUrl?: string;
+
+  // ── HMAC protocol ('hmac') ──
+
+  /** HMAC hash algorithm (default: 'sha256'). */
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+
+  /** How the signature header encodes the digest (default: 'hex'). */
+  encoding?: 'hex' | 'base64';
+
+  /** Text before the digest in the signature header (e.g., 'sha256='). */
+  signaturePrefix?: string;
+
+  /** What is signed (default: 'body'). 'timestamp+body' signs
+   *  `${timestamp}${timestampSeparator}${body}`; 'url+body' signs `${callbackUrl}${body}`. */
+  signedPayload?: 'body' | 'timestamp+body' | 'url+body';
+
+  /** Header carrying the Unix timestamp (seconds). When set, requests outside
+   *  `timestampTolerance` are rejected. Required for 'timestamp+body'. */
+  timestampHeader?: string;
+
+  /** Text between timestamp and body in 'timestamp+body' (default: '.'). */
+  timestampSeparator?: string;
+
+  /** Maximum age of a request in seconds; 0 disables the check (default: 300).
+   *  Also applies to the 'discord-interactions' protocol. */
+  timestampTolerance?: number;
+
+  /** Header holding the event type (e.g., 'x-shopify-topic'). Checked before `eventTypePath`. */
+  eventTypeHeader?: string;
+
+  /** Path to the event type in the JSON body (e.g., 'type', 'data.event'). */
+  eventTypePath?: string;
+
+  /** Header holding a unique delivery ID used to drop retries. Checked before `idempotencyKeyPath`. */
+  idempotencyKeyHeader?: string;
+
+  /** Path to a unique ID in the JSON body used to drop retries (e.g., 'id'). */
+  idempotencyKeyPath?: string;
+
+  // ── Discord interactions protocol ('discord-interactions') ──
+
+  /** Show the deferred reply to a command only to the invoking user (default: false). */
+  ephemeral?: boolean;
 }
 
 /** Configuration for polling-based ingestors (e.g., Notion search). */
@@ -173,6 +252,9 @@ export interface IngestorStatus {
   /** ISO-8601 timestamp of the most recent event, or null if none. */
   lastEventAt: string | null;
 
+  /** Number of events in the durable event store, when it is enabled. */
+  storedEvents?: number;
+
   /** Error message when state is 'error'. */
   error?: string;
 }
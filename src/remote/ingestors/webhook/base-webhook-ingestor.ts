@@ -22,6 +22,22 @@ import { createLogger } from '../../../shared/logger.js';
 
 const log = createLogger('webhook');
 
+/** Options for handling one webhook request. */
+export interface HandleWebhookOptions {
+  /** Accept the request without checking its signature (replaying archived
+   *  requests whose timestamps are outside the provider's replay window). */
+  skipVerification?: boolean;
+}
+
+/** Outcome of handling one webhook request. */
+export interface WebhookResult {
+  accepted: boolean;
+  reason?: string;
+  /** Response body the provider expects instead of the default acknowledgment
+   *  (e.g., a URL verification challenge). */
+  response?: unknown;
+}
+
 // ── Abstract Webhook Ingestor ──────────────────────────────────────────
 
 export abstract class WebhookIngestor extends BaseIngestor {
@@ -144,6 +160,40 @@ export abstract class WebhookIngestor extends BaseIngestor {
     return undefined;
   }
 
+  /**
+   * Answer a provider control request (e.g., a URL verification challenge)
+   * instead of buffering it as an event.
+   *
+   * Called after signature verification. Subclasses override this for
+   * providers that expect a specific reply; the default treats every
+   * request as an event.
+   *
+   * @param headers - The raw HTTP request headers.
+   * @param body - The parsed JSON body.
+   * @returns The response body to send back, or `undefined` for an event.
+   */
+  protected controlResponse(
+    _headers: Record<string, string | string[] | undefined>,
+    _body: unknown,
+  ): unknown {
+    return undefined;
+  }
+
+  /**
+   * Response body for a request that was buffered as an event, for providers
+   * that expect more than an acknowledgment (e.g., a deferred interaction reply).
+   *
+   * @param headers - The raw HTTP request headers.
+   * @param body - The parsed JSON body.
+   * @returns The response body to send back, or `undefined` for the default.
+   */
+  protected eventResponse(
+    _headers: Record<string, string | string[] | undefined>,
+    _body: unknown,
+  ): unknown {
+    return undefined;
+  }
+
   // ── Webhook handling ──────────────────────────────────────────────────
 
   /**
@@ -152,23 +202,30 @@ export abstract class WebhookIngestor extends BaseIngestor {
    * Called by the Express route handler when a POST arrives at
    * `/webhooks/:path` that matches this ingestor's `webhookPath`.
    *
-   * Orchestrates the full pipeline: verify → parse → extract → filter → buffer.
+   * Orchestrates the full pipeline: verify → parse → control reply or
+   * extract → filter → buffer → event reply.
    *
    * @param headers - The raw HTTP request headers.
    * @param rawBody - The raw request body as a Buffer (needed for signature verification).
-   * @returns An object indicating whether the webhook was accepted or rejected.
+   * @param options - `skipVerification` bypasses step 1; only for operator replays.
+   * @returns Whether the webhook was accepted or rejected, and any custom response body.
    */
   handleWebhook(
     headers: Record<string, string | string[] | undefined>,
     rawBody: Buffer,
-  ): { accepted: boolean; reason?: string } {
+    options: HandleWebhookOptions = {},
+  ): WebhookResult {
     log.debug(`${this.connectionAlias} received webhook (${rawBody.length} bytes)`);
 
     // 1. Signature verification (delegated to subclass)
-    const verification = this.verifySignature(headers, rawBody);
-    if (!verification.valid) {
-      log.debug(`${this.connectionAlias} webhook rejected: ${verification.reason}`);
-      return { accepted: false, reason: verification.reason };
+    if (options.skipVerification) {
+      log.warn(`${this.connectionAlias} accepting webhook without signature verification`);
+    } else {
+      const verification = this.verifySignature(headers, rawBody);
+      if (!verification.valid) {
+        log.debug(`${this.connectionAlias} webhook rejected: ${verification.reason}`);
+        return { accepted: false, reason: verification.reason };
+      }
     }
 
     // 2. Parse body
@@ -179,24 +236,33 @@ export abstract class WebhookIngestor extends BaseIngestor {
       return { accepted: false, reason: 'Invalid JSON body' };
     }
 
-    // 3. Determine event type (delegated to subclass)
+    // 3. Answer control requests (e.g., URL verification) without buffering
+    const response = this.controlResponse(headers, body);
+    if (response !== undefined) {
+      log.debug(`${this.connectionAlias} answered a control request`);
+      return { accepted: true, response };
+    }
+
+    // 4. Determine event type (delegated to subclass)
     const eventType = this.extractEventType(headers, body);
 
-    // 4. Apply event filter (if any — reserved for future caller overrides)
+    // 5. Apply event filter (if any — reserved for future caller overrides)
     if (this.eventFilter.length > 0 && !this.eventFilter.includes(eventType)) {
       return { accepted: true, reason: 'Filtered out' };
     }
 
-    // 5. Extract event data (delegated to subclass)
+    // 6. Extract event data (delegated to subclass)
     const data = this.extractEventData(headers, body);
 
-    // 6. Extract idempotency key (delegated to subclass, fallback in pushEvent)
+    // 7. Extract idempotency key (delegated to subclass, fallback in pushEvent)
     const idempotencyKey = this.extractIdempotencyKey(headers, body);
 
-    // 7. Push event into ring buffer (dedup handled by base class)
+    // 8. Push event into ring buffer (dedup handled by base class)
     log.debug(`${this.connectionAlias} dispatching webhook event: ${eventType}`);
     this.pushEvent(eventType, data, idempotencyKey);
 
-    return { accepted: true };
+    // 9. Provider-specific reply for the buffered event, if any
+    const eventReply = this.eventResponse(headers, body);
+    return eventReply === undefined ? { accepted: true } : { accepted: true, response: eventReply };
   }
 }
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the Discord Interactions webhook ingestor and Ed25519 verification.
+ */
+
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { DiscordInteractionsIngestor } from './discord-interactions-ingestor.js';
+import {
+  verifyDiscordSignature,
+  importDiscordPublicKey,
+  DISCORD_SIGNATURE_HEADER,
+  DISCORD_TIMESTAMP_HEADER,
+} from './discord-interactions-types.js';
+import { createIngestor } from '../registry.js';
+import type { WebhookIngestorConfig } from '../types.js';
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+// The raw 32-byte key is the tail of its SPKI encoding
+const publicKeyHex = publicKey
+  .export({ type: 'spki', format: 'der' })
+  .subarray(-32)
+  .toString('hex');
+
+function now(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+function sign(body: string, timestamp: string, key = privateKey): string {
+  return crypto.sign(null, Buffer.from(`${timestamp}${body}`), key).toString('hex');
+}
+
+function signedHeaders(body: string, timestamp = now()): Record<string, string> {
+  return {
+    [DISCORD_SIGNATURE_HEADER]: sign(body, timestamp),
+    [DISCORD_TIMESTAMP_HEADER]: timestamp,
+  };
+}
+
+const config: WebhookIngestorConfig = {
+  path: 'discord',
+  protocol: 'discord-interactions',
+  signatureHeader: 'X-Signature-Ed25519',
+  signatureSecret: 'DISCORD_PUBLIC_KEY',
+};
+
+function createTestIngestor(overrides: Partial<WebhookIngestorConfig> = {}) {
+  return new DiscordInteractionsIngestor(
+    'discord-interactions',
+    { DISCORD_PUBLIC_KEY: publicKeyHex },
+    { ...config, ...overrides },
+  );
+}
+
+function interaction(id: string, type: number, data: Record<string, unknown> = {}): string {
+  return JSON.stringify({ id, application_id: 'app1', type, token: `tok-${id}`, data });
+}
+
+// ── verifyDiscordSignature ──────────────────────────────────────────────
+
+describe('verifyDiscordSignature', () => {
+  const body = Buffer.from('{"type":1}');
+
+  it('should accept a valid signature over timestamp and body', () => {
+    const ts = now();
+    expect(verifyDiscordSignature(body, ts, sign(body.toString(), ts), publicKeyHex)).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should reject signatures from another key or over another timestamp', () => {
+    const ts = now();
+    const other = crypto.generateKeyPairSync('ed25519').privateKey;
+
+    expect(
+      verifyDiscordSignature(body, ts, sign(body.toString(), ts, other), publicKeyHex),
+    ).toEqual({ valid: false, reason: 'Signature verification failed' });
+    const earlier = String(Number(ts) - 1);
+    expect(
+      verifyDiscordSignature(body, ts, sign(body.toString(), earlier), publicKeyHex).valid,
+    ).toBe(false);
+  });
+
+  it('should reject stale requests and malformed input', () => {
+    const old = String(Math.floor(Date.now() / 1000) - 301);
+    expect(verifyDiscordSignature(body, old, sign(body.toString(), old), publicKeyHex)).toEqual({
+      valid: false,
+      reason: 'Timestamp outside tolerance window',
+    });
+    expect(
+      verifyDiscordSignature(body, old, sign(body.toString(), old), publicKeyHex, 0).valid,
+    ).toBe(true);
+    expect(verifyDiscordSignature(body, now(), 'abc', publicKeyHex).reason).toBe(
+      'Malformed signature header',
+    );
+    expect(verifyDiscordSignature(body, now(), sign(body.toString(), now()), 'xyz').reason).toBe(
+      'Discord public key must be 64 hex characters',
+    );
+  });
+
+  it('should import a hex public key equal to the original', () => {
+    expect(importDiscordPublicKey(publicKeyHex).equals(publicKey)).toBe(true);
+  });
+});
+
+// ── DiscordInteractionsIngestor ─────────────────────────────────────────
+
+describe('DiscordInteractionsIngestor', () => {
+  it('should be created by the registry for protocol discord-interactions', () => {
+    const ingestor = createIngestor(
+      'discord-interactions',
+      { type: 'webhook', webhook: config },
+      {},
+    );
+    expect(ingestor).toBeInstanceOf(DiscordInteractionsIngestor);
+  });
+
+  it('should not be created without a public key', () => {
+    const ingestor = createIngestor(
+      'discord-interactions',
+      { type: 'webhook', webhook: { ...config, signatureSecret: undefined } },
+      {},
+    );
+    expect(ingestor).toBeNull();
+  });
+
+  it('should answer PING with PONG and not buffer it', () => {
+    const ingestor = createTestIngestor();
+    const body = interaction('1', 1);
+
+    expect(ingestor.handleWebhook(signedHeaders(body), Buffer.from(body))).toEqual({
+      accepted: true,
+      response: { type: 1 },
+    });
+    expect(ingestor.getEvents()).toEqual([]);
+  });
+
+  it('should buffer commands as INTERACTION_CREATE and defer the response', () => {
+    const ingestor = createTestIngestor();
+    const body = interaction('42', 2, { name: 'ask' });
+
+    expect(ingestor.handleWebhook(signedHeaders(body), Buffer.from(body))).toEqual({
+      accepted: true,
+      response: { type: 5 },
+    });
+    ingestor.handleWebhook(signedHeaders(body), Buffer.from(body));
+
+    const events = ingestor.getEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventType: 'INTERACTION_CREATE',
+      idempotencyKey: 'discord:interaction:42',
+      data: { id: '42', type: 2, token: 'tok-42', data: { name: 'ask' } },
+    });
+  });
+
+  it('should defer component updates, answer autocomplete, and honour ephemeral', () => {
+    const ingestor = createTestIngestor({ ephemeral: true });
+    const component = interaction('3', 3, { custom_id: 'ok' });
+    const autocomplete = interaction('4', 4);
+    const command = interaction('5', 2);
+
+    expect(
+      ingestor.handleWebhook(signedHeaders(component), Buffer.from(component)).response,
+    ).toEqual({ type: 6 });
+    expect(
+      ingestor.handleWebhook(signedHeaders(autocomplete), Buffer.from(autocomplete)).response,
+    ).toEqual({ type: 8, data: { choices: [] } });
+    expect(ingestor.handleWebhook(signedHeaders(command), Buffer.from(command)).response).toEqual({
+      type: 5,
+      data: { flags: 64 },
+    });
+  });
+
+  it('should reject unsigned or badly signed requests', () => {
+    const ingestor = createTestIngestor();
+    const body = interaction('1', 1);
+
+    expect(ingestor.handleWebhook({}, Buffer.from(body))).toEqual({
+      accepted: false,
+      reason: 'Missing signature header',
+    });
+    expect(
+      ingestor.handleWebhook({ [DISCORD_SIGNATURE_HEADER]: sign(body, now()) }, Buffer.from(body)),
+    ).toEqual({ accepted: false, reason: 'Missing timestamp header' });
+    expect(ingestor.handleWebhook(signedHeaders(interaction('2', 1)), Buffer.from(body))).toEqual({
+      accepted: false,
+      reason: 'Signature verification failed',
+    });
+  });
+
+  it('should reject every request when no public key is configured', () => {
+    const body = interaction('1', 1);
+    for (const ingestor of [
+      createTestIngestor({ signatureSecret: undefined }),
+      createTestIngestor({ signatureHeader: undefined, signatureSecret: undefined }),
+    ]) {
+      expect(ingestor.handleWebhook(signedHeaders(body), Buffer.from(body))).toEqual({
+        accepted: false,
+        reason: 'Signature secret not configured',
+      });
+    }
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Discord Interactions webhook ingestor.
+ *
+ * `DiscordGatewayIngestor` receives gateway events, but apps with an
+ * Interactions Endpoint URL get slash commands, components and modal
+ * submits as signed POSTs to `/webhooks/<path>` instead:
+ *
+ *   - Requests are verified with `X-Signature-Ed25519` and
+ *     `X-Signature-Timestamp` against the app's public key
+ *   - PING (sent when the endpoint URL is saved) is answered with PONG
+ *   - Other interactions are buffered as `INTERACTION_CREATE` events with
+ *     the same data as the gateway, and answered with a deferred response
+ *     so the agent can reply later with the interaction token
+ *
+ * @see https://discord.com/developers/docs/interactions/receiving-and-responding
+ */
+
+import { registerIngestorFactory } from '../registry.js';
+import { WebhookIngestor } from './base-webhook-ingestor.js';
+import type { WebhookIngestorConfig } from '../types.js';
+import {
+  verifyDiscordSignature,
+  interactionResponse,
+  DISCORD_SIGNATURE_HEADER,
+  DISCORD_TIMESTAMP_HEADER,
+  InteractionType,
+  type DiscordInteraction,
+} from './discord-interactions-types.js';
+import { DEFAULT_TIMESTAMP_TOLERANCE } from './stripe-types.js';
+import { createLogger } from '../../../shared/logger.js';
+
+const log = createLogger('webhook');
+
+// ── Discord Interactions Ingestor ───────────────────────────────────────
+
+export class DiscordInteractionsIngestor extends WebhookIngestor {
+  /** Whether deferred command replies are ephemeral. */
+  private readonly ephemeral: boolean;
+
+  /** Maximum request age in seconds. */
+  private readonly timestampTolerance: number;
+
+  constructor(
+    connectionAlias: string,
+    secrets: Record<string, string>,
+    webhookConfig: WebhookIngestorConfig,
+    bufferSize?: number,
+  ) {
+    super(connectionAlias, secrets, webhookConfig, bufferSize);
+    this.ephemeral = webhookConfig.ephemeral ?? false;
+    this.timestampTolerance = webhookConfig.timestampTolerance ?? DEFAULT_TIMESTAMP_TOLERANCE;
+  }
+
+  /**
+   * Verify the Ed25519 signature with the application public key.
+   *
+   * Unlike the HMAC providers, verification is never skipped: Discord
+   * periodically sends invalid signatures and removes the endpoint URL if
+   * they are accepted. Without a configured public key, every request is
+   * rejected.
+   */
+  protected verifySignature(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer,
+  ): { valid: boolean; reason?: string } {
+    if (!this.signatureSecretName) {
+      return { valid: false, reason: 'Signature secret not configured' };
+    }
+
+    const publicKey = this.secrets[this.signatureSecretName];
+    if (!publicKey) {
+      log.error(
+        `Signature secret "${this.signatureSecretName}" not found ` +
+          `in resolved secrets for ${this.connectionAlias}`,
+      );
+      return { valid: false, reason: 'Signature secret not configured' };
+    }
+
+    const signature = getHeader(headers, DISCORD_SIGNATURE_HEADER);
+    if (!signature) {
+      return { valid: false, reason: 'Missing signature header' };
+    }
+    const timestamp = getHeader(headers, DISCORD_TIMESTAMP_HEADER);
+    if (!timestamp) {
+      return { valid: false, reason: 'Missing timestamp header' };
+    }
+
+    const result = verifyDiscordSignature(
+      rawBody,
+      timestamp,
+      signature,
+      publicKey,
+      this.timestampTolerance,
+    );
+    if (!result.valid) {
+      log.warn(`Signature verification failed for ${this.connectionAlias}: ${result.reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Answer PING with PONG. Discord sends it when the Interactions Endpoint
+   * URL is saved in the Developer Portal.
+   */
+  protected controlResponse(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    const { type } = body as DiscordInteraction;
+    if (type === InteractionType.PING) {
+      log.info(`Answered Discord interactions PING for ${this.connectionAlias}`);
+      return interactionResponse(type);
+    }
+    return undefined;
+  }
+
+  /**
+   * Use the gateway's dispatch name, so agents handle interactions the same
+   * way whichever transport delivers them. Filter on `data.type` to tell
+   * commands, components and modal submits apart.
+   */
+  protected extractEventType(
+    _headers: Record<string, string | string[] | undefined>,
+    _body: unknown,
+  ): string {
+    return 'INTERACTION_CREATE';
+  }
+
+  /**
+   * Store the interaction as-is — the same data the gateway dispatches,
+   * including the `token` needed to follow up.
+   */
+  protected extractEventData(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    return body;
+  }
+
+  /**
+   * Use the interaction ID as the idempotency key.
+   */
+  protected extractIdempotencyKey(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string | undefined {
+    const { id } = body as DiscordInteraction;
+    return typeof id === 'string' ? `discord:interaction:${id}` : undefined;
+  }
+
+  /**
+   * Defer the response: Discord requires one within 3 seconds, long before
+   * an agent has polled the interaction.
+   */
+  protected eventResponse(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    return interactionResponse((body as DiscordInteraction).type, this.ephemeral);
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function getHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// ── Self-registration ───────────────────────────────────────────────────
+
+registerIngestorFactory(
+  'webhook:discord-interactions',
+  (connectionAlias, config, secrets, bufferSize) => {
+    if (!config.webhook) {
+      log.error(`Missing webhook config for ${connectionAlias}`);
+      return null;
+    }
+    if (!config.webhook.signatureSecret) {
+      log.error(
+        `Missing signatureSecret (the application public key) for ${connectionAlias} — ` +
+          'Discord removes endpoints that accept unsigned interactions',
+      );
+      return null;
+    }
+    return new DiscordInteractionsIngestor(connectionAlias, secrets, config.webhook, bufferSize);
+  },
+);
@@ -0,0 +1,152 @@
+/**
+ * Discord Interactions webhook types and signature verification utilities.
+ *
+ * Apps that receive slash commands and components over HTTP (an
+ * "Interactions Endpoint URL") get each interaction as a POST signed with
+ * Ed25519: `X-Signature-Ed25519` is the hex signature of
+ * `${timestamp}${rawBody}`, made with the key whose public half is shown as
+ * the app's "Public Key" (64 hex characters) in the Developer Portal.
+ *
+ * @see https://discord.com/developers/docs/interactions/overview#setting-up-an-endpoint
+ */
+
+import crypto from 'node:crypto';
+
+import { DEFAULT_TIMESTAMP_TOLERANCE } from './stripe-types.js';
+
+// ── Discord interaction header names ────────────────────────────────────
+
+/** Header containing the hex Ed25519 signature. */
+export const DISCORD_SIGNATURE_HEADER = 'x-signature-ed25519';
+
+/** Header containing the timestamp that was signed with the body. */
+export const DISCORD_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+// ── Interaction types ───────────────────────────────────────────────────
+
+/** @see https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-object-interaction-type */
+export const InteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+  MESSAGE_COMPONENT: 3,
+  APPLICATION_COMMAND_AUTOCOMPLETE: 4,
+  MODAL_SUBMIT: 5,
+} as const;
+
+/** @see https://discord.com/developers/docs/interactions/receiving-and-responding#interaction-response-object-interaction-callback-type */
+export const InteractionResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4,
+  DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE: 5,
+  DEFERRED_UPDATE_MESSAGE: 6,
+  APPLICATION_COMMAND_AUTOCOMPLETE_RESULT: 8,
+} as const;
+
+/** Message flag that shows a response only to the invoking user. */
+export const EPHEMERAL_FLAG = 1 << 6;
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+/** The fields of an interaction body this ingestor reads. */
+export interface DiscordInteraction {
+  id: string;
+  application_id: string;
+  type: number;
+  /** Token for follow-up requests, valid for 15 minutes. */
+  token: string;
+  data?: Record<string, unknown>;
+}
+
+// ── Responses ───────────────────────────────────────────────────────────
+
+/**
+ * Build the synchronous response for an interaction.
+ *
+ * Discord needs an answer within 3 seconds, before any agent has polled the
+ * interaction, so commands and modal submits are deferred ("thinking…") and
+ * components defer an update of their message. The agent then edits the
+ * original response through `/webhooks/{application_id}/{token}`.
+ * Autocomplete cannot be deferred and is answered with no choices.
+ *
+ * @param type - The interaction type.
+ * @param ephemeral - Whether a deferred command reply is shown only to the invoking user.
+ */
+export function interactionResponse(type: number, ephemeral = false): unknown {
+  switch (type) {
+    case InteractionType.PING:
+      return { type: InteractionResponseType.PONG };
+    case InteractionType.MESSAGE_COMPONENT:
+      return { type: InteractionResponseType.DEFERRED_UPDATE_MESSAGE };
+    case InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE:
+      return {
+        type: InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT,
+        data: { choices: [] },
+      };
+    default:
+      return {
+        type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+        ...(ephemeral && { data: { flags: EPHEMERAL_FLAG } }),
+      };
+  }
+}
+
+// ── Signature verification ──────────────────────────────────────────────
+
+/**
+ * Import a Discord application public key (64 hex characters).
+ * @throws Error if the key is not a 32-byte hex string
+ */
+export function importDiscordPublicKey(hex: string): crypto.KeyObject {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error('Discord public key must be 64 hex characters');
+  }
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(hex, 'hex').toString('base64url') },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Verify a Discord interaction signature, with replay protection.
+ *
+ * @param rawBody - The raw request body as a Buffer.
+ * @param timestamp - The X-Signature-Timestamp header value.
+ * @param signature - The X-Signature-Ed25519 header value (hex).
+ * @param publicKey - The application public key (hex or imported).
+ * @param tolerance - Maximum request age in seconds (default: 300). Pass 0 to disable.
+ * @returns `valid: true`, or `valid: false` with a `reason`.
+ */
+export function verifyDiscordSignature(
+  rawBody: Buffer,
+  timestamp: string,
+  signature: string,
+  publicKey: string | crypto.KeyObject,
+  tolerance: number = DEFAULT_TIMESTAMP_TOLERANCE,
+): { valid: boolean; reason?: string } {
+  if (tolerance > 0) {
+    const ts = Number(timestamp);
+    if (!Number.isFinite(ts)) {
+      return { valid: false, reason: 'Malformed timestamp header' };
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - ts) > tolerance) {
+      return { valid: false, reason: 'Timestamp outside tolerance window' };
+    }
+  }
+
+  if (!/^[0-9a-f]{128}$/i.test(signature)) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  let key: crypto.KeyObject;
+  try {
+    key = typeof publicKey === 'string' ? importDiscordPublicKey(publicKey) : publicKey;
+  } catch (err) {
+    return { valid: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+
+  const signed = Buffer.concat([Buffer.from(timestamp), rawBody]);
+  if (!crypto.verify(null, signed, key, Buffer.from(signature, 'hex'))) {
+    return { valid: false, reason: 'Signature verification failed' };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,125 @@
+/**
+ * Generic HMAC webhook signature verification.
+ *
+ * Most webhook providers sign deliveries the same way, differing only in
+ * the hash algorithm, how the digest is encoded, an optional prefix, and
+ * what exactly is signed. These pure functions cover that family so a
+ * provider can be described in a connection template instead of code.
+ *
+ * @see HmacWebhookIngestor
+ */
+
+import crypto from 'node:crypto';
+
+import type { WebhookIngestorConfig } from '../types.js';
+import { DEFAULT_TIMESTAMP_TOLERANCE } from './stripe-types.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+/** How a provider signs its webhooks. */
+export interface HmacSignatureScheme {
+  algorithm: NonNullable<WebhookIngestorConfig['algorithm']>;
+  encoding: NonNullable<WebhookIngestorConfig['encoding']>;
+  /** Text before the digest in the signature header (may be empty). */
+  prefix: string;
+  signedPayload: NonNullable<WebhookIngestorConfig['signedPayload']>;
+  /** Text between timestamp and body for 'timestamp+body'. */
+  timestampSeparator: string;
+  /** Maximum request age in seconds; 0 disables the check. */
+  timestampTolerance: number;
+  /** Text signed before everything else (e.g., Slack's `v0:`). */
+  signedPrefix?: string;
+}
+
+/** Request values that go into the signed payload. */
+export interface HmacSignedParts {
+  rawBody: Buffer;
+  /** Timestamp header value, when the scheme uses one. */
+  timestamp?: string;
+  /** Callback URL, for 'url+body'. */
+  url?: string;
+}
+
+// ── Scheme ──────────────────────────────────────────────────────────────
+
+/** Build a signature scheme from webhook config, filling in defaults. */
+export function hmacSchemeFromConfig(config: WebhookIngestorConfig): HmacSignatureScheme {
+  return {
+    algorithm: config.algorithm ?? 'sha256',
+    encoding: config.encoding ?? 'hex',
+    prefix: config.signaturePrefix ?? '',
+    signedPayload: config.signedPayload ?? 'body',
+    timestampSeparator: config.timestampSeparator ?? '.',
+    timestampTolerance: config.timestampTolerance ?? DEFAULT_TIMESTAMP_TOLERANCE,
+  };
+}
+
+// ── Signing ─────────────────────────────────────────────────────────────
+
+/**
+ * Compute the signature header value a provider would send, prefix included.
+ * @throws Error if the scheme needs a timestamp or URL that is missing
+ */
+export function computeHmacSignature(
+  scheme: HmacSignatureScheme,
+  parts: HmacSignedParts,
+  secret: string,
+): string {
+  const hmac = crypto.createHmac(scheme.algorithm, secret);
+  if (scheme.signedPrefix) hmac.update(scheme.signedPrefix);
+  switch (scheme.signedPayload) {
+    case 'timestamp+body':
+      if (parts.timestamp === undefined) throw new Error('Missing timestamp');
+      hmac.update(`${parts.timestamp}${scheme.timestampSeparator}`);
+      break;
+    case 'url+body':
+      if (parts.url === undefined) throw new Error('Missing callback URL');
+      hmac.update(parts.url);
+      break;
+    case 'body':
+      break;
+  }
+  hmac.update(parts.rawBody);
+  return `${scheme.prefix}${hmac.digest(scheme.encoding)}`;
+}
+
+// ── Verification ────────────────────────────────────────────────────────
+
+/**
+ * Verify a webhook signature against a scheme, with timing-safe comparison
+ * and, when a timestamp is given, replay protection.
+ *
+ * @param signatureHeader - The signature header value (prefix included).
+ * @returns `valid: true`, or `valid: false` with a `reason`.
+ */
+export function verifyHmacSignature(
+  scheme: HmacSignatureScheme,
+  parts: HmacSignedParts,
+  signatureHeader: string,
+  secret: string,
+): { valid: boolean; reason?: string } {
+  if (parts.timestamp !== undefined && scheme.timestampTolerance > 0) {
+    const timestamp = Number(parts.timestamp);
+    if (!Number.isFinite(timestamp)) {
+      return { valid: false, reason: 'Malformed timestamp header' };
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > scheme.timestampTolerance) {
+      return { valid: false, reason: 'Timestamp outside tolerance window' };
+    }
+  }
+
+  let expected: string;
+  try {
+    expected = computeHmacSignature(scheme, parts, secret);
+  } catch (err) {
+    return { valid: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+
+  // Compare the full header text; equal-length buffers are required by timingSafeEqual
+  const received = Buffer.from(signatureHeader.trim());
+  const expectedBuf = Buffer.from(expected);
+  if (received.length !== expectedBuf.length || !crypto.timingSafeEqual(received, expectedBuf)) {
+    return { valid: false, reason: 'Signature verification failed' };
+  }
+  return { valid: true };
+}
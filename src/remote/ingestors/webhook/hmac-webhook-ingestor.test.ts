@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the config-driven HMAC webhook ingestor and its signature schemes.
+ */
+
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { HmacWebhookIngestor } from './hmac-webhook-ingestor.js';
+import { hmacSchemeFromConfig, verifyHmacSignature } from './hmac-types.js';
+import { createIngestor } from '../registry.js';
+import type { WebhookIngestorConfig } from '../types.js';
+
+const secret = 'hook-secret';
+const body = Buffer.from('{"id":"evt_1","type":"issue.created","data":{"n":1}}');
+
+function scheme(overrides: Partial<WebhookIngestorConfig> = {}) {
+  return hmacSchemeFromConfig({ path: 'hook', ...overrides });
+}
+
+// ── verifyHmacSignature ─────────────────────────────────────────────────
+
+describe('verifyHmacSignature', () => {
+  it('should verify a hex SHA-256 signature of the body by default', () => {
+    const sig = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+    expect(verifyHmacSignature(scheme(), { rawBody: body }, sig, secret)).toEqual({ valid: true });
+    expect(verifyHmacSignature(scheme(), { rawBody: body }, sig, 'wrong')).toEqual({
+      valid: false,
+      reason: 'Signature verification failed',
+    });
+  });
+
+  it('should honour the algorithm, encoding and prefix', () => {
+    const s = scheme({ algorithm: 'sha512', encoding: 'base64', signaturePrefix: 'v1=' });
+    const sig = `v1=${crypto.createHmac('sha512', secret).update(body).digest('base64')}`;
+
+    expect(verifyHmacSignature(s, { rawBody: body }, sig, secret).valid).toBe(true);
+    expect(verifyHmacSignature(s, { rawBody: body }, sig.slice(3), secret).valid).toBe(false);
+  });
+
+  it('should sign the timestamp before the body and reject stale requests', () => {
+    const s = scheme({ signedPayload: 'timestamp+body', timestampSeparator: ':' });
+    const now = String(Math.floor(Date.now() / 1000));
+    const sign = (ts: string) =>
+      crypto.createHmac('sha256', secret).update(`${ts}:${body.toString()}`).digest('hex');
+
+    expect(verifyHmacSignature(s, { rawBody: body, timestamp: now }, sign(now), secret)).toEqual({
+      valid: true,
+    });
+
+    const stale = String(Math.floor(Date.now() / 1000) - 600);
+    expect(
+      verifyHmacSignature(s, { rawBody: body, timestamp: stale }, sign(stale), secret),
+    ).toEqual({ valid: false, reason: 'Timestamp outside tolerance window' });
+    expect(verifyHmacSignature(s, { rawBody: body }, sign(now), secret).reason).toBe(
+      'Missing timestamp',
+    );
+  });
+
+  it('should sign the callback URL before the body', () => {
+    const s = scheme({ algorithm: 'sha1', encoding: 'base64', signedPayload: 'url+body' });
+    const url = 'https://example.com/webhooks/hook';
+    const sig = crypto
+      .createHmac('sha1', secret)
+      .update(`${url}${body.toString()}`)
+      .digest('base64');
+
+    expect(verifyHmacSignature(s, { rawBody: body, url }, sig, secret).valid).toBe(true);
+  });
+});
+
+// ── HmacWebhookIngestor ─────────────────────────────────────────────────
+
+describe('HmacWebhookIngestor', () => {
+  const config: WebhookIngestorConfig = {
+    path: 'linear',
+    protocol: 'hmac',
+    signatureHeader: 'Linear-Signature',
+    signatureSecret: 'LINEAR_WEBHOOK_SECRET',
+    eventTypePath: 'type',
+    idempotencyKeyPath: 'id',
+  };
+
+  function createTestIngestor(overrides: Partial<WebhookIngestorConfig> = {}): HmacWebhookIngestor {
+    return new HmacWebhookIngestor(
+      'linear',
+      { LINEAR_WEBHOOK_SECRET: secret },
+      { ...config, ...overrides },
+    );
+  }
+
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  it('should be created by the registry for protocol hmac', () => {
+    const ingestor = createIngestor('linear', { type: 'webhook', webhook: config }, {});
+    expect(ingestor).toBeInstanceOf(HmacWebhookIngestor);
+  });
+
+  it('should buffer verified deliveries typed and keyed by body paths', () => {
+    const ingestor = createTestIngestor();
+
+    expect(ingestor.handleWebhook({ 'linear-signature': signature }, body)).toEqual({
+      accepted: true,
+    });
+    ingestor.handleWebhook({ 'linear-signature': signature }, body);
+
+    const events = ingestor.getEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventType: 'issue.created',
+      idempotencyKey: 'hmac:linear:evt_1',
+      data: { eventId: 'evt_1', type: 'issue.created', payload: { data: { n: 1 } } },
+    });
+  });
+
+  it('should prefer the event type and ID headers when configured', () => {
+    const ingestor = createTestIngestor({
+      eventTypeHeader: 'X-Shopify-Topic',
+      idempotencyKeyHeader: 'X-Shopify-Webhook-Id',
+    });
+
+    ingestor.handleWebhook(
+      {
+        'linear-signature': signature,
+        'x-shopify-topic': 'orders/create',
+        'x-shopify-webhook-id': 'wh-9',
+      },
+      body,
+    );
+
+    expect(ingestor.getEvents()[0]).toMatchObject({
+      eventType: 'orders/create',
+      idempotencyKey: 'hmac:linear:wh-9',
+    });
+  });
+
+  it('should reject missing or invalid signatures and timestamps', () => {
+    expect(createTestIngestor().handleWebhook({}, body)).toEqual({
+      accepted: false,
+      reason: 'Missing signature header',
+    });
+    expect(createTestIngestor().handleWebhook({ 'linear-signature': 'bad' }, body)).toEqual({
+      accepted: false,
+      reason: 'Signature verification failed',
+    });
+    expect(
+      createTestIngestor({ timestampHeader: 'X-Timestamp' }).handleWebhook(
+        { 'linear-signature': signature },
+        body,
+      ),
+    ).toEqual({ accepted: false, reason: 'Missing timestamp header' });
+  });
+
+  it('should skip verification when no signature header is configured', () => {
+    const ingestor = createTestIngestor({ signatureHeader: undefined });
+    expect(ingestor.handleWebhook({}, body).accepted).toBe(true);
+  });
+});
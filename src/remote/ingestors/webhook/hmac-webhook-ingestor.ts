@@ -0,0 +1,196 @@
+/**
+ * Config-driven HMAC webhook ingestor.
+ *
+ * Handles any provider that signs deliveries with an HMAC of the body
+ * (optionally with a timestamp or the callback URL in front) — Linear,
+ * Shopify, Zendesk and many more — described entirely by the connection
+ * template's `WebhookIngestorConfig` instead of a provider subclass.
+ *
+ * Event type and idempotency key come from a configured header or JSON path.
+ *
+ * @see hmac-types.ts
+ */
+
+import { registerIngestorFactory } from '../registry.js';
+import { WebhookIngestor } from './base-webhook-ingestor.js';
+import type { WebhookIngestorConfig } from '../types.js';
+import { getField, parseFieldPath } from '../event-query.js';
+import {
+  hmacSchemeFromConfig,
+  verifyHmacSignature,
+  type HmacSignatureScheme,
+} from './hmac-types.js';
+import { resolvePlaceholders } from '../../../shared/config.js';
+import { createLogger } from '../../../shared/logger.js';
+
+const log = createLogger('webhook');
+
+/** Event type when neither the header nor the path yields one. */
+const UNKNOWN_EVENT_TYPE = 'unknown';
+
+// ── HMAC Webhook Ingestor ───────────────────────────────────────────────
+
+export class HmacWebhookIngestor extends WebhookIngestor {
+  private readonly scheme: HmacSignatureScheme;
+  private readonly callbackUrl: string | undefined;
+  private readonly timestampHeader: string | undefined;
+  private readonly eventTypeHeader: string | undefined;
+  private readonly eventTypePath: string[] | undefined;
+  private readonly idempotencyKeyHeader: string | undefined;
+  private readonly idempotencyKeyPath: string[] | undefined;
+
+  constructor(
+    connectionAlias: string,
+    secrets: Record<string, string>,
+    webhookConfig: WebhookIngestorConfig,
+    bufferSize?: number,
+  ) {
+    super(connectionAlias, secrets, webhookConfig, bufferSize);
+    this.scheme = hmacSchemeFromConfig(webhookConfig);
+    this.callbackUrl = webhookConfig.callbackUrl
+      ? resolvePlaceholders(webhookConfig.callbackUrl, secrets)
+      : undefined;
+    this.timestampHeader = webhookConfig.timestampHeader?.toLowerCase();
+    this.eventTypeHeader = webhookConfig.eventTypeHeader?.toLowerCase();
+    this.eventTypePath = webhookConfig.eventTypePath
+      ? parseFieldPath(webhookConfig.eventTypePath)
+      : undefined;
+    this.idempotencyKeyHeader = webhookConfig.idempotencyKeyHeader?.toLowerCase();
+    this.idempotencyKeyPath = webhookConfig.idempotencyKeyPath
+      ? parseFieldPath(webhookConfig.idempotencyKeyPath)
+      : undefined;
+  }
+
+  /**
+   * Verify the signature against the configured scheme.
+   *
+   * If both `signatureHeader` and `signatureSecretName` are configured,
+   * the signature is verified. If either is absent, verification is skipped.
+   */
+  protected verifySignature(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer,
+  ): { valid: boolean; reason?: string } {
+    if (!this.signatureSecretName || !this.signatureHeader) {
+      return { valid: true };
+    }
+
+    const secret = this.secrets[this.signatureSecretName];
+    if (!secret) {
+      log.error(
+        `Signature secret "${this.signatureSecretName}" not found ` +
+          `in resolved secrets for ${this.connectionAlias}`,
+      );
+      return { valid: false, reason: 'Signature secret not configured' };
+    }
+
+    const signature = getHeader(headers, this.signatureHeader.toLowerCase());
+    if (!signature) {
+      return { valid: false, reason: 'Missing signature header' };
+    }
+
+    let timestamp: string | undefined;
+    if (this.timestampHeader) {
+      timestamp = getHeader(headers, this.timestampHeader);
+      if (!timestamp) {
+        return { valid: false, reason: 'Missing timestamp header' };
+      }
+    }
+
+    const result = verifyHmacSignature(
+      this.scheme,
+      { rawBody, timestamp, url: this.callbackUrl },
+      signature,
+      secret,
+    );
+    if (!result.valid) {
+      log.warn(`Signature verification failed for ${this.connectionAlias}: ${result.reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Extract the event type from `eventTypeHeader`, then `eventTypePath`.
+   */
+  protected extractEventType(
+    headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string {
+    return (
+      (this.eventTypeHeader ? getHeader(headers, this.eventTypeHeader) : undefined) ??
+      bodyText(body, this.eventTypePath) ??
+      UNKNOWN_EVENT_TYPE
+    );
+  }
+
+  /**
+   * Extract event data in the shape `{ eventId, type, payload }`.
+   */
+  protected extractEventData(
+    headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    return {
+      eventId: this.extractEventId(headers, body),
+      type: this.extractEventType(headers, body),
+      payload: body,
+    };
+  }
+
+  /**
+   * Use the delivery ID (`idempotencyKeyHeader` or `idempotencyKeyPath`) as
+   * the idempotency key, so provider retries are dropped.
+   */
+  protected extractIdempotencyKey(
+    headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string | undefined {
+    const eventId = this.extractEventId(headers, body);
+    return eventId ? `hmac:${this.connectionAlias}:${eventId}` : undefined;
+  }
+
+  private extractEventId(
+    headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string | undefined {
+    return (
+      (this.idempotencyKeyHeader ? getHeader(headers, this.idempotencyKeyHeader) : undefined) ??
+      bodyText(body, this.idempotencyKeyPath)
+    );
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+/** Read a request header (names are lower-case in Node), first value only. */
+function getHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Read a string or number at `path` in the body, or undefined. */
+function bodyText(body: unknown, path: string[] | undefined): string | undefined {
+  if (!path) return undefined;
+  const value = getField(body, path);
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+// ── Self-registration ───────────────────────────────────────────────────
+
+registerIngestorFactory('webhook:hmac', (connectionAlias, config, secrets, bufferSize) => {
+  if (!config.webhook) {
+    log.error(`Missing webhook config for ${connectionAlias}`);
+    return null;
+  }
+  try {
+    return new HmacWebhookIngestor(connectionAlias, secrets, config.webhook, bufferSize);
+  } catch (err) {
+    log.error(
+      `Invalid webhook config for ${connectionAlias}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return null;
+  }
+});
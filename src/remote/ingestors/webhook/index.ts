@@ -1,5 +1,9 @@
 // ── Generic base class ──────────────────────────────────────────────────
-export { WebhookIngestor } from './base-webhook-ingestor.js';
+export {
+  WebhookIngestor,
+  type WebhookResult,
+  type HandleWebhookOptions,
+} from './base-webhook-ingestor.js';
 
 // ── GitHub provider ─────────────────────────────────────────────────────
 export { GitHubWebhookIngestor } from './github-webhook-ingestor.js';
@@ -33,3 +37,36 @@ export {
   type TrelloWebhookInfo,
   TRELLO_SIGNATURE_HEADER,
 } from './trello-types.js';
+
+// ── Config-driven HMAC provider ─────────────────────────────────────────
+export { HmacWebhookIngestor } from './hmac-webhook-ingestor.js';
+export {
+  computeHmacSignature,
+  verifyHmacSignature,
+  hmacSchemeFromConfig,
+  type HmacSignatureScheme,
+  type HmacSignedParts,
+} from './hmac-types.js';
+
+// ── Slack Events API provider ───────────────────────────────────────────
+export { SlackWebhookIngestor } from './slack-webhook-ingestor.js';
+export {
+  verifySlackSignature,
+  type SlackEventsApiBody,
+  SLACK_SIGNATURE_HEADER,
+  SLACK_TIMESTAMP_HEADER,
+} from './slack-types.js';
+
+// ── Discord Interactions provider ───────────────────────────────────────
+export { DiscordInteractionsIngestor } from './discord-interactions-ingestor.js';
+export {
+  verifyDiscordSignature,
+  importDiscordPublicKey,
+  interactionResponse,
+  InteractionType,
+  InteractionResponseType,
+  EPHEMERAL_FLAG,
+  type DiscordInteraction,
+  DISCORD_SIGNATURE_HEADER,
+  DISCORD_TIMESTAMP_HEADER,
+} from './discord-interactions-types.js';
@@ -0,0 +1,75 @@
+/**
+ * Slack Events API webhook types and signature verification utilities.
+ *
+ * Slack signs each request with HMAC-SHA256 over `v0:${timestamp}:${rawBody}`
+ * using the app's signing secret, sent as `X-Slack-Signature: v0=<hex>` next
+ * to `X-Slack-Request-Timestamp`. Requests older than the tolerance window
+ * are rejected to prevent replays.
+ *
+ * @see https://docs.slack.dev/authentication/verifying-requests-from-slack
+ * @see https://docs.slack.dev/apis/events-api
+ */
+
+import { verifyHmacSignature } from './hmac-types.js';
+import { DEFAULT_TIMESTAMP_TOLERANCE } from './stripe-types.js';
+
+// ── Slack webhook header names ──────────────────────────────────────────
+
+/** Header containing the request signature: 'v0=<hex>'. */
+export const SLACK_SIGNATURE_HEADER = 'x-slack-signature';
+
+/** Header containing the Unix timestamp (seconds) the request was signed at. */
+export const SLACK_TIMESTAMP_HEADER = 'x-slack-request-timestamp';
+
+/** Signature scheme version Slack currently uses. */
+const SLACK_SIGNATURE_VERSION = 'v0';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+/** Events API request body (`event_callback` or `url_verification`). */
+export interface SlackEventsApiBody {
+  type: 'event_callback' | 'url_verification' | 'app_rate_limited';
+  /** URL verification challenge to echo back. */
+  challenge?: string;
+  /** Unique ID of the event, stable across Slack's retries. */
+  event_id?: string;
+  team_id?: string;
+  api_app_id?: string;
+  event?: Record<string, unknown>;
+}
+
+// ── Signature verification ──────────────────────────────────────────────
+
+/**
+ * Verify a Slack request signature, with replay protection.
+ *
+ * @param rawBody - The raw request body as a Buffer.
+ * @param timestamp - The X-Slack-Request-Timestamp header value.
+ * @param signature - The X-Slack-Signature header value (e.g., 'v0=abc123...').
+ * @param secret - The app's signing secret.
+ * @param tolerance - Maximum request age in seconds (default: 300). Pass 0 to disable.
+ * @returns `valid: true`, or `valid: false` with a `reason`.
+ */
+export function verifySlackSignature(
+  rawBody: Buffer,
+  timestamp: string,
+  signature: string,
+  secret: string,
+  tolerance: number = DEFAULT_TIMESTAMP_TOLERANCE,
+): { valid: boolean; reason?: string } {
+  return verifyHmacSignature(
+    {
+      algorithm: 'sha256',
+      encoding: 'hex',
+      prefix: `${SLACK_SIGNATURE_VERSION}=`,
+      signedPayload: 'timestamp+body',
+      timestampSeparator: ':',
+      timestampTolerance: tolerance,
+      // Slack's base string is `v0:${timestamp}:${body}`
+      signedPrefix: `${SLACK_SIGNATURE_VERSION}:`,
+    },
+    { rawBody, timestamp },
+    signature,
+    secret,
+  );
+}
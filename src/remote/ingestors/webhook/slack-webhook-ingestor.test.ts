@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the Slack Events API webhook ingestor and signature verification.
+ */
+
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { SlackWebhookIngestor } from './slack-webhook-ingestor.js';
+import {
+  verifySlackSignature,
+  SLACK_SIGNATURE_HEADER,
+  SLACK_TIMESTAMP_HEADER,
+} from './slack-types.js';
+import { createIngestor } from '../registry.js';
+import type { WebhookIngestorConfig } from '../types.js';
+
+const secret = 'slack-signing-secret';
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function now(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+function sign(body: string, timestamp: string, signingSecret = secret): string {
+  const hmac = crypto
+    .createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${body}`)
+    .digest('hex');
+  return `v0=${hmac}`;
+}
+
+function signedHeaders(body: string, timestamp = now()): Record<string, string> {
+  return {
+    [SLACK_SIGNATURE_HEADER]: sign(body, timestamp),
+    [SLACK_TIMESTAMP_HEADER]: timestamp,
+  };
+}
+
+const config: WebhookIngestorConfig = {
+  path: 'slack',
+  protocol: 'slack',
+  signatureHeader: 'X-Slack-Signature',
+  signatureSecret: 'SLACK_SIGNING_SECRET',
+};
+
+function createTestIngestor(): SlackWebhookIngestor {
+  return new SlackWebhookIngestor('slack-events', { SLACK_SIGNING_SECRET: secret }, config);
+}
+
+function eventCallback(eventId: string, event: Record<string, unknown>): string {
+  return JSON.stringify({ type: 'event_callback', team_id: 'T1', event_id: eventId, event });
+}
+
+// ── verifySlackSignature ────────────────────────────────────────────────
+
+describe('verifySlackSignature', () => {
+  const body = Buffer.from('{"type":"event_callback"}');
+
+  it('should accept a valid v0 signature', () => {
+    const ts = now();
+    expect(verifySlackSignature(body, ts, sign(body.toString(), ts), secret)).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should reject a signature made with another secret', () => {
+    const ts = now();
+    expect(verifySlackSignature(body, ts, sign(body.toString(), ts, 'other'), secret).valid).toBe(
+      false,
+    );
+  });
+
+  it('should reject requests outside the replay window', () => {
+    const old = String(Math.floor(Date.now() / 1000) - 301);
+    expect(verifySlackSignature(body, old, sign(body.toString(), old), secret)).toEqual({
+      valid: false,
+      reason: 'Timestamp outside tolerance window',
+    });
+    expect(verifySlackSignature(body, old, sign(body.toString(), old), secret, 0).valid).toBe(true);
+  });
+});
+
+// ── SlackWebhookIngestor ────────────────────────────────────────────────
+
+describe('SlackWebhookIngestor', () => {
+  it('should be created by the registry for protocol slack', () => {
+    const ingestor = createIngestor('slack-events', { type: 'webhook', webhook: config }, {});
+    expect(ingestor).toBeInstanceOf(SlackWebhookIngestor);
+  });
+
+  it('should answer url_verification with the challenge and not buffer it', () => {
+    const ingestor = createTestIngestor();
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc123', token: 't' });
+
+    expect(ingestor.handleWebhook(signedHeaders(body), Buffer.from(body))).toEqual({
+      accepted: true,
+      response: { challenge: 'abc123' },
+    });
+    expect(ingestor.getEvents()).toEqual([]);
+  });
+
+  it('should not answer a challenge without a valid signature', () => {
+    const ingestor = createTestIngestor();
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc123' });
+
+    expect(ingestor.handleWebhook({}, Buffer.from(body))).toEqual({
+      accepted: false,
+      reason: 'Missing signature header',
+    });
+  });
+
+  it('should buffer event callbacks typed like Socket Mode and drop retries', () => {
+    const ingestor = createTestIngestor();
+    const body = eventCallback('Ev1', { type: 'app_mention', channel: 'C1', user: 'U1' });
+
+    ingestor.handleWebhook(signedHeaders(body), Buffer.from(body));
+    ingestor.handleWebhook({ ...signedHeaders(body), 'x-slack-retry-num': '1' }, Buffer.from(body));
+
+    const events = ingestor.getEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventType: 'app_mention',
+      idempotencyKey: 'slack:Ev1',
+      data: { event_id: 'Ev1', event: { type: 'app_mention', channel: 'C1' } },
+    });
+  });
+
+  it('should use the request type for non-event requests', () => {
+    const ingestor = createTestIngestor();
+    const body = JSON.stringify({ type: 'app_rate_limited', minute_rate_limited: 1 });
+
+    ingestor.handleWebhook(signedHeaders(body), Buffer.from(body));
+    expect(ingestor.getEvents()[0].eventType).toBe('app_rate_limited');
+  });
+
+  it('should reject a missing timestamp header', () => {
+    const ingestor = createTestIngestor();
+    const body = eventCallback('Ev2', { type: 'message' });
+
+    expect(
+      ingestor.handleWebhook({ [SLACK_SIGNATURE_HEADER]: sign(body, now()) }, Buffer.from(body)),
+    ).toEqual({ accepted: false, reason: 'Missing timestamp header' });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Slack Events API webhook ingestor.
+ *
+ * The HTTP alternative to `SlackSocketModeIngestor`, for workspaces that do
+ * not allow Socket Mode apps. Slack POSTs events to `/webhooks/<path>`:
+ *
+ *   - Requests are verified with `X-Slack-Signature` and
+ *     `X-Slack-Request-Timestamp` (HMAC-SHA256, 5-minute replay window)
+ *   - `url_verification` challenges are answered synchronously
+ *   - `event_callback` events are buffered with the same event types and
+ *     data as Socket Mode (`payload.event.type`, the callback body)
+ *
+ * @see https://docs.slack.dev/apis/events-api
+ */
+
+import { registerIngestorFactory } from '../registry.js';
+import { WebhookIngestor } from './base-webhook-ingestor.js';
+import { extractSlackEventType } from '../slack/types.js';
+import {
+  verifySlackSignature,
+  SLACK_SIGNATURE_HEADER,
+  SLACK_TIMESTAMP_HEADER,
+  type SlackEventsApiBody,
+} from './slack-types.js';
+import { createLogger } from '../../../shared/logger.js';
+
+const log = createLogger('webhook');
+
+// ── Slack Webhook Ingestor ──────────────────────────────────────────────
+
+export class SlackWebhookIngestor extends WebhookIngestor {
+  /**
+   * Verify the Slack request signature and timestamp.
+   *
+   * If both `signatureHeader` and `signatureSecretName` are configured,
+   * the signature is verified. If either is absent, verification is skipped.
+   */
+  protected verifySignature(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer,
+  ): { valid: boolean; reason?: string } {
+    if (!this.signatureSecretName || !this.signatureHeader) {
+      return { valid: true };
+    }
+
+    const secret = this.secrets[this.signatureSecretName];
+    if (!secret) {
+      log.error(
+        `Signature secret "${this.signatureSecretName}" not found ` +
+          `in resolved secrets for ${this.connectionAlias}`,
+      );
+      return { valid: false, reason: 'Signature secret not configured' };
+    }
+
+    const signature = getHeader(headers, SLACK_SIGNATURE_HEADER);
+    if (!signature) {
+      return { valid: false, reason: 'Missing signature header' };
+    }
+    const timestamp = getHeader(headers, SLACK_TIMESTAMP_HEADER);
+    if (!timestamp) {
+      return { valid: false, reason: 'Missing timestamp header' };
+    }
+
+    const result = verifySlackSignature(rawBody, timestamp, signature, secret);
+    if (!result.valid) {
+      log.warn(`Signature verification failed for ${this.connectionAlias}: ${result.reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Echo the challenge of a `url_verification` request, which Slack sends
+   * when the Request URL is saved in the app settings.
+   */
+  protected controlResponse(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    const { type, challenge } = body as SlackEventsApiBody;
+    if (type === 'url_verification') {
+      log.info(`Answered Slack URL verification for ${this.connectionAlias}`);
+      return { challenge };
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract the event type the same way as Socket Mode: `event.type` for
+   * event callbacks, otherwise the request `type` (e.g., 'app_rate_limited').
+   */
+  protected extractEventType(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string {
+    const { type } = body as SlackEventsApiBody;
+    if (type === 'event_callback') {
+      return extractSlackEventType({ type: 'events_api', payload: body });
+    }
+    return typeof type === 'string' ? type : 'unknown';
+  }
+
+  /**
+   * Store the callback body as-is — the same data Socket Mode buffers.
+   */
+  protected extractEventData(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): unknown {
+    return body;
+  }
+
+  /**
+   * Use the `event_id` as the idempotency key, so Slack's retries
+   * (sent when a response is slow) are dropped.
+   */
+  protected extractIdempotencyKey(
+    _headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+  ): string | undefined {
+    const { event_id: eventId } = body as SlackEventsApiBody;
+    return typeof eventId === 'string' ? `slack:${eventId}` : undefined;
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function getHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// ── Self-registration ───────────────────────────────────────────────────
+
+registerIngestorFactory('webhook:slack', (connectionAlias, config, secrets, bufferSize) => {
+  if (!config.webhook) {
+    log.error(`Missing webhook config for ${connectionAlias}`);
+    return null;
+  }
+  return new SlackWebhookIngestor(connectionAlias, secrets, config.webhook, bufferSize);
+});
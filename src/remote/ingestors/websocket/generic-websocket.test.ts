@@ -0,0 +1,239 @@
+/**
+ * Unit tests for GenericWebSocketIngestor.
+ *
+ * Tests connection auth, subscribe messages, event type / idempotency
+ * extraction, keepalive and reconnection.
+ *
+ * We mock WebSocket to avoid real network calls.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenericWebSocketIngestor } from './generic-websocket.js';
+import { createIngestor } from '../registry.js';
+import type { WebSocketIngestorConfig } from '../types.js';
+
+// ── Mock WebSocket ──────────────────────────────────────────────────────
+
+type Handler = (...args: unknown[]) => void;
+
+class MockWebSocket {
+  static readonly OPEN = 1;
+  readyState = 1;
+  binaryType = 'blob';
+  send = vi.fn();
+  close = vi.fn();
+
+  private handlers = new Map<string, Handler>();
+
+  constructor(
+    readonly url: string,
+    readonly init?: { headers?: Record<string, string> },
+  ) {}
+
+  addEventListener(event: string, handler: Handler): void {
+    this.handlers.set(event, handler);
+  }
+
+  simulateOpen(): void {
+    this.handlers.get('open')?.();
+  }
+
+  simulateMessage(data: unknown): void {
+    this.handlers.get('message')?.({
+      data: typeof data === 'string' ? data : JSON.stringify(data),
+    });
+  }
+
+  simulateClose(code = 1006, reason = ''): void {
+    this.handlers.get('close')?.({ code, reason });
+  }
+}
+
+let sockets: MockWebSocket[] = [];
+
+vi.stubGlobal(
+  'WebSocket',
+  class extends MockWebSocket {
+    constructor(url: string, init?: { headers?: Record<string, string> }) {
+      super(url, init);
+      sockets.push(this);
+    }
+  },
+);
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function createTestIngestor(
+  configOverrides: Partial<WebSocketIngestorConfig> = {},
+): GenericWebSocketIngestor {
+  return new GenericWebSocketIngestor(
+    'test-feed',
+    { FEED_TOKEN: 'tok-123', ACCOUNT: 'acct 1' },
+    { gatewayUrl: 'wss://feed.example.com/stream', ...configOverrides },
+  );
+}
+
+async function startOpen(ingestor: GenericWebSocketIngestor): Promise<MockWebSocket> {
+  await ingestor.start();
+  const ws = sockets[sockets.length - 1];
+  ws.simulateOpen();
+  return ws;
+}
+
+beforeEach(() => {
+  sockets = [];
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe('GenericWebSocketIngestor', () => {
+  it('should be created for websocket connections without a protocol', () => {
+    const ingestor = createIngestor('feed', {
+      type: 'websocket',
+      websocket: { gatewayUrl: 'wss://feed.example.com' },
+    });
+    expect(ingestor).toBeInstanceOf(GenericWebSocketIngestor);
+  });
+
+  it('should resolve secrets into the URL, query parameters and headers', async () => {
+    const ingestor = createTestIngestor({
+      gatewayUrl: 'wss://feed.example.com/${ACCOUNT}',
+      query: { token: '${FEED_TOKEN}' },
+      headers: { Authorization: 'Bearer ${FEED_TOKEN}' },
+    });
+    const ws = await startOpen(ingestor);
+
+    expect(ws.url).toBe('wss://feed.example.com/acct%201?token=tok-123');
+    expect(ws.init?.headers).toEqual({ Authorization: 'Bearer tok-123' });
+    expect(ingestor.getStatus().state).toBe('connected');
+    await ingestor.stop();
+  });
+
+  it('should send subscribe messages in order on open', async () => {
+    const ingestor = createTestIngestor({
+      subscribeMessages: [{ type: 'auth', access_token: '${FEED_TOKEN}' }, 'SUBSCRIBE ticker'],
+    });
+    const ws = await startOpen(ingestor);
+
+    expect(ws.send.mock.calls).toEqual([
+      ['{"type":"auth","access_token":"tok-123"}'],
+      ['SUBSCRIBE ticker'],
+    ]);
+    await ingestor.stop();
+  });
+
+  it('should escape secrets resolved into JSON messages', async () => {
+    const ingestor = new GenericWebSocketIngestor(
+      'test-feed',
+      { FEED_TOKEN: 'a"b\\c', ACCOUNT: 'acct 1' },
+      {
+        gatewayUrl: 'wss://feed.example.com/stream',
+        subscribeMessages: [{ type: 'auth', tokens: ['${FEED_TOKEN}'] }, 'AUTH ${FEED_TOKEN}'],
+      },
+    );
+    const ws = await startOpen(ingestor);
+
+    const [[json], [text]] = ws.send.mock.calls as [string][];
+    expect(JSON.parse(json)).toEqual({ type: 'auth', tokens: ['a"b\\c'] });
+    expect(text).toBe('AUTH a"b\\c');
+    await ingestor.stop();
+  });
+
+  it('should type, filter and deduplicate messages by path', async () => {
+    const ingestor = createTestIngestor({
+      eventTypePath: 'event.type',
+      idempotencyKeyPath: '$.event.id',
+      eventFilter: ['trade', 'message'],
+    });
+    const ws = await startOpen(ingestor);
+
+    ws.simulateMessage({ event: { type: 'trade', id: 7, price: 1 } });
+    ws.simulateMessage({ event: { type: 'trade', id: 7, price: 1 } });
+    ws.simulateMessage({ event: { type: 'quote', id: 8 } });
+    ws.simulateMessage('plain text');
+
+    const events = ingestor.getEvents();
+    expect(events.map((e) => e.eventType)).toEqual(['trade', 'message']);
+    expect(events[0].idempotencyKey).toBe('ws:test-feed:7');
+    expect(events[1].data).toBe('plain text');
+    await ingestor.stop();
+  });
+
+  it('should ping and drop pong replies', async () => {
+    const ingestor = createTestIngestor({
+      eventTypePath: 'type',
+      pingIntervalMs: 10_000,
+      pingMessage: { type: 'ping' },
+    });
+    const ws = await startOpen(ingestor);
+
+    vi.advanceTimersByTime(10_000);
+    expect(ws.send).toHaveBeenCalledWith('{"type":"ping"}');
+    ws.simulateMessage({ type: 'pong' });
+
+    expect(ingestor.getEvents()).toEqual([]);
+    await ingestor.stop();
+  });
+
+  it('should reconnect after two silent keepalive intervals', async () => {
+    const ingestor = createTestIngestor({ pingIntervalMs: 10_000 });
+    const ws = await startOpen(ingestor);
+
+    vi.advanceTimersByTime(30_000);
+    expect(ws.close).toHaveBeenCalled();
+    expect(ingestor.getStatus().state).toBe('reconnecting');
+
+    vi.advanceTimersByTime(2_000);
+    expect(sockets).toHaveLength(2);
+    await ingestor.stop();
+  });
+
+  it('should back off exponentially and give up after max attempts', async () => {
+    const ingestor = createTestIngestor();
+    await ingestor.start();
+
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      sockets[sockets.length - 1].simulateClose();
+      expect(ingestor.getStatus().state).toBe('reconnecting');
+      vi.advanceTimersByTime(Math.min(1000 * 2 ** attempt, 30_000));
+      expect(sockets).toHaveLength(attempt + 1);
+    }
+
+    sockets[sockets.length - 1].simulateClose();
+    expect(ingestor.getStatus()).toMatchObject({
+      state: 'error',
+      error: 'Max reconnect attempts (10) exceeded',
+    });
+  });
+
+  it('should reset the backoff once a connection opens', async () => {
+    const ingestor = createTestIngestor();
+    await ingestor.start();
+    sockets[0].simulateClose();
+    vi.advanceTimersByTime(2_000);
+
+    sockets[1].simulateOpen();
+    sockets[1].simulateClose();
+    vi.advanceTimersByTime(2_000);
+
+    expect(sockets).toHaveLength(3);
+    await ingestor.stop();
+  });
+
+  it('should not reconnect after stop', async () => {
+    const ingestor = createTestIngestor();
+    const ws = await startOpen(ingestor);
+
+    await ingestor.stop();
+    ws.simulateClose(1000);
+    vi.advanceTimersByTime(60_000);
+
+    expect(sockets).toHaveLength(1);
+    expect(ingestor.getStatus().state).toBe('stopped');
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Generic WebSocket ingestor.
+ *
+ * Streams JSON messages from any WebSocket feed (exchange tickers, Home
+ * Assistant, internal event buses) into the ring buffer, configured entirely
+ * through `WebSocketIngestorConfig`:
+ *
+ *   Connect (secret-resolved headers / query auth) → send subscribe messages
+ *   → buffer each message, typed and deduplicated by configurable paths
+ *   Optional keepalive: periodic ping, reconnect after two silent intervals
+ *   Exponential backoff reconnection
+ *
+ * Used for websocket connections without a `protocol` (or with 'generic').
+ * Uses the native WebSocket API (Node 22+).
+ */
+
+import { BaseIngestor } from '../base-ingestor.js';
+import type { WebSocketIngestorConfig } from '../types.js';
+import { registerIngestorFactory } from '../registry.js';
+import { getField, parseFieldPath } from '../event-query.js';
+import { resolvePlaceholders } from '../../../shared/config.js';
+import { createLogger } from '../../../shared/logger.js';
+
+const log = createLogger('ws-generic');
+
+/** Event type for messages without one. */
+const DEFAULT_EVENT_TYPE = 'message';
+
+/** Event type of keepalive replies, which are not buffered. */
+const DEFAULT_PONG_EVENT_TYPE = 'pong';
+
+/** Minimum keepalive interval (to avoid flooding the feed). */
+const MIN_PING_INTERVAL_MS = 1_000;
+
+/** Node's WebSocket (undici) accepts upgrade request headers; the DOM typings do not. */
+type NodeWebSocketConstructor = new (
+  url: string,
+  init: { headers: Record<string, string> },
+) => WebSocket;
+
+// ── Generic WebSocket ingestor ──────────────────────────────────────────
+
+export class GenericWebSocketIngestor extends BaseIngestor {
+  private ws: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private readonly maxReconnectAttempts = 10;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  /** When the current socket last received anything (ms). */
+  private lastMessageAt = 0;
+
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly eventFilter: string[];
+  private readonly eventTypePath: string[] | undefined;
+  private readonly idempotencyKeyPath: string[] | undefined;
+  private readonly defaultEventType: string;
+  private readonly pongEventType: string;
+  private readonly pingIntervalMs: number | undefined;
+
+  constructor(
+    connectionAlias: string,
+    secrets: Record<string, string>,
+    private readonly wsConfig: WebSocketIngestorConfig,
+    bufferSize?: number,
+  ) {
+    super(connectionAlias, 'websocket', secrets, bufferSize);
+
+    const url = new URL(resolvePlaceholders(wsConfig.gatewayUrl, secrets));
+    for (const [name, value] of Object.entries(wsConfig.query ?? {})) {
+      url.searchParams.set(name, resolvePlaceholders(value, secrets));
+    }
+    this.url = url.toString();
+
+    this.headers = {};
+    for (const [name, value] of Object.entries(wsConfig.headers ?? {})) {
+      this.headers[name] = resolvePlaceholders(value, secrets);
+    }
+
+    this.eventFilter = wsConfig.eventFilter ?? [];
+    this.eventTypePath = wsConfig.eventTypePath
+      ? parseFieldPath(wsConfig.eventTypePath)
+      : undefined;
+    this.idempotencyKeyPath = wsConfig.idempotencyKeyPath
+      ? parseFieldPath(wsConfig.idempotencyKeyPath)
+      : undefined;
+    this.defaultEventType = wsConfig.defaultEventType ?? DEFAULT_EVENT_TYPE;
+    this.pongEventType = wsConfig.pongEventType ?? DEFAULT_PONG_EVENT_TYPE;
+    this.pingIntervalMs =
+      wsConfig.pingIntervalMs === undefined
+        ? undefined
+        : Math.max(wsConfig.pingIntervalMs, MIN_PING_INTERVAL_MS);
+  }
+
+  start(): Promise<void> {
+    this.state = 'starting';
+    this.connect();
+    return Promise.resolve();
+  }
+
+  stop(): Promise<void> {
+    this.state = 'stopped';
+    this.clearAllTimers();
+    if (this.ws) {
+      this.ws.close(1000, 'Shutting down');
+      this.ws = null;
+    }
+    return Promise.resolve();
+  }
+
+  // ── WebSocket connection ────────────────────────────────────────────
+
+  private connect(): void {
+    let ws: WebSocket;
+    try {
+      ws = new (WebSocket as unknown as NodeWebSocketConstructor)(this.url, {
+        headers: this.headers,
+      });
+    } catch (err) {
+      this.state = 'error';
+      this.errorMessage = `Failed to create WebSocket: ${err instanceof Error ? err.message : String(err)}`;
+      log.error(`${this.errorMessage} (${this.connectionAlias})`);
+      return;
+    }
+    this.ws = ws;
+    ws.binaryType = 'arraybuffer';
+
+    ws.addEventListener('open', () => {
+      log.info(`WebSocket connected for ${this.connectionAlias}`);
+      this.state = 'connected';
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      for (const message of this.wsConfig.subscribeMessages ?? []) {
+        this.send(message);
+      }
+      this.startKeepalive();
+    });
+
+    ws.addEventListener('message', (event: MessageEvent) => {
+      // Ignore stragglers from a socket we already replaced
+      if (this.ws !== ws) return;
+      this.lastMessageAt = Date.now();
+      const data =
+        event.data instanceof ArrayBuffer
+          ? Buffer.from(event.data).toString('utf-8')
+          : String(event.data);
+      this.handleMessage(data);
+    });
+
+    ws.addEventListener('close', (event: CloseEvent) => {
+      log.info(`Connection closed for ${this.connectionAlias}: ${event.code} ${event.reason}`);
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearAllTimers();
+      if (this.state !== 'stopped') {
+        this.scheduleReconnect();
+      }
+    });
+
+    ws.addEventListener('error', () => {
+      // The 'close' event always follows 'error', so we handle reconnection there.
+      log.error(`WebSocket error for ${this.connectionAlias}`);
+    });
+  }
+
+  // ── Message handling ──────────────────────────────────────────────
+
+  private handleMessage(raw: string): void {
+    // Non-JSON frames are buffered as plain text
+    let message: unknown = raw;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      log.debug(`${this.connectionAlias} received a non-JSON message`);
+    }
+
+    const eventType = this.extractText(message, this.eventTypePath) ?? this.defaultEventType;
+    if (eventType === this.pongEventType) return;
+
+    // Apply event type filter (empty filter = capture all)
+    if (this.eventFilter.length > 0 && !this.eventFilter.includes(eventType)) {
+      log.debug(`${this.connectionAlias} event filtered out by eventFilter: ${eventType}`);
+      return;
+    }
+
+    const id = this.extractText(message, this.idempotencyKeyPath);
+    const idempotencyKey = id === undefined ? undefined : `ws:${this.connectionAlias}:${id}`;
+    this.pushEvent(eventType, message, idempotencyKey);
+  }
+
+  /** Read a string or number at `path`, or undefined when absent or not scalar. */
+  private extractText(message: unknown, path: string[] | undefined): string | undefined {
+    if (!path) return undefined;
+    const value = getField(message, path);
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+  }
+
+  // ── Keepalive ─────────────────────────────────────────────────────
+
+  private startKeepalive(): void {
+    const intervalMs = this.pingIntervalMs;
+    if (intervalMs === undefined) return;
+
+    this.pingTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > 2 * intervalMs) {
+        // Dead connection — the feed stopped sending (and answering pings)
+        log.info(`No messages for ${2 * intervalMs}ms, reconnecting ${this.connectionAlias}`);
+        this.initiateReconnect();
+        return;
+      }
+      if (this.wsConfig.pingMessage !== undefined) {
+        this.send(this.wsConfig.pingMessage);
+      }
+    }, intervalMs);
+  }
+
+  // ── Reconnection ──────────────────────────────────────────────────
+
+  private initiateReconnect(): void {
+    this.clearAllTimers();
+    if (this.ws) {
+      this.ws.close(1000, 'Reconnecting');
+      this.ws = null;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.state = 'error';
+      this.errorMessage = `Max reconnect attempts (${this.maxReconnectAttempts}) exceeded`;
+      log.error(`${this.errorMessage} (${this.connectionAlias})`);
+      return;
+    }
+
+    this.state = 'reconnecting';
+    this.reconnectAttempts++;
+    const backoff = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30_000);
+    log.info(
+      `Reconnecting ${this.connectionAlias} in ${backoff}ms ` +
+        `(attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`,
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, backoff);
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────
+
+  /**
+   * Send a configured message with placeholders resolved: strings as-is,
+   * anything else as JSON. Placeholders in objects are resolved in their
+   * string values before serializing, so a secret containing `"` or `\`
+   * is escaped instead of breaking (or restructuring) the message.
+   */
+  private send(message: unknown): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(
+        typeof message === 'string'
+          ? resolvePlaceholders(message, this.secrets)
+          : JSON.stringify(resolveInStrings(message, this.secrets)),
+      );
+    }
+  }
+
+  private clearAllTimers(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+/** Resolve placeholders in every string value of a JSON-like value. */
+function resolveInStrings(value: unknown, secrets: Record<string, string>): unknown {
+  if (typeof value === 'string') return resolvePlaceholders(value, secrets);
+  if (Array.isArray(value)) return value.map((item) => resolveInStrings(item, secrets));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveInStrings(item, secrets)]),
+    );
+  }
+  return value;
+}
+
+// ── Self-registration ────────────────────────────────────────────────────
+
+registerIngestorFactory('websocket:generic', (connectionAlias, config, secrets, bufferSize) => {
+  if (!config.websocket) {
+    log.error(`Missing websocket config for ${connectionAlias}`);
+    return null;
+  }
+  try {
+    return new GenericWebSocketIngestor(connectionAlias, secrets, config.websocket, bufferSize);
+  } catch (err) {
+    log.error(
+      `Invalid websocket config for ${connectionAlias}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return null;
+  }
+});
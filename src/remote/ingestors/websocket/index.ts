@@ -0,0 +1 @@
+export { GenericWebSocketIngestor } from './generic-websocket.js';
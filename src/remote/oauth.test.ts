@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { OAuthTokenManager, tokenKey } from './oauth.js';
+import { resolveRoutes, type ResolvedRoute, type Route } from '../shared/config.js';
+
+// ── Stand-in token endpoint ───────────────────────────────────────────────
+
+interface TokenCall {
+  params: URLSearchParams;
+  authorization?: string;
+}
+
+let tokenServer: http.Server;
+let tokenUrl: string;
+let calls: TokenCall[] = [];
+/** Next response the token endpoint sends: status + JSON body */
+let nextResponse: (call: TokenCall) => { status: number; body: Record<string, unknown> };
+
+beforeAll(async () => {
+  tokenServer = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const call: TokenCall = {
+        params: new URLSearchParams(raw),
+        authorization: req.headers.authorization,
+      };
+      calls.push(call);
+      const { status, body } = nextResponse(call);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => {
+    tokenServer.listen(0, '127.0.0.1', () => {
+      tokenUrl = `http://127.0.0.1:${(tokenServer.address() as AddressInfo).port}/token`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => tokenServer.close(() => resolve()));
+});
+
+let tmpDir: string;
+
+beforeEach(() => {
+  calls = [];
+  nextResponse = () => ({
+    status: 200,
+    body: { access_token: `token-${calls.length}`, expires_in: 3600, token_type: 'bearer' },
+  });
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-oauth-'));
+  return () => fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function makeRoute(oauth: Partial<Route['oauth']> = {}): ResolvedRoute {
+  const route: Route = {
+    headers: { Authorization: 'Bearer ${API_TOKEN}', 'X-Static': 'static' },
+    secrets: { API_TOKEN: 'stale-token' },
+    allowedEndpoints: ['https://api.example.com/**'],
+    oauth: {
+      tokenUrl,
+      grantType: 'client_credentials',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      accessTokenSecret: 'API_TOKEN',
+      ...oauth,
+    },
+  };
+  return resolveRoutes([route])[0];
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────
+
+describe('OAuthTokenManager', () => {
+  it('should obtain a token and inject it into secrets and headers', async () => {
+    const manager = new OAuthTokenManager({ storePath: null });
+    const route = makeRoute();
+
+    await manager.ensureFresh(route);
+
+    expect(route.secrets.API_TOKEN).toBe('token-1');
+    expect(route.headers.Authorization).toBe('Bearer token-1');
+    expect(route.headers['X-Static']).toBe('static');
+    expect(calls[0].params.get('grant_type')).toBe('client_credentials');
+    expect(calls[0].authorization).toBe(
+      `Basic ${Buffer.from('client-id:client-secret').toString('base64')}`,
+    );
+  });
+
+  it('should send client credentials in the body when clientAuth is "body"', async () => {
+    const manager = new OAuthTokenManager({ storePath: null });
+    await manager.ensureFresh(makeRoute({ clientAuth: 'body', scope: 'read write' }));
+
+    expect(calls[0].authorization).toBeUndefined();
+    expect(calls[0].params.get('client_id')).toBe('client-id');
+    expect(calls[0].params.get('client_secret')).toBe('client-secret');
+    expect(calls[0].params.get('scope')).toBe('read write');
+  });
+
+  it('should reuse a valid token across routes and sessions', async () => {
+    const manager = new OAuthTokenManager({ storePath: null });
+    const sessionA = makeRoute();
+    const sessionB = makeRoute();
+
+    await Promise.all([manager.ensureFresh(sessionA), manager.ensureFresh(sessionB)]);
+    await manager.ensureFresh(sessionA);
+
+    expect(calls).toHaveLength(1);
+    expect(sessionB.headers.Authorization).toBe('Bearer token-1');
+  });
+
+  it('should refresh a token that is within the refresh skew', async () => {
+    nextResponse = () => ({
+      status: 200,
+      body: { access_token: `token-${calls.length}`, expires_in: 30 },
+    });
+    const manager = new OAuthTokenManager({ storePath: null });
+    const route = makeRoute({ refreshSkewSeconds: 60 });
+
+    await manager.ensureFresh(route);
+    await manager.ensureFresh(route);
+
+    expect(calls).toHaveLength(2);
+    expect(route.headers.Authorization).toBe('Bearer token-2');
+  });
+
+  it('should refresh after invalidate()', async () => {
+    const manager = new OAuthTokenManager({ storePath: null });
+    const route = makeRoute();
+
+    await manager.ensureFresh(route);
+    manager.invalidate(route);
+    await manager.ensureFresh(route);
+
+    expect(calls).toHaveLength(2);
+    expect(route.secrets.API_TOKEN).toBe('token-2');
+  });
+
+  it('should persist rotated refresh tokens and use them after a restart', async () => {
+    const storePath = path.join(tmpDir, 'oauth-tokens.enc');
+    const storeKey = { source: 'passphrase' as const, secret: 'test-passphrase' };
+    nextResponse = () => ({
+      status: 200,
+      body: { access_token: `token-${calls.length}`, expires_in: 1, refresh_token: 'rotated-rt' },
+    });
+    const route = makeRoute({ grantType: 'refresh_token', refreshToken: 'initial-rt' });
+
+    await new OAuthTokenManager({ storePath, storeKey }).ensureFresh(route);
+    expect(calls[0].params.get('refresh_token')).toBe('initial-rt');
+    expect(fs.statSync(storePath).mode & 0o777).toBe(0o600);
+    expect(fs.readFileSync(storePath, 'utf-8')).not.toContain('rotated-rt');
+
+    // New manager (simulated restart) — token already expiring, so it refreshes
+    await new OAuthTokenManager({ storePath, storeKey }).ensureFresh(route);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].params.get('refresh_token')).toBe('rotated-rt');
+  });
+
+  it('should move tokens from the plaintext file of earlier versions into the store', async () => {
+    const storePath = path.join(tmpDir, 'oauth-tokens.enc');
+    const legacyPath = path.join(tmpDir, 'oauth-tokens.json');
+    const storeKey = { source: 'passphrase' as const, secret: 'test-passphrase' };
+    const route = makeRoute();
+    if (!route.oauth) throw new Error('Route has no oauth block');
+    fs.writeFileSync(
+      legacyPath,
+      JSON.stringify({ [tokenKey(route.oauth)]: { accessToken: 'kept-token' } }),
+    );
+
+    await new OAuthTokenManager({ storePath, storeKey }).ensureFresh(route);
+
+    expect(calls).toHaveLength(0);
+    expect(route.secrets.API_TOKEN).toBe('kept-token');
+    expect(fs.existsSync(legacyPath)).toBe(false);
+    expect(fs.readFileSync(storePath, 'utf-8')).not.toContain('kept-token');
+  });
+
+  it('should throw when the token endpoint rejects the request', async () => {
+    nextResponse = () => ({ status: 400, body: { error: 'invalid_client' } });
+    const manager = new OAuthTokenManager({ storePath: null });
+    const route = makeRoute();
+
+    await expect(manager.ensureFresh(route)).rejects.toThrow('failed: 400');
+    expect(route.secrets.API_TOKEN).toBe('stale-token');
+  });
+
+  it('should throw when the response has no access_token', async () => {
+    nextResponse = () => ({ status: 200, body: { token_type: 'bearer' } });
+    const manager = new OAuthTokenManager({ storePath: null });
+
+    await expect(manager.ensureFresh(makeRoute())).rejects.toThrow('no access_token');
+  });
+
+  it('should ignore routes without an oauth block', async () => {
+    const manager = new OAuthTokenManager({ storePath: null });
+    const route = resolveRoutes([{ allowedEndpoints: [], secrets: { A: 'b' } }])[0];
+
+    await manager.ensureFresh(route);
+
+    expect(calls).toHaveLength(0);
+    expect(route.secrets).toEqual({ A: 'b' });
+  });
+});
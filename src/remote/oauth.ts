@@ -0,0 +1,264 @@
+/**
+ * OAuth2 token lifecycle for routes with an `oauth` block.
+ *
+ * The remote server owns the refresh-token / client-credentials flow for these
+ * routes: it fetches an access token on first use, refreshes it shortly before
+ * it expires, and writes it into the session's ResolvedRoute (the configured
+ * `accessTokenSecret` plus any headers that reference it). Because sessions
+ * keep their ResolvedRoute objects for their whole lifetime, updating them in
+ * place means live sessions pick up new tokens without a re-handshake.
+ *
+ * Tokens are shared across sessions that use the same client + grant, and
+ * persisted so rotated refresh tokens survive restarts. The token file is
+ * sealed with the secrets store's key (see shared/secrets/store.ts) but kept
+ * apart from secrets.enc: the server rewrites it on every refresh while
+ * `drawlatch secrets` edits secrets.enc, and sharing one file would let each
+ * overwrite the other's changes.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {
+  getOAuthTokenStorePath,
+  resolvePlaceholders,
+  type ResolvedOAuthConfig,
+  type ResolvedRoute,
+} from '../shared/config.js';
+import { createLogger } from '../shared/logger.js';
+import {
+  readSecretsStore,
+  resolveSecretsStoreKey,
+  writeSecretsStore,
+  type SecretsStoreKey,
+} from '../shared/secrets/index.js';
+
+const log = createLogger('oauth');
+
+/** Timeout for a single token endpoint call. */
+const TOKEN_REQUEST_TIMEOUT = 10_000;
+
+/** The store entry holding all tokens, as JSON */
+const STORE_ENTRY = 'OAUTH_TOKENS';
+
+/** Plaintext token file written by earlier versions, next to the store — moved into it on first load */
+const LEGACY_STORE_NAME = 'oauth-tokens.json';
+
+/** A cached access token (and the latest refresh token, if the grant uses one). */
+export interface StoredToken {
+  accessToken: string;
+  /** Expiry (ms since epoch). Undefined when the provider did not send expires_in. */
+  expiresAt?: number;
+  refreshToken?: string;
+}
+
+/** Relevant fields of an RFC 6749 §5.1 token response. */
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  refresh_token?: string;
+}
+
+export interface OAuthTokenManagerOptions {
+  /** Where tokens are persisted. Defaults to ~/.drawlatch/oauth-tokens.enc. Null disables persistence. */
+  storePath?: string | null;
+  /** Key the store is sealed with. Defaults to the secrets store's key, looked up on first
+   *  use; when none is available, tokens are kept in memory only. */
+  storeKey?: SecretsStoreKey;
+  /** Remote server key bundle directory, for the default key (see resolveSecretsStoreKey) */
+  keysDir?: string;
+}
+
+/**
+ * Stable identity for an OAuth client + grant, independent of the session.
+ * Uses the configured (initial) refresh token, so a rotated token stored under
+ * this key keeps being found after restarts.
+ */
+export function tokenKey(oauth: ResolvedOAuthConfig): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      [
+        oauth.tokenUrl,
+        oauth.grantType,
+        oauth.clientId,
+        oauth.scope ?? '',
+        oauth.refreshToken ?? '',
+      ].join('\n'),
+    )
+    .digest('hex')
+    .slice(0, 32);
+}
+
+export class OAuthTokenManager {
+  private storePath: string | null;
+  private storeKey: SecretsStoreKey | undefined;
+  private readonly keysDir: string | undefined;
+  private tokens: Map<string, StoredToken> | null = null;
+  /** In-flight refreshes, so concurrent requests share one token call. */
+  private readonly inflight = new Map<string, Promise<StoredToken>>();
+
+  constructor(options: OAuthTokenManagerOptions = {}) {
+    this.storePath = options.storePath === undefined ? getOAuthTokenStorePath() : options.storePath;
+    this.storeKey = options.storeKey;
+    this.keysDir = options.keysDir;
+  }
+
+  /**
+   * Make sure the route carries a valid access token, refreshing it if it is
+   * missing or within `refreshSkewSeconds` of expiry. No-op for routes
+   * without an oauth block.
+   *
+   * @throws Error if the token endpoint rejects the request
+   */
+  async ensureFresh(route: ResolvedRoute): Promise<void> {
+    const oauth = route.oauth;
+    if (!oauth) return;
+
+    const key = tokenKey(oauth);
+    let token = this.load().get(key);
+    if (!token || this.isExpiring(token, oauth)) {
+      token = await this.refresh(key, oauth);
+    }
+    applyToken(route, oauth, token.accessToken);
+  }
+
+  /**
+   * Drop the cached token for a route so the next ensureFresh() fetches a new one
+   * (e.g., after the upstream API rejected it with 401).
+   */
+  invalidate(route: ResolvedRoute): void {
+    if (!route.oauth) return;
+    const token = this.load().get(tokenKey(route.oauth));
+    if (token) token.expiresAt = 0;
+  }
+
+  private isExpiring(token: StoredToken, oauth: ResolvedOAuthConfig): boolean {
+    if (token.expiresAt === undefined) return false;
+    return token.expiresAt - oauth.refreshSkewSeconds * 1000 <= Date.now();
+  }
+
+  private refresh(key: string, oauth: ResolvedOAuthConfig): Promise<StoredToken> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const promise = this.requestToken(key, oauth).finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private async requestToken(key: string, oauth: ResolvedOAuthConfig): Promise<StoredToken> {
+    const previous = this.load().get(key);
+    const params = new URLSearchParams({ grant_type: oauth.grantType });
+    if (oauth.grantType === 'refresh_token') {
+      // A rotated refresh token from an earlier response wins over the configured one
+      params.set('refresh_token', previous?.refreshToken ?? oauth.refreshToken ?? '');
+    }
+    if (oauth.scope) params.set('scope', oauth.scope);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (oauth.clientAuth === 'basic') {
+      const credentials = `${encodeURIComponent(oauth.clientId)}:${encodeURIComponent(oauth.clientSecret ?? '')}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      params.set('client_id', oauth.clientId);
+      if (oauth.clientSecret) params.set('client_secret', oauth.clientSecret);
+    }
+
+    const resp = await fetch(oauth.tokenUrl, {
+      method: 'POST',
+      headers,
+      body: params.toString(),
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT),
+    });
+    if (!resp.ok) {
+      const text = await resp.text().catch(() => '');
+      throw new Error(
+        `OAuth token request to ${oauth.tokenUrl} failed: ${resp.status} ${text.slice(0, 200)}`,
+      );
+    }
+
+    const body = (await resp.json()) as TokenResponse;
+    if (typeof body.access_token !== 'string' || !body.access_token) {
+      throw new Error(`OAuth token response from ${oauth.tokenUrl} has no access_token`);
+    }
+
+    // Providers that don't rotate refresh tokens omit refresh_token — keep the old one
+    const expiresIn = Number(body.expires_in);
+    const refreshToken = body.refresh_token ?? previous?.refreshToken;
+    const token: StoredToken = {
+      accessToken: body.access_token,
+      ...(Number.isFinite(expiresIn) &&
+        expiresIn > 0 && { expiresAt: Date.now() + expiresIn * 1000 }),
+      ...(refreshToken !== undefined && { refreshToken }),
+    };
+
+    this.load().set(key, token);
+    this.save();
+    log.info(
+      `Obtained access token via ${oauth.grantType} from ${new URL(oauth.tokenUrl).host}` +
+        (token.expiresAt ? ` (expires in ${expiresIn}s)` : ''),
+    );
+    return token;
+  }
+
+  // ── Persistence ──────────────────────────────────────────────────────────
+
+  private load(): Map<string, StoredToken> {
+    if (this.tokens) return this.tokens;
+    this.tokens = new Map();
+    if (!this.storePath) return this.tokens;
+
+    if (!this.storeKey) {
+      try {
+        this.storeKey = resolveSecretsStoreKey(this.keysDir);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.warn(`Keeping OAuth tokens in memory only: ${message}`);
+        this.storePath = null;
+        return this.tokens;
+      }
+    }
+
+    const legacyPath = path.join(path.dirname(this.storePath), LEGACY_STORE_NAME);
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const stored = readSecretsStore(this.storePath, this.storeKey)[STORE_ENTRY];
+        this.addTokens(stored ? JSON.parse(stored) : {});
+      } else if (fs.existsSync(legacyPath)) {
+        this.addTokens(JSON.parse(fs.readFileSync(legacyPath, 'utf-8')));
+        this.save();
+        fs.rmSync(legacyPath);
+        log.info(`Moved OAuth tokens from ${legacyPath} into ${this.storePath}`);
+      }
+    } catch (err) {
+      log.warn(`Ignoring unreadable token store ${this.storePath}:`, err);
+    }
+    return this.tokens;
+  }
+
+  private addTokens(raw: unknown): void {
+    for (const [key, token] of Object.entries(raw as Record<string, StoredToken>)) {
+      this.tokens?.set(key, token);
+    }
+  }
+
+  private save(): void {
+    if (!this.storePath || !this.storeKey || !this.tokens) return;
+    const stored = JSON.stringify(Object.fromEntries(this.tokens));
+    writeSecretsStore(this.storePath, { [STORE_ENTRY]: stored }, this.storeKey);
+  }
+}
+
+/** Write an access token into a route's secrets and re-resolve its headers. */
+function applyToken(route: ResolvedRoute, oauth: ResolvedOAuthConfig, accessToken: string): void {
+  if (route.secrets[oauth.accessTokenSecret] === accessToken) return;
+  route.secrets[oauth.accessTokenSecret] = accessToken;
+  for (const [name, template] of Object.entries(oauth.headerTemplates)) {
+    route.headers[name] = resolvePlaceholders(template, route.secrets);
+  }
+}
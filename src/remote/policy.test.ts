@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+
+import { enforcePolicy, evaluatePolicy, PolicyViolationError, ruleMatches } from './policy.js';
+import type { PolicyRule, ResolvedRoute } from '../shared/config.js';
+import { normalizeUrl } from '../shared/endpoints.js';
+
+const REPO = 'https://api.github.com/repos/acme/widgets';
+
+function makeRoute(policy?: PolicyRule[], callerPolicy?: PolicyRule[]): ResolvedRoute {
+  return {
+    headers: {},
+    secrets: {},
+    allowedEndpoints: ['https://api.github.com/**'],
+    resolveSecretsInBody: false,
+    ...(policy && { policy }),
+    ...(callerPolicy && { callerPolicy }),
+  };
+}
+
+describe('ruleMatches', () => {
+  it('should match methods case-insensitively', () => {
+    expect(ruleMatches({ effect: 'deny', methods: ['delete'] }, 'DELETE', REPO)).toBe(true);
+    expect(ruleMatches({ effect: 'deny', methods: ['DELETE'] }, 'get', REPO)).toBe(false);
+  });
+
+  it('should treat omitted methods, omitted endpoints and "*" as wildcards', () => {
+    expect(ruleMatches({ effect: 'allow' }, 'PATCH', REPO)).toBe(true);
+    expect(ruleMatches({ effect: 'allow', methods: ['*'], endpoints: [] }, 'PUT', REPO)).toBe(true);
+  });
+
+  it('should match endpoints with the allowedEndpoints glob syntax', () => {
+    const rule: PolicyRule = { effect: 'deny', endpoints: ['https://api.github.com/repos/*/*'] };
+    expect(ruleMatches(rule, 'GET', REPO)).toBe(true);
+    expect(ruleMatches(rule, 'GET', `${REPO}/issues`)).toBe(false);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('should allow everything for an empty rule set', () => {
+    expect(evaluatePolicy([], 'DELETE', REPO).allowed).toBe(true);
+  });
+
+  it('should let deny take precedence over a matching allow', () => {
+    const rules: PolicyRule[] = [
+      { effect: 'allow', methods: ['*'] },
+      { effect: 'deny', methods: ['DELETE'], description: 'no deletions' },
+    ];
+
+    const decision = evaluatePolicy(rules, 'DELETE', REPO);
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule?.description).toBe('no deletions');
+    expect(decision.reason).toBe('matches deny rule "no deletions"');
+    expect(evaluatePolicy(rules, 'GET', REPO).allowed).toBe(true);
+  });
+
+  it('should require an allow match when the set has allow rules', () => {
+    const rules: PolicyRule[] = [{ effect: 'allow', methods: ['GET', 'HEAD'] }];
+
+    expect(evaluatePolicy(rules, 'GET', REPO).allowed).toBe(true);
+    expect(evaluatePolicy(rules, 'POST', REPO)).toEqual({
+      allowed: false,
+      reason: 'matches no allow rule',
+    });
+  });
+
+  it('should flag requests matching an approval rule', () => {
+    const rules: PolicyRule[] = [
+      { effect: 'allow', methods: ['GET'] },
+      { effect: 'allow', methods: ['POST'], requireApproval: true },
+    ];
+
+    expect(evaluatePolicy(rules, 'GET', REPO)).toEqual({ allowed: true });
+    expect(evaluatePolicy(rules, 'POST', REPO)).toEqual({ allowed: true, requireApproval: true });
+    expect(evaluatePolicy(rules, 'PUT', REPO).allowed).toBe(false);
+  });
+
+  it('should not turn a set of approval rules into an allow list', () => {
+    const rules: PolicyRule[] = [
+      { effect: 'allow', methods: ['DELETE'], requireApproval: true },
+      { effect: 'deny', endpoints: [`${REPO}/hooks/**`] },
+    ];
+
+    expect(evaluatePolicy(rules, 'PATCH', REPO)).toEqual({ allowed: true });
+    expect(evaluatePolicy(rules, 'DELETE', REPO).requireApproval).toBe(true);
+    expect(evaluatePolicy(rules, 'DELETE', `${REPO}/hooks/1`).allowed).toBe(false);
+  });
+
+  it('should allow anything not denied when the set has only deny rules', () => {
+    const rules: PolicyRule[] = [{ effect: 'deny', methods: ['DELETE'] }];
+    expect(evaluatePolicy(rules, 'POST', REPO).allowed).toBe(true);
+  });
+});
+
+describe('dot segments', () => {
+  const rules: PolicyRule[] = [
+    { effect: 'deny', methods: ['DELETE'], endpoints: ['https://api.github.com/repos/**'] },
+  ];
+
+  it.each([
+    'https://api.github.com/user/../repos/acme/widgets',
+    'https://api.github.com/x/%2e%2e/repos/acme/widgets',
+    'https://api.github.com/x/%2E%2E/repos/./acme/widgets',
+  ])('should deny %s once normalized', (url) => {
+    expect(normalizeUrl(url)).toBe(REPO);
+    expect(evaluatePolicy(rules, 'DELETE', normalizeUrl(url)).allowed).toBe(false);
+  });
+});
+
+describe('enforcePolicy', () => {
+  it('should pass routes without policy rules', () => {
+    expect(() => enforcePolicy(makeRoute(), 'DELETE', REPO, REPO)).not.toThrow();
+  });
+
+  it('should throw a PolicyViolationError naming the blocking rule set', () => {
+    const route = makeRoute(undefined, [{ effect: 'allow', methods: ['GET'] }]);
+
+    let caught: unknown;
+    try {
+      enforcePolicy(route, 'delete', REPO, REPO);
+    } catch (err) {
+      caught = err;
+    }
+
+    expect(caught).toBeInstanceOf(PolicyViolationError);
+    const err = caught as PolicyViolationError;
+    expect(err.scope).toBe('caller');
+    expect(err.message).toBe(
+      `Policy violation: DELETE ${REPO} is not permitted by the caller policy (matches no allow rule)`,
+    );
+  });
+
+  it('should require both the route and the caller policy to pass', () => {
+    const route = makeRoute(
+      [{ effect: 'allow', methods: ['GET', 'POST'] }],
+      [{ effect: 'deny', methods: ['POST'], endpoints: [`${REPO}/**`] }],
+    );
+
+    expect(() => enforcePolicy(route, 'POST', REPO, REPO)).not.toThrow();
+    expect(() => enforcePolicy(route, 'POST', `${REPO}/issues`, `${REPO}/issues`)).toThrow(
+      'caller policy',
+    );
+    expect(() => enforcePolicy(route, 'PUT', REPO, REPO)).toThrow('route policy');
+  });
+
+  it('should report whether approval is required', () => {
+    const approvalRule: PolicyRule = { effect: 'allow', methods: ['POST'], requireApproval: true };
+
+    expect(enforcePolicy(makeRoute(), 'POST', REPO, REPO)).toBe(false);
+    expect(enforcePolicy(makeRoute([approvalRule]), 'POST', REPO, REPO)).toBe(true);
+    expect(enforcePolicy(makeRoute(undefined, [approvalRule]), 'POST', REPO, REPO)).toBe(true);
+    expect(enforcePolicy({ ...makeRoute(), requireApproval: true }, 'GET', REPO, REPO)).toBe(true);
+  });
+
+  it('should report the client URL, not the resolved one', () => {
+    const route = makeRoute([{ effect: 'deny' }]);
+    expect(() =>
+      enforcePolicy(route, 'GET', `${REPO}?key=secret-value`, `${REPO}?key=\${API_KEY}`),
+    ).toThrow(`${REPO}?key=\${API_KEY}`);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Request policy — which method + URL combinations a route may be used for.
+ *
+ * `allowedEndpoints` decides whether a route applies to a URL at all (see
+ * shared/endpoints.ts). Policy
+ * rules (on the route and on the caller) then narrow what may be done there,
+ * e.g., a read-only GitHub caller that can GET anything but never DELETE.
+ *
+ * Each rule set is evaluated on its own:
+ *   1. Any matching deny rule blocks the request.
+ *   2. If the set has allow rules, the request must match one of them.
+ *   3. Otherwise the request is allowed.
+ * A request must pass both the route's and the caller's rule set.
+ *
+ * Allow rules with `requireApproval` additionally mark matching requests as
+ * needing operator approval. They only count toward the allow list when the
+ * set also has plain allow rules, so a lone approval rule does not block
+ * everything else.
+ */
+
+import type { PolicyRule, ResolvedRoute } from '../shared/config.js';
+import { isEndpointAllowed } from '../shared/endpoints.js';
+
+/** Outcome of evaluating a rule set against a request. */
+export interface PolicyDecision {
+  allowed: boolean;
+  /** The deny rule that matched, if any */
+  rule?: PolicyRule;
+  /** Human-readable reason when the request is not allowed */
+  reason?: string;
+  /** Allowed, but only after an operator approves it */
+  requireApproval?: boolean;
+}
+
+/** Whether a rule applies to the given method and (resolved) URL. */
+export function ruleMatches(rule: PolicyRule, method: string, url: string): boolean {
+  const methods = rule.methods ?? [];
+  const upper = method.toUpperCase();
+  const methodMatches =
+    methods.length === 0 || methods.some((m) => m === '*' || m.toUpperCase() === upper);
+  return methodMatches && isEndpointAllowed(url, rule.endpoints ?? []);
+}
+
+/**
+ * Evaluate a single rule set. Deny takes precedence over allow; a set with
+ * plain allow rules only permits what its allow rules match.
+ */
+export function evaluatePolicy(rules: PolicyRule[], method: string, url: string): PolicyDecision {
+  const deny = rules.find((rule) => rule.effect === 'deny' && ruleMatches(rule, method, url));
+  if (deny) {
+    return {
+      allowed: false,
+      rule: deny,
+      reason: deny.description ? `matches deny rule "${deny.description}"` : 'matches a deny rule',
+    };
+  }
+
+  const allowRules = rules.filter((rule) => rule.effect === 'allow');
+  const matching = allowRules.filter((rule) => ruleMatches(rule, method, url));
+  const isAllowList = allowRules.some((rule) => !rule.requireApproval);
+  if (isAllowList && matching.length === 0) {
+    return { allowed: false, reason: 'matches no allow rule' };
+  }
+  return matching.some((rule) => rule.requireApproval)
+    ? { allowed: true, requireApproval: true }
+    : { allowed: true };
+}
+
+/** Thrown when a request matches a route but is blocked by a route or caller policy rule. */
+export class PolicyViolationError extends Error {
+  constructor(
+    readonly method: string,
+    /** The URL as sent by the client (placeholders unresolved, so no secrets) */
+    readonly url: string,
+    /** Which rule set blocked the request */
+    readonly scope: 'route' | 'caller',
+    readonly reason: string,
+    readonly rule?: PolicyRule,
+    /** Name of the route the request matched, when it has one */
+    readonly route?: string,
+  ) {
+    super(
+      `Policy violation: ${method.toUpperCase()} ${url} is not permitted by the ${scope} policy (${reason})`,
+    );
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Check a request against the route's policy and the caller's policy.
+ * Returns whether the request needs operator approval before it may run
+ * (from either rule set, or the route's own `requireApproval` flag).
+ *
+ * @param resolvedUrl - The fully resolved URL the rules are matched against
+ * @param requestUrl - The URL as sent by the client, reported in the error
+ * @throws PolicyViolationError if either rule set blocks the request
+ */
+export function enforcePolicy(
+  route: ResolvedRoute,
+  method: string,
+  resolvedUrl: string,
+  requestUrl: string,
+): boolean {
+  const layers: ['route' | 'caller', PolicyRule[] | undefined][] = [
+    ['route', route.policy],
+    ['caller', route.callerPolicy],
+  ];
+  let requireApproval = route.requireApproval ?? false;
+  for (const [scope, rules] of layers) {
+    if (!rules?.length) continue;
+    const decision = evaluatePolicy(rules, method, resolvedUrl);
+    if (!decision.allowed) {
+      throw new PolicyViolationError(
+        method,
+        requestUrl,
+        scope,
+        decision.reason ?? '',
+        decision.rule,
+        route.name,
+      );
+    }
+    if (decision.requireApproval) requireApproval = true;
+  }
+  return requireApproval;
+}
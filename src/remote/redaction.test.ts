@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+
+import { redactResponse, redactSecrets, redactStream } from './redaction.js';
+
+const SECRETS = {
+  API_KEY: 'sk-live-abc123',
+  BOT_TOKEN: '123456:ABC/def+ghi',
+  SHORT: 'abc',
+};
+
+function streamOf(chunks: (string | Error)[]): ReadableStream<Uint8Array> {
+  let i = 0;
+  return new ReadableStream({
+    pull(controller) {
+      const next = chunks[i++] as string | Error | undefined;
+      if (next === undefined) controller.close();
+      else if (next instanceof Error) controller.error(next);
+      else controller.enqueue(new TextEncoder().encode(next));
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return Buffer.concat(parts).toString();
+}
+
+describe('redactSecrets', () => {
+  it('should replace every occurrence with the placeholder', () => {
+    expect(redactSecrets('Bearer sk-live-abc123 / sk-live-abc123', SECRETS)).toEqual({
+      text: 'Bearer ${API_KEY} / ${API_KEY}',
+      count: 2,
+    });
+  });
+
+  it('should replace URL-encoded values', () => {
+    const url = `https://api.telegram.org/bot${encodeURIComponent(SECRETS.BOT_TOKEN)}/getMe`;
+    expect(redactSecrets(url, SECRETS).text).toBe('https://api.telegram.org/bot${BOT_TOKEN}/getMe');
+  });
+
+  it('should leave values shorter than the minimum alone', () => {
+    expect(redactSecrets('abc', SECRETS)).toEqual({ text: 'abc', count: 0 });
+  });
+
+  it('should replace the longest value first', () => {
+    const secrets = { OUTER: 'token-123456-extra', INNER: 'token-123456' };
+    expect(redactSecrets('token-123456-extra token-123456', secrets).text).toBe(
+      '${OUTER} ${INNER}',
+    );
+  });
+});
+
+describe('redactResponse', () => {
+  it('should redact the status text, header values and JSON body', () => {
+    const { response, count } = redactResponse(
+      {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'x-echo-auth': 'Bearer sk-live-abc123' },
+        body: { auth: 'Bearer sk-live-abc123', list: ['sk-live-abc123', 1], ok: true },
+      },
+      SECRETS,
+    );
+
+    expect(count).toBe(3);
+    expect(response).toEqual({
+      status: 200,
+      statusText: 'OK',
+      headers: { 'x-echo-auth': 'Bearer ${API_KEY}' },
+      body: { auth: 'Bearer ${API_KEY}', list: ['${API_KEY}', 1], ok: true },
+    });
+  });
+
+  it('should redact inside binary bodies', () => {
+    const body = Buffer.from('\x00\x01sk-live-abc123\x02').toString('base64');
+    const { response, count } = redactResponse(
+      { statusText: 'OK', headers: {}, body, bodyEncoding: 'base64' },
+      SECRETS,
+    );
+
+    expect(count).toBe(1);
+    expect(Buffer.from(response.body, 'base64').toString()).toBe('\x00\x01${API_KEY}\x02');
+  });
+
+  it('should return the response unchanged when nothing matches', () => {
+    const original = { statusText: 'OK', headers: { a: 'b' }, body: 'hello' };
+    expect(redactResponse(original, SECRETS)).toEqual({ response: original, count: 0 });
+  });
+});
+
+describe('redactStream', () => {
+  it('should redact values split across chunks', async () => {
+    let count = 0;
+    const stream = redactStream(
+      streamOf(['data: sk-li', 've-ab', 'c123\n\n', 'data: done']),
+      SECRETS,
+      (n) => (count += n),
+    );
+
+    expect(await readAll(stream)).toBe('data: ${API_KEY}\n\ndata: done');
+    expect(count).toBe(1);
+  });
+
+  it('should pass bodies without secrets through unchanged', async () => {
+    const stream = redactStream(
+      streamOf(['a'.repeat(100), 'b'.repeat(3)]),
+      SECRETS,
+      () => undefined,
+    );
+    expect(await readAll(stream)).toBe('a'.repeat(100) + 'bbb');
+  });
+
+  it('should deliver held-back bytes before an upstream error', async () => {
+    const reader = redactStream(
+      streamOf(['partial', new Error('connection reset')]),
+      SECRETS,
+      () => undefined,
+    ).getReader();
+
+    const received: string[] = [];
+    await expect(
+      (async () => {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          received.push(Buffer.from(value).toString());
+        }
+      })(),
+    ).rejects.toThrow('connection reset');
+    expect(received.join('')).toBe('partial');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Response redaction — scrubs secret values out of upstream responses.
+ *
+ * Some APIs echo credentials back: debug endpoints that reflect request
+ * headers, error pages quoting the Authorization header, URLs that embed a
+ * bot token. Before a result leaves the remote server, every occurrence of a
+ * value from the matched route's `secrets` (raw or URL-encoded) is replaced
+ * with its `${NAME}` placeholder — the form the agent already uses for it.
+ *
+ * The status text, header values and body are scanned. Binary bodies are
+ * scanned byte for byte, and streamed bodies chunk by chunk, holding back
+ * enough bytes to catch a value split across two chunks.
+ */
+
+/** Secret values shorter than this are not redacted (too likely to match ordinary text). */
+export const MIN_REDACTED_SECRET_LENGTH = 6;
+
+interface Needle {
+  value: string;
+  placeholder: string;
+}
+
+/** Values to look for, longest first so a secret containing another is replaced whole. */
+function needlesFor(secrets: Record<string, string>): Needle[] {
+  const needles = new Map<string, string>();
+  for (const [name, value] of Object.entries(secrets)) {
+    if (value.length < MIN_REDACTED_SECRET_LENGTH) continue;
+    const placeholder = `\${${name}}`;
+    needles.set(value, placeholder);
+    const encoded = encodeURIComponent(value);
+    if (encoded !== value) needles.set(encoded, placeholder);
+  }
+  return [...needles]
+    .map(([value, placeholder]) => ({ value, placeholder }))
+    .sort((a, b) => b.value.length - a.value.length);
+}
+
+function redactWith(text: string, needles: Needle[]): { text: string; count: number } {
+  let count = 0;
+  for (const { value, placeholder } of needles) {
+    if (!text.includes(value)) continue;
+    const parts = text.split(value);
+    count += parts.length - 1;
+    text = parts.join(placeholder);
+  }
+  return { text, count };
+}
+
+function redactBytesWith(data: Buffer, needles: Needle[]): { data: Buffer; count: number } {
+  let count = 0;
+  for (const { value, placeholder } of needles) {
+    const needle = Buffer.from(value);
+    let index = data.indexOf(needle);
+    if (index === -1) continue;
+
+    const replacement = Buffer.from(placeholder);
+    const pieces: Buffer[] = [];
+    let start = 0;
+    while (index !== -1) {
+      pieces.push(data.subarray(start, index), replacement);
+      count++;
+      start = index + needle.length;
+      index = data.indexOf(needle, start);
+    }
+    pieces.push(data.subarray(start));
+    data = Buffer.concat(pieces);
+  }
+  return { data, count };
+}
+
+/** Replace secret values in a string. */
+export function redactSecrets(
+  text: string,
+  secrets: Record<string, string>,
+): { text: string; count: number } {
+  return redactWith(text, needlesFor(secrets));
+}
+
+/** A response (buffered or the head of a stream) as seen by `redactResponse()`. */
+export interface RedactableResponse {
+  statusText: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyEncoding?: string;
+}
+
+/**
+ * Redact secret values from a response's status text, header values and body.
+ * JSON bodies are walked (keys and string values); base64 bodies are decoded,
+ * scanned as bytes and re-encoded.
+ *
+ * @returns A redacted copy of the response and the number of values replaced
+ */
+export function redactResponse<T extends RedactableResponse>(
+  response: T,
+  secrets: Record<string, string>,
+): { response: T; count: number } {
+  const needles = needlesFor(secrets);
+  if (needles.length === 0) return { response, count: 0 };
+  let count = 0;
+
+  const text = (value: string): string => {
+    const result = redactWith(value, needles);
+    count += result.count;
+    return result.text;
+  };
+
+  const walk = (value: unknown): unknown => {
+    if (typeof value === 'string') return text(value);
+    if (Array.isArray(value)) return value.map(walk);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [text(k), walk(v)]));
+    }
+    return value;
+  };
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    headers[name] = text(value);
+  }
+
+  let body = response.body;
+  if (response.bodyEncoding === 'base64' && typeof body === 'string') {
+    const result = redactBytesWith(Buffer.from(body, 'base64'), needles);
+    count += result.count;
+    body = result.data.toString('base64');
+  } else if (body !== undefined) {
+    body = walk(body);
+  }
+
+  return {
+    response: {
+      ...response,
+      statusText: text(response.statusText),
+      headers,
+      ...(response.body !== undefined && { body }),
+    },
+    count,
+  };
+}
+
+/**
+ * Wrap a streamed body so secret values are redacted as it is read.
+ * The last (longest secret − 1) bytes of each chunk are carried over to the
+ * next one, so values split across chunks are still caught. If the upstream
+ * fails, the carried-over bytes are still delivered before the error.
+ *
+ * @param onRedact - Called with the number of values replaced in each piece
+ */
+export function redactStream(
+  body: ReadableStream<Uint8Array>,
+  secrets: Record<string, string>,
+  onRedact: (count: number) => void,
+): ReadableStream<Uint8Array> {
+  const needles = needlesFor(secrets);
+  const holdBack = Math.max(0, ...needles.map((n) => Buffer.byteLength(n.value) - 1));
+  const reader = body.getReader();
+  let carry = Buffer.alloc(0);
+  let failure: { error: unknown } | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (failure) {
+        controller.error(failure.error);
+        return;
+      }
+      // Keep reading until there is something to emit
+      for (;;) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (err) {
+          if (carry.length === 0) {
+            controller.error(err);
+            return;
+          }
+          failure = { error: err };
+          controller.enqueue(new Uint8Array(carry));
+          carry = Buffer.alloc(0);
+          return;
+        }
+
+        if (chunk.done) {
+          if (carry.length > 0) controller.enqueue(new Uint8Array(carry));
+          controller.close();
+          return;
+        }
+
+        const { data, count } = redactBytesWith(Buffer.concat([carry, chunk.value]), needles);
+        if (count > 0) onRedact(count);
+        const emit = Math.max(0, data.length - holdBack);
+        carry = Buffer.from(data.subarray(emit));
+        if (emit > 0) {
+          controller.enqueue(new Uint8Array(data.subarray(0, emit)));
+          return;
+        }
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
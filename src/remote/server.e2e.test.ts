@@ -5,7 +5,7 @@
  * over HTTP, sends encrypted requests, and validates the full flow.
  * Tests route-based secret scoping, header injection, and header conflict rejection.
  */
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
 import type { Server } from 'node:http';
 import type { AddressInfo } from 'node:net';
 import crypto from 'node:crypto';
@@ -14,22 +14,41 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 
-import { createApp, type AuthorizedPeer } from './server.js';
+import { createApp, type AuthorizedPeer, type ReloadFn } from './server.js';
+import { OAuthTokenManager } from './oauth.js';
+import { AuditLog, type AuditRecord } from './audit.js';
+import { ConsumerCursors } from './consumers.js';
+import { IngestorManager } from './ingestors/index.js';
 import type { RemoteServerConfig } from '../shared/config.js';
 import {
   generateKeyBundle,
   extractPublicKeys,
   saveKeyBundle,
   serializeKeyBundle,
+  fingerprint,
+  revokeKey,
   EncryptedChannel,
   type KeyBundle,
   type PublicKeyBundle,
 } from '../shared/crypto/index.js';
 import {
   HandshakeInitiator,
+  RekeyInitiator,
+  ResumptionInitiator,
+  readEventStream,
+  readProxyStream,
+  STREAM_CONTENT_TYPE,
+  type EventStreamEnd,
+  type EventStreamMessage,
+  type EventSubscribe,
   type HandshakeReply,
+  type PingMessage,
+  type PongMessage,
   type ProxyRequest,
   type ProxyResponse,
+  type RekeyResponse,
+  type ResumeReply,
+  type SessionTicket,
 } from '../shared/protocol/index.js';
 
 // ── Test fixtures ─────────────────────────────────────────────────────────
@@ -139,6 +158,13 @@ async function performHttpHandshake(): Promise<{
   return { channel, sessionId: sessionKeys.sessionId };
 }
 
+/** The body of a streamed response, failing the test when there is none */
+function streamBody(resp: Response): ReadableStream<Uint8Array> {
+  expect(resp.body).not.toBeNull();
+  if (!resp.body) throw new Error('Streamed response has no body');
+  return resp.body;
+}
+
 /** Send an encrypted tool request and return the decrypted response */
 async function sendToolRequest(
   channel: EncryptedChannel,
@@ -293,16 +319,8 @@ describe('Security', () => {
       },
       body,
     });
-    // Server detects replay: either sends encrypted error (200) or session breaks (500)
-    if (resp2.ok) {
-      const errorResponse = channel.decryptJSON<ProxyResponse>(
-        Buffer.from(await resp2.arrayBuffer()),
-      );
-      expect(errorResponse.success).toBe(false);
-      expect(errorResponse.error).toContain('Duplicate counter');
-    } else {
-      expect(resp2.status).toBe(500);
-    }
+    // Server detects replay (counter mismatch) and refuses the undecryptable payload
+    expect(resp2.status).toBe(401);
   });
 
   it('should reject requests with unknown session IDs', async () => {
@@ -465,6 +483,11 @@ describe('Rate limiting', () => {
 
 // ── http_request tool handler ──────────────────────────────────────────────
 
+/** PNG signature followed by bytes that are not valid UTF-8 */
+const BINARY_FIXTURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0xfe, 0x00, 0x80,
+]);
+
 describe('http_request tool', () => {
   let targetServer: Server;
   let targetUrl: string;
@@ -489,6 +512,19 @@ describe('http_request tool', () => {
           res.writeHead(200, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ received: body, contentType: req.headers['content-type'] }));
         });
+      } else if (req.url === '/no-content') {
+        res.writeHead(204, { 'Content-Type': 'application/json' });
+        res.end();
+      } else if (req.url === '/binary') {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(BINARY_FIXTURE);
+      } else if (req.url === '/echo-bytes') {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+          res.end(Buffer.concat(chunks));
+        });
       } else {
         res.writeHead(404, { 'Content-Type': 'text/plain' });
         res.end('not found');
@@ -513,6 +549,7 @@ describe('http_request tool', () => {
           alias: 'http-test',
           secrets: { MY_TOKEN: 'Bearer secret-jwt-token', BODY_SECRET: 'super-secret-body' },
           allowedEndpoints: [`${targetUrl}/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
         },
       ],
       callers: {
@@ -699,6 +736,60 @@ describe('http_request tool', () => {
     // The unknown placeholder should be left as-is
     expect(result.body.auth).toBe('${UNKNOWN_SECRET}');
   });
+
+  it('should return an empty body for a 204 labelled as JSON', async () => {
+    const channel = await httpHandshake();
+    const response = await sendHttpToolRequest(channel, 'http_request', {
+      method: 'DELETE',
+      url: `${targetUrl}/no-content`,
+    });
+
+    expect(response.success).toBe(true);
+    const result = response.result as { status: number; body: unknown };
+    expect(result.status).toBe(204);
+    expect(result.body).toBe('');
+  });
+
+  it('should return binary responses base64-encoded', async () => {
+    const channel = await httpHandshake();
+    const response = await sendHttpToolRequest(channel, 'http_request', {
+      method: 'GET',
+      url: `${targetUrl}/binary`,
+    });
+
+    expect(response.success).toBe(true);
+    const result = response.result as { body: string; bodyEncoding?: string };
+    expect(result.bodyEncoding).toBe('base64');
+    expect(Buffer.from(result.body, 'base64').equals(BINARY_FIXTURE)).toBe(true);
+  });
+
+  it('should send base64 request bodies as raw bytes', async () => {
+    const channel = await httpHandshake();
+    const response = await sendHttpToolRequest(channel, 'http_request', {
+      method: 'POST',
+      url: `${targetUrl}/echo-bytes`,
+      body: BINARY_FIXTURE.toString('base64'),
+      bodyEncoding: 'base64',
+    });
+
+    expect(response.success).toBe(true);
+    const result = response.result as { body: string; bodyEncoding?: string };
+    expect(result.bodyEncoding).toBe('base64');
+    expect(Buffer.from(result.body, 'base64').equals(BINARY_FIXTURE)).toBe(true);
+  });
+
+  it('should reject a base64 body that is not a string', async () => {
+    const channel = await httpHandshake();
+    const response = await sendHttpToolRequest(channel, 'http_request', {
+      method: 'POST',
+      url: `${targetUrl}/echo-bytes`,
+      body: { not: 'a string' },
+      bodyEncoding: 'base64',
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('bodyEncoding "base64"');
+  });
 });
 
 // ── resolveSecretsInBody opt-in ──────────────────────────────────────────────
@@ -739,6 +830,7 @@ describe('http_request with resolveSecretsInBody enabled', () => {
           alias: 'body-test',
           secrets: { MY_TOKEN: 'Bearer secret-jwt-token', BODY_SECRET: 'super-secret-body' },
           allowedEndpoints: [`${bodyTargetUrl}/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
           resolveSecretsInBody: true,
         },
       ],
@@ -1750,6 +1842,7 @@ describe('Per-caller env overrides', () => {
           secrets: { GH_TOKEN: '${GH_TOKEN}' },
           headers: { Authorization: 'Bearer ${GH_TOKEN}' },
           allowedEndpoints: [`${echoUrl}/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
         },
       ],
       callers: {
@@ -2226,4 +2319,2354 @@ describe('Webhook ingestor', () => {
     expect(cursorEvents.length).toBeGreaterThanOrEqual(1);
     expect(cursorEvents.every((e) => e.id > lastButOneId)).toBe(true);
   });
+
+  it('should filter, limit and project events on the server', async () => {
+    const { channel } = await webhookHandshake();
+    const response = await sendWebhookToolRequest(channel, 'poll_events', {
+      event_types: ['test_event_0', 'test_event_1'],
+      filter: ['data.payload.index != 0'],
+      limit: 5,
+      fields: ['eventType', 'data.payload.index'],
+    });
+
+    expect(response.success).toBe(true);
+    const events = response.result as Record<string, unknown>[];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toEqual({
+      id: expect.any(Number) as number,
+      eventType: 'test_event_1',
+      data: { payload: { index: 1 } },
+    });
+  });
+
+  it('should report an invalid filter as an error', async () => {
+    const { channel } = await webhookHandshake();
+    const response = await sendWebhookToolRequest(channel, 'poll_events', {
+      filter: ['data.payload.index'],
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Invalid filter');
+  });
+});
+
+describe('Slack Events API webhooks', () => {
+  let slackServer: Server;
+  let slackBaseUrl: string;
+  let mgr: IngestorManager;
+
+  const signingSecret = 'e2e-slack-signing-secret';
+
+  beforeAll(async () => {
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'slack-events',
+          secrets: { SLACK_SIGNING_SECRET: signingSecret },
+          allowedEndpoints: ['https://slack.com/api/**'],
+          ingestor: {
+            type: 'webhook',
+            webhook: {
+              path: 'slack',
+              protocol: 'slack',
+              signatureHeader: 'X-Slack-Signature',
+              signatureSecret: 'SLACK_SIGNING_SECRET',
+            },
+          },
+        },
+      ],
+      callers: {
+        'slack-client': { peerKeyDir: '', connections: ['slack-events'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({ config, ownKeys: generateKeyBundle(), authorizedPeers: [] });
+    mgr = app.locals.ingestorManager as IngestorManager;
+    await mgr.startAll();
+
+    await new Promise<void>((resolve) => {
+      slackServer = app.listen(0, '127.0.0.1', () => {
+        const addr = slackServer.address() as AddressInfo;
+        slackBaseUrl = `http://127.0.0.1:${addr.port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await mgr.stopAll();
+    await new Promise<void>((resolve, reject) => {
+      slackServer.close((err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  });
+
+  function postToSlackWebhook(payload: unknown, secret = signingSecret): Promise<Response> {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const sig = crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+    return fetch(`${slackBaseUrl}/webhooks/slack`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Slack-Request-Timestamp': timestamp,
+        'X-Slack-Signature': `v0=${sig}`,
+      },
+      body,
+    });
+  }
+
+  it('should answer the url_verification challenge in the response body', async () => {
+    const resp = await postToSlackWebhook({ type: 'url_verification', challenge: 'chal-123' });
+
+    expect(resp.status).toBe(200);
+    expect(await resp.json()).toEqual({ challenge: 'chal-123' });
+    expect(mgr.getEvents('slack-client', 'slack-events')).toEqual([]);
+  });
+
+  it('should buffer signed event callbacks and reject bad signatures', async () => {
+    const callback = {
+      type: 'event_callback',
+      event_id: 'Ev001',
+      event: { type: 'message', channel: 'C1', text: 'hi' },
+    };
+
+    const resp = await postToSlackWebhook(callback);
+    expect(resp.status).toBe(200);
+    expect(await resp.json()).toEqual({ received: true });
+    expect((await postToSlackWebhook(callback, 'wrong-secret')).status).toBe(403);
+
+    const events = mgr.getEvents('slack-client', 'slack-events');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ eventType: 'message', idempotencyKey: 'slack:Ev001' });
+  });
+});
+
+describe('Webhook archive and replay', () => {
+  const ADMIN_TOKEN = 'test-admin-token';
+  const webhookSecret = 'e2e-archive-secret';
+  let archiveDir: string;
+  let archiveServer: Server;
+  let archiveUrl: string;
+  let mgr: IngestorManager;
+
+  beforeAll(async () => {
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-webhooks-e2e-'));
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'archived-hook',
+          secrets: { HOOK_SECRET: webhookSecret },
+          allowedEndpoints: [],
+          ingestor: {
+            type: 'webhook',
+            webhook: {
+              path: 'archived',
+              signatureHeader: 'X-Hub-Signature-256',
+              signatureSecret: 'HOOK_SECRET',
+            },
+          },
+        },
+      ],
+      callers: {
+        'archive-client': { peerKeyDir: '', connections: ['archived-hook'] },
+      },
+      rateLimitPerMinute: 60,
+      webhookArchive: { dir: archiveDir },
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: generateKeyBundle(),
+      authorizedPeers: [],
+      adminToken: ADMIN_TOKEN,
+    });
+    mgr = app.locals.ingestorManager as IngestorManager;
+    await mgr.startAll();
+
+    await new Promise<void>((resolve) => {
+      archiveServer = app.listen(0, '127.0.0.1', () => {
+        archiveUrl = `http://127.0.0.1:${(archiveServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await mgr.stopAll();
+    await new Promise<void>((resolve, reject) => {
+      archiveServer.close((err) => (err ? reject(err) : resolve()));
+    });
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  function admin(method: string, urlPath: string, body?: unknown): Promise<Response> {
+    return fetch(`${archiveUrl}/admin${urlPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${ADMIN_TOKEN}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+  }
+
+  it('should archive received requests and replay them by delivery ID', async () => {
+    const body = JSON.stringify({ action: 'opened', number: 7 });
+    const sig = crypto.createHmac('sha256', webhookSecret).update(body).digest('hex');
+    const resp = await fetch(`${archiveUrl}/webhooks/archived`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-GitHub-Event': 'pull_request',
+        'X-GitHub-Delivery': 'delivery-77',
+        'X-Hub-Signature-256': `sha256=${sig}`,
+      },
+      body,
+    });
+    expect(resp.status).toBe(200);
+
+    const listed = (await (await admin('GET', '/webhooks?path=archived')).json()) as {
+      deliveryId?: string;
+      body: string;
+    }[];
+    expect(listed).toHaveLength(1);
+    expect(listed[0].deliveryId).toBe('delivery-77');
+    expect(Buffer.from(listed[0].body, 'base64').toString()).toBe(body);
+
+    // Simulate a restart that lost the buffered event
+    await mgr.stopAll();
+    await mgr.startAll();
+    expect(mgr.getEvents('archive-client', 'archived-hook')).toEqual([]);
+
+    const replay = await admin('POST', '/webhooks/replay', { id: 'delivery-77' });
+    expect(replay.status).toBe(200);
+    expect(await replay.json()).toMatchObject({
+      replayed: 1,
+      results: [{ results: [{ connection: 'archived-hook', accepted: true }] }],
+    });
+    expect(mgr.getEvents('archive-client', 'archived-hook')[0]).toMatchObject({
+      eventType: 'pull_request',
+      idempotencyKey: 'github:delivery-77',
+    });
+  });
+
+  it('should not archive requests that fail signature verification', async () => {
+    const since = Date.now();
+    const resp = await fetch(`${archiveUrl}/webhooks/archived`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-GitHub-Event': 'push',
+        'X-GitHub-Delivery': 'forged-1',
+        'X-Hub-Signature-256': `sha256=${'0'.repeat(64)}`,
+      },
+      body: JSON.stringify({ ref: 'refs/heads/main' }),
+    });
+    expect(resp.status).toBe(403);
+
+    const listed = (await (await admin('GET', '/webhooks?id=forged-1')).json()) as unknown[];
+    expect(listed).toEqual([]);
+
+    const replay = await admin('POST', '/webhooks/replay', { since, skipVerification: true });
+    expect(await replay.json()).toMatchObject({ replayed: 0 });
+    expect(
+      mgr.getEvents('archive-client', 'archived-hook').some((e) => e.eventType === 'push'),
+    ).toBe(false);
+  });
+
+  it('should refuse to replay without an ID or start time', async () => {
+    const resp = await admin('POST', '/webhooks/replay', { path: 'archived' });
+    expect(resp.status).toBe(400);
+    expect(((await resp.json()) as { error: string }).error).toContain('id or since');
+  });
+});
+
+describe('Streaming responses', () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let streamServer: Server;
+  let streamUrl: string;
+
+  beforeAll(async () => {
+    targetServer = http.createServer((req, res) => {
+      if (req.url === '/large') {
+        // ~200 KiB written in uneven pieces — spans several stream chunks
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        for (let i = 0; i < 50; i++) res.write('x'.repeat(4096));
+        res.end('done');
+      } else if (req.url === '/json') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ streamed: true, auth: req.headers.authorization ?? null }));
+      } else if (req.url === '/broken') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.write('partial');
+        setTimeout(() => res.destroy(), 20);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+
+    await new Promise<void>((resolve) => {
+      targetServer.listen(0, '127.0.0.1', () => {
+        const addr = targetServer.address() as AddressInfo;
+        targetUrl = `http://127.0.0.1:${addr.port}`;
+        resolve();
+      });
+    });
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'stream-test',
+          headers: { Authorization: 'Bearer ${TOKEN}' },
+          secrets: { TOKEN: 'stream-token' },
+          allowedEndpoints: [`${targetUrl}/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['stream-test'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+
+    await new Promise<void>((resolve) => {
+      streamServer = app.listen(0, '127.0.0.1', () => {
+        const addr = streamServer.address() as AddressInfo;
+        streamUrl = `http://127.0.0.1:${addr.port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((resolve, reject) => {
+        targetServer.close((err) => (err ? reject(err) : resolve()));
+      }),
+      new Promise<void>((resolve, reject) => {
+        streamServer.close((err) => (err ? reject(err) : resolve()));
+      }),
+    ]);
+  });
+
+  async function streamHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${streamUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${streamUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  /** Send a streamed http_request and return the raw HTTP response + request id */
+  async function sendStreamRequest(
+    channel: EncryptedChannel,
+    url: string,
+  ): Promise<{ resp: Response; id: string }> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput: { method: 'GET', url, stream: true },
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${streamUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return { resp, id: request.id };
+  }
+
+  it('should relay a large body as multiple encrypted chunks', async () => {
+    const channel = await streamHandshake();
+    const { resp, id } = await sendStreamRequest(channel, `${targetUrl}/large`);
+
+    expect(resp.ok).toBe(true);
+    expect(resp.headers.get('content-type')).toContain(STREAM_CONTENT_TYPE);
+
+    const { start, end, body } = await readProxyStream(streamBody(resp), channel, id);
+    expect(start.status).toBe(200);
+    expect(start.headers['content-type']).toBe('text/plain');
+    expect(end.error).toBeUndefined();
+    expect(end.totalBytes).toBe(50 * 4096 + 4);
+    expect(end.chunks).toBeGreaterThan(1);
+    expect(body.toString().endsWith('done')).toBe(true);
+  });
+
+  it('should inject route headers into streamed requests', async () => {
+    const channel = await streamHandshake();
+    const { resp, id } = await sendStreamRequest(channel, `${targetUrl}/json`);
+
+    const { body } = await readProxyStream(streamBody(resp), channel, id);
+    expect(JSON.parse(body.toString())).toEqual({ streamed: true, auth: 'Bearer stream-token' });
+  });
+
+  it('should report upstream failures in the end frame', async () => {
+    const channel = await streamHandshake();
+    const { resp, id } = await sendStreamRequest(channel, `${targetUrl}/broken`);
+
+    const { end, body } = await readProxyStream(streamBody(resp), channel, id);
+    expect(body.toString()).toBe('partial');
+    expect(end.error).toBeDefined();
+  });
+
+  it('should keep the channel usable after a stream', async () => {
+    const channel = await streamHandshake();
+    const { resp, id } = await sendStreamRequest(channel, `${targetUrl}/json`);
+    await readProxyStream(streamBody(resp), channel, id);
+
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'list_routes',
+      toolInput: {},
+      timestamp: Date.now(),
+    };
+    const followUp = await fetch(`${streamUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    const response = channel.decryptJSON<ProxyResponse>(Buffer.from(await followUp.arrayBuffer()));
+    expect(response.success).toBe(true);
+  });
+
+  it('should return non-stream errors as a regular encrypted response', async () => {
+    const channel = await streamHandshake();
+    const { resp } = await sendStreamRequest(channel, 'http://not-allowed.example.com/');
+
+    expect(resp.headers.get('content-type')).toContain('application/octet-stream');
+    const response = channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Endpoint not allowed');
+  });
+});
+
+describe('OAuth-managed routes', () => {
+  let tokenServer: Server;
+  let targetServer: Server;
+  let targetUrl: string;
+  let oauthServer: Server;
+  let oauthUrl: string;
+  let issued = 0;
+  /** The only access token the target API currently accepts */
+  let acceptedToken = '';
+
+  beforeAll(async () => {
+    tokenServer = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        issued++;
+        acceptedToken = `access-${issued}`;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: acceptedToken, expires_in: 3600 }));
+      });
+    });
+    targetServer = http.createServer((req, res) => {
+      const ok = req.headers.authorization === `Bearer ${acceptedToken}`;
+      res.writeHead(ok ? 200 : 401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ auth: req.headers.authorization ?? null }));
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    const tokenUrl = await listen(tokenServer);
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'oauth-api',
+          headers: { Authorization: 'Bearer ${API_TOKEN}' },
+          secrets: { API_TOKEN: 'expired-static-token' },
+          allowedEndpoints: [`${targetUrl}/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
+          oauth: {
+            tokenUrl: `${tokenUrl}/token`,
+            grantType: 'client_credentials',
+            clientId: 'id',
+            clientSecret: 'secret',
+            accessTokenSecret: 'API_TOKEN',
+          },
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['oauth-api'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+      oauthTokenManager: new OAuthTokenManager({ storePath: null }),
+    });
+    oauthServer = http.createServer(app);
+    oauthUrl = await listen(oauthServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [tokenServer, targetServer, oauthServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function oauthHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${oauthUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${oauthUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  async function oauthRequest(channel: EncryptedChannel): Promise<ProxyResponse> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput: { method: 'GET', url: `${targetUrl}/me` },
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${oauthUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  it('should inject a freshly obtained access token instead of the static secret', async () => {
+    const channel = await oauthHandshake();
+    const response = await oauthRequest(channel);
+
+    expect(response.success).toBe(true);
+    const result = response.result as { status: number; body: { auth: string } };
+    expect(result.status).toBe(200);
+    expect(result.body.auth).toBe('Bearer access-1');
+  });
+
+  it('should share the token across sessions', async () => {
+    const channel = await oauthHandshake();
+    const response = await oauthRequest(channel);
+
+    const result = response.result as { body: { auth: string } };
+    expect(result.body.auth).toBe('Bearer access-1');
+    expect(issued).toBe(1);
+  });
+
+  it('should refresh and retry once when the upstream rejects the token', async () => {
+    const channel = await oauthHandshake();
+    // Simulate early revocation on the provider side
+    acceptedToken = 'revoked-elsewhere';
+
+    const response = await oauthRequest(channel);
+
+    const result = response.result as { status: number; body: { auth: string } };
+    expect(issued).toBe(2);
+    expect(result.status).toBe(200);
+    expect(result.body.auth).toBe('Bearer access-2');
+  });
+});
+
+describe('Config hot reload', () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let reloadServer: Server;
+  let reloadUrl: string;
+  let reload: ReloadFn;
+
+  function makeConfig(token: string, connections: string[]): RemoteServerConfig {
+    return {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'echo-a',
+          headers: { Authorization: 'Bearer ${TOKEN}' },
+          secrets: { TOKEN: token },
+          allowedEndpoints: [`${targetUrl}/a/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
+        },
+        {
+          alias: 'echo-b',
+          secrets: {},
+          allowedEndpoints: [`${targetUrl}/b/**`],
+          redactResponseSecrets: false, // the target echoes injected secrets back
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections },
+      },
+      rateLimitPerMinute: 60,
+    };
+  }
+
+  beforeAll(async () => {
+    targetServer = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ auth: req.headers.authorization ?? null }));
+    });
+    await new Promise<void>((resolve) => {
+      targetServer.listen(0, '127.0.0.1', () => {
+        targetUrl = `http://127.0.0.1:${(targetServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+
+    const app = createApp({
+      config: makeConfig('token-v1', ['echo-a']),
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    reload = app.locals.reload as ReloadFn;
+
+    await new Promise<void>((resolve) => {
+      reloadServer = app.listen(0, '127.0.0.1', () => {
+        reloadUrl = `http://127.0.0.1:${(reloadServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [targetServer, reloadServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function reloadHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${reloadUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${reloadUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  async function reloadRequest(
+    channel: EncryptedChannel,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+  ): Promise<Response> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName,
+      toolInput,
+      timestamp: Date.now(),
+    };
+    return fetch(`${reloadUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+  }
+
+  async function authSeenAt(channel: EncryptedChannel, url: string): Promise<ProxyResponse> {
+    const resp = await reloadRequest(channel, 'http_request', { method: 'GET', url });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  it('should apply added connections and rotated secrets to a live session', async () => {
+    const channel = await reloadHandshake();
+
+    const before = await authSeenAt(channel, `${targetUrl}/a/x`);
+    expect((before.result as { body: { auth: string } }).body.auth).toBe('Bearer token-v1');
+    const notYet = await authSeenAt(channel, `${targetUrl}/b/x`);
+    expect(notYet.success).toBe(false);
+
+    const result = await reload({
+      config: makeConfig('token-v2', ['echo-a', 'echo-b']),
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    expect(result.sessionsUpdated).toBeGreaterThanOrEqual(1);
+    expect(result.sessionsRevoked).toBe(0);
+
+    // Same channel, no re-handshake
+    const after = await authSeenAt(channel, `${targetUrl}/a/x`);
+    expect((after.result as { body: { auth: string } }).body.auth).toBe('Bearer token-v2');
+    const added = await authSeenAt(channel, `${targetUrl}/b/x`);
+    expect(added.success).toBe(true);
+  });
+
+  it('should close sessions of callers whose key changed', async () => {
+    const channel = await reloadHandshake();
+    const otherKeys = extractPublicKeys(generateKeyBundle());
+
+    const result = await reload({
+      config: makeConfig('token-v2', ['echo-a']),
+      authorizedPeers: [{ alias: 'test-client', keys: otherKeys }],
+    });
+    expect(result.sessionsRevoked).toBeGreaterThanOrEqual(1);
+
+    const resp = await reloadRequest(channel, 'list_routes', {});
+    expect(resp.status).toBe(401);
+
+    // The old key can no longer handshake either
+    const initResp = await fetch(`${reloadUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(new HandshakeInitiator(clientKeys, serverPub).createInit()),
+    });
+    expect(initResp.status).toBe(403);
+  });
+});
+
+describe('Caller key rotation and revocation', () => {
+  let keysDir: string;
+  let revokedKeysPath: string;
+  let rotationServer: Server;
+  let rotationUrl: string;
+  let reload: ReloadFn;
+
+  const oldKeys = generateKeyBundle();
+  const newKeys = generateKeyBundle();
+  const futureKeys = generateKeyBundle();
+
+  const config: RemoteServerConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    localKeysDir: '',
+    connectors: [],
+    callers: { laptop: { peerKeyDir: '', connections: [] } },
+    rateLimitPerMinute: 60,
+  };
+
+  function peers(): AuthorizedPeer[] {
+    const now = Date.now();
+    return [
+      { alias: 'laptop', keys: extractPublicKeys(oldKeys), keyId: 'old', notAfter: now - 1000 },
+      { alias: 'laptop', keys: extractPublicKeys(newKeys), keyId: 'new', notBefore: now - 1000 },
+      {
+        alias: 'laptop',
+        keys: extractPublicKeys(futureKeys),
+        keyId: 'future',
+        notBefore: now + 3_600_000,
+      },
+    ];
+  }
+
+  beforeAll(async () => {
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-revoked-e2e-'));
+    revokedKeysPath = path.join(keysDir, 'revoked.json');
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: peers(),
+      revokedKeysPath,
+    });
+    reload = app.locals.reload as ReloadFn;
+
+    await new Promise<void>((resolve) => {
+      rotationServer = app.listen(0, '127.0.0.1', () => {
+        rotationUrl = `http://127.0.0.1:${(rotationServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      rotationServer.close((err) => (err ? reject(err) : resolve()));
+    });
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  async function handshakeWith(keys: KeyBundle): Promise<{ status: number; sessionId?: string }> {
+    const initiator = new HandshakeInitiator(keys, serverPub);
+    const initResp = await fetch(`${rotationUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    if (!initResp.ok) return { status: initResp.status, ...((await initResp.json()) as object) };
+
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    const finishResp = await fetch(`${rotationUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return { status: finishResp.status, sessionId: sessionKeys.sessionId };
+  }
+
+  it('should only accept keys inside their validity window', async () => {
+    expect((await handshakeWith(newKeys)).status).toBe(200);
+    expect(await handshakeWith(oldKeys)).toEqual({
+      status: 403,
+      error: 'Handshake failed: initiator key expired',
+    });
+    expect(await handshakeWith(futureKeys)).toEqual({
+      status: 403,
+      error: 'Handshake failed: initiator key pending',
+    });
+  });
+
+  it('should refuse revoked keys and close their sessions on reload', async () => {
+    const { sessionId } = await handshakeWith(newKeys);
+    revokeKey(revokedKeysPath, fingerprint(extractPublicKeys(newKeys)), 'test');
+
+    expect(await handshakeWith(newKeys)).toEqual({
+      status: 403,
+      error: 'Handshake failed: initiator key revoked',
+    });
+
+    const result = await reload({ config, authorizedPeers: peers() });
+    expect(result.sessionsRevoked).toBeGreaterThanOrEqual(1);
+    const resp = await fetch(`${rotationUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': sessionId ?? '' },
+      body: new Uint8Array(1),
+    });
+    expect(resp.status).toBe(401);
+  });
+});
+
+describe('Session rekeying and resumption', () => {
+  let keysDir: string;
+  let revokedKeysPath: string;
+  let sessionServer: Server;
+  let sessionUrl: string;
+
+  const config: RemoteServerConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    localKeysDir: '',
+    connectors: [],
+    callers: { 'test-client': { peerKeyDir: '', connections: [] } },
+    rateLimitPerMinute: 60,
+  };
+
+  beforeAll(async () => {
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-resume-e2e-'));
+    revokedKeysPath = path.join(keysDir, 'revoked.json');
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+      revokedKeysPath,
+    });
+
+    await new Promise<void>((resolve) => {
+      sessionServer = app.listen(0, '127.0.0.1', () => {
+        sessionUrl = `http://127.0.0.1:${(sessionServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      sessionServer.close((err) => (err ? reject(err) : resolve()));
+    });
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  /** Send the finish message and turn the response into a proxy-side ticket. */
+  async function finish(
+    sessionKeys: ReturnType<HandshakeInitiator['processReply']>,
+    finishMsg: ReturnType<HandshakeInitiator['createFinish']>,
+  ): Promise<{ channel: EncryptedChannel; ticket: SessionTicket }> {
+    const finishResp = await fetch(`${sessionUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(finishMsg),
+    });
+    expect(finishResp.status).toBe(200);
+    const body = (await finishResp.json()) as { ticket: string; ticketExpiresAt: number };
+    return {
+      channel: new EncryptedChannel(sessionKeys),
+      ticket: {
+        ticket: body.ticket,
+        resumptionSecret: sessionKeys.resumptionSecret,
+        expiresAt: body.ticketExpiresAt,
+      },
+    };
+  }
+
+  async function sessionHandshake(): Promise<{ channel: EncryptedChannel; ticket: SessionTicket }> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${sessionUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    return finish(sessionKeys, initiator.createFinish(sessionKeys));
+  }
+
+  async function resume(
+    ticket: SessionTicket,
+  ): Promise<{ status: number; error?: string; channel?: EncryptedChannel }> {
+    const initiator = new ResumptionInitiator(ticket);
+    const resp = await fetch(`${sessionUrl}/handshake/resume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    if (!resp.ok) return { status: resp.status, ...((await resp.json()) as object) };
+
+    const sessionKeys = initiator.processReply((await resp.json()) as ResumeReply);
+    const { channel } = await finish(sessionKeys, initiator.createFinish(sessionKeys));
+    return { status: 200, channel };
+  }
+
+  async function rekey(channel: EncryptedChannel): Promise<EncryptedChannel> {
+    const initiator = new RekeyInitiator(channel.getKeys());
+    const resp = await fetch(`${sessionUrl}/rekey`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(initiator.createRequest())),
+    });
+    expect(resp.status).toBe(200);
+    const response = channel.decryptJSON<RekeyResponse>(Buffer.from(await resp.arrayBuffer()));
+    return new EncryptedChannel(initiator.processResponse(response));
+  }
+
+  async function listRoutes(channel: EncryptedChannel): Promise<ProxyResponse> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'list_routes',
+      toolInput: {},
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${sessionUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    expect(resp.status).toBe(200);
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  it('should switch a session to new keys, still reading requests sent under the old ones', async () => {
+    const { channel } = await sessionHandshake();
+    expect((await listRoutes(channel)).success).toBe(true);
+
+    // An open event stream ends so it can be reopened under the new keys
+    const subscription: EventSubscribe = {
+      type: 'event_subscribe',
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+    };
+    const eventsResp = await fetch(`${sessionUrl}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(subscription)),
+    });
+    const streamEnd = readEventStream(
+      streamBody(eventsResp),
+      channel,
+      subscription.id,
+      () => undefined,
+    );
+
+    const rekeyed = await rekey(channel);
+    expect(rekeyed.sessionId).toBe(channel.sessionId);
+
+    // The switch happens on the first message under the new keys
+    expect((await listRoutes(rekeyed)).success).toBe(true);
+    expect((await streamEnd)?.reason).toBe('rekeyed');
+    // A request encrypted just before the switch is answered under the old keys
+    expect((await listRoutes(channel)).success).toBe(true);
+  });
+
+  it('should keep the current keys when the client never received the rekey response', async () => {
+    const { channel } = await sessionHandshake();
+
+    // The response is lost — the client carries on, and later asks again
+    await rekey(channel);
+    expect((await listRoutes(channel)).success).toBe(true);
+    const rekeyed = await rekey(channel);
+
+    expect((await listRoutes(rekeyed)).success).toBe(true);
+  });
+
+  it('should answer a request no session key can decrypt with 401', async () => {
+    const { channel } = await sessionHandshake();
+    const stranger = (await sessionHandshake()).channel;
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'list_routes',
+      toolInput: {},
+      timestamp: Date.now(),
+    };
+
+    const resp = await fetch(`${sessionUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(stranger.encryptJSON(request)),
+    });
+    expect(resp.status).toBe(401);
+    expect((await listRoutes(channel)).success).toBe(true);
+  });
+
+  it('should resume a session from its ticket without a full handshake', async () => {
+    const { ticket } = await sessionHandshake();
+
+    const resumed = await resume(ticket);
+    expect(resumed.status).toBe(200);
+    expect(resumed.channel).toBeDefined();
+    if (resumed.channel) expect((await listRoutes(resumed.channel)).success).toBe(true);
+
+    expect(await resume({ ...ticket, resumptionSecret: Buffer.alloc(32) })).toEqual({
+      status: 403,
+      error: 'Resumption failed: initiator binder invalid',
+    });
+  });
+
+  it('should accept each ticket only once', async () => {
+    const { ticket } = await sessionHandshake();
+
+    expect((await resume(ticket)).status).toBe(200);
+    expect(await resume(ticket)).toEqual({
+      status: 403,
+      error: 'Resumption failed: ticket already used',
+    });
+  });
+
+  it('should refuse tickets for revoked keys', async () => {
+    const { ticket } = await sessionHandshake();
+    revokeKey(revokedKeysPath, fingerprint(clientPub), 'test');
+
+    expect(await resume(ticket)).toEqual({
+      status: 403,
+      error: 'Resumption failed: initiator key revoked',
+    });
+  });
+});
+
+describe('Ping', () => {
+  async function ping(sessionId: string, body: Uint8Array): Promise<Response> {
+    return fetch(`${baseUrl}/ping`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': sessionId },
+      body,
+    });
+  }
+
+  it('should answer an encrypted ping with a pong echoing its timestamp', async () => {
+    const { channel } = await performHttpHandshake();
+    const message: PingMessage = { type: 'ping', timestamp: 1234 };
+
+    const resp = await ping(channel.sessionId, new Uint8Array(channel.encryptJSON(message)));
+    expect(resp.status).toBe(200);
+    const pong = channel.decryptJSON<PongMessage>(Buffer.from(await resp.arrayBuffer()));
+    expect(pong).toMatchObject({ type: 'pong', echoTimestamp: 1234 });
+  });
+
+  it('should reject pings without a session or with another message type', async () => {
+    expect((await ping('unknown', new Uint8Array(8))).status).toBe(401);
+
+    const { channel } = await performHttpHandshake();
+    const notPing = channel.encryptJSON({ type: 'pong', timestamp: 1, echoTimestamp: 1 });
+    expect((await ping(channel.sessionId, new Uint8Array(notPing))).status).toBe(400);
+  });
+});
+
+describe('Policy rules', () => {
+  let targetServer: Server;
+  let targetUrl: string;
+  let policyServer: Server;
+  let policyUrl: string;
+  /** Requests that actually reached the upstream API */
+  const received: string[] = [];
+
+  beforeAll(async () => {
+    targetServer = http.createServer((req, res) => {
+      received.push(`${req.method} ${req.url}`);
+      req.resume();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'repos-api',
+          allowedEndpoints: [`${targetUrl}/**`],
+          policy: [
+            {
+              effect: 'deny',
+              methods: ['DELETE'],
+              endpoints: [`${targetUrl}/repos/**`],
+              description: 'repositories cannot be deleted',
+            },
+          ],
+        },
+      ],
+      callers: {
+        'test-client': {
+          peerKeyDir: '',
+          connections: ['repos-api'],
+          policy: [{ effect: 'allow', methods: ['GET', 'DELETE'] }],
+        },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    policyServer = http.createServer(app);
+    policyUrl = await listen(policyServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [targetServer, policyServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function policyHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${policyUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${policyUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  async function policyRequest(
+    channel: EncryptedChannel,
+    method: string,
+    urlPath: string,
+  ): Promise<ProxyResponse> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput: { method, url: `${targetUrl}${urlPath}` },
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${policyUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  it('should allow requests permitted by both the route and caller policy', async () => {
+    const channel = await policyHandshake();
+
+    const get = await policyRequest(channel, 'GET', '/repos/acme/widgets');
+    const del = await policyRequest(channel, 'DELETE', '/gists/123');
+
+    expect(get.success).toBe(true);
+    expect(del.success).toBe(true);
+    expect(received).toEqual(['GET /repos/acme/widgets', 'DELETE /gists/123']);
+  });
+
+  it('should disclose policy rules in list_routes', async () => {
+    const channel = await policyHandshake();
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'list_routes',
+      toolInput: {},
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${policyUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    const response = channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+
+    const [route] = response.result as { policy: unknown[]; callerPolicy: unknown[] }[];
+    expect(route.policy).toHaveLength(1);
+    expect(route.callerPolicy).toEqual([{ effect: 'allow', methods: ['GET', 'DELETE'] }]);
+  });
+
+  it('should reject a route deny rule before contacting the upstream and audit it', async () => {
+    const channel = await policyHandshake();
+    const logSpy = vi.spyOn(console, 'log');
+    received.length = 0;
+
+    const response = await policyRequest(channel, 'DELETE', '/repos/acme/widgets');
+
+    const audit = logSpy.mock.calls
+      .map((args) => String(args[0]))
+      .find((line) => line.includes('"action":"policy_denied"'));
+    logSpy.mockRestore();
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('not permitted by the route policy');
+    expect(response.error).toContain('repositories cannot be deleted');
+    expect(received).toEqual([]);
+    expect(audit).toContain('"caller":"test-client"');
+    expect(audit).toContain('"method":"DELETE"');
+    expect(audit).toContain('"scope":"route"');
+  });
+
+  it.each(['/gists/../repos/acme/widgets', '/gists/%2e%2e/repos/acme/widgets'])(
+    'should match rules against the normalized URL (%s)',
+    async (urlPath) => {
+      const channel = await policyHandshake();
+      received.length = 0;
+
+      const response = await policyRequest(channel, 'DELETE', urlPath);
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('not permitted by the route policy');
+      expect(received).toEqual([]);
+    },
+  );
+
+  it('should reject methods outside the caller allow rules', async () => {
+    const channel = await policyHandshake();
+    received.length = 0;
+
+    const response = await policyRequest(channel, 'POST', '/gists');
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('not permitted by the caller policy');
+    expect(received).toEqual([]);
+  });
+});
+
+describe('Approval queue', () => {
+  const ADMIN_TOKEN = 'test-admin-token';
+  let targetServer: Server;
+  let targetUrl: string;
+  let approvalServer: Server;
+  let approvalUrl: string;
+  /** Requests that actually reached the upstream API */
+  const received: string[] = [];
+
+  beforeAll(async () => {
+    targetServer = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+      req.on('end', () => {
+        received.push(`${req.method} ${req.url} ${raw}`);
+        res.writeHead(201, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ refunded: true }));
+      });
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'payments',
+          name: 'Payments API',
+          allowedEndpoints: [`${targetUrl}/**`],
+          policy: [
+            {
+              effect: 'allow',
+              methods: ['POST'],
+              endpoints: [`${targetUrl}/refunds`],
+              requireApproval: true,
+            },
+          ],
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['payments'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+      adminToken: ADMIN_TOKEN,
+    });
+    approvalServer = http.createServer(app);
+    approvalUrl = await listen(approvalServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [targetServer, approvalServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function approvalHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${approvalUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${approvalUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  async function approvalRequest(
+    channel: EncryptedChannel,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+  ): Promise<ProxyResponse> {
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName,
+      toolInput,
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${approvalUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  function admin(method: string, urlPath: string, body?: unknown): Promise<Response> {
+    return fetch(`${approvalUrl}/admin${urlPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${ADMIN_TOKEN}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+  }
+
+  async function requestRefund(channel: EncryptedChannel): Promise<string> {
+    const response = await approvalRequest(channel, 'http_request', {
+      method: 'POST',
+      url: `${targetUrl}/refunds`,
+      body: { charge: 'ch_123' },
+    });
+    expect(response.success).toBe(true);
+    const pending = response.result as { status: string; approvalId: string };
+    expect(pending.status).toBe('pending_approval');
+    return pending.approvalId;
+  }
+
+  it('should send requests that need no approval straight through', async () => {
+    const channel = await approvalHandshake();
+    received.length = 0;
+
+    const response = await approvalRequest(channel, 'http_request', {
+      method: 'GET',
+      url: `${targetUrl}/refunds`,
+    });
+
+    expect((response.result as { status: number }).status).toBe(201);
+    expect(received).toHaveLength(1);
+  });
+
+  it('should park a request until an operator approves it', async () => {
+    const channel = await approvalHandshake();
+    received.length = 0;
+
+    const approvalId = await requestRefund(channel);
+    expect(received).toEqual([]);
+
+    const listed = (await (await admin('GET', '/approvals?status=pending')).json()) as {
+      id: string;
+      request: { route: string; bodyPreview: string };
+    }[];
+    const ticket = listed.find((t) => t.id === approvalId);
+    expect(ticket?.request.route).toBe('Payments API');
+    expect(ticket?.request.bodyPreview).toBe('{"charge":"ch_123"}');
+
+    const approveResp = await admin('POST', `/approvals/${approvalId}/approve`, {
+      decidedBy: 'ops',
+    });
+    expect(approveResp.status).toBe(200);
+    expect(received).toEqual(['POST /refunds {"charge":"ch_123"}']);
+
+    const status = await approvalRequest(channel, 'approval_status', { approval_id: approvalId });
+    const collected = status.result as {
+      status: string;
+      decidedBy: string;
+      result: { status: number; body: unknown };
+    };
+    expect(collected.status).toBe('completed');
+    expect(collected.decidedBy).toBe('ops');
+    expect(collected.result.status).toBe(201);
+    expect(collected.result.body).toEqual({ refunded: true });
+  });
+
+  it('should report a denial to the agent without contacting the upstream', async () => {
+    const channel = await approvalHandshake();
+    received.length = 0;
+
+    const approvalId = await requestRefund(channel);
+    const denyResp = await admin('POST', `/approvals/${approvalId}/deny`, {
+      reason: 'duplicate refund',
+    });
+    expect(denyResp.status).toBe(200);
+
+    // A second decision is rejected
+    expect((await admin('POST', `/approvals/${approvalId}/approve`)).status).toBe(409);
+
+    const status = await approvalRequest(channel, 'approval_status', { approval_id: approvalId });
+    expect(status.result).toMatchObject({ status: 'denied', reason: 'duplicate refund' });
+    expect(received).toEqual([]);
+  });
+
+  it('should list the caller own approval requests', async () => {
+    const channel = await approvalHandshake();
+    await requestRefund(channel);
+
+    const response = await approvalRequest(channel, 'approval_status', { status: 'pending' });
+
+    const tickets = response.result as { status: string; callerAlias: string }[];
+    expect(tickets.length).toBeGreaterThanOrEqual(1);
+    expect(tickets.every((t) => t.status === 'pending' && t.callerAlias === 'test-client')).toBe(
+      true,
+    );
+  });
+
+  it('should reject admin requests without the admin token', async () => {
+    const missing = await fetch(`${approvalUrl}/admin/approvals`);
+    const wrong = await fetch(`${approvalUrl}/admin/approvals`, {
+      headers: { Authorization: 'Bearer not-the-token' },
+    });
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should return 404 for unknown approvals', async () => {
+    const resp = await admin('POST', '/approvals/does-not-exist/approve');
+    expect(resp.status).toBe(404);
+  });
+});
+
+describe('Audit log', () => {
+  const ADMIN_TOKEN = 'test-admin-token';
+  let auditDir: string;
+  let targetServer: Server;
+  let targetUrl: string;
+  let auditServer: Server;
+  let auditUrl: string;
+
+  beforeAll(async () => {
+    auditDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-audit-e2e-'));
+
+    targetServer = http.createServer((req, res) => {
+      res.writeHead(req.url === '/missing' ? 404 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'audited',
+          name: 'Audited API',
+          allowedEndpoints: [`${targetUrl}/**`],
+          policy: [{ effect: 'deny', methods: ['DELETE'] }],
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['audited'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+      adminToken: ADMIN_TOKEN,
+      auditLog: new AuditLog({ dir: auditDir }),
+    });
+    auditServer = http.createServer(app);
+    auditUrl = await listen(auditServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [targetServer, auditServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+    fs.rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  async function auditedRequest(toolInput: Record<string, unknown>): Promise<ProxyResponse> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${auditUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${auditUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    const channel = new EncryptedChannel(sessionKeys);
+
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput,
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${auditUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  async function queryAudit(query: string): Promise<AuditRecord[]> {
+    const resp = await fetch(`${auditUrl}/admin/audit${query}`, {
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    expect(resp.status).toBe(200);
+    return (await resp.json()) as AuditRecord[];
+  }
+
+  it('should persist route, method, host, status and latency for proxied requests', async () => {
+    await auditedRequest({ method: 'GET', url: `${targetUrl}/missing` });
+
+    const [entry] = await queryAudit('?action=response&limit=1');
+    expect(entry).toMatchObject({
+      caller: 'test-client',
+      toolName: 'http_request',
+      route: 'Audited API',
+      method: 'GET',
+      host: new URL(targetUrl).host,
+      status: 404,
+      outcome: 'success',
+    });
+    expect(typeof entry.latencyMs).toBe('number');
+    expect(entry.sessionId).not.toContain('...');
+
+    const lines = fs.readFileSync(path.join(auditDir, 'audit.jsonl'), 'utf-8').trim().split('\n');
+    expect(JSON.parse(lines[lines.length - 1])).toEqual(entry);
+  });
+
+  it('should record policy denials with the denied outcome', async () => {
+    const response = await auditedRequest({ method: 'DELETE', url: `${targetUrl}/items/1` });
+    expect(response.success).toBe(false);
+
+    const denied = await queryAudit('?outcome=denied&route=audited%20api');
+    expect(denied.at(-1)).toMatchObject({
+      action: 'policy_denied',
+      method: 'DELETE',
+      route: 'Audited API',
+      scope: 'route',
+    });
+  });
+
+  it('should record failed requests with the error outcome', async () => {
+    await auditedRequest({ method: 'GET', url: 'https://not-allowed.example.com/' });
+
+    const errors = await queryAudit('?caller=test-client&outcome=error');
+    expect(errors.at(-1)?.error).toContain('not allowed');
+  });
+
+  it('should filter by time range', async () => {
+    const future = new Date(Date.now() + 60_000).toISOString();
+    expect(await queryAudit(`?since=${future}`)).toEqual([]);
+    expect((await queryAudit(`?until=${future}`)).length).toBeGreaterThan(0);
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const resp = await fetch(`${auditUrl}/admin/audit?outcome=maybe`, {
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    expect(resp.status).toBe(400);
+  });
+
+  it('should verify the hash chain and detect tampering', async () => {
+    const verify = async () =>
+      (await (
+        await fetch(`${auditUrl}/admin/audit/verify`, {
+          headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+        })
+      ).json()) as { ok: boolean; entries: number; error?: { reason: string } };
+
+    const before = await verify();
+    expect(before.ok).toBe(true);
+    expect(before.entries).toBeGreaterThan(0);
+
+    const file = path.join(auditDir, 'audit.jsonl');
+    fs.writeFileSync(file, fs.readFileSync(file, 'utf-8').replace('"status":404', '"status":200'));
+
+    const after = await verify();
+    expect(after.ok).toBe(false);
+    expect(after.error?.reason).toBe('hash does not match entry content');
+  });
+});
+
+describe('Response redaction', () => {
+  const TOKEN = 'sk-redact-me-0123456789';
+  let targetServer: Server;
+  let targetUrl: string;
+  let redactServer: Server;
+  let redactUrl: string;
+
+  beforeAll(async () => {
+    // Reflects the Authorization header back in a header, the body, and a long
+    // streamed body that splits the token across two chunks
+    targetServer = http.createServer((req, res) => {
+      const auth = req.headers.authorization ?? '';
+      if (req.url?.startsWith('/stream')) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const line = `data: ${auth}\n\n`;
+        const split = line.indexOf(TOKEN) + 5;
+        res.write('x'.repeat(1000) + line.slice(0, split));
+        setTimeout(() => res.end(line.slice(split)), 10);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Echo-Auth': auth });
+      res.end(JSON.stringify({ youSent: auth }));
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'redacted',
+          headers: { Authorization: 'Bearer ${TOKEN}' },
+          secrets: { TOKEN },
+          allowedEndpoints: [`${targetUrl}/redacted/**`, `${targetUrl}/stream/**`],
+        },
+        {
+          alias: 'verbatim',
+          headers: { Authorization: 'Bearer ${TOKEN}' },
+          secrets: { TOKEN },
+          allowedEndpoints: [`${targetUrl}/verbatim/**`],
+          redactResponseSecrets: false,
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['redacted', 'verbatim'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    redactServer = http.createServer(app);
+    redactUrl = await listen(redactServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [targetServer, redactServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function redactRequest(
+    toolInput: Record<string, unknown>,
+  ): Promise<{ channel: EncryptedChannel; resp: Response; id: string }> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${redactUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${redactUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    const channel = new EncryptedChannel(sessionKeys);
+
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput,
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${redactUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return { channel, resp, id: request.id };
+  }
+
+  function auditLines(logSpy: { mock: { calls: unknown[][] } }): string[] {
+    return logSpy.mock.calls
+      .map((args) => String(args[0]))
+      .filter((line) => line.includes('"action":"response"'));
+  }
+
+  it('should replace echoed secrets in headers and body and audit the count', async () => {
+    const logSpy = vi.spyOn(console, 'log');
+    const { channel, resp } = await redactRequest({
+      method: 'GET',
+      url: `${targetUrl}/redacted/echo`,
+    });
+    const response = channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+    const audit = auditLines(logSpy);
+    logSpy.mockRestore();
+
+    const result = response.result as {
+      headers: Record<string, string>;
+      body: unknown;
+      redactions: number;
+    };
+    expect(result.headers['x-echo-auth']).toBe('Bearer ${TOKEN}');
+    expect(result.body).toEqual({ youSent: 'Bearer ${TOKEN}' });
+    expect(result.redactions).toBe(2);
+    expect(JSON.stringify(response)).not.toContain(TOKEN);
+    expect(audit.at(-1)).toContain('"redactions":2');
+  });
+
+  it('should redact streamed bodies across chunk boundaries', async () => {
+    const logSpy = vi.spyOn(console, 'log');
+    const { channel, resp, id } = await redactRequest({
+      method: 'GET',
+      url: `${targetUrl}/stream/events`,
+      stream: true,
+    });
+    const { body } = await readProxyStream(streamBody(resp), channel, id);
+    const audit = auditLines(logSpy);
+    logSpy.mockRestore();
+
+    expect(body.toString()).toBe('x'.repeat(1000) + 'data: Bearer ${TOKEN}\n\n');
+    expect(audit.at(-1)).toContain('"redactions":1');
+  });
+
+  it('should pass secrets through on routes that opt out', async () => {
+    const { channel, resp } = await redactRequest({
+      method: 'GET',
+      url: `${targetUrl}/verbatim/echo`,
+    });
+    const response = channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+
+    const result = response.result as { body: unknown; redactions?: number };
+    expect(result.body).toEqual({ youSent: `Bearer ${TOKEN}` });
+    expect(result.redactions).toBeUndefined();
+  });
+});
+
+describe('Secret providers', () => {
+  let vaultServer: Server;
+  let vaultReads = 0;
+  let targetServer: Server;
+  let targetUrl: string;
+  let providerServer: Server;
+  let providerUrl: string;
+
+  beforeAll(async () => {
+    // Vault-style KV v2 stand-in
+    vaultServer = http.createServer((req, res) => {
+      vaultReads++;
+      const found = req.url === '/v1/secret/data/api' && req.headers['x-vault-token'] === 'root';
+      res.writeHead(found ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(
+          found ? { data: { data: { token: 'vault-token-123' }, metadata: { version: 1 } } } : {},
+        ),
+      );
+    });
+    targetServer = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({ authorized: req.headers.authorization === 'Bearer vault-token-123' }),
+      );
+    });
+
+    const listen = (srv: Server) =>
+      new Promise<string>((resolve) => {
+        srv.listen(0, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+        });
+      });
+    const vaultUrl = await listen(vaultServer);
+    targetUrl = await listen(targetServer);
+
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      secretProviders: {
+        vault: { type: 'http', url: vaultUrl, token: 'root', ttlSeconds: 60 },
+      },
+      connectors: [
+        {
+          alias: 'vaulted',
+          headers: { Authorization: 'Bearer ${API_TOKEN}' },
+          secrets: { API_TOKEN: '${vault:secret/data/api#token}' },
+          allowedEndpoints: [`${targetUrl}/vaulted/**`],
+        },
+        {
+          alias: 'missing',
+          headers: { Authorization: 'Bearer ${API_TOKEN}' },
+          secrets: { API_TOKEN: '${vault:secret/data/missing#token}' },
+          allowedEndpoints: [`${targetUrl}/missing/**`],
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['vaulted', 'missing'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    providerServer = http.createServer(app);
+    providerUrl = await listen(providerServer);
+  });
+
+  afterAll(async () => {
+    await Promise.all(
+      [vaultServer, targetServer, providerServer].map(
+        (srv) =>
+          new Promise<void>((resolve, reject) => {
+            srv.close((err) => (err ? reject(err) : resolve()));
+          }),
+      ),
+    );
+  });
+
+  async function providerRequest(url: string): Promise<ProxyResponse> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${providerUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${providerUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    const channel = new EncryptedChannel(sessionKeys);
+
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName: 'http_request',
+      toolInput: { method: 'GET', url },
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${providerUrl}/request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Session-Id': channel.sessionId,
+      },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  it('should inject a provider-backed secret and reuse the cached value', async () => {
+    const first = await providerRequest(`${targetUrl}/vaulted/me`);
+    const second = await providerRequest(`${targetUrl}/vaulted/me`);
+
+    expect(first.success).toBe(true);
+    expect((first.result as { body: { authorized: boolean } }).body.authorized).toBe(true);
+    expect((second.result as { body: { authorized: boolean } }).body.authorized).toBe(true);
+    expect(vaultReads).toBe(1);
+  });
+
+  it('should fail the request when a reference cannot be resolved', async () => {
+    const response = await providerRequest(`${targetUrl}/missing/me`);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Failed to resolve secret API_TOKEN');
+  });
+});
+
+describe('Event push stream', () => {
+  let eventServer: Server;
+  let eventUrl: string;
+  let reload: ReloadFn;
+  let ingestors: import('./ingestors/index.js').IngestorManager;
+
+  const config: RemoteServerConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    localKeysDir: '',
+    connectors: [
+      {
+        alias: 'hooks',
+        secrets: { HOOK_SECRET: 'push-secret' },
+        allowedEndpoints: [],
+        ingestor: {
+          type: 'webhook',
+          webhook: {
+            path: 'hooks',
+            signatureHeader: 'X-Hub-Signature-256',
+            signatureSecret: 'HOOK_SECRET',
+          },
+        },
+      },
+    ],
+    callers: {
+      'test-client': { peerKeyDir: '', connections: ['hooks'] },
+    },
+    rateLimitPerMinute: 60,
+  };
+
+  beforeAll(async () => {
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+    });
+    reload = app.locals.reload as ReloadFn;
+    ingestors = app.locals.ingestorManager as typeof ingestors;
+    await ingestors.startAll();
+
+    await new Promise<void>((resolve) => {
+      eventServer = app.listen(0, '127.0.0.1', () => {
+        eventUrl = `http://127.0.0.1:${(eventServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await ingestors.stopAll();
+    await new Promise<void>((resolve, reject) => {
+      eventServer.close((err) => (err ? reject(err) : resolve()));
+    });
+  });
+
+  async function eventHandshake(): Promise<EncryptedChannel> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${eventUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${eventUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    return new EncryptedChannel(sessionKeys);
+  }
+
+  async function sendHook(payload: unknown): Promise<void> {
+    const body = JSON.stringify(payload);
+    const sig = crypto.createHmac('sha256', 'push-secret').update(body).digest('hex');
+    const resp = await fetch(`${eventUrl}/webhooks/hooks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${sig}` },
+      body,
+    });
+    expect(resp.status).toBe(200);
+  }
+
+  /** Open a subscription; messages collect in `messages` until `done` settles. */
+  async function subscribe(
+    channel: EncryptedChannel,
+    afterId?: number,
+  ): Promise<{
+    messages: EventStreamMessage[];
+    done: Promise<EventStreamEnd | undefined>;
+    abort: AbortController;
+  }> {
+    const subscription: EventSubscribe = {
+      type: 'event_subscribe',
+      id: crypto.randomUUID(),
+      ...(afterId !== undefined && { afterId }),
+      timestamp: Date.now(),
+    };
+    const abort = new AbortController();
+    const resp = await fetch(`${eventUrl}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(subscription)),
+      signal: abort.signal,
+    });
+    expect(resp.status).toBe(200);
+    expect(resp.headers.get('content-type')).toBe(STREAM_CONTENT_TYPE);
+
+    const messages: EventStreamMessage[] = [];
+    const done = readEventStream(streamBody(resp), channel, subscription.id, (m) =>
+      messages.push(m),
+    );
+    return { messages, done, abort };
+  }
+
+  const pushed = (messages: EventStreamMessage[]) =>
+    messages.flatMap((m) => (m.type === 'event_push' ? [m.event] : []));
+  const payloads = (messages: EventStreamMessage[]) =>
+    pushed(messages).map((e) => (e.data as { payload: unknown }).payload);
+
+  it('should push webhook events to an open subscription as they arrive', async () => {
+    const channel = await eventHandshake();
+    const { messages, done, abort } = await subscribe(channel);
+
+    await sendHook({ n: 1 });
+    await sendHook({ n: 2 });
+    await vi.waitFor(() => {
+      expect(payloads(messages)).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+    expect(pushed(messages)[0].source).toBe('hooks');
+
+    abort.abort();
+    await expect(done).rejects.toThrow();
+  });
+
+  it('should replay buffered events after afterId before live ones', async () => {
+    const channel = await eventHandshake();
+    const lastId = Math.max(...ingestors.getAllEvents('test-client').map((e) => e.id));
+    await sendHook({ n: 'missed' });
+
+    const { messages, done, abort } = await subscribe(channel, lastId);
+    await sendHook({ n: 'live' });
+    await vi.waitFor(() => {
+      expect(payloads(messages)).toEqual([{ n: 'missed' }, { n: 'live' }]);
+    });
+    expect(messages.filter((m) => m.type === 'event_push').map((m) => m.seq)).toEqual([0, 1]);
+
+    abort.abort();
+    await expect(done).rejects.toThrow();
+  });
+
+  it('should end the stream as slow_consumer once too much is waiting to be sent', async () => {
+    const channel = await eventHandshake();
+    const lastId = Math.max(...ingestors.getAllEvents('test-client').map((e) => e.id));
+    const filler = 'x'.repeat(900 * 1024);
+    for (let n = 0; n < 10; n++) await sendHook({ n, filler });
+
+    // The replay is written in one go, faster than any socket drains it
+    const { messages, done } = await subscribe(channel, lastId);
+
+    expect((await done)?.reason).toBe('slow_consumer');
+    expect(pushed(messages).length).toBeLessThan(10);
+  });
+
+  it('should reject a subscription without a valid session', async () => {
+    const resp = await fetch(`${eventUrl}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': 'unknown' },
+      body: new Uint8Array(8),
+    });
+
+    expect(resp.status).toBe(401);
+  });
+
+  it('should answer a subscription the session keys cannot decrypt with 401', async () => {
+    const channel = await eventHandshake();
+    const other = await eventHandshake();
+    const subscription: EventSubscribe = {
+      type: 'event_subscribe',
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+    };
+
+    const resp = await fetch(`${eventUrl}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(other.encryptJSON(subscription)),
+    });
+
+    expect(resp.status).toBe(401);
+  });
+
+  it('should end the stream when a reload revokes the session', async () => {
+    const channel = await eventHandshake();
+    const { done } = await subscribe(channel);
+
+    await reload({ config, authorizedPeers: [] });
+
+    expect((await done)?.reason).toBe('session_closed');
+    await reload({ config, authorizedPeers: [{ alias: 'test-client', keys: clientPub }] });
+  });
+});
+
+describe('Event consumers', () => {
+  let consumerServer: Server;
+  let consumerUrl: string;
+  let ingestors: IngestorManager;
+
+  beforeAll(async () => {
+    const config: RemoteServerConfig = {
+      host: '127.0.0.1',
+      port: 0,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'hooks',
+          secrets: { HOOK_SECRET: 'consumer-secret' },
+          allowedEndpoints: [],
+          ingestor: {
+            type: 'webhook',
+            webhook: {
+              path: 'hooks',
+              signatureHeader: 'X-Hub-Signature-256',
+              signatureSecret: 'HOOK_SECRET',
+            },
+          },
+        },
+      ],
+      callers: {
+        'test-client': { peerKeyDir: '', connections: ['hooks'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+    ingestors = new IngestorManager(config);
+    await ingestors.startAll();
+
+    const app = createApp({
+      config,
+      ownKeys: serverKeys,
+      authorizedPeers: [{ alias: 'test-client', keys: clientPub }],
+      ingestorManager: ingestors,
+      consumerCursors: new ConsumerCursors(ingestors, { storePath: null }),
+    });
+    await new Promise<void>((resolve) => {
+      consumerServer = app.listen(0, '127.0.0.1', () => {
+        consumerUrl = `http://127.0.0.1:${(consumerServer.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await ingestors.stopAll();
+    await new Promise<void>((resolve, reject) => {
+      consumerServer.close((err) => (err ? reject(err) : resolve()));
+    });
+  });
+
+  async function consumerRequest(
+    toolName: string,
+    toolInput: Record<string, unknown>,
+  ): Promise<ProxyResponse> {
+    const initiator = new HandshakeInitiator(clientKeys, serverPub);
+    const initResp = await fetch(`${consumerUrl}/handshake/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initiator.createInit()),
+    });
+    const sessionKeys = initiator.processReply((await initResp.json()) as HandshakeReply);
+    await fetch(`${consumerUrl}/handshake/finish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionKeys.sessionId },
+      body: JSON.stringify(initiator.createFinish(sessionKeys)),
+    });
+    const channel = new EncryptedChannel(sessionKeys);
+
+    const request: ProxyRequest = {
+      type: 'proxy_request',
+      id: crypto.randomUUID(),
+      toolName,
+      toolInput,
+      timestamp: Date.now(),
+    };
+    const resp = await fetch(`${consumerUrl}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Session-Id': channel.sessionId },
+      body: new Uint8Array(channel.encryptJSON(request)),
+    });
+    return channel.decryptJSON<ProxyResponse>(Buffer.from(await resp.arrayBuffer()));
+  }
+
+  async function sendHook(n: number): Promise<void> {
+    const body = JSON.stringify({ n });
+    const sig = crypto.createHmac('sha256', 'consumer-secret').update(body).digest('hex');
+    await fetch(`${consumerUrl}/webhooks/hooks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${sig}` },
+      body,
+    });
+  }
+
+  it('should keep positions on the server across sessions', async () => {
+    await sendHook(1);
+    await sendHook(2);
+
+    const peek = await consumerRequest('consume_events', { consumer: 'worker', ack: false });
+    const { events } = peek.result as { events: { id: number }[] };
+    expect(events).toHaveLength(2);
+
+    const ack = await consumerRequest('ack_events', {
+      consumer: 'worker',
+      event_ids: [events[0].id],
+    });
+    expect(ack.result).toEqual({ consumer: 'worker', acknowledged: 1 });
+
+    // A new session (e.g., a restarted agent) resumes after the acknowledged event
+    const next = await consumerRequest('consume_events', { consumer: 'worker' });
+    expect((next.result as { events: { id: number }[] }).events.map((e) => e.id)).toEqual([
+      events[1].id,
+    ]);
+  });
+
+  it('should reset a consumer and reject bad positions', async () => {
+    const reset = await consumerRequest('reset_consumer', { consumer: 'worker', to: 'earliest' });
+    expect(reset.success).toBe(true);
+
+    const again = await consumerRequest('consume_events', { consumer: 'worker' });
+    expect((again.result as { events: unknown[] }).events).toHaveLength(2);
+
+    const bad = await consumerRequest('reset_consumer', { consumer: 'worker', to: 'yesterday' });
+    expect(bad.success).toBe(false);
+    expect(bad.error).toContain('Invalid reset position');
+  });
 });
@@ -2,10 +2,14 @@
  * Unit tests for remote-server exported helpers.
  *
  * Tests the actual exported functions from remote-server.ts:
- * isEndpointAllowed, resolvePlaceholders, matchRoute, checkRateLimit, and cleanupSessions.
+ * isEndpointAllowed, resolvePlaceholders, matchRoute, checkRateLimit, cleanupSessions
+ * and writeProxyStream.
  */
 import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'node:events';
 import type { ResolvedRoute } from '../shared/config.js';
+import { generateKeyBundle, extractPublicKeys, EncryptedChannel } from '../shared/crypto/index.js';
+import { HandshakeInitiator, HandshakeResponder } from '../shared/protocol/index.js';
 
 import {
   isEndpointAllowed,
@@ -15,6 +19,9 @@ import {
   cleanupSessions,
   SESSION_TTL,
   HANDSHAKE_TTL,
+  writeProxyStream,
+  ProxyStream,
+  type FrameSink,
 } from './server.js';
 
 // ── isEndpointAllowed ──────────────────────────────────────────────────────
@@ -316,3 +323,64 @@ describe('cleanupSessions', () => {
     expect(pendingMap.size).toBe(1);
   });
 });
+
+// ── writeProxyStream ───────────────────────────────────────────────────────
+
+describe('writeProxyStream', () => {
+  /** Channel keys for the relaying side */
+  function remoteChannel(): EncryptedChannel {
+    const clientKeys = generateKeyBundle();
+    const serverKeys = generateKeyBundle();
+    const initiator = new HandshakeInitiator(clientKeys, extractPublicKeys(serverKeys));
+    const responder = new HandshakeResponder(serverKeys, [extractPublicKeys(clientKeys)]);
+    const init = initiator.createInit();
+    responder.processInit(init);
+    return new EncryptedChannel(responder.deriveKeys(init));
+  }
+
+  /** A sink that always reports a full buffer and drains right away */
+  class SlowSink extends EventEmitter implements FrameSink {
+    destroyed = false;
+    write(): boolean {
+      setImmediate(() => this.emit('drain'));
+      return false;
+    }
+  }
+
+  it('should not leave listeners behind after backpressure waits', async () => {
+    const sink = new SlowSink();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < 20; i++) controller.enqueue(new Uint8Array([i]));
+        controller.close();
+      },
+    });
+
+    const totals = await writeProxyStream(
+      sink,
+      remoteChannel(),
+      'req-1',
+      new ProxyStream(200, 'OK', {}, body),
+    );
+
+    expect(totals).toMatchObject({ chunks: 20, totalBytes: 20 });
+    expect(sink.listenerCount('drain')).toBe(0);
+    expect(sink.listenerCount('close')).toBe(0);
+  });
+
+  it('should cancel the upstream body when the start frame cannot be sent', async () => {
+    const sink = new SlowSink();
+    sink.destroyed = true;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    await expect(
+      writeProxyStream(sink, remoteChannel(), 'req-2', new ProxyStream(200, 'OK', {}, body)),
+    ).rejects.toThrow('Stream consumer disconnected');
+    expect(cancelled).toBe(true);
+  });
+});
@@ -9,55 +9,130 @@
  *   - Establishes encrypted channels via X25519 ECDH + AES-256-GCM
  *   - Receives encrypted tool requests, injects secrets, executes, encrypts results
  *   - Never exposes secrets in plaintext over the wire
- *   - Maintains an audit log of all operations
+ *   - Maintains a persistent, hash-chained audit log of all operations
  *   - Rate-limits requests per session
  */
 
 import dotenv from 'dotenv';
 import express from 'express';
 import fs from 'node:fs';
+import path from 'node:path';
 
 import {
   loadRemoteConfig,
-  resolveRoutes,
   resolveCallerRoutes,
-  resolveSecrets,
+  resolveCallerResolvedRoutes,
   resolvePlaceholders,
+  getConfigDir,
   getEnvFilePath,
+  getRemoteConfigPath,
+  getRevokedKeysPath,
+  getSecretsStorePath,
   type RemoteServerConfig,
   type CallerConfig,
   type ResolvedRoute,
 } from '../shared/config.js';
 import {
   loadKeyBundle,
-  loadPublicKeys,
+  loadPeerKeys,
+  loadRevokedFingerprints,
+  keyState,
+  fingerprint,
   EncryptedChannel,
+  type KeyWindow,
   type PublicKeyBundle,
 } from '../shared/crypto/index.js';
 import {
   HandshakeResponder,
+  ResumptionResponder,
+  respondToRekey,
+  deriveTicketKey,
+  issueTicket,
+  REKEY_GRACE_MS,
   type HandshakeInit,
   type HandshakeFinish,
+  type ResumeInit,
+  type RekeyRequest,
+  type PingMessage,
+  type PongMessage,
+  STREAM_CONTENT_TYPE,
+  STREAM_CHUNK_SIZE,
+  EVENT_HEARTBEAT_INTERVAL,
+  EVENT_STREAM_MAX_BUFFERED,
+  encodeFrame,
+  decodeBody,
+  type BodyEncoding,
   type ProxyRequest,
   type ProxyResponse,
+  type ProxyStreamMessage,
+  type EventSubscribe,
+  type EventStreamEnd,
+  type EventStreamMessage,
 } from '../shared/protocol/index.js';
-import { IngestorManager } from './ingestors/index.js';
+import { isEndpointAllowed, normalizeUrl } from '../shared/endpoints.js';
+import {
+  IngestorManager,
+  type IngestedEvent,
+  type IngestorReloadResult,
+} from './ingestors/index.js';
+import { OAuthTokenManager } from './oauth.js';
+import {
+  SecretProviderManager,
+  clearStoredSecrets,
+  loadSecretsStore,
+  resolveSecretsStoreKey,
+} from '../shared/secrets/index.js';
+import { ApprovalQueue, previewBody } from './approvals.js';
+import { ConsumerCursors, type ConsumerResetPosition } from './consumers.js';
+import { EventForwarder } from './forwarding.js';
+import { WebhookArchive, webhookArchiveOptions } from './webhook-archive.js';
+import { createAdminRouter, ensureAdminToken, readAdminToken } from './admin.js';
+import { enforcePolicy, PolicyViolationError } from './policy.js';
+import { AuditLog, auditLogOptions } from './audit.js';
+import { redactResponse, redactStream } from './redaction.js';
 
 // ── Environment loading ─────────────────────────────────────────────────────
 
-/** Load environment from ~/.drawlatch/.env, falling back to cwd .env (legacy). */
-function loadEnvFile(): void {
+/**
+ * Load environment from ~/.drawlatch/.env, falling back to cwd .env (legacy),
+ * then open the encrypted secrets store (~/.drawlatch/secrets.enc) if present.
+ * With `override`, values already in process.env are replaced (config reload).
+ */
+function loadEnvFile(override = false): void {
   const configDirEnvPath = getEnvFilePath();
   if (fs.existsSync(configDirEnvPath)) {
-    dotenv.config({ path: configDirEnvPath });
+    dotenv.config({ path: configDirEnvPath, override });
+  } else {
+    // Backward compat: fall back to cwd .env
+    const result = dotenv.config({ override });
+    if (result.parsed) {
+      console.warn(
+        `[remote] Loaded .env from working directory. ` +
+          `Move it to ${configDirEnvPath} for portable operation.`,
+      );
+    }
+  }
+  loadSecretsStoreFile();
+}
+
+/**
+ * Decrypt the secrets store so resolveSecrets() can read from it. The key
+ * comes from DRAWLATCH_SECRETS_PASSPHRASE, DRAWLATCH_SECRETS_KEY_FILE, or
+ * the server's own key bundle. On failure, previously loaded values are kept.
+ */
+function loadSecretsStoreFile(): void {
+  const storePath = getSecretsStorePath();
+  if (!fs.existsSync(storePath)) {
+    clearStoredSecrets();
     return;
   }
-  // Backward compat: fall back to cwd .env
-  const result = dotenv.config();
-  if (result.parsed) {
-    console.warn(
-      `[remote] Loaded .env from working directory. ` +
-        `Move it to ${configDirEnvPath} for portable operation.`,
+  try {
+    const key = resolveSecretsStoreKey(loadRemoteConfig().localKeysDir);
+    const count = loadSecretsStore(storePath, key);
+    console.log(`[remote] Loaded ${count} secret(s) from ${storePath}`);
+  } catch (err) {
+    console.error(
+      `[remote] Failed to open ${storePath}: ${err instanceof Error ? err.message : String(err)}`,
     );
   }
 }
@@ -66,20 +141,32 @@ loadEnvFile();
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
-/** An authorized peer with its alias and optional display name */
-export interface AuthorizedPeer {
+/**
+ * An authorized peer key with its alias and optional display name. A caller
+ * has one entry per key in its peerKeyDir; each is accepted only inside its
+ * validity window.
+ */
+export interface AuthorizedPeer extends KeyWindow {
   /** Caller alias — the key from the callers config object */
   alias: string;
   /** Human-readable name for audit logs */
   name?: string;
   /** The peer's public keys (signing + exchange) */
   keys: PublicKeyBundle;
+  /** ID of this key in the caller's key directory */
+  keyId?: string;
 }
 
 export interface Session {
   channel: EncryptedChannel;
+  /** Keys replaced by the last rekey, still accepted until `until` for requests in flight */
+  retiredChannel?: { channel: EncryptedChannel; until: number };
+  /** Keys agreed by /rekey, taken over once the client sends its first message under them */
+  pendingRekey?: EncryptedChannel;
   /** Caller alias for this session (from the matched AuthorizedPeer) */
   callerAlias: string;
+  /** Fingerprint of the key the caller authenticated with */
+  keyFingerprint: string;
   /** Per-caller resolved routes for this session */
   resolvedRoutes: ResolvedRoute[];
   createdAt: number;
@@ -91,9 +178,11 @@ export interface Session {
 }
 
 export interface PendingHandshake {
-  responder: HandshakeResponder;
-  init: HandshakeInit;
+  responder: HandshakeResponder | ResumptionResponder;
+  init: HandshakeInit | ResumeInit;
   createdAt: number;
+  /** Set when the session is being resumed from a ticket rather than a full handshake */
+  resumed?: boolean;
 }
 
 // ── State ──────────────────────────────────────────────────────────────────
@@ -103,11 +192,15 @@ const pendingHandshakes = new Map<string, PendingHandshake>();
 
 let rateLimitPerMinute = 60;
 
+/** Where audit entries are persisted — replaced by createApp(). */
+let auditStore = new AuditLog({ dir: null });
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 /**
  * Load authorized peers from per-caller config.
- * Each caller specifies its own peerKeyDir containing signing.pub.pem + exchange.pub.pem.
+ * Each caller specifies its own peerKeyDir containing signing.pub.pem + exchange.pub.pem,
+ * plus any keys added by rotation (see shared/crypto/keyset.ts).
  */
 function loadCallerPeers(callers: Record<string, CallerConfig>): AuthorizedPeer[] {
   const peers: AuthorizedPeer[] = [];
@@ -118,8 +211,22 @@ function loadCallerPeers(callers: Record<string, CallerConfig>): AuthorizedPeer[
       continue;
     }
     try {
-      peers.push({ alias, name: caller.name, keys: loadPublicKeys(caller.peerKeyDir) });
-      console.log(`[remote] Loaded authorized peer: ${alias}`);
+      const keys = loadPeerKeys(caller.peerKeyDir);
+      if (keys.length === 0) {
+        console.error(`[remote] No keys found for "${alias}" in ${caller.peerKeyDir}`);
+        continue;
+      }
+      for (const key of keys) {
+        peers.push({
+          alias,
+          name: caller.name,
+          keys: key.keys,
+          keyId: key.id,
+          ...(key.notBefore !== undefined && { notBefore: key.notBefore }),
+          ...(key.notAfter !== undefined && { notAfter: key.notAfter }),
+        });
+      }
+      console.log(`[remote] Loaded authorized peer: ${alias} (${keys.length} key(s))`);
     } catch (err) {
       console.error(`[remote] Failed to load peer ${alias}:`, err);
     }
@@ -127,9 +234,14 @@ function loadCallerPeers(callers: Record<string, CallerConfig>): AuthorizedPeer[
   return peers;
 }
 
+/**
+ * Record an audit entry: appended to the persistent hash chain with the full
+ * session ID, and echoed to stdout with a truncated one.
+ */
 function auditLog(sessionId: string, action: string, details: Record<string, unknown> = {}): void {
+  const record = auditStore.append({ action, sessionId, ...details });
   const entry = {
-    timestamp: new Date().toISOString(),
+    timestamp: record.timestamp,
     sessionId: sessionId.substring(0, 12) + '...',
     action,
     ...details,
@@ -137,23 +249,18 @@ function auditLog(sessionId: string, action: string, details: Record<string, unk
   console.log(`[audit] ${JSON.stringify(entry)}`);
 }
 
-export function isEndpointAllowed(url: string, patterns: string[]): boolean {
-  if (patterns.length === 0) return true; // no restrictions if empty
-  return patterns.some((pattern) => {
-    // Support simple glob patterns: * matches anything within a segment, ** matches across segments
-    const regex = new RegExp(
-      '^' +
-        pattern
-          .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-          .replace(/\*\*/g, '.__DOUBLE_STAR__.')
-          .replace(/\*/g, '[^/]*')
-          .replace(/\.__DOUBLE_STAR__\./g, '.*') +
-        '$',
-    );
-    return regex.test(url);
-  });
+/** Host part of a URL for audit entries (never the path or query, which may hold secrets). */
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
 }
 
+// Re-export isEndpointAllowed for backward compatibility with tests
+export { isEndpointAllowed } from '../shared/endpoints.js';
+
 // Re-export resolvePlaceholders from config for backward compatibility with tests
 export { resolvePlaceholders } from '../shared/config.js';
 
@@ -229,30 +336,58 @@ export interface ProxyRequestInput {
   url: string;
   headers?: Record<string, string>;
   body?: unknown;
+  /** Set to 'base64' when `body` is a base64 string carrying raw bytes (uploads) */
+  bodyEncoding?: BodyEncoding;
+  /** Stream the upstream body back as encrypted frames instead of buffering it */
+  stream?: boolean;
 }
 
 export interface ProxyRequestResult {
   status: number;
   statusText: string;
   headers: Record<string, string>;
+  /** Parsed JSON, text, or base64 when `bodyEncoding` is set */
   body: unknown;
+  /** Present ('base64') when the upstream body was binary */
+  bodyEncoding?: BodyEncoding;
+  /** Number of secret values replaced with ${NAME} placeholders (absent when none) */
+  redactions?: number;
+}
+
+/** A fully resolved outbound request — route matched, secrets injected, ready to send. */
+export interface PreparedProxyRequest {
+  /** The route whose allowedEndpoints matched the request URL */
+  route: ResolvedRoute;
+  method: string;
+  /** URL with ${VAR} placeholders resolved, normalized the way fetch will send it */
+  url: string;
+  /** Client headers merged with route-level headers */
+  headers: Record<string, string>;
+  body: string | Buffer | undefined;
+  /** The route or a policy rule requires operator approval before sending */
+  requireApproval: boolean;
+}
+
+export interface ExecuteProxyRequestOptions {
+  /** The request was approved by an operator — skip the requireApproval check */
+  approved?: boolean;
 }
 
 /**
- * Core proxy request execution — route matching, secret injection, and fetch.
+ * Route matching and secret injection for a proxy request, without sending it.
  *
- * Used by:
- * - The remote server's `http_request` tool handler (this file)
- * - callboard's `LocalProxy` class (in-process, no encryption)
+ * Resolves placeholders in the URL and headers against the matched route's
+ * secrets, rejects header conflicts, serializes the body, and re-checks the
+ * fully resolved URL against the route's allowlist and policy rules.
  *
- * Pure in the sense that it takes routes as input rather than reading global state.
- * The only side effect is the outbound fetch().
+ * @throws Error if no route matches or a client header conflicts with a route header
+ * @throws PolicyViolationError if a route or caller policy rule blocks the method + URL
  */
-export async function executeProxyRequest(
+export function prepareProxyRequest(
   input: ProxyRequestInput,
   routes: ResolvedRoute[],
-): Promise<ProxyRequestResult> {
-  const { method, url, headers = {}, body } = input;
+): PreparedProxyRequest {
+  const { method, url, headers = {}, body, bodyEncoding } = input;
 
   // Step 1: Find matching route — try raw URL first
   let matched: ResolvedRoute | null = matchRoute(url, routes);
@@ -304,8 +439,18 @@ export async function executeProxyRequest(
   // Only when the route explicitly opts in via resolveSecretsInBody — prevents
   // exfiltration of secrets by writing placeholder strings into API resources
   // and reading them back.
-  let resolvedBody: string | undefined;
-  if (typeof body === 'string') {
+  // Binary bodies are passed through as raw bytes — placeholders are never
+  // resolved inside them.
+  let resolvedBody: string | Buffer | undefined;
+  if (bodyEncoding === 'base64') {
+    if (typeof body !== 'string') {
+      throw new Error('bodyEncoding "base64" requires the body to be a base64 string');
+    }
+    resolvedBody = Buffer.from(body, 'base64');
+    if (!resolvedHeaders['content-type'] && !resolvedHeaders['Content-Type']) {
+      resolvedHeaders['Content-Type'] = 'application/octet-stream';
+    }
+  } else if (typeof body === 'string') {
     resolvedBody = matched.resolveSecretsInBody ? resolvePlaceholders(body, matched.secrets) : body;
   } else if (body !== null && body !== undefined) {
     const serialized = JSON.stringify(body);
@@ -317,32 +462,249 @@ export async function executeProxyRequest(
     }
   }
 
-  // Step 6: Final endpoint check on fully resolved URL
-  if (!isEndpointAllowed(resolvedUrl, matched.allowedEndpoints)) {
+  // Step 6: Final endpoint check on the fully resolved URL, normalized the
+  // way fetch will send it so dot segments cannot dodge the checks below
+  let target: string;
+  try {
+    target = normalizeUrl(resolvedUrl);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (!isEndpointAllowed(target, matched.allowedEndpoints)) {
     throw new Error(`Endpoint not allowed after resolution: ${url}`);
   }
 
-  // Step 7: Make the actual HTTP request
-  const resp = await fetch(resolvedUrl, {
+  // Step 7: Method + path policy (route rules, then caller rules)
+  const requireApproval = enforcePolicy(matched, method, target, url);
+
+  return {
+    route: matched,
     method,
+    url: target,
     headers: resolvedHeaders,
     body: resolvedBody,
+    requireApproval,
+  };
+}
+
+/**
+ * Refuse to send a request that still needs operator approval.
+ * @throws Error if the request requires approval and was not approved
+ */
+function assertApproved(prepared: PreparedProxyRequest, options: ExecuteProxyRequestOptions): void {
+  if (prepared.requireApproval && !options.approved) {
+    throw new Error(
+      `Approval required: ${prepared.method.toUpperCase()} requests to this endpoint must be approved by an operator`,
+    );
+  }
+}
+
+/** Send a prepared request upstream. */
+function sendPreparedRequest(prepared: PreparedProxyRequest): Promise<Response> {
+  return fetch(prepared.url, {
+    method: prepared.method,
+    headers: prepared.headers,
+    body:
+      typeof prepared.body === 'string'
+        ? prepared.body
+        : prepared.body && new Uint8Array(prepared.body),
   });
+}
 
-  const contentType = resp.headers.get('content-type') ?? '';
-  let responseBody: unknown;
+/**
+ * Core proxy request execution — route matching, secret injection, and fetch.
+ *
+ * Used by:
+ * - The remote server's `http_request` tool handler (this file)
+ * - callboard's `LocalProxy` class (in-process, no encryption)
+ *
+ * Pure in the sense that it takes routes as input rather than reading global state.
+ * The only side effect is the outbound fetch(). Secret values echoed back by
+ * the upstream are redacted unless the route sets `redactResponseSecrets: false`.
+ *
+ * @throws Error if the request requires approval and `options.approved` is not set
+ */
+export async function executeProxyRequest(
+  input: ProxyRequestInput,
+  routes: ResolvedRoute[],
+  options: ExecuteProxyRequestOptions = {},
+): Promise<ProxyRequestResult> {
+  // Steps 1–7: route matching, secret injection, allowlist and policy checks
+  const prepared = prepareProxyRequest(input, routes);
+  assertApproved(prepared, options);
 
-  if (contentType.includes('application/json')) {
-    responseBody = await resp.json();
-  } else {
-    responseBody = await resp.text();
-  }
+  // Step 8: Make the actual HTTP request
+  const resp = await sendPreparedRequest(prepared);
 
-  return {
+  // JSON is parsed, text stays text, anything else comes back as base64
+  const contentType = resp.headers.get('content-type') ?? '';
+  const decoded = decodeBody(new Uint8Array(await resp.arrayBuffer()), contentType);
+
+  const result: ProxyRequestResult = {
     status: resp.status,
     statusText: resp.statusText,
     headers: Object.fromEntries(resp.headers.entries()),
-    body: responseBody,
+    ...decoded,
+  };
+
+  // Step 9: Replace any of the route's secret values the upstream echoed back
+  if (prepared.route.redactResponseSecrets === false) return result;
+  const { response, count } = redactResponse(result, prepared.route.secrets);
+  return count > 0 ? { ...response, redactions: count } : response;
+}
+
+// ── Streaming responses ────────────────────────────────────────────────────
+
+/**
+ * An upstream response whose body has not been read yet.
+ *
+ * Tool handlers return this instead of a plain result to have the `/request`
+ * route relay the body as encrypted frames (see `writeProxyStream`) rather
+ * than buffering it into a single encrypted response.
+ */
+export class ProxyStream {
+  /** Secret values redacted from the body so far (updated as it is read) */
+  redactions = 0;
+
+  constructor(
+    readonly status: number,
+    readonly statusText: string,
+    readonly headers: Record<string, string>,
+    readonly body: ReadableStream<Uint8Array> | null,
+  ) {}
+}
+
+/**
+ * Same as `executeProxyRequest()`, but hands back the upstream body unread
+ * so it can be relayed chunk by chunk (large downloads, server-sent events).
+ */
+export async function openProxyStream(
+  input: ProxyRequestInput,
+  routes: ResolvedRoute[],
+  options: ExecuteProxyRequestOptions = {},
+): Promise<ProxyStream> {
+  const prepared = prepareProxyRequest(input, routes);
+  assertApproved(prepared, options);
+  const resp = await sendPreparedRequest(prepared);
+
+  const head = {
+    statusText: resp.statusText,
+    headers: Object.fromEntries(resp.headers.entries()),
+  };
+  const { route } = prepared;
+  if (route.redactResponseSecrets === false) {
+    return new ProxyStream(resp.status, head.statusText, head.headers, resp.body);
+  }
+
+  // The body is redacted as it is relayed; the head up front
+  const { response, count } = redactResponse(head, route.secrets);
+  const body =
+    resp.body &&
+    redactStream(resp.body, route.secrets, (n) => {
+      stream.redactions += n;
+    });
+  const stream = new ProxyStream(resp.status, response.statusText, response.headers, body);
+  stream.redactions = count;
+  return stream;
+}
+
+/** Minimal writable surface needed to relay frames (an Express response in production). */
+export interface FrameSink {
+  write(chunk: Buffer): boolean;
+  once(event: 'drain' | 'close', listener: () => void): unknown;
+  removeListener(event: 'drain' | 'close', listener: () => void): unknown;
+  readonly destroyed: boolean;
+}
+
+/**
+ * Relay a ProxyStream as encrypted, length-prefixed frames:
+ * one ProxyStreamStart, N ProxyStreamChunk, one ProxyStreamEnd.
+ *
+ * Honors backpressure on the sink and cancels the upstream body if the
+ * sink goes away. Upstream read errors are reported in the end frame.
+ *
+ * @returns Totals for the audit log
+ */
+export async function writeProxyStream(
+  sink: FrameSink,
+  channel: EncryptedChannel,
+  requestId: string,
+  stream: ProxyStream,
+): Promise<{ chunks: number; totalBytes: number; redactions?: number; error?: string }> {
+  const send = async (message: ProxyStreamMessage): Promise<void> => {
+    if (sink.destroyed) throw new Error('Stream consumer disconnected');
+    if (!sink.write(encodeFrame(channel.encryptJSON(message)))) {
+      // Only one of the two fires — drop the other so waits do not pile up listeners
+      await new Promise<void>((resolve) => {
+        const resume = (): void => {
+          sink.removeListener('drain', resume);
+          sink.removeListener('close', resume);
+          resolve();
+        };
+        sink.once('drain', resume);
+        sink.once('close', resume);
+      });
+    }
+  };
+
+  try {
+    await send({
+      type: 'proxy_stream_start',
+      id: requestId,
+      status: stream.status,
+      statusText: stream.statusText,
+      headers: stream.headers,
+      timestamp: Date.now(),
+    });
+  } catch (err) {
+    // Nothing will read the upstream body — release the connection
+    await stream.body?.cancel().catch(() => undefined);
+    throw err;
+  }
+
+  let chunks = 0;
+  let totalBytes = 0;
+  let error: string | undefined;
+
+  if (stream.body) {
+    const reader = stream.body.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        // Split oversized upstream chunks so no frame exceeds STREAM_CHUNK_SIZE
+        for (let offset = 0; offset < value.length; offset += STREAM_CHUNK_SIZE) {
+          const slice = value.subarray(offset, offset + STREAM_CHUNK_SIZE);
+          await send({
+            type: 'proxy_stream_chunk',
+            id: requestId,
+            seq: chunks++,
+            data: Buffer.from(slice).toString('base64'),
+          });
+          totalBytes += slice.length;
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      await reader.cancel().catch(() => undefined);
+      if (sink.destroyed) return { chunks, totalBytes, error };
+    }
+  }
+
+  await send({
+    type: 'proxy_stream_end',
+    id: requestId,
+    chunks,
+    totalBytes,
+    ...(error !== undefined && { error }),
+    timestamp: Date.now(),
+  });
+
+  return {
+    chunks,
+    totalBytes,
+    ...(stream.redactions > 0 && { redactions: stream.redactions }),
+    ...(error !== undefined && { error }),
   };
 }
 
@@ -354,6 +716,18 @@ export interface ToolContext {
   callerAlias: string;
   /** The shared ingestor manager (for poll_events / ingestor_status). */
   ingestorManager: IngestorManager;
+  /** Access token lifecycle for routes with an oauth block (for http_request). */
+  oauthTokens: OAuthTokenManager;
+  /** Fetches "${provider:path#field}" secrets for routes that use them (for http_request). */
+  secretProviders: SecretProviderManager;
+  /** Requests parked for operator approval (for http_request / approval_status). */
+  approvals: ApprovalQueue;
+  /** Named event consumers (for consume_events / ack_events / reset_consumer). */
+  consumers: ConsumerCursors;
+  /** Outbound event forwarding (for ingestor_status). */
+  forwarder: EventForwarder;
+  /** Extra fields for this request's audit entry (route, host, status, latency). */
+  auditDetails: Record<string, unknown>;
 }
 
 type ToolHandler = (
@@ -365,14 +739,107 @@ type ToolHandler = (
 const toolHandlers: Record<string, ToolHandler> = {
   /**
    * Proxied HTTP request with route-scoped secret injection.
-   * Delegates to the extracted executeProxyRequest() function.
+   * Delegates to the extracted executeProxyRequest() function, or to
+   * openProxyStream() when the caller asks for a streamed body.
+   * Requests that need operator approval are parked and a pending ticket is
+   * returned instead.
+   */
+  async http_request(input, routes, context) {
+    const proxyInput = input as unknown as ProxyRequestInput;
+
+    // Pre-flight: rejects disallowed requests before anything is sent, and
+    // tells us the route (for OAuth) and whether approval is needed
+    const { route, url, method, requireApproval } = prepareProxyRequest(proxyInput, routes);
+    const host = hostOf(url);
+    Object.assign(context.auditDetails, {
+      ...(route.name && { route: route.name }),
+      method,
+      ...(host && { host }),
+    });
+
+    const send = async (options: ExecuteProxyRequestOptions = {}) => {
+      // Provider-backed secrets are fetched (or taken from the cache) first,
+      // since OAuth client credentials and headers may use them
+      await context.secretProviders.ensureFresh(route);
+      // OAuth-managed routes get a fresh access token before it is injected
+      if (route.oauth) await context.oauthTokens.ensureFresh(route);
+
+      if (proxyInput.stream && !options.approved) {
+        return openProxyStream(proxyInput, routes, options);
+      }
+      const result = await executeProxyRequest(proxyInput, routes, options);
+
+      // A 401 on a managed route usually means the token was revoked early —
+      // fetch a new one and retry once
+      if (result.status === 401 && route.oauth) {
+        context.oauthTokens.invalidate(route);
+        await context.oauthTokens.ensureFresh(route);
+        return executeProxyRequest(proxyInput, routes, options);
+      }
+      return result;
+    };
+
+    if (!requireApproval) {
+      const startedAt = Date.now();
+      const result = await send();
+      context.auditDetails.status = result.status;
+      context.auditDetails.latencyMs = Date.now() - startedAt;
+      // Streamed bodies report their redactions once relayed (writeProxyStream totals)
+      if (!(result instanceof ProxyStream) && result.redactions) {
+        context.auditDetails.redactions = result.redactions;
+      }
+      return result;
+    }
+
+    // Approved requests run later, outside this HTTP exchange, so their
+    // result is always buffered (never streamed)
+    const bodyPreview = previewBody(proxyInput.body, proxyInput.bodyEncoding);
+    const ticket = context.approvals.submit(
+      context.callerAlias,
+      {
+        method: proxyInput.method.toUpperCase(),
+        url: proxyInput.url,
+        ...(route.name && { route: route.name }),
+        headers: proxyInput.headers ?? {},
+        ...(bodyPreview !== undefined && { bodyPreview }),
+      },
+      () => send({ approved: true }),
+    );
+    context.auditDetails.approvalId = ticket.id;
+    return {
+      status: 'pending_approval',
+      approvalId: ticket.id,
+      expiresAt: new Date(ticket.expiresAt).toISOString(),
+      message:
+        'This request needs operator approval before it is sent. ' +
+        'Check its outcome with approval_status using this approvalId.',
+    };
+  },
+
+  /**
+   * Status of requests parked for approval. With `approval_id`, returns that
+   * ticket (including the upstream result once approved); without it, lists
+   * this caller's tickets.
    */
-  async http_request(input, routes, _context) {
-    return executeProxyRequest(input as unknown as ProxyRequestInput, routes);
+  approval_status(input, _routes, context) {
+    const { approval_id, status } = input as { approval_id?: string; status?: string };
+
+    if (approval_id) {
+      const ticket = context.approvals.get(approval_id, context.callerAlias);
+      if (!ticket) throw new Error(`Approval not found: ${approval_id}`);
+      return Promise.resolve(ticket);
+    }
+    return Promise.resolve(
+      context.approvals
+        .list({ callerAlias: context.callerAlias })
+        .filter((t) => status === undefined || t.status === status)
+        .map(({ result: _result, ...summary }) => summary),
+    );
   },
 
   /**
-   * List available routes with metadata, endpoint patterns, and secret names (not values).
+   * List available routes with metadata, endpoint patterns, policy rules, and secret
+   * names (not values).
    * Provides full disclosure of available routes for the local agent.
    */
   list_routes(_input, routes, _context) {
@@ -385,8 +852,10 @@ const toolHandlers: Record<string, ToolHandler> = {
       if (route.openApiUrl) info.openApiUrl = route.openApiUrl;
 
       info.allowedEndpoints = route.allowedEndpoints;
-      info.secretNames = Object.keys(route.secrets);
+      info.secretNames = Object.keys({ ...route.secrets, ...route.secretRefs });
       info.autoHeaders = Object.keys(route.headers);
+      if (route.policy) info.policy = route.policy;
+      if (route.callerPolicy) info.callerPolicy = route.callerPolicy;
 
       return info;
     });
@@ -396,28 +865,96 @@ const toolHandlers: Record<string, ToolHandler> = {
 
   /**
    * Poll for new events from ingestors (Discord Gateway, webhooks, pollers).
-   * Returns events since a cursor, optionally filtered by connection.
+   * Returns events since a cursor, optionally filtered by connection, event
+   * type and field values, limited, and projected to selected fields.
    */
   poll_events(input, _routes, context) {
-    const { connection, after_id } = input as {
+    const { connection, after_id, event_types, filter, limit, fields } = input as {
       connection?: string;
       after_id?: number;
+      event_types?: string[];
+      filter?: string[];
+      limit?: number;
+      fields?: string[];
     };
-    const afterId = after_id ?? -1;
-
-    if (connection) {
-      return Promise.resolve(
-        context.ingestorManager.getEvents(context.callerAlias, connection, afterId),
-      );
-    }
-    return Promise.resolve(context.ingestorManager.getAllEvents(context.callerAlias, afterId));
+    return Promise.resolve(
+      context.ingestorManager.queryEvents(
+        context.callerAlias,
+        { eventTypes: event_types, filters: filter, limit, fields },
+        connection,
+        after_id,
+      ),
+    );
   },
 
   /**
-   * Get the status of all active ingestors for this caller.
+   * Get the status of all active ingestors for this caller, with forwarding
+   * counters and dead letters for connections whose events are forwarded.
    */
   ingestor_status(_input, _routes, context) {
-    return Promise.resolve(context.ingestorManager.getStatuses(context.callerAlias));
+    const statuses = context.ingestorManager.getStatuses(context.callerAlias).map((status) => {
+      const forwarding = context.forwarder.getStatus(context.callerAlias, status.connection);
+      return forwarding ? { ...status, forwarding } : status;
+    });
+    return Promise.resolve(statuses);
+  },
+
+  /**
+   * Read a named consumer's unacknowledged events — acknowledging them unless
+   * `ack` is false.
+   */
+  consume_events(input, _routes, context) {
+    const { consumer, connection, limit, ack } = input as {
+      consumer: string;
+      connection?: string;
+      limit?: number;
+      ack?: boolean;
+    };
+    return Promise.resolve(
+      context.consumers.consume(context.callerAlias, consumer, { connection, limit, ack }),
+    );
+  },
+
+  /**
+   * Acknowledge events read without ack. Each event acknowledges everything
+   * before it on its connection.
+   */
+  ack_events(input, _routes, context) {
+    const { consumer, event_ids, connection } = input as {
+      consumer: string;
+      event_ids: number[];
+      connection?: string;
+    };
+    const acknowledged = context.consumers.ack(
+      context.callerAlias,
+      consumer,
+      event_ids,
+      connection,
+    );
+    return Promise.resolve({ consumer, acknowledged });
+  },
+
+  /**
+   * Move a consumer to the oldest buffered event, past the newest, or to a
+   * point in time.
+   */
+  reset_consumer(input, _routes, context) {
+    const { consumer, to, connection } = input as {
+      consumer: string;
+      to: string;
+      connection?: string;
+    };
+    let position: ConsumerResetPosition;
+    if (to === 'earliest' || to === 'latest') {
+      position = to;
+    } else {
+      position = Date.parse(to);
+      if (Number.isNaN(position)) {
+        throw new Error(`Invalid reset position: ${to} (use earliest, latest or an ISO timestamp)`);
+      }
+    }
+    const state = context.consumers.reset(context.callerAlias, consumer, position, connection);
+    return Promise.resolve({ consumer, ...state });
   },
 };
 
@@ -433,8 +970,44 @@ export interface CreateAppOptions {
   authorizedPeers?: AuthorizedPeer[];
   /** Override the ingestor manager instead of creating one from config */
   ingestorManager?: IngestorManager;
+  /** Override the OAuth token manager (e.g., to use a different token store) */
+  oauthTokenManager?: OAuthTokenManager;
+  /** Override the secret provider manager instead of creating one from config.secretProviders */
+  secretProviderManager?: SecretProviderManager;
+  /** Override the approval queue (e.g., to share it with a test) */
+  approvalQueue?: ApprovalQueue;
+  /** Override the consumer cursors (e.g., to keep them in memory) */
+  consumerCursors?: ConsumerCursors;
+  /** Override the event forwarder (e.g., to shorten retry delays) */
+  eventForwarder?: EventForwarder;
+  /** Admin API bearer token. Defaults to DRAWLATCH_ADMIN_TOKEN / admin.token; null disables it. */
+  adminToken?: string | null;
+  /** Persistent audit log. Defaults to an in-memory chain (stdout only). */
+  auditLog?: AuditLog;
+  /** Archive of raw webhook requests. Defaults to the `webhookArchive` config; null disables it. */
+  webhookArchive?: WebhookArchive | null;
+  /** Revocation list checked on every handshake. Defaults to ~/.drawlatch/keys/revoked.json. */
+  revokedKeysPath?: string;
 }
 
+/** Replacement config for a reload — by default both are re-read from disk. */
+export interface ReloadOptions {
+  config?: RemoteServerConfig;
+  authorizedPeers?: AuthorizedPeer[];
+}
+
+/** Outcome of a config reload, for logging. */
+export interface ReloadResult {
+  /** Live sessions whose routes were re-resolved against the new config */
+  sessionsUpdated: number;
+  /** Sessions closed because their caller was removed or its key changed */
+  sessionsRevoked: number;
+  ingestors: IngestorReloadResult;
+}
+
+/** Signature of `app.locals.reload`. */
+export type ReloadFn = (options?: ReloadOptions) => Promise<ReloadResult>;
+
 export function createApp(options: CreateAppOptions = {}) {
   const app = express();
 
@@ -443,20 +1016,126 @@ export function createApp(options: CreateAppOptions = {}) {
 
   // Raw buffer for encrypted request endpoint
   app.use('/request', express.raw({ type: 'application/octet-stream', limit: '10mb' }));
+  app.use('/events', express.raw({ type: 'application/octet-stream', limit: '64kb' }));
+  app.use('/rekey', express.raw({ type: 'application/octet-stream', limit: '64kb' }));
+  app.use('/ping', express.raw({ type: 'application/octet-stream', limit: '64kb' }));
 
   // Raw buffer for webhook endpoints (needed for signature verification)
   app.use('/webhooks', express.raw({ type: 'application/json', limit: '1mb' }));
 
-  const config = options.config ?? loadRemoteConfig();
-  const ownKeys = options.ownKeys ?? loadKeyBundle(config.localKeysDir);
-  const authorizedPeers = options.authorizedPeers ?? loadCallerPeers(config.callers);
+  // Replaced wholesale on reload — handlers always read the current binding
+  let config = options.config ?? loadRemoteConfig();
+  let ownKeys = options.ownKeys ?? loadKeyBundle(config.localKeysDir);
+  /** Seals session tickets — follows the server keypair, so rotation invalidates old tickets. */
+  let ticketKey = deriveTicketKey(ownKeys);
+  let authorizedPeers = options.authorizedPeers ?? loadCallerPeers(config.callers);
+  const revokedKeysPath = options.revokedKeysPath ?? getRevokedKeysPath();
+
+  /** Sessions established through this app (the session map is process-wide). */
+  const appSessions = new Set<string>();
+  /** Tickets already resumed from, until they expire — a ticket is good for one resumption */
+  const usedTickets = new Map<string, number>();
+
+  /** Open /events streams; `close` sends a final frame and ends the response. */
+  const eventStreams = new Set<{
+    sessionId: string;
+    close: (reason: EventStreamEnd['reason']) => void;
+  }>();
+  /** End every open /events stream (graceful shutdown). */
+  app.locals.closeEventStreams = () => {
+    for (const stream of eventStreams) stream.close('shutdown');
+  };
+
+  /** A session established through this app — another app's sessions are unknown here. */
+  function getSession(sessionId: string): Session | undefined {
+    return appSessions.has(sessionId) ? sessions.get(sessionId) : undefined;
+  }
+
+  /**
+   * Decrypt a message from a session's client, returning the channel that
+   * accepted it — replies must go out on the same channel.
+   *
+   * Keys agreed by /rekey take over only when the first message under them
+   * arrives, so a client that never received the rekey response carries on
+   * with the current keys. After the switch, requests sent just before it
+   * are still read under the previous keys for REKEY_GRACE_MS.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters -- T is used by callers for type narrowing of the message
+  function decryptFromSession<T>(
+    sessionId: string,
+    session: Session,
+    body: Buffer,
+  ): { channel: EncryptedChannel; message: T } {
+    try {
+      return { channel: session.channel, message: session.channel.decryptJSON<T>(body) };
+    } catch (err) {
+      const next = session.pendingRekey;
+      if (next) {
+        try {
+          const message = next.decryptJSON<T>(body);
+          commitRekey(sessionId, session, next);
+          return { channel: next, message };
+        } catch {
+          // Not under the new keys either — try the retired ones
+        }
+      }
+      const retired = session.retiredChannel;
+      if (!retired || Date.now() > retired.until) throw err;
+      return { channel: retired.channel, message: retired.channel.decryptJSON<T>(body) };
+    }
+  }
+
+  /** Switch a session to its rekeyed channel; open /events streams reopen under it. */
+  function commitRekey(sessionId: string, session: Session, next: EncryptedChannel): void {
+    const previous = session.channel;
+    session.retiredChannel = { channel: previous, until: Date.now() + REKEY_GRACE_MS };
+    session.channel = next;
+    delete session.pendingRekey;
+    for (const stream of eventStreams) {
+      if (stream.sessionId === sessionId) stream.close('rekeyed');
+    }
+    auditLog(sessionId, 'session_rekeyed', {
+      caller: session.callerAlias,
+      messages: previous.messageCount,
+    });
+  }
 
   rateLimitPerMinute = config.rateLimitPerMinute;
+  auditStore = options.auditLog ?? new AuditLog({ dir: null });
+
+  const secretProviders =
+    options.secretProviderManager ?? new SecretProviderManager(config.secretProviders);
+
+  const oauthTokens =
+    options.oauthTokenManager ?? new OAuthTokenManager({ keysDir: config.localKeysDir });
 
   // Create or use the provided ingestor manager
-  const ingestorManager = options.ingestorManager ?? new IngestorManager(config);
+  const ingestorManager =
+    options.ingestorManager ?? new IngestorManager(config, secretProviders, oauthTokens);
   app.locals.ingestorManager = ingestorManager;
 
+  const approvals = options.approvalQueue ?? new ApprovalQueue();
+  app.locals.approvals = approvals;
+  const consumers = options.consumerCursors ?? new ConsumerCursors(ingestorManager);
+  const forwarder = options.eventForwarder ?? new EventForwarder(ingestorManager);
+  forwarder.configure(config.callers);
+  app.locals.eventForwarder = forwarder;
+  const webhookArchive =
+    options.webhookArchive === undefined ? openWebhookArchive(config) : options.webhookArchive;
+
+  // Operator endpoints (approvals, audit log) — bearer-token authenticated, not encrypted
+  app.use(
+    '/admin',
+    createAdminRouter({
+      token: options.adminToken === undefined ? readAdminToken() : options.adminToken,
+      approvals,
+      auditLog: auditStore,
+      webhookArchive,
+      ingestorManager,
+      onAction: (action, details) => auditLog('admin', action, details),
+    }),
+  );
+
   // Log connector and caller summary
   const connectorCount = config.connectors?.length ?? 0;
   const callerCount = Object.keys(config.callers).length;
@@ -467,28 +1146,117 @@ export function createApp(options: CreateAppOptions = {}) {
   console.log(`[remote] ${authorizedPeers.length} authorized peer(s)`);
   console.log(`[remote] Rate limit: ${rateLimitPerMinute} req/min per session`);
 
+  // ── Hot reload ─────────────────────────────────────────────────────────
+
+  /**
+   * Re-read .env, secrets.enc, remote.config.json and the key files and apply
+   * them without a restart.
+   *
+   * Live sessions keep their encrypted channel: their routes are re-resolved
+   * against the new config, so added connections and rotated secrets take
+   * effect on the next request. Sessions whose caller was removed, or whose
+   * key was removed, expired or revoked, are closed. Ingestors are diffed by
+   * the manager. A promoted server keypair is used from the next handshake,
+   * and session tickets issued under the previous one stop working.
+   */
+  const reload: ReloadFn = async (reloadOptions = {}) => {
+    if (!reloadOptions.config) loadEnvFile(true);
+    const nextConfig = reloadOptions.config ?? loadRemoteConfig();
+    const nextPeers = reloadOptions.authorizedPeers ?? loadCallerPeers(nextConfig.callers);
+    const nextOwnKeys = options.ownKeys ?? loadKeyBundle(nextConfig.localKeysDir);
+    const revoked = loadRevokedFingerprints(revokedKeysPath);
+    const now = Date.now();
+
+    /** Whether a session's key is still one of its caller's active keys. */
+    const keyStillValid = (alias: string, keyFingerprint: string) =>
+      nextPeers.some(
+        (p) =>
+          p.alias === alias &&
+          fingerprint(p.keys) === keyFingerprint &&
+          keyState(p, revoked, now) === 'active',
+      );
+
+    let sessionsUpdated = 0;
+    let sessionsRevoked = 0;
+    for (const sessionId of appSessions) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        appSessions.delete(sessionId);
+        continue;
+      }
+
+      const alias = session.callerAlias;
+      if (!(alias in nextConfig.callers) || !keyStillValid(alias, session.keyFingerprint)) {
+        sessions.delete(sessionId);
+        pendingHandshakes.delete(sessionId);
+        appSessions.delete(sessionId);
+        for (const stream of eventStreams) {
+          if (stream.sessionId === sessionId) stream.close('session_closed');
+        }
+        auditLog(sessionId, 'session_revoked', { caller: alias, reason: 'config_reload' });
+        sessionsRevoked++;
+        continue;
+      }
+
+      session.resolvedRoutes = resolveCallerResolvedRoutes(nextConfig, alias);
+      sessionsUpdated++;
+    }
+
+    config = nextConfig;
+    authorizedPeers = nextPeers;
+    ownKeys = nextOwnKeys;
+    ticketKey = deriveTicketKey(nextOwnKeys);
+    rateLimitPerMinute = nextConfig.rateLimitPerMinute;
+    if (!options.secretProviderManager) secretProviders.configure(nextConfig.secretProviders ?? {});
+
+    const ingestors = await ingestorManager.reload(nextConfig);
+    forwarder.configure(nextConfig.callers);
+
+    console.log(
+      `[remote] Config reloaded: ${Object.keys(nextConfig.callers).length} caller(s), ` +
+        `${sessionsUpdated} session(s) updated, ${sessionsRevoked} revoked`,
+    );
+    return { sessionsUpdated, sessionsRevoked, ingestors };
+  };
+  app.locals.reload = reload;
+
   // ── Handshake init ─────────────────────────────────────────────────────
 
   app.post('/handshake/init', (req, res) => {
     try {
-      const init: HandshakeInit = req.body;
+      const init = req.body as HandshakeInit;
+
+      // Only keys inside their validity window and not revoked may authenticate
+      const revoked = loadRevokedFingerprints(revokedKeysPath);
+      const now = Date.now();
+      const offered = authorizedPeers.filter(
+        (p) => p.keys.signing.export({ type: 'spki', format: 'pem' }) === init.signingPubKey,
+      );
+      const activePeers = authorizedPeers.filter((p) => keyState(p, revoked, now) === 'active');
+      if (offered.length > 0 && !offered.some((p) => activePeers.includes(p))) {
+        const state = keyState(offered[0], revoked, now);
+        auditLog('handshake', 'handshake_key_rejected', {
+          caller: offered[0].alias,
+          ...(offered[0].keyId !== undefined && { keyId: offered[0].keyId }),
+          reason: state,
+        });
+        throw new Error(`Handshake failed: initiator key ${state}`);
+      }
+
       const responder = new HandshakeResponder(
         ownKeys,
-        authorizedPeers.map((p) => p.keys),
+        activePeers.map((p) => p.keys),
       );
 
       const { reply, initiatorPubKey } = responder.processInit(init);
       const sessionKeys = responder.deriveKeys(init);
 
       // Look up the caller alias by matching the returned PublicKeyBundle
-      const matchedPeer = authorizedPeers.find((p) => p.keys === initiatorPubKey);
+      const matchedPeer = activePeers.find((p) => p.keys === initiatorPubKey);
       const callerAlias = matchedPeer?.alias ?? 'unknown';
 
       // Resolve per-caller routes (with optional env overrides)
-      const callerRoutes = resolveCallerRoutes(config, callerAlias);
-      const caller = config.callers[callerAlias];
-      const callerEnvResolved = resolveSecrets(caller.env ?? {});
-      const callerResolvedRoutes = resolveRoutes(callerRoutes, callerEnvResolved);
+      const callerResolvedRoutes = resolveCallerResolvedRoutes(config, callerAlias);
 
       // Store pending handshake for the finish step
       pendingHandshakes.set(sessionKeys.sessionId, {
@@ -498,9 +1266,11 @@ export function createApp(options: CreateAppOptions = {}) {
       });
 
       // Create the session preemptively (will be activated on finish)
+      appSessions.add(sessionKeys.sessionId);
       sessions.set(sessionKeys.sessionId, {
         channel: new EncryptedChannel(sessionKeys),
         callerAlias,
+        keyFingerprint: fingerprint(initiatorPubKey),
         resolvedRoutes: callerResolvedRoutes,
         createdAt: Date.now(),
         lastActivity: Date.now(),
@@ -509,7 +1279,10 @@ export function createApp(options: CreateAppOptions = {}) {
         windowStart: Date.now(),
       });
 
-      auditLog(sessionKeys.sessionId, 'handshake_init_ok', { caller: callerAlias });
+      auditLog(sessionKeys.sessionId, 'handshake_init_ok', {
+        caller: callerAlias,
+        ...(matchedPeer?.keyId !== undefined && { keyId: matchedPeer.keyId }),
+      });
       res.json(reply);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -518,6 +1291,81 @@ export function createApp(options: CreateAppOptions = {}) {
     }
   });
 
+  // ── Session resumption ─────────────────────────────────────────────────
+
+  /**
+   * Resume with a session ticket instead of a full handshake (see
+   * shared/protocol/resumption.ts). The ticket's key must still be one of its
+   * caller's active, unrevoked keys, and each ticket resumes only once.
+   * Completed by /handshake/finish.
+   */
+  app.post('/handshake/resume', (req, res) => {
+    try {
+      const init = req.body as ResumeInit;
+      const responder = new ResumptionResponder(ticketKey);
+      const { reply, ticket } = responder.processInit(init);
+
+      // Each ticket resumes once; the new session's finish issues the next one
+      const now = Date.now();
+      for (const [used, expiresAt] of usedTickets) {
+        if (expiresAt <= now) usedTickets.delete(used);
+      }
+      if (usedTickets.has(init.ticket)) {
+        throw new Error('Resumption failed: ticket already used');
+      }
+      usedTickets.set(init.ticket, ticket.expiresAt);
+
+      const revoked = loadRevokedFingerprints(revokedKeysPath);
+      const peer = authorizedPeers.find(
+        (p) => p.alias === ticket.caller && fingerprint(p.keys) === ticket.keyFingerprint,
+      );
+      if (!peer) {
+        throw new Error('Resumption failed: initiator not authorized');
+      }
+      const state = keyState(peer, revoked);
+      if (state !== 'active') {
+        auditLog('handshake', 'handshake_key_rejected', {
+          caller: peer.alias,
+          ...(peer.keyId !== undefined && { keyId: peer.keyId }),
+          reason: state,
+          resumed: true,
+        });
+        throw new Error(`Resumption failed: initiator key ${state}`);
+      }
+
+      const sessionKeys = responder.deriveKeys(init);
+      pendingHandshakes.set(sessionKeys.sessionId, {
+        responder,
+        init,
+        createdAt: Date.now(),
+        resumed: true,
+      });
+
+      appSessions.add(sessionKeys.sessionId);
+      sessions.set(sessionKeys.sessionId, {
+        channel: new EncryptedChannel(sessionKeys),
+        callerAlias: peer.alias,
+        keyFingerprint: ticket.keyFingerprint,
+        resolvedRoutes: resolveCallerResolvedRoutes(config, peer.alias),
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        requestCount: 0,
+        windowRequests: 0,
+        windowStart: Date.now(),
+      });
+
+      auditLog(sessionKeys.sessionId, 'resume_init_ok', {
+        caller: peer.alias,
+        ...(peer.keyId !== undefined && { keyId: peer.keyId }),
+      });
+      res.json(reply);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[remote] Session resumption failed:', message);
+      res.status(403).json({ error: message });
+    }
+  });
+
   // ── Handshake finish ───────────────────────────────────────────────────
 
   app.post('/handshake/finish', (req, res) => {
@@ -527,7 +1375,7 @@ export function createApp(options: CreateAppOptions = {}) {
       return;
     }
 
-    const session = sessions.get(sessionId);
+    const session = getSession(sessionId);
     const pending = pendingHandshakes.get(sessionId);
 
     if (!session || !pending) {
@@ -536,7 +1384,7 @@ export function createApp(options: CreateAppOptions = {}) {
     }
 
     try {
-      const finish: HandshakeFinish = req.body;
+      const finish = req.body as HandshakeFinish;
       // The responder's session keys already have the correct orientation:
       // recvKey decrypts messages from the initiator (which is what the finish msg is)
       const verified = pending.responder.verifyFinish(finish, session.channel.getKeys());
@@ -547,8 +1395,19 @@ export function createApp(options: CreateAppOptions = {}) {
       }
 
       pendingHandshakes.delete(sessionId);
-      auditLog(sessionId, 'handshake_complete', { caller: session.callerAlias });
-      res.json({ status: 'established', sessionId });
+      auditLog(sessionId, 'handshake_complete', {
+        caller: session.callerAlias,
+        ...(pending.resumed && { resumed: true }),
+      });
+
+      // A ticket lets the proxy resume without a full handshake once this session is gone
+      const { ticket, expiresAt } = issueTicket(
+        ticketKey,
+        session.channel.getKeys(),
+        session.callerAlias,
+        session.keyFingerprint,
+      );
+      res.json({ status: 'established', sessionId, ticket, ticketExpiresAt: expiresAt });
     } catch (err) {
       pendingHandshakes.delete(sessionId);
       sessions.delete(sessionId);
@@ -567,7 +1426,7 @@ export function createApp(options: CreateAppOptions = {}) {
       return;
     }
 
-    const session = sessions.get(sessionId);
+    const session = getSession(sessionId);
     if (!session) {
       res.status(401).send('Unknown or expired session');
       return;
@@ -583,11 +1442,31 @@ export function createApp(options: CreateAppOptions = {}) {
     session.lastActivity = Date.now();
     session.requestCount++;
 
+    // Filled in by the tool handler, merged into the response / error audit entry
+    const auditDetails: Record<string, unknown> = {};
+    let toolName: string | undefined;
+    // Replaced by the channel that decrypts the request (the previous one just after a rekey)
+    let channel = session.channel;
+
+    let request: ProxyRequest;
     try {
-      // Decrypt the request
-      const encryptedBody = Buffer.from(req.body);
-      const request = session.channel.decryptJSON<ProxyRequest>(encryptedBody);
+      ({ channel, message: request } = decryptFromSession<ProxyRequest>(
+        sessionId,
+        session,
+        req.body as Buffer,
+      ));
+    } catch (err) {
+      // An error encrypted under keys the client lacks would be unreadable — a
+      // 401 makes it establish a new session instead
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[remote] Undecryptable request (${sessionId}):`, message);
+      auditLog(sessionId, 'request_undecryptable', { caller: session.callerAlias });
+      res.status(401).send('Request could not be decrypted with the session keys');
+      return;
+    }
 
+    try {
+      toolName = request.toolName;
       auditLog(sessionId, 'request', {
         caller: session.callerAlias,
         toolName: request.toolName,
@@ -604,9 +1483,35 @@ export function createApp(options: CreateAppOptions = {}) {
       const context: ToolContext = {
         callerAlias: session.callerAlias,
         ingestorManager: app.locals.ingestorManager as IngestorManager,
+        oauthTokens,
+        secretProviders,
+        approvals,
+        consumers,
+        forwarder,
+        auditDetails,
       };
       const result = await handler(request.toolInput, session.resolvedRoutes, context);
 
+      // Streamed results are relayed as a sequence of encrypted frames
+      if (result instanceof ProxyStream) {
+        res.set('Content-Type', STREAM_CONTENT_TYPE);
+        res.flushHeaders();
+        const totals = await writeProxyStream(res, channel, request.id, result);
+        session.lastActivity = Date.now();
+        auditLog(sessionId, 'response', {
+          caller: session.callerAlias,
+          toolName,
+          requestId: request.id,
+          ...auditDetails,
+          success: totals.error === undefined,
+          outcome: totals.error === undefined ? 'success' : 'error',
+          streamed: true,
+          ...totals,
+        });
+        res.end();
+        return;
+      }
+
       // Build and encrypt response
       const response: ProxyResponse = {
         type: 'proxy_response',
@@ -616,12 +1521,15 @@ export function createApp(options: CreateAppOptions = {}) {
         timestamp: Date.now(),
       };
 
-      const encrypted = session.channel.encryptJSON(response);
+      const encrypted = channel.encryptJSON(response);
 
       auditLog(sessionId, 'response', {
         caller: session.callerAlias,
+        toolName,
         requestId: request.id,
+        ...auditDetails,
         success: true,
+        outcome: 'success',
       });
 
       res.set('Content-Type', 'application/octet-stream');
@@ -630,6 +1538,34 @@ export function createApp(options: CreateAppOptions = {}) {
       const message = err instanceof Error ? err.message : String(err);
       console.error(`[remote] Request error (${sessionId}):`, message);
 
+      if (err instanceof PolicyViolationError) {
+        auditLog(sessionId, 'policy_denied', {
+          caller: session.callerAlias,
+          ...auditDetails,
+          ...(err.route && { route: err.route }),
+          method: err.method.toUpperCase(),
+          url: err.url,
+          scope: err.scope,
+          reason: err.reason,
+          outcome: 'denied',
+        });
+      } else {
+        auditLog(sessionId, 'response', {
+          caller: session.callerAlias,
+          ...(toolName !== undefined && { toolName }),
+          ...auditDetails,
+          success: false,
+          outcome: 'error',
+          error: message,
+        });
+      }
+
+      // A stream already committed to the framed format — just close it
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
       try {
         // Try to send an encrypted error response
         const errorResponse: ProxyResponse = {
@@ -639,7 +1575,7 @@ export function createApp(options: CreateAppOptions = {}) {
           error: message,
           timestamp: Date.now(),
         };
-        const encrypted = session.channel.encryptJSON(errorResponse);
+        const encrypted = channel.encryptJSON(errorResponse);
         res.set('Content-Type', 'application/octet-stream');
         res.send(encrypted);
       } catch {
@@ -650,6 +1586,257 @@ export function createApp(options: CreateAppOptions = {}) {
     }
   });
 
+  // ── Event push stream ──────────────────────────────────────────────────
+
+  /**
+   * Push the caller's ingested events as they arrive, as an alternative to
+   * polling with poll_events. The body is an encrypted EventSubscribe; the
+   * response is a framed stream of encrypted EventStreamMessages that stays
+   * open until the client disconnects, the session ends, or the server shuts
+   * down. Heartbeats on an idle stream keep the session alive.
+   */
+  app.post('/events', (req, res) => {
+    const sessionId = req.headers['x-session-id'] as string;
+    if (!sessionId) {
+      res.status(400).send('Missing X-Session-Id header');
+      return;
+    }
+
+    const session = getSession(sessionId);
+    if (!session) {
+      res.status(401).send('Unknown or expired session');
+      return;
+    }
+
+    if (!checkRateLimit(session, rateLimitPerMinute)) {
+      auditLog(sessionId, 'rate_limited', { caller: session.callerAlias });
+      res.status(429).send('Rate limit exceeded');
+      return;
+    }
+
+    let subscribe: EventSubscribe;
+    let channel: EncryptedChannel;
+    try {
+      ({ channel, message: subscribe } = decryptFromSession<EventSubscribe>(
+        sessionId,
+        session,
+        req.body as Buffer,
+      ));
+    } catch (err) {
+      // As for /request: a 401 makes the client resume or re-handshake
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[remote] Undecryptable event subscription (${sessionId}):`, message);
+      auditLog(sessionId, 'request_undecryptable', { caller: session.callerAlias });
+      res.status(401).send('Subscription could not be decrypted with the session keys');
+      return;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime validation for untrusted input
+    if (subscribe.type !== 'event_subscribe') {
+      const type = String(subscribe.type);
+      console.error(`[remote] Event subscription error (${sessionId}): unexpected type ${type}`);
+      res.status(400).send('Invalid event subscription');
+      return;
+    }
+
+    const { callerAlias } = session;
+    const mgr = app.locals.ingestorManager as IngestorManager;
+    session.lastActivity = Date.now();
+    session.requestCount++;
+
+    res.set('Content-Type', STREAM_CONTENT_TYPE);
+    res.flushHeaders();
+
+    // The stream keeps the keys it was opened with; a rekey ends it with "rekeyed".
+    // A client that stops reading would have every later event buffered here,
+    // so the stream ends once too much is waiting to be sent.
+    let stalled = false;
+    const write = (message: EventStreamMessage): void => {
+      if (res.write(encodeFrame(channel.encryptJSON(message))) || stalled) return;
+      if (res.writableLength > EVENT_STREAM_MAX_BUFFERED) {
+        stalled = true;
+        setImmediate(() => {
+          stream.close('slow_consumer');
+        });
+      }
+    };
+
+    let delivered = 0;
+    const push = (event: IngestedEvent): void => {
+      if (res.destroyed || stalled) return;
+      try {
+        write({ type: 'event_push', id: subscribe.id, seq: delivered, event });
+        delivered++;
+        session.lastActivity = Date.now();
+      } catch (err) {
+        // e.g., an event too large for a single frame — skip it, keep the stream
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[remote] Dropped event #${event.id} for ${callerAlias}:`, message);
+      }
+    };
+
+    // Replay and subscribe in the same tick, so no event can slip in between
+    const replay =
+      subscribe.afterId === undefined
+        ? []
+        : subscribe.connection
+          ? mgr.getEvents(callerAlias, subscribe.connection, subscribe.afterId)
+          : mgr.getAllEvents(callerAlias, subscribe.afterId);
+    replay.forEach(push);
+    const unsubscribe = mgr.subscribe(callerAlias, push, subscribe.connection);
+
+    auditLog(sessionId, 'events_subscribe', {
+      caller: callerAlias,
+      subscriptionId: subscribe.id,
+      ...(subscribe.connection !== undefined && { connection: subscribe.connection }),
+      replayed: replay.length,
+    });
+
+    let closed = false;
+    const stream = {
+      sessionId,
+      close: (reason?: EventStreamEnd['reason']) => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        eventStreams.delete(stream);
+        if (reason && !res.destroyed) {
+          try {
+            write({ type: 'event_stream_end', id: subscribe.id, reason, timestamp: Date.now() });
+          } catch {
+            // The channel is unusable — closing the response is all we can do
+          }
+          res.end();
+        }
+        auditLog(sessionId, 'events_end', {
+          caller: callerAlias,
+          subscriptionId: subscribe.id,
+          delivered,
+          ...(reason && { reason }),
+        });
+      },
+    };
+    const heartbeat = setInterval(() => {
+      // The session expired or was replaced since the stream opened
+      if (getSession(sessionId) !== session) {
+        stream.close('session_closed');
+        return;
+      }
+      // Heartbeats keep the connection open, not the session
+      if (!res.destroyed && !stalled) {
+        write({ type: 'event_heartbeat', id: subscribe.id, timestamp: Date.now() });
+      }
+    }, EVENT_HEARTBEAT_INTERVAL);
+    eventStreams.add(stream);
+    res.on('close', () => {
+      stream.close();
+    });
+  });
+
+  // ── Rekey ──────────────────────────────────────────────────────────────
+
+  /**
+   * Replace a session's keys (see shared/protocol/rekey.ts). The body is a
+   * RekeyRequest encrypted with the current keys, and the RekeyResponse goes
+   * back under them too. The session switches when the client first uses the
+   * new keys (see decryptFromSession) — until then a client that lost the
+   * response keeps the current ones. Open /events streams then end with
+   * reason "rekeyed" so the client reopens them.
+   */
+  app.post('/rekey', (req, res) => {
+    const sessionId = req.headers['x-session-id'] as string;
+    if (!sessionId) {
+      res.status(400).send('Missing X-Session-Id header');
+      return;
+    }
+
+    const session = getSession(sessionId);
+    if (!session) {
+      res.status(401).send('Unknown or expired session');
+      return;
+    }
+
+    if (!checkRateLimit(session, rateLimitPerMinute)) {
+      auditLog(sessionId, 'rate_limited', { caller: session.callerAlias });
+      res.status(429).send('Rate limit exceeded');
+      return;
+    }
+
+    try {
+      const { channel: current, message: request } = decryptFromSession<RekeyRequest>(
+        sessionId,
+        session,
+        req.body as Buffer,
+      );
+      if (current !== session.channel) {
+        throw new Error('Rekey requested under retired keys');
+      }
+      const { response, keys } = respondToRekey(current.getKeys(), request);
+      // A repeated request (the client lost the response) replaces the offer
+      session.pendingRekey = new EncryptedChannel(keys);
+      session.lastActivity = Date.now();
+
+      res.set('Content-Type', 'application/octet-stream');
+      res.send(current.encryptJSON(response));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[remote] Rekey error (${sessionId}):`, message);
+      res.status(400).send('Invalid rekey request');
+    }
+  });
+
+  // ── Ping ───────────────────────────────────────────────────────────────
+
+  /**
+   * Channel health check. The body is an encrypted PingMessage; the reply is a
+   * PongMessage echoing its timestamp, so the client can measure round-trip
+   * time. A ping counts as session activity but is not audited.
+   */
+  app.post('/ping', (req, res) => {
+    const sessionId = req.headers['x-session-id'] as string;
+    if (!sessionId) {
+      res.status(400).send('Missing X-Session-Id header');
+      return;
+    }
+
+    const session = getSession(sessionId);
+    if (!session) {
+      res.status(401).send('Unknown or expired session');
+      return;
+    }
+
+    if (!checkRateLimit(session, rateLimitPerMinute)) {
+      auditLog(sessionId, 'rate_limited', { caller: session.callerAlias });
+      res.status(429).send('Rate limit exceeded');
+      return;
+    }
+
+    try {
+      const { channel, message: ping } = decryptFromSession<PingMessage>(
+        sessionId,
+        session,
+        req.body as Buffer,
+      );
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime validation for untrusted input
+      if (ping.type !== 'ping') {
+        throw new Error(`Unexpected message type: ${String(ping.type)}`);
+      }
+      session.lastActivity = Date.now();
+
+      const pong: PongMessage = {
+        type: 'pong',
+        timestamp: Date.now(),
+        echoTimestamp: ping.timestamp,
+      };
+      res.set('Content-Type', 'application/octet-stream');
+      res.send(channel.encryptJSON(pong));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[remote] Ping error (${sessionId}):`, message);
+      res.status(400).send('Invalid ping');
+    }
+  });
+
   // ── Health check (unencrypted, no secrets exposed) ─────────────────────
 
   app.get('/health', (_req, res) => {
@@ -697,20 +1884,34 @@ export function createApp(options: CreateAppOptions = {}) {
 
     // Fan out to all matching ingestors (multiple callers may share a webhook path)
     let anyAccepted = false;
+    let response: unknown;
     const results: { connection: string; accepted: boolean; reason?: string }[] = [];
 
     for (const ingestor of ingestors) {
-      const result = ingestor.handleWebhook(
+      const { response: reply, ...result } = ingestor.handleWebhook(
         req.headers as Record<string, string | string[] | undefined>,
         rawBody,
       );
       results.push({ connection: ingestor.webhookPath, ...result });
       if (result.accepted) anyAccepted = true;
+      // The first custom reply wins (e.g., a URL verification challenge)
+      if (result.accepted && response === undefined) response = reply;
     }
 
     // Return 200 if any ingestor accepted (GitHub retries on non-2xx)
     if (anyAccepted) {
-      res.status(200).json({ received: true });
+      // Archive only verified requests: forged ones must never become replayable
+      // (replays may skip verification), nor fill the disk
+      try {
+        webhookArchive?.record(
+          webhookPath,
+          req.headers as Record<string, string | string[] | undefined>,
+          rawBody,
+        );
+      } catch (err) {
+        console.error('[remote] Failed to archive webhook request:', err);
+      }
+      res.status(200).json(response ?? { received: true });
     } else {
       res.status(403).json({ error: 'Webhook rejected by all ingestors', details: results });
     }
@@ -719,14 +1920,31 @@ export function createApp(options: CreateAppOptions = {}) {
   return app;
 }
 
+/** Open the webhook archive when `webhookArchive` is configured; failures disable it. */
+function openWebhookArchive(config: RemoteServerConfig): WebhookArchive | null {
+  if (!config.webhookArchive) return null;
+  try {
+    return new WebhookArchive(webhookArchiveOptions(config.webhookArchive));
+  } catch (err) {
+    console.error('[remote] Webhook archive unavailable, not archiving requests:', err);
+    return null;
+  }
+}
+
 // ── Start ──────────────────────────────────────────────────────────────────
 
+/** Quiet period after a config file change before reloading (editors write in bursts). */
+const CONFIG_WATCH_DEBOUNCE = 500;
+
 export function main(): void {
   const config = loadRemoteConfig();
   const port = process.env.DRAWLATCH_PORT ? parseInt(process.env.DRAWLATCH_PORT, 10) : config.port;
   const host = process.env.DRAWLATCH_HOST ?? config.host;
   const useTunnel = process.env.DRAWLATCH_TUNNEL === '1';
-  const app = createApp();
+  // The admin API (approvals) needs a token the local CLI can read
+  ensureAdminToken();
+  const audit = new AuditLog(auditLogOptions(config.audit));
+  const app = createApp({ auditLog: audit });
   const ingestorManager = app.locals.ingestorManager as IngestorManager;
 
   // Holds the tunnel stop function if a tunnel is active (set inside the
@@ -789,9 +2007,50 @@ export function main(): void {
       })(),
   );
 
+  // Hot reload on SIGHUP, and on config file changes when DRAWLATCH_WATCH_CONFIG=1.
+  // Reloads are serialized; a failed reload keeps the previous config.
+  const reload = app.locals.reload as ReloadFn;
+  let reloadChain = Promise.resolve();
+  const triggerReload = (reason: string) => {
+    reloadChain = reloadChain
+      .then(async () => {
+        console.log(`[remote] Reloading config (${reason})...`);
+        await reload();
+      })
+      .catch((err: unknown) => {
+        console.error('[remote] Config reload failed, keeping previous config:', err);
+      });
+  };
+  process.on('SIGHUP', () => {
+    triggerReload('SIGHUP');
+  });
+
+  let watcher: fs.FSWatcher | undefined;
+  if (process.env.DRAWLATCH_WATCH_CONFIG === '1') {
+    // Watch the directory rather than the files — editors often replace files
+    // on save, which would silently end a per-file watch.
+    const watched = new Set([
+      path.basename(getRemoteConfigPath()),
+      path.basename(getEnvFilePath()),
+      path.basename(getSecretsStorePath()),
+    ]);
+    let debounce: NodeJS.Timeout | undefined;
+    watcher = fs.watch(getConfigDir(), (_event, filename) => {
+      if (!filename || !watched.has(filename)) return;
+      clearTimeout(debounce);
+      debounce = setTimeout(() => {
+        triggerReload(`${filename} changed`);
+      }, CONFIG_WATCH_DEBOUNCE);
+    });
+    console.log(`[remote] Watching ${getConfigDir()} for config changes`);
+  }
+
   // Graceful shutdown: stop tunnel, then ingestors, then close the server.
   const shutdown = () => {
     console.log('[remote] Shutting down gracefully...');
+    watcher?.close();
+    (app.locals.closeEventStreams as () => void)();
+    (app.locals.eventForwarder as EventForwarder).stop();
 
     // Stop tunnel first (fast — just kills a child process)
     const tunnelDone = stopTunnel
@@ -809,7 +2068,7 @@ export function main(): void {
         .finally(() => {
           server.close(() => {
             console.log('[remote] Server closed.');
-            process.exit(0);
+            void audit.flush().then(() => process.exit(0));
           });
         });
     });
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { WebhookArchive, replayWebhooks } from './webhook-archive.js';
+import { IngestorManager } from './ingestors/index.js';
+import type { RemoteServerConfig } from '../shared/config.js';
+
+const config: RemoteServerConfig = {
+  host: '127.0.0.1',
+  port: 9999,
+  localKeysDir: '',
+  connectors: [
+    {
+      alias: 'hook',
+      secrets: { HOOK_SECRET: 'secret' },
+      allowedEndpoints: [],
+      ingestor: {
+        type: 'webhook',
+        webhook: {
+          path: 'github',
+          signatureHeader: 'x-hub-signature-256',
+          signatureSecret: 'HOOK_SECRET',
+        },
+      },
+    },
+  ],
+  callers: {
+    alice: { peerKeyDir: '', connections: ['hook'] },
+  },
+  rateLimitPerMinute: 60,
+};
+
+let tmpDir: string;
+let archive: WebhookArchive;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-webhooks-'));
+  archive = new WebhookArchive({ dir: tmpDir });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** Headers GitHub would send for a body signed with `secret`. */
+function githubHeaders(body: Buffer, delivery: string, secret = 'secret') {
+  return {
+    'x-github-event': 'push',
+    'x-github-delivery': delivery,
+    'x-hub-signature-256': `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`,
+  };
+}
+
+describe('WebhookArchive', () => {
+  it('should store headers and the byte-exact body, without credentials', () => {
+    const body = Buffer.from('{"ref":"refs/heads/main",  "n":1}');
+    const entry = archive.record(
+      'github',
+      { ...githubHeaders(body, 'd-1'), authorization: 'Basic abc', cookie: 'c=1' },
+      body,
+    );
+
+    expect(entry).toMatchObject({ path: 'github', deliveryId: 'd-1' });
+    expect(entry.headers).not.toHaveProperty('authorization');
+    expect(entry.headers).not.toHaveProperty('cookie');
+    expect(Buffer.from(entry.body, 'base64').equals(body)).toBe(true);
+
+    const file = path.join(tmpDir, `${entry.receivedAt.slice(0, 10)}.jsonl`);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(new WebhookArchive({ dir: tmpDir }).query()).toEqual([entry]);
+  });
+
+  it('should fall back to the body id for the delivery ID', () => {
+    expect(archive.record('stripe', {}, Buffer.from('{"id":"evt_1"}')).deliveryId).toBe('evt_1');
+    expect(archive.record('slack', {}, Buffer.from('{"event_id":"Ev1"}')).deliveryId).toBe('Ev1');
+    expect(archive.record('raw', {}, Buffer.from('not json'))).not.toHaveProperty('deliveryId');
+  });
+
+  it('should filter by path, archive or delivery ID, time and limit', () => {
+    const a = archive.record('github', { 'x-github-delivery': 'd-1' }, Buffer.from('{}'));
+    const b = archive.record('stripe', {}, Buffer.from('{"id":"evt_2"}'));
+    const c = archive.record('github', { 'x-github-delivery': 'd-3' }, Buffer.from('{}'));
+
+    expect(archive.query({ path: 'github' })).toEqual([a, c]);
+    expect(archive.query({ id: 'evt_2' })).toEqual([b]);
+    expect(archive.query({ id: c.id })).toEqual([c]);
+    expect(archive.query({ limit: 2 })).toEqual([b, c]);
+    expect(archive.query({ since: Date.now() + 1000 })).toEqual([]);
+    expect(archive.query({ until: a.receivedAtMs - 1 })).toEqual([]);
+  });
+
+  it('should delete days that fall outside retention', () => {
+    const old = path.join(tmpDir, '2020-01-01.jsonl');
+    fs.writeFileSync(old, '{}\n');
+
+    new WebhookArchive({ dir: tmpDir, maxAgeMs: 3_600_000 });
+    expect(fs.existsSync(old)).toBe(false);
+  });
+});
+
+describe('replayWebhooks', () => {
+  let manager: IngestorManager;
+
+  beforeEach(async () => {
+    manager = new IngestorManager(config);
+    await manager.startAll();
+  });
+
+  afterEach(async () => {
+    await manager.stopAll();
+  });
+
+  it('should feed archived requests to the ingestors on their path', () => {
+    const body = Buffer.from('{"n":1}');
+    archive.record('github', githubHeaders(body, 'd-1'), body);
+
+    const results = replayWebhooks(archive.query(), manager);
+    expect(results).toMatchObject([
+      { deliveryId: 'd-1', path: 'github', results: [{ connection: 'hook', accepted: true }] },
+    ]);
+    expect(manager.getEvents('alice', 'hook')).toHaveLength(1);
+
+    // Idempotency keys drop a second replay of the same delivery
+    replayWebhooks(archive.query(), manager);
+    expect(manager.getEvents('alice', 'hook')).toHaveLength(1);
+  });
+
+  it('should re-verify signatures unless verification is skipped', () => {
+    const body = Buffer.from('{"n":2}');
+    archive.record('github', githubHeaders(body, 'd-2', 'rotated-secret'), body);
+
+    expect(replayWebhooks(archive.query(), manager)[0].results).toEqual([
+      { connection: 'hook', accepted: false, reason: 'Signature verification failed' },
+    ]);
+    expect(replayWebhooks(archive.query(), manager, true)[0].results).toEqual([
+      { connection: 'hook', accepted: true },
+    ]);
+    expect(manager.getEvents('alice', 'hook')).toHaveLength(1);
+  });
+
+  it('should report requests whose path has no ingestor', () => {
+    archive.record('gone', {}, Buffer.from('{}'));
+    expect(replayWebhooks(archive.query(), manager)[0].results).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Archive of raw webhook requests, for replay.
+ *
+ * Ingestors keep parsed events only as long as their ring buffer (or event
+ * store) retains them. With `webhookArchive` set, `/webhooks/:path` also
+ * appends every request an ingestor accepted — headers and byte-exact body —
+ * to a daily JSONL file under ~/.drawlatch/webhooks/ (0600). Requests that
+ * fail signature verification are never archived, so replaying with
+ * `skipVerification` cannot turn a forgery into an event. Operators can then
+ * feed archived requests back into the matching ingestors through the admin
+ * API (`drawlatch webhooks replay`): after an outage, or to check a parsing
+ * change against real payloads.
+ *
+ * Replays go through `WebhookIngestor.handleWebhook()` like live requests,
+ * so idempotency keys still drop deliveries that are already buffered.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getWebhookArchiveDir, type WebhookArchiveConfig } from '../shared/config.js';
+import { createLogger } from '../shared/logger.js';
+import type { IngestorManager } from './ingestors/index.js';
+
+const log = createLogger('webhook-archive');
+
+/** Default age after which archived requests are dropped (7 days). */
+export const DEFAULT_ARCHIVE_MAX_AGE_HOURS = 168;
+
+const DAY_MS = 86_400_000;
+
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/** Headers that are not kept: credentials, and ones that describe the old connection. */
+const DROPPED_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+]);
+
+/** Headers providers put a unique delivery ID in. */
+const DELIVERY_ID_HEADERS = ['x-github-delivery', 'x-shopify-webhook-id', 'x-gitlab-event-uuid'];
+
+/** One request received on `/webhooks/:path`. */
+export interface ArchivedWebhook {
+  /** Archive ID */
+  id: string;
+  /** Provider delivery ID, from a known header or the body's `id` / `event_id` */
+  deliveryId?: string;
+  /** The `:path` segment the request was posted to */
+  path: string;
+  receivedAt: string;
+  receivedAtMs: number;
+  headers: Record<string, string | string[]>;
+  /** Raw body, base64 — byte-exact so signatures still verify */
+  body: string;
+}
+
+export interface WebhookArchiveQuery {
+  path?: string;
+  /** Archive ID or provider delivery ID */
+  id?: string;
+  /** Received at or after this time (ms since epoch) */
+  since?: number;
+  /** Received at or before this time (ms since epoch) */
+  until?: number;
+  /** Return only the newest this-many matches */
+  limit?: number;
+}
+
+export interface WebhookArchiveOptions {
+  /** Directory holding the daily files */
+  dir: string;
+  /** Drop requests older than this many ms; 0 keeps them all (default: 7 days) */
+  maxAgeMs?: number;
+}
+
+/** What replaying one archived request did, per ingestor on its path. */
+export interface WebhookReplayResult {
+  id: string;
+  deliveryId?: string;
+  path: string;
+  results: { connection: string; accepted: boolean; reason?: string }[];
+}
+
+/** Build the archive options from the `webhookArchive` config block. */
+export function webhookArchiveOptions(config: WebhookArchiveConfig): WebhookArchiveOptions {
+  return {
+    dir: config.dir ?? getWebhookArchiveDir(),
+    maxAgeMs: (config.maxAgeHours ?? DEFAULT_ARCHIVE_MAX_AGE_HOURS) * 3_600_000,
+  };
+}
+
+export class WebhookArchive {
+  readonly dir: string;
+  private readonly maxAgeMs: number;
+  /** Day of the file last appended to; retention runs when it changes. */
+  private currentDay: string | null = null;
+
+  /**
+   * Open (or create) the archive and drop expired days.
+   * @throws Error if the directory cannot be created or read
+   */
+  constructor(options: WebhookArchiveOptions) {
+    this.dir = options.dir;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_ARCHIVE_MAX_AGE_HOURS * 3_600_000;
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    this.prune();
+  }
+
+  /** Append a received request to today's file. */
+  record(
+    webhookPath: string,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer,
+  ): ArchivedWebhook {
+    const receivedAtMs = Date.now();
+    const kept: Record<string, string | string[]> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && !DROPPED_HEADERS.has(name.toLowerCase())) kept[name] = value;
+    }
+    const deliveryId = findDeliveryId(kept, rawBody);
+    const entry: ArchivedWebhook = {
+      id: crypto.randomUUID(),
+      ...(deliveryId !== undefined && { deliveryId }),
+      path: webhookPath,
+      receivedAt: new Date(receivedAtMs).toISOString(),
+      receivedAtMs,
+      headers: kept,
+      body: rawBody.toString('base64'),
+    };
+
+    const day = dayOf(receivedAtMs);
+    if (day !== this.currentDay) {
+      this.currentDay = day;
+      this.prune();
+    }
+    fs.appendFileSync(path.join(this.dir, `${day}.jsonl`), JSON.stringify(entry) + '\n', {
+      mode: 0o600,
+    });
+    return entry;
+  }
+
+  /** Archived requests matching the query, oldest first. */
+  query(query: WebhookArchiveQuery = {}): ArchivedWebhook[] {
+    const since = Math.max(query.since ?? 0, this.cutoff());
+    const until = query.until ?? Infinity;
+
+    const matches = this.days()
+      .filter((day) => day.startMs + DAY_MS > since && day.startMs <= until)
+      .flatMap((day) => this.read(day.file))
+      .filter(
+        (e) =>
+          e.receivedAtMs >= since &&
+          e.receivedAtMs <= until &&
+          (query.path === undefined || e.path === query.path) &&
+          (query.id === undefined || e.id === query.id || e.deliveryId === query.id),
+      );
+    return query.limit !== undefined ? matches.slice(-query.limit) : matches;
+  }
+
+  private cutoff(): number {
+    return this.maxAgeMs > 0 ? Date.now() - this.maxAgeMs : 0;
+  }
+
+  /** Daily files, oldest first. */
+  private days(): { file: string; startMs: number }[] {
+    return fs
+      .readdirSync(this.dir)
+      .flatMap((name) => {
+        const match = DAY_FILE.exec(name);
+        return match
+          ? [{ file: path.join(this.dir, name), startMs: Date.parse(`${match[1]}T00:00:00Z`) }]
+          : [];
+      })
+      .sort((a, b) => a.startMs - b.startMs);
+  }
+
+  private read(file: string): ArchivedWebhook[] {
+    const entries: ArchivedWebhook[] = [];
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line) as ArchivedWebhook);
+      } catch {
+        log.warn(`Skipping an unreadable request in ${file}`);
+      }
+    }
+    return entries;
+  }
+
+  /** Delete daily files that lie entirely before the retention cutoff. */
+  private prune(): void {
+    const cutoff = this.cutoff();
+    for (const day of this.days()) {
+      if (day.startMs + DAY_MS > cutoff) break;
+      fs.rmSync(day.file, { force: true });
+    }
+  }
+}
+
+/**
+ * Feed archived requests back into the ingestors listening on their path,
+ * oldest first. Requests whose path no longer has an ingestor are reported
+ * with no results.
+ *
+ * @param skipVerification - Accept requests without checking signatures. Needed
+ *   for providers that reject old timestamps (Stripe, Slack); operator use only.
+ */
+export function replayWebhooks(
+  entries: ArchivedWebhook[],
+  ingestors: IngestorManager,
+  skipVerification = false,
+): WebhookReplayResult[] {
+  return entries.map((entry) => {
+    const rawBody = Buffer.from(entry.body, 'base64');
+    const results = ingestors.getWebhookIngestors(entry.path).map((ingestor) => {
+      const { accepted, reason } = ingestor.handleWebhook(entry.headers, rawBody, {
+        skipVerification,
+      });
+      return {
+        connection: ingestor.getStatus().connection,
+        accepted,
+        ...(reason !== undefined && { reason }),
+      };
+    });
+    return {
+      id: entry.id,
+      ...(entry.deliveryId !== undefined && { deliveryId: entry.deliveryId }),
+      path: entry.path,
+      results,
+    };
+  });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function dayOf(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function findDeliveryId(
+  headers: Record<string, string | string[]>,
+  rawBody: Buffer,
+): string | undefined {
+  for (const name of DELIVERY_ID_HEADERS) {
+    const value = headers[name];
+    if (typeof value === 'string' && value) return value;
+  }
+  try {
+    const body = JSON.parse(rawBody.toString('utf-8')) as Record<string, unknown> | null;
+    const id = body?.id ?? body?.event_id;
+    return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -7,7 +7,10 @@ import {
   resolvePlaceholders,
   resolveRoutes,
   resolveCallerRoutes,
+  resolveCallerResolvedRoutes,
   loadProxyConfig,
+  resolveProxyRemotes,
+  DEFAULT_REMOTE,
   loadRemoteConfig,
   saveProxyConfig,
   saveRemoteConfig,
@@ -17,7 +20,10 @@ import {
   getRemoteConfigPath,
   getEnvFilePath,
   getLocalKeysDir,
+  getPeerKeysDir,
+  type ProxyConfig,
 } from './config.js';
+import { clearStoredSecrets, loadSecretsStore, writeSecretsStore } from './secrets/store.js';
 
 describe('resolvePlaceholders', () => {
   it('should replace ${VAR} with secret values', () => {
@@ -205,6 +211,39 @@ describe('resolveSecrets', () => {
 
     expect(result).toEqual({ MY_VAR: 'hello' });
   });
+
+  it('should fall back to the encrypted secrets store after process.env', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-config-store-'));
+    const storePath = path.join(dir, 'secrets.enc');
+    const key = { source: 'passphrase' as const, secret: 'pw' };
+    writeSecretsStore(storePath, { STORED_ONLY: 'from-store', SHADOWED: 'from-store' }, key);
+    loadSecretsStore(storePath, key);
+    process.env.SHADOWED = 'from-env';
+
+    try {
+      expect(resolveSecrets({ a: '${STORED_ONLY}', b: '${SHADOWED}' })).toEqual({
+        a: 'from-store',
+        b: 'from-env',
+      });
+    } finally {
+      clearStoredSecrets();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pass secret provider references through unresolved', () => {
+    process.env.API_TOKEN_REF = '${vault:secret/data/api#token}';
+
+    const result = resolveSecrets({
+      direct: '${file:github}',
+      viaEnv: '${API_TOKEN_REF}',
+    });
+
+    expect(result).toEqual({
+      direct: '${file:github}',
+      viaEnv: '${vault:secret/data/api#token}',
+    });
+  });
 });
 
 describe('resolveRoutes', () => {
@@ -270,6 +309,18 @@ describe('resolveRoutes', () => {
     expect(routes[0].resolveSecretsInBody).toBe(false);
   });
 
+  it('should only carry redactResponseSecrets when a route opts out', () => {
+    const routes = resolveRoutes([
+      { allowedEndpoints: ['https://a.example.com/**'] },
+      { allowedEndpoints: ['https://b.example.com/**'], redactResponseSecrets: true },
+      { allowedEndpoints: ['https://c.example.com/**'], redactResponseSecrets: false },
+    ]);
+
+    expect(routes[0].redactResponseSecrets).toBeUndefined();
+    expect(routes[1].redactResponseSecrets).toBeUndefined();
+    expect(routes[2].redactResponseSecrets).toBe(false);
+  });
+
   it('should resolve header placeholders against the route own secrets', () => {
     const routes = resolveRoutes([
       {
@@ -386,6 +437,90 @@ describe('resolveRoutes', () => {
     // Route B should NOT resolve TOKEN_A (it only has TOKEN_B)
     expect(routes[1].headers).toEqual({ Authorization: 'Bearer ${TOKEN_A}' });
   });
+
+  it('should resolve oauth settings from env overrides and keep header templates', () => {
+    process.env.OAUTH_CLIENT_ID = 'default-client';
+
+    const routes = resolveRoutes(
+      [
+        {
+          headers: { Authorization: 'Bearer ${ACCESS_TOKEN}' },
+          secrets: { ACCESS_TOKEN: 'static' },
+          allowedEndpoints: ['https://api.example.com/**'],
+          oauth: {
+            tokenUrl: 'https://auth.example.com/token',
+            grantType: 'refresh_token',
+            clientId: '${OAUTH_CLIENT_ID}',
+            clientSecret: '${OAUTH_CLIENT_SECRET}',
+            refreshToken: '${OAUTH_REFRESH_TOKEN}',
+            accessTokenSecret: 'ACCESS_TOKEN',
+          },
+        },
+      ],
+      { OAUTH_CLIENT_SECRET: 'caller-secret', OAUTH_REFRESH_TOKEN: 'caller-rt' },
+    );
+
+    expect(routes[0].oauth).toEqual({
+      tokenUrl: 'https://auth.example.com/token',
+      grantType: 'refresh_token',
+      clientId: 'default-client',
+      clientSecret: 'caller-secret',
+      refreshToken: 'caller-rt',
+      accessTokenSecret: 'ACCESS_TOKEN',
+      clientAuth: 'basic',
+      refreshSkewSeconds: 60,
+      headerTemplates: { Authorization: 'Bearer ${ACCESS_TOKEN}' },
+    });
+  });
+
+  it('should drop an oauth block whose required values do not resolve', () => {
+    delete process.env.MISSING_CLIENT_SECRET;
+
+    const routes = resolveRoutes([
+      {
+        secrets: { ACCESS_TOKEN: 'static' },
+        allowedEndpoints: ['https://api.example.com/**'],
+        oauth: {
+          tokenUrl: 'https://auth.example.com/token',
+          grantType: 'client_credentials',
+          clientId: 'client',
+          clientSecret: '${MISSING_CLIENT_SECRET}',
+          accessTokenSecret: 'ACCESS_TOKEN',
+        },
+      },
+    ]);
+
+    expect(routes[0].oauth).toBeUndefined();
+    expect(routes[0].secrets).toEqual({ ACCESS_TOKEN: 'static' });
+  });
+
+  it('should move provider-backed secrets to secretRefs and keep header templates', () => {
+    const routes = resolveRoutes([
+      {
+        headers: { Authorization: 'Bearer ${TOKEN}', 'X-Org': '${ORG}' },
+        secrets: { TOKEN: '${vault:secret/data/api#token}', ORG: 'acme' },
+        allowedEndpoints: ['https://api.example.com/**'],
+      },
+      {
+        headers: { Authorization: 'Bearer ${TOKEN}' },
+        secrets: { TOKEN: 'literal' },
+        allowedEndpoints: ['https://other.example.com/**'],
+      },
+    ]);
+
+    expect(routes[0].secrets).toEqual({ ORG: 'acme' });
+    expect(routes[0].secretRefs).toEqual({ TOKEN: '${vault:secret/data/api#token}' });
+    expect(routes[0].headers).toEqual({
+      Authorization: 'Bearer ${vault:secret/data/api#token}',
+      'X-Org': 'acme',
+    });
+    expect(routes[0].headerTemplates).toEqual({
+      Authorization: 'Bearer ${TOKEN}',
+      'X-Org': '${ORG}',
+    });
+    expect(routes[1]).not.toHaveProperty('secretRefs');
+    expect(routes[1]).not.toHaveProperty('headerTemplates');
+  });
 });
 
 describe('config exports', () => {
@@ -606,6 +741,62 @@ describe('loadProxyConfig alias resolution', () => {
   });
 });
 
+describe('resolveProxyRemotes', () => {
+  const base: ProxyConfig = {
+    remoteUrl: 'http://localhost:9999',
+    localKeysDir: '/keys/local',
+    remotePublicKeysDir: '/keys/peers/remote-server',
+    connectTimeout: 10_000,
+    requestTimeout: 30_000,
+  };
+
+  it('should use remoteUrl as the only remote when no remotes are configured', () => {
+    expect(resolveProxyRemotes(base)).toEqual({
+      [DEFAULT_REMOTE]: {
+        remoteUrls: ['http://localhost:9999'],
+        remotePublicKeysDir: '/keys/peers/remote-server',
+      },
+    });
+    expect(Object.keys(resolveProxyRemotes({ ...base, remotes: {} }))).toEqual([DEFAULT_REMOTE]);
+  });
+
+  it('should return named remotes in config order, defaulting their key directories', () => {
+    const remotes = resolveProxyRemotes({
+      ...base,
+      remotes: {
+        work: { remoteUrl: 'https://work.example.com', remotePublicKeysDir: '/keys/work' },
+        personal: { remoteUrl: 'https://home.example.com' },
+      },
+    });
+
+    expect(Object.keys(remotes)).toEqual(['work', 'personal']);
+    expect(remotes.work.remotePublicKeysDir).toBe('/keys/work');
+    expect(remotes.personal).toEqual({
+      remoteUrls: ['https://home.example.com'],
+      remotePublicKeysDir: path.join(getPeerKeysDir(), 'personal'),
+    });
+  });
+
+  it('should prefer remoteUrls over remoteUrl', () => {
+    const replicas = ['https://a.example.com', 'https://b.example.com'];
+    expect(
+      resolveProxyRemotes({ ...base, remoteUrls: replicas })[DEFAULT_REMOTE].remoteUrls,
+    ).toEqual(replicas);
+    expect(
+      resolveProxyRemotes({
+        ...base,
+        remotes: { work: { remoteUrl: 'https://c.example.com', remoteUrls: replicas } },
+      }).work.remoteUrls,
+    ).toEqual(replicas);
+  });
+
+  it('should reject a named remote without a URL', () => {
+    expect(() => resolveProxyRemotes({ ...base, remotes: { work: { remoteUrls: [] } } })).toThrow(
+      'Remote "work" in the proxy config has no remoteUrl or remoteUrls',
+    );
+  });
+});
+
 describe('loadRemoteConfig', () => {
   it('should return defaults when no config files exist', () => {
     const existsSpy = vi.spyOn(fs, 'existsSync').mockReturnValue(false);
@@ -850,6 +1041,43 @@ describe('resolveCallerRoutes', () => {
   });
 });
 
+describe('resolveCallerResolvedRoutes', () => {
+  it('should carry route policy and attach the caller policy to every route', () => {
+    const config = {
+      host: '127.0.0.1',
+      port: 9999,
+      localKeysDir: '',
+      connectors: [
+        {
+          alias: 'a',
+          allowedEndpoints: ['https://a.example.com/**'],
+          policy: [{ effect: 'deny' as const, methods: ['DELETE'] }],
+        },
+        { alias: 'b', allowedEndpoints: ['https://b.example.com/**'] },
+      ],
+      callers: {
+        laptop: {
+          peerKeyDir: '/keys/laptop',
+          connections: ['a', 'b'],
+          policy: [{ effect: 'allow' as const, methods: ['GET'] }],
+        },
+        other: { peerKeyDir: '/keys/other', connections: ['a'] },
+      },
+      rateLimitPerMinute: 60,
+    };
+
+    const routes = resolveCallerResolvedRoutes(config, 'laptop');
+    expect(routes[0].policy).toEqual([{ effect: 'deny', methods: ['DELETE'] }]);
+    expect(routes[1].policy).toBeUndefined();
+    expect(routes.map((r) => r.callerPolicy)).toEqual([
+      [{ effect: 'allow', methods: ['GET'] }],
+      [{ effect: 'allow', methods: ['GET'] }],
+    ]);
+
+    expect(resolveCallerResolvedRoutes(config, 'other')[0].callerPolicy).toBeUndefined();
+  });
+});
+
 describe('loadRemoteConfig legacy migration', () => {
   it('should migrate old format with routes to caller-centric format', () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {
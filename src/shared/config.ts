@@ -16,6 +16,9 @@ import os from 'node:os';
 import path from 'node:path';
 
 import { loadConnection } from './connections.js';
+import { isSecretReference } from './secrets/reference.js';
+import { getStoredSecret } from './secrets/store.js';
+import type { SecretProviderConfig } from './secrets/types.js';
 import type { IngestorConfig } from '../remote/ingestors/types.js';
 
 /** Resolve the base config directory at call time (not import time).
@@ -49,14 +52,61 @@ export function getRemoteKeysDir(): string {
 export function getPeerKeysDir(): string {
   return path.join(getKeysDir(), 'peers');
 }
+export function getRevokedKeysPath(): string {
+  return path.join(getKeysDir(), 'revoked.json');
+}
 export function getEnvFilePath(): string {
   return path.join(getConfigDir(), '.env');
 }
+export function getSecretsStorePath(): string {
+  return path.join(getConfigDir(), 'secrets.enc');
+}
+export function getOAuthTokenStorePath(): string {
+  return path.join(getConfigDir(), 'oauth-tokens.enc');
+}
+export function getAdminTokenPath(): string {
+  return path.join(getConfigDir(), 'admin.token');
+}
+export function getAuditDir(): string {
+  return path.join(getConfigDir(), 'audit');
+}
+export function getConsumerStorePath(): string {
+  return path.join(getConfigDir(), 'consumers.json');
+}
+export function getEventsDir(): string {
+  return path.join(getConfigDir(), 'events');
+}
+export function getWebhookArchiveDir(): string {
+  return path.join(getConfigDir(), 'webhooks');
+}
+
+/** One of several remote servers behind the MCP proxy */
+export interface ProxyRemoteConfig {
+  /** Remote server URL */
+  remoteUrl?: string;
+  /** Equivalent endpoints of this remote server, for failover (replaces remoteUrl) */
+  remoteUrls?: string[];
+  /** Path to this remote server's public keys (default: keys/peers/<name>) */
+  remotePublicKeysDir?: string;
+}
+
+/** A remote server behind the MCP proxy, as resolved by resolveProxyRemotes() */
+export interface ResolvedProxyRemote {
+  /** Endpoints in config order — one unless remoteUrls lists replicas */
+  remoteUrls: string[];
+  remotePublicKeysDir: string;
+}
 
 /** MCP proxy (local) configuration */
 export interface ProxyConfig {
   /** Remote server URL */
   remoteUrl: string;
+  /** Equivalent endpoints of the remote server — replicas sharing its keypair.
+   *  The proxy fails over between them in order. When set, remoteUrl is ignored. */
+  remoteUrls?: string[];
+  /** Start at a random endpoint of remoteUrls instead of the first, spreading
+   *  proxies across the replicas (default: false) */
+  balanceEndpoints?: boolean;
   /** Key alias — resolved to keys/local/<alias>/.
    *  Overridden by the MCP_KEY_ALIAS env var at runtime.
    *  When set, takes precedence over localKeysDir. */
@@ -69,6 +119,85 @@ export interface ProxyConfig {
   connectTimeout: number;
   /** Request timeout (ms) */
   requestTimeout: number;
+  /** Subscribe to the remote's /events stream and forward ingested events to the
+   *  MCP client as logging notifications (default: true) */
+  pushEvents?: boolean;
+  /** Replace the session keys after this many messages (default: 10000) */
+  rekeyAfterMessages?: number;
+  /** Replace the session keys after this many minutes (default: 60) */
+  rekeyAfterMinutes?: number;
+  /** Ping the remote server this often to keep the session alive and measure
+   *  round-trip time; 0 disables pings (default: 60) */
+  pingIntervalSeconds?: number;
+  /** Several named remote servers, each with its own handshake and channel.
+   *  When set, remoteUrl and remotePublicKeysDir are ignored. */
+  remotes?: Record<string, ProxyRemoteConfig>;
+}
+
+/** OAuth2 token lifecycle for a route — the remote server obtains and refreshes
+ *  the access token itself instead of relying on an externally rotated secret.
+ *  String values may be literals or "${ENV_VAR}" references (resolved per caller,
+ *  like secrets). If a required value does not resolve, the block is ignored and
+ *  the route falls back to its static secrets. */
+export interface OAuthConfig {
+  /** Token endpoint URL (e.g., "https://oauth2.googleapis.com/token") */
+  tokenUrl: string;
+  /** Grant used to obtain access tokens */
+  grantType: 'refresh_token' | 'client_credentials';
+  clientId: string;
+  clientSecret?: string;
+  /** Initial refresh token (refresh_token grant). Rotated tokens returned by the
+   *  provider are persisted and take precedence on later refreshes. */
+  refreshToken?: string;
+  /** Space-separated scopes to request */
+  scope?: string;
+  /** Name of the secret that receives the access token (e.g., "GOOGLE_API_TOKEN").
+   *  Headers referencing ${NAME} are re-resolved whenever the token changes. */
+  accessTokenSecret: string;
+  /** How client credentials are sent: HTTP Basic auth (default) or form body */
+  clientAuth?: 'basic' | 'body';
+  /** Refresh this many seconds before the token expires (default: 60) */
+  refreshSkewSeconds?: number;
+}
+
+/** OAuthConfig after ${VAR} resolution, plus the raw header templates needed
+ *  to re-inject a refreshed token. */
+export interface ResolvedOAuthConfig {
+  tokenUrl: string;
+  grantType: 'refresh_token' | 'client_credentials';
+  clientId: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  scope?: string;
+  accessTokenSecret: string;
+  clientAuth: 'basic' | 'body';
+  refreshSkewSeconds: number;
+  /** Unresolved route headers (may contain ${VAR} placeholders) */
+  headerTemplates: Record<string, string>;
+  /** Client credentials given as provider references. The fields above hold
+   *  the reference until SecretProviderManager.ensureFresh() fetches them. */
+  credentialRefs?: Partial<Record<OAuthCredential, string>>;
+}
+
+/** OAuth settings that may come from a secret provider */
+export type OAuthCredential = 'clientId' | 'clientSecret' | 'refreshToken';
+
+/** A method + URL rule restricting what a route (or a caller) may do.
+ *  Deny rules always win. When a rule list contains any allow rules, a request
+ *  must match at least one of them; otherwise everything not denied is allowed. */
+export interface PolicyRule {
+  /** Whether matching requests are permitted or blocked */
+  effect: 'allow' | 'deny';
+  /** HTTP methods this rule applies to (case-insensitive). Omitted or "*" = any method. */
+  methods?: string[];
+  /** URL glob patterns (same syntax as allowedEndpoints), matched against the fully
+   *  resolved URL. Omitted or empty = any URL. */
+  endpoints?: string[];
+  /** Why the rule exists — included in the error and audit entry when it denies a request */
+  description?: string;
+  /** Allow rules only: matching requests are parked until an operator approves them.
+   *  Unlike plain allow rules, approval rules do not turn the rule set into an allow list. */
+  requireApproval?: boolean;
 }
 
 /** A single route / connector definition — scopes secrets and headers to a set of endpoints */
@@ -93,7 +222,8 @@ export interface Route {
    *  Values may contain ${VAR} placeholders resolved against this route's secrets. */
   headers?: Record<string, string>;
   /** Secrets available for ${VAR} placeholder resolution in this route only.
-   *  Values can be literals or "${ENV_VAR}" references resolved at startup. */
+   *  Values can be literals, "${ENV_VAR}" references resolved at startup, or
+   *  "${provider:path#field}" references fetched from a secret provider on use. */
   secrets?: Record<string, string>;
   /** Allowlisted URL patterns (glob). A request must match at least one pattern
    *  in this route's list to use this route. Empty = matches nothing. */
@@ -102,10 +232,23 @@ export interface Route {
    *  Defaults to false — prevents agents from exfiltrating secrets by
    *  writing placeholder strings into API resources and reading them back. */
   resolveSecretsInBody?: boolean;
+  /** Whether to replace this route's secret values in upstream responses
+   *  (body, headers, status text) with their ${NAME} placeholders before
+   *  they reach the agent. Defaults to true. */
+  redactResponseSecrets?: boolean;
   /** Optional ingestor configuration for real-time event ingestion.
    *  When present, the remote server can start a long-lived ingestor
    *  (WebSocket, webhook listener, or poller) for this connection. */
   ingestor?: IngestorConfig;
+  /** Optional OAuth2 token management. When present (and resolvable), the
+   *  remote server keeps `accessTokenSecret` fresh for live sessions. */
+  oauth?: OAuthConfig;
+  /** Method / path rules layered on top of allowedEndpoints
+   *  (e.g., allow only GET, or deny DELETE on "https://api.github.com/repos/**"). */
+  policy?: PolicyRule[];
+  /** Park every request on this route until an operator approves it
+   *  (use an allow rule with `requireApproval` to target specific methods / paths). */
+  requireApproval?: boolean;
 }
 
 /** A route after secret/header resolution — used at runtime */
@@ -120,9 +263,26 @@ export interface ResolvedRoute {
   openApiUrl?: string;
   headers: Record<string, string>;
   secrets: Record<string, string>;
+  /** Secrets backed by a secret provider: name → "${provider:path#field}".
+   *  Their values are written into `secrets` by SecretProviderManager.ensureFresh(). */
+  secretRefs?: Record<string, string>;
+  /** Unresolved route headers, kept when `secretRefs` is set so headers can be
+   *  re-resolved once provider values arrive */
+  headerTemplates?: Record<string, string>;
   allowedEndpoints: string[];
   /** Whether to resolve ${VAR} placeholders in request bodies (default: false) */
   resolveSecretsInBody: boolean;
+  /** Set to false when the route opted out of response redaction (default: redact) */
+  redactResponseSecrets?: boolean;
+  /** Resolved OAuth2 settings — present only when the route's oauth block fully resolved */
+  oauth?: ResolvedOAuthConfig;
+  /** Whether every request on this route needs operator approval (carried from config) */
+  requireApproval?: boolean;
+  /** The route's own policy rules (carried from config) */
+  policy?: PolicyRule[];
+  /** Policy rules of the caller whose session uses this route. Evaluated
+   *  independently — a request must pass both rule sets. */
+  callerPolicy?: PolicyRule[];
 }
 
 /** Per-connection ingestor overrides (all fields optional — omitted fields inherit from template). */
@@ -163,6 +323,57 @@ export interface CallerConfig {
    *  Allows callers to customize intents, event filters, guild/channel/user ID filters,
    *  buffer size, or disable an ingestor without modifying the connection template. */
   ingestorOverrides?: Record<string, IngestorOverrides>;
+  /** Method / path rules applied to every connection this caller uses, on top of
+   *  each route's own policy (e.g., make a caller read-only across all connections). */
+  policy?: PolicyRule[];
+  /** Destinations that receive this caller's ingested events as signed HTTP POSTs,
+   *  for consumers that are not MCP agents (CI bots, dashboards). */
+  forwarding?: EventForwardingConfig[];
+}
+
+/** An HTTP destination for a caller's ingested events (remote server) */
+export interface EventForwardingConfig {
+  /** URL each event is POSTed to as JSON */
+  url: string;
+  /** HMAC-SHA256 signing secret: a literal or "${VAR}" (caller env first, then process.env).
+   *  Omit to send unsigned requests. */
+  secret?: string;
+  /** Only forward events from these connections (default: all of the caller's ingestors) */
+  connections?: string[];
+  /** Only forward events of these types (default: all) */
+  eventTypes?: string[];
+  /** Delivery attempts before an event is dead-lettered (default: 5) */
+  maxAttempts?: number;
+}
+
+/** Persistent audit log settings (remote server) */
+export interface AuditConfig {
+  /** Directory for the audit JSONL files (default: ~/.drawlatch/audit) */
+  dir?: string;
+  /** Rotate the active file once it exceeds this many bytes (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Keep at most this many rotated files; 0 keeps them all (default: 0) */
+  maxFiles?: number;
+  /** Only log to stdout, do not persist (default: false) */
+  disabled?: boolean;
+}
+
+/** Durable ingestor event storage (remote server) */
+export interface EventStoreConfig {
+  /** Root directory; each caller:connection gets a subdirectory (default: ~/.drawlatch/events) */
+  dir?: string;
+  /** Keep the newest this-many events per ingestor; 0 keeps them all (default: 10000) */
+  maxEvents?: number;
+  /** Drop events older than this many hours; 0 keeps them regardless of age (default: 168) */
+  maxAgeHours?: number;
+}
+
+/** Archive of raw webhook requests, for replay (remote server) */
+export interface WebhookArchiveConfig {
+  /** Directory for the daily JSONL files (default: ~/.drawlatch/webhooks) */
+  dir?: string;
+  /** Drop requests older than this many hours; 0 keeps them all (default: 168) */
+  maxAgeHours?: number;
 }
 
 /** Remote server configuration */
@@ -181,6 +392,14 @@ export interface RemoteServerConfig {
   callers: Record<string, CallerConfig>;
   /** Rate limit: max requests per minute per session */
   rateLimitPerMinute: number;
+  /** Persistent, hash-chained audit log. Enabled by default. */
+  audit?: AuditConfig;
+  /** Named secret backends for "${name:path#field}" secret references */
+  secretProviders?: Record<string, SecretProviderConfig>;
+  /** Persist ingested events so buffers and cursors survive restarts. Off unless set. */
+  eventStore?: EventStoreConfig;
+  /** Keep the raw requests received on /webhooks/:path so they can be replayed. Off unless set. */
+  webhookArchive?: WebhookArchiveConfig;
 }
 
 // ── Defaults ─────────────────────────────────────────────────────────────────
@@ -250,6 +469,42 @@ export function loadProxyConfig(): ProxyConfig {
   return config;
 }
 
+/** Name of the single remote when the proxy config has no `remotes` */
+export const DEFAULT_REMOTE = 'default';
+
+/**
+ * The proxy's remote servers by name, in config order. A config without
+ * `remotes` has one, named DEFAULT_REMOTE, from remoteUrl(s) / remotePublicKeysDir.
+ *
+ * @throws Error if a named remote has no remoteUrl or remoteUrls
+ */
+export function resolveProxyRemotes(config: ProxyConfig): Record<string, ResolvedProxyRemote> {
+  const urlsOf = (remote: ProxyRemoteConfig): string[] =>
+    remote.remoteUrls?.length ? remote.remoteUrls : remote.remoteUrl ? [remote.remoteUrl] : [];
+
+  if (!config.remotes || Object.keys(config.remotes).length === 0) {
+    return {
+      [DEFAULT_REMOTE]: {
+        remoteUrls: urlsOf(config),
+        remotePublicKeysDir: config.remotePublicKeysDir,
+      },
+    };
+  }
+
+  const remotes: Record<string, ResolvedProxyRemote> = {};
+  for (const [name, remote] of Object.entries(config.remotes)) {
+    const remoteUrls = urlsOf(remote);
+    if (remoteUrls.length === 0) {
+      throw new Error(`Remote "${name}" in the proxy config has no remoteUrl or remoteUrls`);
+    }
+    remotes[name] = {
+      remoteUrls,
+      remotePublicKeysDir: remote.remotePublicKeysDir ?? path.join(getPeerKeysDir(), name),
+    };
+  }
+  return remotes;
+}
+
 /**
  * Load the remote server config.
  *
@@ -374,9 +629,20 @@ export function resolvePlaceholders(str: string, secretsMap: Record<string, stri
   });
 }
 
+/**
+ * Look up a "${VAR}" reference: caller env overrides first, then process.env,
+ * then the encrypted secrets store.
+ */
+function lookupVar(name: string, envOverrides?: Record<string, string>): string | undefined {
+  return envOverrides?.[name] ?? process.env[name] ?? getStoredSecret(name);
+}
+
 /**
  * Load secrets from the config's secrets map, resolving from environment
- * variables. Value can be a literal string or "${VAR_NAME}" to read from env.
+ * variables. Value can be a literal string or "${VAR_NAME}" to read from env
+ * (or, when not set there, from the encrypted secrets store).
+ * Secret provider references ("${provider:path#field}") are passed through
+ * unresolved — also when an env var holds one — for resolveRoutes() to pick up.
  *
  * When `envOverrides` is provided (pre-resolved caller env map), those values
  * are checked BEFORE process.env, allowing per-caller secret redirection.
@@ -387,10 +653,14 @@ export function resolveSecrets(
 ): Record<string, string> {
   const resolved: Record<string, string> = {};
   for (const [key, value] of Object.entries(secretsMap)) {
+    if (isSecretReference(value)) {
+      resolved[key] = value;
+      continue;
+    }
     const envMatch = /^\$\{(.+)\}$/.exec(value);
     if (envMatch) {
       const varName = envMatch[1];
-      const envVal = envOverrides?.[varName] ?? process.env[varName];
+      const envVal = lookupVar(varName, envOverrides);
       if (envVal !== undefined) {
         resolved[key] = envVal;
       } else {
@@ -409,17 +679,28 @@ export function resolveSecrets(
  *
  * When `envOverrides` is provided, those pre-resolved values are checked
  * before process.env during secret resolution (used for per-caller env).
+ *
+ * Secrets that resolve to a provider reference are moved to `secretRefs`;
+ * headers using them keep the reference until SecretProviderManager fills it in.
  */
 export function resolveRoutes(
   routes: Route[],
   envOverrides?: Record<string, string>,
 ): ResolvedRoute[] {
   return routes.map((route) => {
-    const resolvedSecrets = resolveSecrets(route.secrets ?? {}, envOverrides);
+    const allSecrets = resolveSecrets(route.secrets ?? {}, envOverrides);
     const resolvedHeaders: Record<string, string> = {};
     for (const [key, value] of Object.entries(route.headers ?? {})) {
-      resolvedHeaders[key] = resolvePlaceholders(value, resolvedSecrets);
+      resolvedHeaders[key] = resolvePlaceholders(value, allSecrets);
     }
+    const resolvedSecrets: Record<string, string> = {};
+    const secretRefs: Record<string, string> = {};
+    for (const [key, value] of Object.entries(allSecrets)) {
+      if (isSecretReference(value)) secretRefs[key] = value;
+      else resolvedSecrets[key] = value;
+    }
+    const hasRefs = Object.keys(secretRefs).length > 0;
+    const oauth = route.oauth && resolveOAuthConfig(route.oauth, route.headers ?? {}, envOverrides);
     return {
       ...(route.name !== undefined && { name: route.name }),
       ...(route.description !== undefined && { description: route.description }),
@@ -427,8 +708,93 @@ export function resolveRoutes(
       ...(route.openApiUrl !== undefined && { openApiUrl: route.openApiUrl }),
       headers: resolvedHeaders,
       secrets: resolvedSecrets,
+      ...(hasRefs && { secretRefs, headerTemplates: { ...route.headers } }),
       allowedEndpoints: route.allowedEndpoints,
       resolveSecretsInBody: route.resolveSecretsInBody ?? false,
+      ...(route.redactResponseSecrets === false && { redactResponseSecrets: false }),
+      ...(oauth && { oauth }),
+      ...(route.policy && { policy: route.policy }),
+      ...(route.requireApproval && { requireApproval: true }),
     };
   });
 }
+
+/**
+ * Resolve a caller's effective routes end to end: look up its connections,
+ * resolve its `env` overrides, then resolve each route's secrets and headers.
+ * The caller's `policy` rules are attached to every route as `callerPolicy`.
+ *
+ * This is what a session sees. Returns an empty array for unknown callers.
+ */
+export function resolveCallerResolvedRoutes(
+  config: RemoteServerConfig,
+  callerAlias: string,
+): ResolvedRoute[] {
+  if (!(callerAlias in config.callers)) return [];
+  const caller = config.callers[callerAlias];
+  const callerEnvResolved = resolveSecrets(caller.env ?? {});
+  const routes = resolveRoutes(resolveCallerRoutes(config, callerAlias), callerEnvResolved);
+  if (!caller.policy?.length) return routes;
+  const callerPolicy = caller.policy;
+  return routes.map((route) => ({ ...route, callerPolicy }));
+}
+
+/**
+ * Resolve a single literal-or-"${VAR}" value without logging.
+ * Returns undefined when the referenced env var is not set. Provider
+ * references are returned as-is.
+ */
+function resolveOptionalValue(
+  value: string | undefined,
+  envOverrides?: Record<string, string>,
+): string | undefined {
+  if (value === undefined || isSecretReference(value)) return value;
+  const envMatch = /^\$\{(.+)\}$/.exec(value);
+  if (!envMatch) return value;
+  const resolved = lookupVar(envMatch[1], envOverrides);
+  return resolved === '' ? undefined : resolved;
+}
+
+/**
+ * Resolve an OAuth block's ${VAR} references. Client credentials that are (or
+ * whose env var holds) a provider reference are listed in `credentialRefs`.
+ *
+ * Returns undefined when the values a grant needs are missing, so templates can
+ * ship an oauth block that only activates once its client credentials are set.
+ */
+function resolveOAuthConfig(
+  oauth: OAuthConfig,
+  headerTemplates: Record<string, string>,
+  envOverrides?: Record<string, string>,
+): ResolvedOAuthConfig | undefined {
+  const tokenUrl = resolveOptionalValue(oauth.tokenUrl, envOverrides);
+  const clientId = resolveOptionalValue(oauth.clientId, envOverrides);
+  const clientSecret = resolveOptionalValue(oauth.clientSecret, envOverrides);
+  const refreshToken = resolveOptionalValue(oauth.refreshToken, envOverrides);
+  const scope = resolveOptionalValue(oauth.scope, envOverrides);
+
+  if (!tokenUrl || !clientId) return undefined;
+  if (oauth.grantType === 'refresh_token' && !refreshToken) return undefined;
+  if (oauth.grantType === 'client_credentials' && !clientSecret) return undefined;
+
+  const credentialRefs: Partial<Record<OAuthCredential, string>> = {};
+  for (const [name, value] of Object.entries({ clientId, clientSecret, refreshToken })) {
+    if (value !== undefined && isSecretReference(value)) {
+      credentialRefs[name as OAuthCredential] = value;
+    }
+  }
+
+  return {
+    tokenUrl,
+    grantType: oauth.grantType,
+    clientId,
+    ...(clientSecret !== undefined && { clientSecret }),
+    ...(refreshToken !== undefined && { refreshToken }),
+    ...(scope !== undefined && { scope }),
+    accessTokenSecret: oauth.accessTokenSecret,
+    clientAuth: oauth.clientAuth ?? 'basic',
+    refreshSkewSeconds: oauth.refreshSkewSeconds ?? 60,
+    headerTemplates,
+    ...(Object.keys(credentialRefs).length > 0 && { credentialRefs }),
+  };
+}
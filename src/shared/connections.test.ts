@@ -118,6 +118,17 @@ describe('bundled connection templates', () => {
     expect(route.openApiUrl).toBeTruthy();
   });
 
+  it('should load discord-interactions connection template with an interactions ingestor', () => {
+    const route = loadConnection('discord-interactions');
+
+    expect(route.allowedEndpoints).toEqual(['https://discord.com/api/v10/**']);
+    expect(route.secrets).toHaveProperty('DISCORD_PUBLIC_KEY');
+    expect(route.ingestor?.webhook).toMatchObject({
+      path: 'discord',
+      protocol: 'discord-interactions',
+    });
+  });
+
   it('should load discord-oauth connection template', () => {
     const route = loadConnection('discord-oauth');
 
@@ -174,6 +185,14 @@ describe('bundled connection templates', () => {
     expect(route.openApiUrl).toBeTruthy();
   });
 
+  it('should load slack-events connection template with a Slack webhook ingestor', () => {
+    const route = loadConnection('slack-events');
+
+    expect(route.allowedEndpoints).toEqual(['https://slack.com/api/**']);
+    expect(route.secrets).toHaveProperty('SLACK_SIGNING_SECRET');
+    expect(route.ingestor?.webhook).toMatchObject({ path: 'slack', protocol: 'slack' });
+  });
+
   it('should load trello connection template', () => {
     const route = loadConnection('trello');
 
@@ -264,6 +283,7 @@ describe('bundled connection templates', () => {
     expect(available).toContain('anthropic');
     expect(available).toContain('devin');
     expect(available).toContain('discord-bot');
+    expect(available).toContain('discord-interactions');
     expect(available).toContain('discord-oauth');
     expect(available).toContain('github');
     expect(available).toContain('google');
@@ -274,6 +294,7 @@ describe('bundled connection templates', () => {
     expect(available).toContain('openai');
     expect(available).toContain('openrouter');
     expect(available).toContain('slack');
+    expect(available).toContain('slack-events');
     expect(available).toContain('stripe');
     expect(available).toContain('trello');
   });
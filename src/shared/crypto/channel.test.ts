@@ -104,6 +104,20 @@ describe('EncryptedChannel', () => {
     expect(initiator.decrypt(enc2).toString()).toBe('from responder');
   });
 
+  it('should count messages sent and successfully received', () => {
+    const { initiatorKeys, responderKeys } = createKeyPair();
+    const initiator = new EncryptedChannel(initiatorKeys);
+    const responder = new EncryptedChannel(responderKeys);
+
+    const encrypted = initiator.encrypt(Buffer.from('a'));
+    responder.decrypt(encrypted);
+    expect(() => responder.decrypt(encrypted)).toThrow('Duplicate counter');
+    initiator.decrypt(responder.encrypt(Buffer.from('b')));
+
+    expect(initiator.messageCount).toBe(2);
+    expect(responder.messageCount).toBe(2);
+  });
+
   it('should expose sessionId', () => {
     const { initiatorKeys } = createKeyPair();
     const channel = new EncryptedChannel(initiatorKeys);
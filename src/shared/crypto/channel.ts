@@ -47,6 +47,8 @@ export interface SessionKeys {
   recvKey: DirectionalKey;
   /** Shared session ID for logging/correlation */
   sessionId: string;
+  /** Secret both sides keep for rekeying and session tickets — never used as a key directly */
+  resumptionSecret: Buffer;
 }
 
 /**
@@ -81,10 +83,16 @@ export function deriveSessionKeys(
   const sessionIdBuf = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, salt, 'session-id', 16));
   const sessionId = sessionIdBuf.toString('hex');
 
+  // Derive the resumption secret (see protocol/rekey.ts and protocol/resumption.ts)
+  const resumptionSecret = Buffer.from(
+    crypto.hkdfSync('sha256', sharedSecret, salt, 'resumption', 32),
+  );
+
   return {
     sendKey: { encryptionKey: isInitiator ? i2rKey : r2iKey },
     recvKey: { encryptionKey: isInitiator ? r2iKey : i2rKey },
     sessionId,
+    resumptionSecret,
   };
 }
 
@@ -103,6 +111,11 @@ export class EncryptedChannel {
   private maxRecvCounter = -1n;
   /** Set of counters seen within the sliding window. */
   private readonly replayWindow = new Set<bigint>();
+  /** Messages encrypted or successfully decrypted with these keys. */
+  private messages = 0;
+
+  /** When these keys were put into use (ms since epoch) — drives rekeying. */
+  readonly createdAt = Date.now();
 
   constructor(private readonly keys: SessionKeys) {}
 
@@ -110,6 +123,11 @@ export class EncryptedChannel {
     return this.keys.sessionId;
   }
 
+  /** Number of messages sent and received with these keys. */
+  get messageCount(): number {
+    return this.messages;
+  }
+
   /**
    * Return the underlying session keys (for handshake verification).
    */
@@ -125,6 +143,7 @@ export class EncryptedChannel {
   encrypt(plaintext: Buffer): Buffer {
     const iv = crypto.randomBytes(IV_LENGTH);
     const counter = this.sendCounter++;
+    this.messages++;
 
     // Encode counter as big-endian uint64 for AAD
     const counterBuf = Buffer.alloc(COUNTER_LENGTH);
@@ -208,6 +227,7 @@ export class EncryptedChannel {
       this.maxRecvCounter = counter;
     }
     this.replayWindow.add(counter);
+    this.messages++;
 
     return result;
   }
@@ -10,11 +10,31 @@ export {
   serializePublicKeys,
   deserializePublicKeys,
   saveKeyBundle,
+  savePublicKeys,
   loadKeyBundle,
   loadPublicKeys,
   fingerprint,
 } from './keys.js';
 
+export {
+  type PeerKey,
+  type KeyState,
+  type KeyWindow,
+  type RevokedKey,
+  DEFAULT_KEY_ID,
+  KEY_MANIFEST_FILE,
+  loadPeerKeys,
+  addPeerKey,
+  setKeyWindow,
+  removePeerKey,
+  keyState,
+  loadRevokedKeys,
+  loadRevokedFingerprints,
+  revokeKey,
+  stageNextKeyBundle,
+  promoteNextKeyBundle,
+} from './keyset.js';
+
 export {
   type DirectionalKey,
   type SessionKeys,
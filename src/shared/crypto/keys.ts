@@ -152,6 +152,17 @@ export function saveKeyBundle(bundle: KeyBundle, dir: string): void {
   });
 }
 
+/**
+ * Save only public keys to a directory (0644), e.g. a peer's keys.
+ */
+export function savePublicKeys(pub: PublicKeyBundle, dir: string): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const serialized = serializePublicKeys(pub);
+  fs.writeFileSync(path.join(dir, 'signing.pub.pem'), serialized.signing, { mode: 0o644 });
+  fs.writeFileSync(path.join(dir, 'exchange.pub.pem'), serialized.exchange, { mode: 0o644 });
+}
+
 /**
  * Load a full key bundle from a directory.
  */
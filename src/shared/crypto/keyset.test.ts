@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  generateKeyBundle,
+  extractPublicKeys,
+  saveKeyBundle,
+  savePublicKeys,
+  loadKeyBundle,
+  fingerprint,
+} from './keys.js';
+import {
+  DEFAULT_KEY_ID,
+  loadPeerKeys,
+  addPeerKey,
+  setKeyWindow,
+  removePeerKey,
+  keyState,
+  loadRevokedKeys,
+  loadRevokedFingerprints,
+  revokeKey,
+  stageNextKeyBundle,
+  promoteNextKeyBundle,
+} from './keyset.js';
+
+let tmpDir: string;
+let peerDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-keyset-test-'));
+  peerDir = path.join(tmpDir, 'peers', 'alice');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const newPublicKeys = () => extractPublicKeys(generateKeyBundle());
+
+describe('peer key sets', () => {
+  it('should load a pre-rotation directory as the default key', () => {
+    const pub = newPublicKeys();
+    savePublicKeys(pub, peerDir);
+
+    const keys = loadPeerKeys(peerDir);
+    expect(keys).toEqual([{ id: DEFAULT_KEY_ID, keys: pub, fingerprint: fingerprint(pub) }]);
+    expect(loadPeerKeys(path.join(tmpDir, 'missing'))).toEqual([]);
+  });
+
+  it('should add keys with validity windows and report their state', () => {
+    const now = Date.now();
+    const first = addPeerKey(peerDir, 'laptop-1', newPublicKeys());
+    const second = addPeerKey(peerDir, 'laptop-2', newPublicKeys(), { notBefore: now + 60_000 });
+    setKeyWindow(peerDir, 'laptop-1', { notAfter: now + 120_000 });
+
+    const keys = loadPeerKeys(peerDir);
+    expect(keys.map((k) => k.id)).toEqual(['laptop-1', 'laptop-2']);
+    expect(keys[0].fingerprint).toBe(first.fingerprint);
+    expect(keys[1].notBefore).toBe(second.notBefore);
+
+    const none = new Set<string>();
+    expect(keys.map((k) => keyState(k, none, now))).toEqual(['active', 'pending']);
+    expect(keys.map((k) => keyState(k, none, now + 90_000))).toEqual(['active', 'active']);
+    expect(keys.map((k) => keyState(k, none, now + 120_000))).toEqual(['expired', 'active']);
+  });
+
+  it('should refuse duplicate IDs, duplicate keys and bad IDs', () => {
+    const pub = newPublicKeys();
+    addPeerKey(peerDir, 'k1', pub);
+
+    expect(() => addPeerKey(peerDir, 'k1', newPublicKeys())).toThrow('already used');
+    expect(() => addPeerKey(peerDir, DEFAULT_KEY_ID, newPublicKeys())).toThrow('already used');
+    expect(() => addPeerKey(peerDir, 'k2', pub)).toThrow('already in');
+    expect(() => addPeerKey(peerDir, '../escape', newPublicKeys())).toThrow('Invalid key ID');
+    expect(() => setKeyWindow(peerDir, 'nope', { notAfter: 0 })).toThrow('No key "nope"');
+  });
+
+  it('should remove keys but never the last one', () => {
+    addPeerKey(peerDir, 'k1', newPublicKeys());
+    addPeerKey(peerDir, 'k2', newPublicKeys());
+
+    removePeerKey(peerDir, 'k1');
+    expect(loadPeerKeys(peerDir).map((k) => k.id)).toEqual(['k2']);
+    expect(fs.existsSync(path.join(peerDir, 'k1'))).toBe(false);
+    expect(() => removePeerKey(peerDir, 'k2')).toThrow('only key');
+  });
+});
+
+describe('revocation list', () => {
+  it('should record fingerprints once and mark their keys revoked', () => {
+    const file = path.join(tmpDir, 'keys', 'revoked.json');
+    const key = addPeerKey(peerDir, 'k1', newPublicKeys());
+    expect(loadRevokedKeys(file)).toEqual([]);
+
+    const entry = revokeKey(file, key.fingerprint.toUpperCase(), 'laptop stolen');
+    expect(entry).toMatchObject({ fingerprint: key.fingerprint, reason: 'laptop stolen' });
+    expect(revokeKey(file, key.fingerprint)).toEqual(entry);
+    expect(loadRevokedKeys(file)).toHaveLength(1);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+
+    expect(keyState(key, loadRevokedFingerprints(file))).toBe('revoked');
+    expect(() => revokeKey(file, 'not-a-fingerprint')).toThrow('Invalid key fingerprint');
+  });
+});
+
+describe('server keypair rotation', () => {
+  it('should stage the next keypair and promote it, retiring the current one', () => {
+    const keysDir = path.join(tmpDir, 'remote');
+    const current = generateKeyBundle();
+    saveKeyBundle(current, keysDir);
+
+    const next = stageNextKeyBundle(keysDir);
+    expect(() => stageNextKeyBundle(keysDir)).toThrow('already staged');
+
+    const retiredDir = promoteNextKeyBundle(keysDir);
+    const pubOf = (bundle: ReturnType<typeof loadKeyBundle>) =>
+      fingerprint(extractPublicKeys(bundle));
+    expect(pubOf(loadKeyBundle(keysDir))).toBe(pubOf(next));
+    expect(pubOf(loadKeyBundle(retiredDir))).toBe(pubOf(current));
+    expect(fs.existsSync(path.join(keysDir, 'next'))).toBe(false);
+    expect(() => promoteNextKeyBundle(keysDir)).toThrow('No keypair staged');
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Key sets and rotation.
+ *
+ * A peer key directory (a caller's `peerKeyDir` on the remote server, or the
+ * proxy's `remotePublicKeysDir`) holds the peer's original public keys as
+ * signing.pub.pem + exchange.pub.pem. Rotation adds more keys in
+ * subdirectories, listed in keys.json with optional validity dates:
+ *
+ *   peers/alice/
+ *   ├── signing.pub.pem          # key "default"
+ *   ├── exchange.pub.pem
+ *   ├── keys.json                # {"keys":[{"id":"default","notAfter":"…"},{"id":"laptop-2"}]}
+ *   └── laptop-2/
+ *       ├── signing.pub.pem
+ *       └── exchange.pub.pem
+ *
+ * A key is accepted while the current time lies between its `notBefore` and
+ * `notAfter`, so an old key and its replacement can overlap for a grace
+ * period. Keys listed by fingerprint in keys/revoked.json are refused
+ * regardless of their dates.
+ *
+ * The remote server's own keypair is rotated by staging the next keypair in
+ * <localKeysDir>/next/, handing its public keys to every proxy, and then
+ * promoting it; the previous keypair is kept under retired/.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {
+  type KeyBundle,
+  type PublicKeyBundle,
+  generateKeyBundle,
+  saveKeyBundle,
+  savePublicKeys,
+  loadPublicKeys,
+  fingerprint,
+} from './keys.js';
+
+/** Lists the keys of a directory beyond its top-level one, with their dates. */
+export const KEY_MANIFEST_FILE = 'keys.json';
+
+/** ID of the key stored directly in the directory (the one present before any rotation). */
+export const DEFAULT_KEY_ID = 'default';
+
+/** Subdirectory of the server's key directory holding a staged keypair. */
+const NEXT_KEY_DIR = 'next';
+
+/** Subdirectory of the server's key directory holding replaced keypairs. */
+const RETIRED_KEY_DIR = 'retired';
+
+const KEY_FILES = ['signing.pub.pem', 'signing.key.pem', 'exchange.pub.pem', 'exchange.key.pem'];
+
+const KEY_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const FINGERPRINT = /^[0-9a-f]{2}(:[0-9a-f]{2}){15}$/;
+
+/** Validity window of a key, in ms since epoch. Unset bounds are open. */
+export interface KeyWindow {
+  notBefore?: number;
+  notAfter?: number;
+}
+
+/** One public key of a peer, as loaded from its key directory. */
+export interface PeerKey extends KeyWindow {
+  id: string;
+  keys: PublicKeyBundle;
+  fingerprint: string;
+}
+
+export type KeyState = 'active' | 'pending' | 'expired' | 'revoked';
+
+/** An entry of the revocation list. */
+export interface RevokedKey {
+  fingerprint: string;
+  revokedAt: string;
+  reason?: string;
+}
+
+/** A keys.json entry — dates as ISO 8601. */
+interface ManifestEntry {
+  id: string;
+  notBefore?: string;
+  notAfter?: string;
+  addedAt?: string;
+}
+
+// ── Peer key sets ────────────────────────────────────────────────────────
+
+/**
+ * Load every key in a peer key directory, the top-level key first.
+ * Returns an empty list when the directory holds no keys.
+ * @throws Error if keys.json is malformed or lists a key that is missing
+ */
+export function loadPeerKeys(dir: string): PeerKey[] {
+  const entries = readManifest(dir);
+  const keys: PeerKey[] = [];
+
+  if (fs.existsSync(path.join(dir, 'signing.pub.pem'))) {
+    const entry = entries.find((e) => e.id === DEFAULT_KEY_ID) ?? { id: DEFAULT_KEY_ID };
+    keys.push(toPeerKey(entry, loadPublicKeys(dir), dir));
+  }
+  for (const entry of entries) {
+    if (entry.id === DEFAULT_KEY_ID) continue;
+    keys.push(toPeerKey(entry, loadPublicKeys(path.join(dir, checkKeyId(entry.id))), dir));
+  }
+  return keys;
+}
+
+/**
+ * Add a public key to a peer key directory under a new ID.
+ * @throws Error if the ID is taken or the key is already in the directory
+ */
+export function addPeerKey(
+  dir: string,
+  id: string,
+  pub: PublicKeyBundle,
+  window: KeyWindow = {},
+): PeerKey {
+  checkKeyId(id);
+  const existing = loadPeerKeys(dir);
+  if (id === DEFAULT_KEY_ID || existing.some((k) => k.id === id)) {
+    throw new Error(`Key ID "${id}" is already used in ${dir}`);
+  }
+  const fp = fingerprint(pub);
+  const duplicate = existing.find((k) => k.fingerprint === fp);
+  if (duplicate) {
+    throw new Error(`Key ${fp} is already in ${dir} as "${duplicate.id}"`);
+  }
+
+  savePublicKeys(pub, path.join(dir, id));
+  const entry: ManifestEntry = { id, ...toManifestWindow(window), addedAt: isoNow() };
+  writeManifest(dir, [...readManifest(dir), entry]);
+  return toPeerKey(entry, pub, dir);
+}
+
+/**
+ * Change the validity dates of a key; bounds left undefined are kept.
+ * @throws Error if the directory has no key with this ID
+ */
+export function setKeyWindow(dir: string, id: string, window: KeyWindow): PeerKey {
+  const key = loadPeerKeys(dir).find((k) => k.id === id);
+  if (!key) throw new Error(`No key "${id}" in ${dir}`);
+
+  const entries = readManifest(dir);
+  let entry = entries.find((e) => e.id === id);
+  if (!entry) {
+    entry = { id };
+    entries.unshift(entry);
+  }
+  Object.assign(entry, toManifestWindow(window));
+  writeManifest(dir, entries);
+  return toPeerKey(entry, key.keys, dir);
+}
+
+/**
+ * Delete a key from a peer key directory.
+ * @throws Error if there is no such key, or it is the only one
+ */
+export function removePeerKey(dir: string, id: string): void {
+  const keys = loadPeerKeys(dir);
+  if (!keys.some((k) => k.id === id)) throw new Error(`No key "${id}" in ${dir}`);
+  if (keys.length === 1) throw new Error(`Refusing to remove the only key in ${dir}`);
+
+  if (id === DEFAULT_KEY_ID) {
+    for (const file of ['signing.pub.pem', 'exchange.pub.pem']) {
+      fs.rmSync(path.join(dir, file), { force: true });
+    }
+  } else {
+    fs.rmSync(path.join(dir, id), { recursive: true, force: true });
+  }
+  writeManifest(
+    dir,
+    readManifest(dir).filter((e) => e.id !== id),
+  );
+}
+
+/** Whether a key may be used at `now`: revocation first, then its dates. */
+export function keyState(
+  key: KeyWindow & { keys: PublicKeyBundle },
+  revoked: ReadonlySet<string>,
+  now: number = Date.now(),
+): KeyState {
+  if (revoked.size > 0 && revoked.has(fingerprint(key.keys))) return 'revoked';
+  if (key.notBefore !== undefined && now < key.notBefore) return 'pending';
+  if (key.notAfter !== undefined && now >= key.notAfter) return 'expired';
+  return 'active';
+}
+
+// ── Revocation list ──────────────────────────────────────────────────────
+
+/**
+ * Read the revocation list. A missing file is an empty list.
+ * @throws Error if the file cannot be parsed — callers should refuse keys then
+ */
+export function loadRevokedKeys(file: string): RevokedKey[] {
+  if (!fs.existsSync(file)) return [];
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as { revoked?: unknown };
+  if (!Array.isArray(data.revoked)) {
+    throw new Error(`Revocation list ${file} has no "revoked" array`);
+  }
+  return data.revoked as RevokedKey[];
+}
+
+/** Fingerprints on the revocation list. */
+export function loadRevokedFingerprints(file: string): Set<string> {
+  return new Set(loadRevokedKeys(file).map((r) => r.fingerprint));
+}
+
+/**
+ * Add a key fingerprint to the revocation list (0600). Revoking a key twice
+ * returns the existing entry.
+ */
+export function revokeKey(file: string, keyFingerprint: string, reason?: string): RevokedKey {
+  const fp = keyFingerprint.toLowerCase();
+  if (!FINGERPRINT.test(fp)) throw new Error(`Invalid key fingerprint: ${keyFingerprint}`);
+
+  const revoked = loadRevokedKeys(file);
+  const existing = revoked.find((r) => r.fingerprint === fp);
+  if (existing) return existing;
+
+  const entry: RevokedKey = { fingerprint: fp, revokedAt: isoNow(), ...(reason && { reason }) };
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify({ revoked: [...revoked, entry] }, null, 2) + '\n', {
+    mode: 0o600,
+  });
+  return entry;
+}
+
+// ── Server keypair rotation ──────────────────────────────────────────────
+
+/**
+ * Generate the server's next keypair in <dir>/next/ without using it yet.
+ * @throws Error if a keypair is already staged
+ */
+export function stageNextKeyBundle(dir: string): KeyBundle {
+  const nextDir = path.join(dir, NEXT_KEY_DIR);
+  if (fs.existsSync(path.join(nextDir, 'signing.key.pem'))) {
+    throw new Error(`A keypair is already staged in ${nextDir}`);
+  }
+  const bundle = generateKeyBundle();
+  saveKeyBundle(bundle, nextDir);
+  return bundle;
+}
+
+/**
+ * Make the staged keypair the server's keypair, moving the current one to
+ * <dir>/retired/<timestamp>/. Returns the directory of the retired keypair.
+ * @throws Error if no keypair is staged
+ */
+export function promoteNextKeyBundle(dir: string, now: number = Date.now()): string {
+  const nextDir = path.join(dir, NEXT_KEY_DIR);
+  if (!fs.existsSync(path.join(nextDir, 'signing.key.pem'))) {
+    throw new Error(`No keypair staged in ${nextDir}`);
+  }
+
+  const retiredDir = path.join(
+    dir,
+    RETIRED_KEY_DIR,
+    new Date(now).toISOString().replace(/[:.]/g, '-'),
+  );
+  fs.mkdirSync(retiredDir, { recursive: true, mode: 0o700 });
+  for (const file of KEY_FILES) {
+    if (fs.existsSync(path.join(dir, file))) {
+      fs.renameSync(path.join(dir, file), path.join(retiredDir, file));
+    }
+    fs.renameSync(path.join(nextDir, file), path.join(dir, file));
+  }
+  fs.rmSync(nextDir, { recursive: true, force: true });
+  return retiredDir;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function checkKeyId(id: string): string {
+  if (!KEY_ID.test(id)) throw new Error(`Invalid key ID: ${id}`);
+  return id;
+}
+
+function isoNow(): string {
+  return new Date().toISOString();
+}
+
+function readManifest(dir: string): ManifestEntry[] {
+  const file = path.join(dir, KEY_MANIFEST_FILE);
+  if (!fs.existsSync(file)) return [];
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as { keys?: unknown };
+  if (!Array.isArray(data.keys)) throw new Error(`${file} has no "keys" array`);
+  return data.keys as ManifestEntry[];
+}
+
+function writeManifest(dir: string, entries: ManifestEntry[]): void {
+  fs.writeFileSync(
+    path.join(dir, KEY_MANIFEST_FILE),
+    JSON.stringify({ keys: entries }, null, 2) + '\n',
+    { mode: 0o644 },
+  );
+}
+
+function toManifestWindow(window: KeyWindow): Pick<ManifestEntry, 'notBefore' | 'notAfter'> {
+  return {
+    ...(window.notBefore !== undefined && { notBefore: new Date(window.notBefore).toISOString() }),
+    ...(window.notAfter !== undefined && { notAfter: new Date(window.notAfter).toISOString() }),
+  };
+}
+
+function toPeerKey(entry: ManifestEntry, keys: PublicKeyBundle, dir: string): PeerKey {
+  const parse = (field: 'notBefore' | 'notAfter'): number | undefined => {
+    const value = entry[field];
+    if (value === undefined) return undefined;
+    const ms = Date.parse(value);
+    if (Number.isNaN(ms)) {
+      throw new Error(`Invalid ${field} for key "${entry.id}" in ${dir}: ${value}`);
+    }
+    return ms;
+  };
+  const notBefore = parse('notBefore');
+  const notAfter = parse('notAfter');
+  return {
+    id: entry.id,
+    keys,
+    fingerprint: fingerprint(keys),
+    ...(notBefore !== undefined && { notBefore }),
+    ...(notAfter !== undefined && { notAfter }),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Endpoint patterns — the glob syntax of a route's `allowedEndpoints` and of
+ * policy rule `endpoints`.
+ *
+ * Shared so the MCP proxy matches URLs against a remote's routes exactly the
+ * way the remote server does.
+ */
+
+/**
+ * Whether a URL matches any of the glob patterns.
+ * `*` matches anything within a path segment, `**` matches across segments.
+ * An empty pattern list allows everything.
+ */
+export function isEndpointAllowed(url: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return true; // no restrictions if empty
+  return patterns.some((pattern) => {
+    // Support simple glob patterns: * matches anything within a segment, ** matches across segments
+    const regex = new RegExp(
+      '^' +
+        pattern
+          .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*\*/g, '.__DOUBLE_STAR__.')
+          .replace(/\*/g, '[^/]*')
+          .replace(/\.__DOUBLE_STAR__\./g, '.*') +
+        '$',
+    );
+    return regex.test(url);
+  });
+}
+
+/**
+ * The URL as `fetch` will send it: dot segments (including `%2e%2e`)
+ * collapsed, scheme and host lowercased. Allowlists and policy rules must be
+ * matched against this form — otherwise `/user/../repos/x` slips past a
+ * `/repos/**` deny rule and still lands on `/repos/x`.
+ *
+ * @throws TypeError if the URL does not parse
+ */
+export function normalizeUrl(url: string): string {
+  return new URL(url).href;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBody, isTextContentType } from './body.js';
+
+describe('isTextContentType', () => {
+  it.each([
+    'text/plain',
+    'text/html; charset=utf-8',
+    'application/json',
+    'application/xml',
+    'application/vnd.github+json',
+    'application/atom+xml',
+    'application/x-www-form-urlencoded',
+    'APPLICATION/JSON',
+  ])('should treat %s as text', (contentType) => {
+    expect(isTextContentType(contentType)).toBe(true);
+  });
+
+  it.each(['image/png', 'application/pdf', 'application/zip', 'application/octet-stream', ''])(
+    'should not treat "%s" as text',
+    (contentType) => {
+      expect(isTextContentType(contentType)).toBe(false);
+    },
+  );
+});
+
+describe('decodeBody', () => {
+  it('should parse JSON bodies', () => {
+    expect(decodeBody(Buffer.from('{"a":1}'), 'application/json; charset=utf-8')).toEqual({
+      body: { a: 1 },
+    });
+  });
+
+  it('should return text bodies as strings', () => {
+    expect(decodeBody(Buffer.from('<p>hi</p>'), 'text/html')).toEqual({ body: '<p>hi</p>' });
+  });
+
+  it('should base64-encode binary bodies', () => {
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+    expect(decodeBody(bytes, 'image/png')).toEqual({
+      body: bytes.toString('base64'),
+      bodyEncoding: 'base64',
+    });
+  });
+
+  it('should sniff bodies without a content type', () => {
+    expect(decodeBody(Buffer.from('plain'), '')).toEqual({ body: 'plain' });
+    expect(decodeBody(Buffer.from([0xff, 0xfe, 0x00]), '')).toEqual({
+      body: '//4A',
+      bodyEncoding: 'base64',
+    });
+  });
+
+  it('should respect the byte range of a view', () => {
+    const backing = Buffer.from('xxhelloxx');
+    expect(decodeBody(backing.subarray(2, 7), 'text/plain')).toEqual({ body: 'hello' });
+  });
+
+  it('should fall back to text when a JSON body does not parse', () => {
+    expect(decodeBody(Buffer.from('{nope'), 'application/json')).toEqual({ body: '{nope' });
+    expect(decodeBody(Buffer.alloc(0), 'application/json')).toEqual({ body: '' });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Body encoding rules for proxied HTTP requests and responses.
+ *
+ * Everything crossing the encrypted channel is JSON, so binary payloads
+ * (images, PDFs, archives, protobuf) travel as base64 strings tagged with
+ * `bodyEncoding: 'base64'`. Text stays a plain string and JSON stays parsed,
+ * which keeps the common case readable for the agent.
+ */
+
+/** How a body is represented inside a JSON message. Absent means plain text / JSON. */
+export type BodyEncoding = 'base64';
+
+/** A response body decoded for transport over the encrypted channel. */
+export interface DecodedBody {
+  /** Parsed JSON, a string, or a base64 string when `bodyEncoding` is set */
+  body: unknown;
+  bodyEncoding?: BodyEncoding;
+}
+
+const TEXT_APPLICATION_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/ecmascript',
+  'application/x-www-form-urlencoded',
+  'application/graphql',
+  'application/yaml',
+  'application/x-yaml',
+  'application/x-ndjson',
+  'application/ld+json',
+  'application/sql',
+]);
+
+/**
+ * Whether a Content-Type denotes text that is safe to decode as UTF-8.
+ *
+ * Matches `text/*`, common textual `application/*` types, and structured
+ * syntax suffixes (`+json`, `+xml`). Parameters such as `charset` are ignored.
+ */
+export function isTextContentType(contentType: string): boolean {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (!mediaType) return false;
+  if (mediaType.startsWith('text/')) return true;
+  if (TEXT_APPLICATION_TYPES.has(mediaType)) return true;
+  return mediaType.endsWith('+json') || mediaType.endsWith('+xml');
+}
+
+/**
+ * Decode a raw upstream body according to its Content-Type:
+ * - `application/json` → parsed value, or the raw text when it does not
+ *   parse (an empty 204 body, an error page mislabelled as JSON)
+ * - other text types → UTF-8 string
+ * - anything else → base64 with `bodyEncoding: 'base64'`
+ *
+ * Without a Content-Type the body is returned as text when it is valid
+ * UTF-8, and as base64 otherwise.
+ */
+export function decodeBody(data: Uint8Array, contentType: string): DecodedBody {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (contentType.includes('application/json')) {
+    const text = buf.toString('utf-8');
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      return { body: text };
+    }
+  }
+  if (isTextContentType(contentType)) {
+    return { body: buf.toString('utf-8') };
+  }
+  if (!contentType.trim()) {
+    try {
+      return { body: new TextDecoder('utf-8', { fatal: true }).decode(buf) };
+    } catch {
+      // Not valid UTF-8 — fall through to base64
+    }
+  }
+  return { body: buf.toString('base64'), bodyEncoding: 'base64' };
+}
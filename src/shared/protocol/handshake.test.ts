@@ -94,6 +94,28 @@ describe('HandshakeInitiator', () => {
     // Initiator should reject — reply is signed by imposter, not the expected responder
     expect(() => initiator.processReply(reply)).toThrow('responder signature invalid');
   });
+
+  it('should accept a reply signed by any of several responder keys (key rotation)', () => {
+    const initiatorKeys = generateKeyBundle();
+    const oldResponderKeys = generateKeyBundle();
+    const newResponderKeys = generateKeyBundle();
+    const initiatorPub = extractPublicKeys(initiatorKeys);
+    const accepted = [extractPublicKeys(oldResponderKeys), extractPublicKeys(newResponderKeys)];
+
+    for (const responderKeys of [oldResponderKeys, newResponderKeys]) {
+      const initiator = new HandshakeInitiator(initiatorKeys, accepted);
+      const init = initiator.createInit();
+      const responder = new HandshakeResponder(responderKeys, [initiatorPub]);
+      const { reply } = responder.processInit(init);
+      expect(initiator.processReply(reply).sessionId).toBe(responder.deriveKeys(init).sessionId);
+    }
+
+    const stale = new HandshakeInitiator(initiatorKeys, [accepted[0]]);
+    const { reply } = new HandshakeResponder(newResponderKeys, [initiatorPub]).processInit(
+      stale.createInit(),
+    );
+    expect(() => stale.processReply(reply)).toThrow('responder signature invalid');
+  });
 });
 
 describe('HandshakeResponder', () => {
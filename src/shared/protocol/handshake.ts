@@ -93,19 +93,52 @@ function verifySignature(
   return crypto.verify(null, combined, publicKey, signature);
 }
 
+/**
+ * Build the finish message: a "ready" payload encrypted with freshly derived
+ * keys, proving the initiator derived the same keys as the responder.
+ * Shared by the full handshake and session resumption.
+ */
+export function createFinishMessage(keys: SessionKeys): HandshakeFinish {
+  const channel = new EncryptedChannel(keys);
+
+  const readyPayload = channel.encrypt(
+    Buffer.from(JSON.stringify({ status: 'ready', timestamp: Date.now() }), 'utf-8'),
+  );
+
+  return {
+    type: 'handshake_finish',
+    payload: readyPayload.toString('hex'),
+  };
+}
+
+/** Check a finish message against the responder's session keys. */
+export function verifyFinishMessage(finish: HandshakeFinish, keys: SessionKeys): boolean {
+  const channel = new EncryptedChannel(keys);
+
+  try {
+    const payload = channel.decrypt(Buffer.from(finish.payload, 'hex'));
+    const parsed = JSON.parse(payload.toString('utf-8'));
+    return parsed.status === 'ready';
+  } catch {
+    return false;
+  }
+}
+
 // ── Initiator (MCP Proxy side) ─────────────────────────────────────────────
 
 export class HandshakeInitiator {
   private ephemeral: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject };
   private nonceI: Buffer;
   private transcript: Buffer[] = [];
+  private readonly peerPublicKeys: PublicKeyBundle[];
 
   constructor(
     /** Our full key bundle */
     private readonly ownKeys: KeyBundle,
-    /** The remote server's known public keys */
-    private readonly peerPublicKeys: PublicKeyBundle,
+    /** The remote server's known public keys — several while its keypair is being rotated */
+    peerPublicKeys: PublicKeyBundle | PublicKeyBundle[],
   ) {
+    this.peerPublicKeys = Array.isArray(peerPublicKeys) ? peerPublicKeys : [peerPublicKeys];
     this.ephemeral = crypto.generateKeyPairSync('x25519');
     this.nonceI = crypto.randomBytes(32);
   }
@@ -147,12 +180,15 @@ export class HandshakeInitiator {
     this.transcript.push(Buffer.from(JSON.stringify(reply), 'utf-8'));
 
     // Verify responder's signature over (ephemeralPubKey || nonceR || nonceI)
-    const sigValid = verifySignature(
-      this.peerPublicKeys.signing,
-      Buffer.from(reply.signature, 'hex'),
-      reply.ephemeralPubKey,
-      Buffer.from(reply.nonceR, 'hex'),
-      this.nonceI,
+    // with any of its accepted keys
+    const sigValid = this.peerPublicKeys.some((peer) =>
+      verifySignature(
+        peer.signing,
+        Buffer.from(reply.signature, 'hex'),
+        reply.ephemeralPubKey,
+        Buffer.from(reply.nonceR, 'hex'),
+        this.nonceI,
+      ),
     );
 
     if (!sigValid) {
@@ -179,16 +215,7 @@ export class HandshakeInitiator {
    * Create the finish message (encrypted with the newly derived keys).
    */
   createFinish(keys: SessionKeys): HandshakeFinish {
-    const channel = new EncryptedChannel(keys);
-
-    const readyPayload = channel.encrypt(
-      Buffer.from(JSON.stringify({ status: 'ready', timestamp: Date.now() }), 'utf-8'),
-    );
-
-    return {
-      type: 'handshake_finish',
-      payload: readyPayload.toString('hex'),
-    };
+    return createFinishMessage(keys);
   }
 }
 
@@ -300,14 +327,6 @@ export class HandshakeResponder {
    * Step 4: Verify the finish message to confirm the initiator derived the right keys.
    */
   verifyFinish(finish: HandshakeFinish, keys: SessionKeys): boolean {
-    const channel = new EncryptedChannel(keys);
-
-    try {
-      const payload = channel.decrypt(Buffer.from(finish.payload, 'hex'));
-      const parsed = JSON.parse(payload.toString('utf-8'));
-      return parsed.status === 'ready';
-    } catch {
-      return false;
-    }
+    return verifyFinishMessage(finish, keys);
   }
 }
@@ -5,12 +5,61 @@ export {
   type HandshakeMessage,
   HandshakeInitiator,
   HandshakeResponder,
+  createFinishMessage,
+  verifyFinishMessage,
 } from './handshake.js';
 
+export {
+  REKEY_AFTER_MESSAGES,
+  REKEY_AFTER_MS,
+  REKEY_GRACE_MS,
+  RekeyInitiator,
+  respondToRekey,
+} from './rekey.js';
+
+export {
+  type ResumeInit,
+  type ResumeReply,
+  type SessionTicket,
+  type TicketContents,
+  SESSION_TICKET_LIFETIME_MS,
+  deriveTicketKey,
+  issueTicket,
+  openTicket,
+  ResumptionInitiator,
+  ResumptionResponder,
+} from './resumption.js';
+
 export {
   type ProxyRequest,
   type ProxyResponse,
+  type ProxyStreamStart,
+  type ProxyStreamChunk,
+  type ProxyStreamEnd,
+  type ProxyStreamMessage,
+  type EventSubscribe,
+  type EventPush,
+  type EventHeartbeat,
+  type EventStreamEnd,
+  type EventStreamMessage,
   type PingMessage,
   type PongMessage,
+  type RekeyRequest,
+  type RekeyResponse,
   type AppMessage,
 } from './messages.js';
+
+export {
+  STREAM_CONTENT_TYPE,
+  MAX_FRAME_SIZE,
+  STREAM_CHUNK_SIZE,
+  encodeFrame,
+  FrameDecoder,
+  readProxyStream,
+  type ReassembledStream,
+  EVENT_HEARTBEAT_INTERVAL,
+  EVENT_STREAM_MAX_BUFFERED,
+  readEventStream,
+} from './stream.js';
+
+export { type BodyEncoding, type DecodedBody, isTextContentType, decodeBody } from './body.js';
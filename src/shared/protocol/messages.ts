@@ -5,6 +5,8 @@
  * as hex-encoded payloads over the HTTP transport.
  */
 
+import type { IngestedEvent } from '../../remote/ingestors/types.js';
+
 /** Request from MCP proxy → remote server */
 export interface ProxyRequest {
   type: 'proxy_request';
@@ -33,7 +35,109 @@ export interface ProxyResponse {
   timestamp: number;
 }
 
-/** Ping to keep the connection alive / verify the channel */
+/**
+ * First frame of a streamed response (remote server → MCP proxy).
+ *
+ * Sent when a tool handler opts into streaming (e.g., `http_request` with
+ * `stream: true`). Carries the upstream status line and headers; the body
+ * follows as a sequence of ProxyStreamChunk frames and a final ProxyStreamEnd.
+ */
+export interface ProxyStreamStart {
+  type: 'proxy_stream_start';
+  /** Correlates to ProxyRequest.id */
+  id: string;
+  /** Upstream HTTP status code */
+  status: number;
+  /** Upstream HTTP status text */
+  statusText: string;
+  /** Upstream response headers */
+  headers: Record<string, string>;
+  /** Timestamp */
+  timestamp: number;
+}
+
+/** A slice of the upstream response body within a streamed response */
+export interface ProxyStreamChunk {
+  type: 'proxy_stream_chunk';
+  /** Correlates to ProxyRequest.id */
+  id: string;
+  /** Zero-based chunk sequence number (lets the receiver detect gaps) */
+  seq: number;
+  /** Base64-encoded body bytes */
+  data: string;
+}
+
+/** Final frame of a streamed response */
+export interface ProxyStreamEnd {
+  type: 'proxy_stream_end';
+  /** Correlates to ProxyRequest.id */
+  id: string;
+  /** Number of chunk frames sent */
+  chunks: number;
+  /** Total body bytes sent across all chunks */
+  totalBytes: number;
+  /** Set when the upstream body failed mid-stream */
+  error?: string;
+  /** Timestamp */
+  timestamp: number;
+}
+
+/**
+ * Opens a push subscription on `/events` (MCP proxy → remote server).
+ *
+ * The response is a framed stream (see stream.ts) of EventStreamMessages that
+ * stays open until either side closes it.
+ */
+export interface EventSubscribe {
+  type: 'event_subscribe';
+  /** Subscription ID — every frame on the stream carries it */
+  id: string;
+  /** Only push events from this connection alias (default: all of the caller's ingestors) */
+  connection?: string;
+  /** First replay buffered events with id > afterId (catch-up after a reconnect) */
+  afterId?: number;
+  /** Timestamp */
+  timestamp: number;
+}
+
+/** One ingested event pushed on an `/events` stream */
+export interface EventPush {
+  type: 'event_push';
+  /** Correlates to EventSubscribe.id */
+  id: string;
+  /** Zero-based sequence number of pushed events (lets the receiver detect gaps) */
+  seq: number;
+  event: IngestedEvent;
+}
+
+/** Sent on an idle `/events` stream so both sides can detect a dead connection */
+export interface EventHeartbeat {
+  type: 'event_heartbeat';
+  /** Correlates to EventSubscribe.id */
+  id: string;
+  /** Timestamp */
+  timestamp: number;
+}
+
+/** Final frame of an `/events` stream closed by the remote server */
+export interface EventStreamEnd {
+  type: 'event_stream_end';
+  /** Correlates to EventSubscribe.id */
+  id: string;
+  /**
+   * Why the stream ended — "session_closed" means a new handshake is needed,
+   * "rekeyed" that the session keys were replaced and the stream should be
+   * reopened with the new ones, "slow_consumer" that the client fell too far
+   * behind reading it and should reopen it from the last event it received
+   */
+  reason: 'session_closed' | 'rekeyed' | 'slow_consumer' | 'shutdown';
+  /** Timestamp */
+  timestamp: number;
+}
+
+export type EventStreamMessage = EventPush | EventHeartbeat | EventStreamEnd;
+
+/** Ping to keep the connection alive / verify the channel (MCP proxy → remote server, on `/ping`) */
 export interface PingMessage {
   type: 'ping';
   timestamp: number;
@@ -47,4 +151,40 @@ export interface PongMessage {
   echoTimestamp: number;
 }
 
-export type AppMessage = ProxyRequest | ProxyResponse | PingMessage | PongMessage;
+/**
+ * Asks the remote server to replace the session keys (MCP proxy → remote
+ * server, on `/rekey`). Sent under the current keys; see rekey.ts.
+ */
+export interface RekeyRequest {
+  type: 'rekey';
+  /** Initiator's fresh ephemeral X25519 public key (PEM) */
+  ephemeralPubKey: string;
+  /** Random nonce (32 bytes, hex) */
+  nonce: string;
+  /** Timestamp */
+  timestamp: number;
+}
+
+/** Accepts a RekeyRequest — both sides then switch to the new keys */
+export interface RekeyResponse {
+  type: 'rekey_ack';
+  /** Responder's fresh ephemeral X25519 public key (PEM) */
+  ephemeralPubKey: string;
+  /** Random nonce (32 bytes, hex) */
+  nonce: string;
+  /** Timestamp */
+  timestamp: number;
+}
+
+export type ProxyStreamMessage = ProxyStreamStart | ProxyStreamChunk | ProxyStreamEnd;
+
+export type AppMessage =
+  | ProxyRequest
+  | ProxyResponse
+  | ProxyStreamMessage
+  | EventSubscribe
+  | EventStreamMessage
+  | PingMessage
+  | PongMessage
+  | RekeyRequest
+  | RekeyResponse;
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { HandshakeInitiator, HandshakeResponder } from './handshake.js';
+import { RekeyInitiator, respondToRekey } from './rekey.js';
+import { generateKeyBundle, extractPublicKeys, EncryptedChannel } from '../crypto/index.js';
+
+/** Helper: complete a handshake and return both sides' session keys */
+function handshake() {
+  const initiatorKeys = generateKeyBundle();
+  const responderKeys = generateKeyBundle();
+  const initiator = new HandshakeInitiator(initiatorKeys, extractPublicKeys(responderKeys));
+  const responder = new HandshakeResponder(responderKeys, [extractPublicKeys(initiatorKeys)]);
+
+  const init = initiator.createInit();
+  const { reply } = responder.processInit(init);
+  return { proxy: initiator.processReply(reply), remote: responder.deriveKeys(init) };
+}
+
+describe('Rekeying', () => {
+  it('should give both sides the same new keys under the same session ID', () => {
+    const { proxy, remote } = handshake();
+
+    const initiator = new RekeyInitiator(proxy);
+    const { response, keys: remoteKeys } = respondToRekey(remote, initiator.createRequest());
+    const proxyKeys = initiator.processResponse(response);
+
+    expect(proxyKeys.sessionId).toBe(proxy.sessionId);
+    expect(remoteKeys.sessionId).toBe(proxy.sessionId);
+    expect(proxyKeys.sendKey.encryptionKey.equals(remoteKeys.recvKey.encryptionKey)).toBe(true);
+    expect(proxyKeys.sendKey.encryptionKey.equals(proxy.sendKey.encryptionKey)).toBe(false);
+
+    const proxyChannel = new EncryptedChannel(proxyKeys);
+    const remoteChannel = new EncryptedChannel(remoteKeys);
+    expect(remoteChannel.decryptJSON(proxyChannel.encryptJSON({ n: 1 }))).toEqual({ n: 1 });
+    expect(proxyChannel.decryptJSON(remoteChannel.encryptJSON({ n: 2 }))).toEqual({ n: 2 });
+
+    // The old keys cannot read traffic under the new ones
+    expect(() =>
+      new EncryptedChannel(remote).decrypt(proxyChannel.encrypt(Buffer.from('x'))),
+    ).toThrow('authentication tag mismatch');
+  });
+
+  it('should derive different keys from each rekey', () => {
+    const { proxy, remote } = handshake();
+    const rekey = () => {
+      const initiator = new RekeyInitiator(proxy);
+      return initiator.processResponse(respondToRekey(remote, initiator.createRequest()).response);
+    };
+
+    expect(rekey().sendKey.encryptionKey.equals(rekey().sendKey.encryptionKey)).toBe(false);
+  });
+
+  it('should reject malformed messages', () => {
+    const { proxy, remote } = handshake();
+    const initiator = new RekeyInitiator(proxy);
+    const request = initiator.createRequest();
+
+    expect(() => respondToRekey(remote, { ...request, nonce: 'short' })).toThrow(
+      'malformed rekey message',
+    );
+    expect(() => initiator.processResponse({ ...request, type: 'rekey' } as never)).toThrow(
+      'unexpected message type rekey',
+    );
+    expect(() => new RekeyInitiator(proxy).processResponse({} as never)).toThrow(
+      'Must call createRequest() first',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Proactive rekeying of an established session.
+ *
+ * A session could otherwise keep the keys from its handshake for as long as it
+ * stays active. The MCP proxy therefore replaces them after a number of
+ * messages or an amount of time, whichever comes first, with a fresh X25519
+ * exchange carried over the existing channel:
+ *
+ *   Initiator (MCP Proxy)                    Responder (Remote Server)
+ *   ──────────────────────                    ────────────────────────
+ *
+ *   1. Generate ephemeral X25519 keypair
+ *      ──── RekeyRequest (encrypted, old keys) ──►  POST /rekey
+ *                                             2. Generate ephemeral X25519 keypair
+ *                                             ◄──── RekeyResponse (encrypted, old keys)
+ *   3. Both: ECDH(ephemeral_i, ephemeral_r) → shared secret
+ *      Both: HKDF(shared_secret || old resumption secret,
+ *                 SHA-256(session ID || request || response)) → new keys
+ *
+ * Both messages are authenticated by the old keys, so only the two peers can
+ * take part, and the new keys depend on both the fresh exchange and the
+ * previous keys. The session ID stays the same. The remote server switches
+ * once the first message under the new keys arrives, so a lost response
+ * leaves the old keys in use, and keeps the old keys for a short grace period
+ * so requests already in flight can still be read; `/events` streams are ended
+ * with reason "rekeyed" and reopened.
+ */
+
+import crypto from 'node:crypto';
+import { deriveSessionKeys, type SessionKeys } from '../crypto/index.js';
+import type { RekeyRequest, RekeyResponse } from './messages.js';
+
+/** Rekey after this many messages on one set of keys (sent + received). */
+export const REKEY_AFTER_MESSAGES = 10_000;
+
+/** Rekey once a set of keys is this old (1 hour). */
+export const REKEY_AFTER_MS = 60 * 60 * 1000;
+
+/** How long the remote server still accepts requests under replaced keys (1 minute). */
+export const REKEY_GRACE_MS = 60 * 1000;
+
+const NONCE = /^[0-9a-f]{64}$/;
+
+function exportPublicKey(key: crypto.KeyObject): string {
+  return key.export({ type: 'spki', format: 'pem' });
+}
+
+/** Reject malformed rekey messages before touching key material. */
+function checkRekeyMessage(
+  message: RekeyRequest | RekeyResponse,
+  type: (RekeyRequest | RekeyResponse)['type'],
+): void {
+  if (message.type !== type) {
+    throw new Error(`Rekey failed: unexpected message type ${message.type}`);
+  }
+  if (typeof message.ephemeralPubKey !== 'string' || !NONCE.test(message.nonce)) {
+    throw new Error(`Rekey failed: malformed ${type} message`);
+  }
+}
+
+/** Derive the keys that replace `current`, keeping its session ID. */
+function deriveRekeyedKeys(
+  current: SessionKeys,
+  sharedSecret: Buffer,
+  isInitiator: boolean,
+  request: RekeyRequest,
+  response: RekeyResponse,
+): SessionKeys {
+  const transcriptHash = crypto
+    .createHash('sha256')
+    .update(current.sessionId)
+    .update(JSON.stringify(request))
+    .update(JSON.stringify(response))
+    .digest();
+
+  const keys = deriveSessionKeys(
+    Buffer.concat([sharedSecret, current.resumptionSecret]),
+    isInitiator,
+    transcriptHash,
+  );
+  return { ...keys, sessionId: current.sessionId };
+}
+
+// ── Initiator (MCP Proxy side) ─────────────────────────────────────────────
+
+export class RekeyInitiator {
+  private readonly ephemeral = crypto.generateKeyPairSync('x25519');
+  private request: RekeyRequest | null = null;
+
+  constructor(
+    /** The keys currently in use */
+    private readonly current: SessionKeys,
+  ) {}
+
+  /**
+   * Step 1: Create the rekey request (to be encrypted with the current keys).
+   */
+  createRequest(): RekeyRequest {
+    this.request = {
+      type: 'rekey',
+      ephemeralPubKey: exportPublicKey(this.ephemeral.publicKey),
+      nonce: crypto.randomBytes(32).toString('hex'),
+      timestamp: Date.now(),
+    };
+    return this.request;
+  }
+
+  /**
+   * Step 3: Derive the new keys from the responder's (decrypted) response.
+   */
+  processResponse(response: RekeyResponse): SessionKeys {
+    if (!this.request) {
+      throw new Error('Must call createRequest() first');
+    }
+    checkRekeyMessage(response, 'rekey_ack');
+
+    const sharedSecret = crypto.diffieHellman({
+      privateKey: this.ephemeral.privateKey,
+      publicKey: crypto.createPublicKey(response.ephemeralPubKey),
+    });
+    return deriveRekeyedKeys(this.current, sharedSecret, true, this.request, response);
+  }
+}
+
+// ── Responder (Remote Server side) ──────────────────────────────────────────
+
+/**
+ * Step 2: Answer a (decrypted) rekey request and derive the new keys.
+ * The response must still be encrypted with the current keys.
+ */
+export function respondToRekey(
+  current: SessionKeys,
+  request: RekeyRequest,
+): { response: RekeyResponse; keys: SessionKeys } {
+  checkRekeyMessage(request, 'rekey');
+
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const response: RekeyResponse = {
+    type: 'rekey_ack',
+    ephemeralPubKey: exportPublicKey(ephemeral.publicKey),
+    nonce: crypto.randomBytes(32).toString('hex'),
+    timestamp: Date.now(),
+  };
+
+  const sharedSecret = crypto.diffieHellman({
+    privateKey: ephemeral.privateKey,
+    publicKey: crypto.createPublicKey(request.ephemeralPubKey),
+  });
+  return { response, keys: deriveRekeyedKeys(current, sharedSecret, false, request, response) };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { HandshakeInitiator, HandshakeResponder } from './handshake.js';
+import {
+  SESSION_TICKET_LIFETIME_MS,
+  deriveTicketKey,
+  issueTicket,
+  openTicket,
+  ResumptionInitiator,
+  ResumptionResponder,
+  type SessionTicket,
+} from './resumption.js';
+import { generateKeyBundle, extractPublicKeys, EncryptedChannel } from '../crypto/index.js';
+
+const serverKeys = generateKeyBundle();
+const ticketKey = deriveTicketKey(serverKeys);
+
+/** Helper: complete a full handshake and return the proxy's ticket */
+function ticketFromHandshake(now = Date.now()): SessionTicket {
+  const clientKeys = generateKeyBundle();
+  const initiator = new HandshakeInitiator(clientKeys, extractPublicKeys(serverKeys));
+  const responder = new HandshakeResponder(serverKeys, [extractPublicKeys(clientKeys)]);
+
+  const init = initiator.createInit();
+  const { reply } = responder.processInit(init);
+  const proxyKeys = initiator.processReply(reply);
+  const remoteKeys = responder.deriveKeys(init);
+
+  const { ticket, expiresAt } = issueTicket(ticketKey, remoteKeys, 'alice', 'aa:bb', now);
+  return { ticket, resumptionSecret: proxyKeys.resumptionSecret, expiresAt };
+}
+
+describe('Session tickets', () => {
+  it('should be derived from the server keypair', () => {
+    expect(deriveTicketKey(serverKeys).equals(ticketKey)).toBe(true);
+    expect(deriveTicketKey(generateKeyBundle()).equals(ticketKey)).toBe(false);
+  });
+
+  it('should open only with the ticket key, and only before expiry', () => {
+    const now = Date.now();
+    const { ticket, expiresAt } = ticketFromHandshake(now);
+
+    expect(expiresAt).toBe(now + SESSION_TICKET_LIFETIME_MS);
+    expect(openTicket(ticket, ticketKey, now)).toMatchObject({
+      caller: 'alice',
+      keyFingerprint: 'aa:bb',
+      expiresAt,
+    });
+    expect(() => openTicket(ticket, deriveTicketKey(generateKeyBundle()), now)).toThrow(
+      'Resumption failed: invalid ticket',
+    );
+    expect(() => openTicket(ticket, ticketKey, expiresAt)).toThrow(
+      'Resumption failed: ticket expired',
+    );
+    expect(() => openTicket('AAAA', ticketKey)).toThrow('Resumption failed: invalid ticket');
+  });
+});
+
+describe('Session resumption', () => {
+  it('should establish a new session from a ticket', () => {
+    const ticket = ticketFromHandshake();
+    const initiator = new ResumptionInitiator(ticket);
+    const responder = new ResumptionResponder(ticketKey);
+
+    const init = initiator.createInit();
+    const { reply, ticket: contents } = responder.processInit(init);
+    expect(contents.caller).toBe('alice');
+
+    const proxyKeys = initiator.processReply(reply);
+    const remoteKeys = responder.deriveKeys(init);
+    expect(proxyKeys.sessionId).toBe(remoteKeys.sessionId);
+    expect(responder.verifyFinish(initiator.createFinish(proxyKeys), remoteKeys)).toBe(true);
+
+    const proxyChannel = new EncryptedChannel(proxyKeys);
+    const remoteChannel = new EncryptedChannel(remoteKeys);
+    expect(remoteChannel.decryptJSON(proxyChannel.encryptJSON({ n: 1 }))).toEqual({ n: 1 });
+  });
+
+  it('should refuse a ticket presented without its resumption secret', () => {
+    const ticket = ticketFromHandshake();
+    const stolen = new ResumptionInitiator({ ...ticket, resumptionSecret: Buffer.alloc(32) });
+
+    expect(() => new ResumptionResponder(ticketKey).processInit(stolen.createInit())).toThrow(
+      'Resumption failed: initiator binder invalid',
+    );
+  });
+
+  it('should refuse a reply from a server that cannot open the ticket', () => {
+    const ticket = ticketFromHandshake();
+    const initiator = new ResumptionInitiator(ticket);
+    const init = initiator.createInit();
+    const { reply } = new ResumptionResponder(ticketKey).processInit(init);
+
+    expect(() => initiator.processReply({ ...reply, binder: '00'.repeat(32) })).toThrow(
+      'Resumption failed: responder binder invalid',
+    );
+    expect(() =>
+      new ResumptionResponder(deriveTicketKey(generateKeyBundle())).processInit(init),
+    ).toThrow('Resumption failed: invalid ticket');
+  });
+
+  it('should produce different session keys on each resumption', () => {
+    const ticket = ticketFromHandshake();
+    const resume = () => {
+      const initiator = new ResumptionInitiator(ticket);
+      return initiator.processReply(
+        new ResumptionResponder(ticketKey).processInit(initiator.createInit()).reply,
+      );
+    };
+
+    expect(resume().sessionId).not.toBe(resume().sessionId);
+  });
+});
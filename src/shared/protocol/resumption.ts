@@ -0,0 +1,353 @@
+/**
+ * Session resumption with tickets.
+ *
+ * After a full handshake the remote server hands the MCP proxy a session
+ * ticket: the caller, its key fingerprint and the session's resumption secret,
+ * sealed with AES-256-GCM under a key only the server can derive (from its own
+ * signing key). The server keeps no per-ticket state beyond the tickets
+ * already used, so tickets survive a server restart and stop working once its
+ * keypair is rotated.
+ *
+ * When its session is gone (idle expiry, server restart) the proxy presents
+ * the ticket instead of repeating the Ed25519 handshake. Possession of the
+ * resumption secret is proven with HMAC binders, and a fresh X25519 exchange
+ * keeps forward secrecy:
+ *
+ *   Initiator (MCP Proxy)                    Responder (Remote Server)
+ *   ──────────────────────                    ────────────────────────
+ *
+ *   1. Generate ephemeral X25519 keypair
+ *      binder_i = HMAC(resumption_secret, ticket || ephemeral_pub || nonce_i)
+ *      ──── ResumeInit ────────────────────►  POST /handshake/resume
+ *                                             2. Open the ticket, check its expiry
+ *                                                Verify binder_i
+ *                                                Check the caller's key is still valid
+ *                                                Generate ephemeral X25519 keypair
+ *                                                binder_r = HMAC(resumption_secret,
+ *                                                  ephemeral_pub || nonce_r || nonce_i)
+ *                                             ◄──── ResumeReply ──────
+ *   3. Verify binder_r
+ *      Both: ECDH(ephemeral_i, ephemeral_r) → shared secret
+ *      Both: HKDF(shared_secret || resumption_secret, transcript_hash) → session keys
+ *      ──── HandshakeFinish (encrypted "ready") ──►  POST /handshake/finish
+ *
+ * A resumed session gets a new session ID and a new ticket; the server
+ * refuses a ticket it has already resumed. Anyone who only captured a ticket
+ * cannot use it: the binder needs the resumption secret.
+ */
+
+import crypto from 'node:crypto';
+import { type KeyBundle, deriveSessionKeys, type SessionKeys } from '../crypto/index.js';
+import { type HandshakeFinish, createFinishMessage, verifyFinishMessage } from './handshake.js';
+
+/** How long a session ticket can be used (12 hours). */
+export const SESSION_TICKET_LIFETIME_MS = 12 * 60 * 60 * 1000;
+
+const TICKET_IV_LENGTH = 12;
+const TICKET_AUTH_TAG_LENGTH = 16;
+const TICKET_AAD = Buffer.from('drawlatch-session-ticket-v1', 'utf-8');
+
+// ── Message types ──────────────────────────────────────────────────────────
+
+export interface ResumeInit {
+  type: 'resume_init';
+  /** The sealed ticket from the remote server */
+  ticket: string;
+  /** Initiator's ephemeral X25519 public key (PEM) */
+  ephemeralPubKey: string;
+  /** Random nonce (32 bytes, hex) */
+  nonceI: string;
+  /** HMAC over (ticket || ephemeralPubKey || nonceI), keyed with the resumption secret */
+  binder: string;
+  /** Protocol version */
+  version: 1;
+}
+
+export interface ResumeReply {
+  type: 'resume_reply';
+  /** Responder's ephemeral X25519 public key (PEM) */
+  ephemeralPubKey: string;
+  /** Random nonce (32 bytes, hex) */
+  nonceR: string;
+  /** HMAC over (ephemeralPubKey || nonceR || nonceI), keyed with the resumption secret */
+  binder: string;
+}
+
+/** A ticket as the MCP proxy keeps it. */
+export interface SessionTicket {
+  /** Sealed ticket — opaque to the proxy */
+  ticket: string;
+  /** Resumption secret of the session the ticket was issued for */
+  resumptionSecret: Buffer;
+  /** When the ticket stops being accepted (ms since epoch) */
+  expiresAt: number;
+}
+
+/** What a sealed ticket holds — readable by the remote server only. */
+export interface TicketContents {
+  /** Caller alias */
+  caller: string;
+  /** Fingerprint of the key the caller authenticated with */
+  keyFingerprint: string;
+  /** Resumption secret (hex) */
+  resumptionSecret: string;
+  /** Expiry (ms since epoch) */
+  expiresAt: number;
+}
+
+// ── Tickets (Remote Server side) ───────────────────────────────────────────
+
+/** Derive the key that seals session tickets from the server's own keypair. */
+export function deriveTicketKey(ownKeys: KeyBundle): Buffer {
+  const secret = ownKeys.signing.privateKey.export({ type: 'pkcs8', format: 'der' });
+  return Buffer.from(crypto.hkdfSync('sha256', secret, TICKET_AAD, 'session-ticket-key', 32));
+}
+
+/**
+ * Seal a ticket for a newly established session.
+ * @returns the sealed ticket (base64url) and its expiry
+ */
+export function issueTicket(
+  ticketKey: Buffer,
+  keys: SessionKeys,
+  caller: string,
+  keyFingerprint: string,
+  now: number = Date.now(),
+): { ticket: string; expiresAt: number } {
+  const contents: TicketContents = {
+    caller,
+    keyFingerprint,
+    resumptionSecret: keys.resumptionSecret.toString('hex'),
+    expiresAt: now + SESSION_TICKET_LIFETIME_MS,
+  };
+
+  const iv = crypto.randomBytes(TICKET_IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ticketKey, iv);
+  cipher.setAAD(TICKET_AAD);
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf-8'), cipher.final()]);
+  const ticket = Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString('base64url');
+  return { ticket, expiresAt: contents.expiresAt };
+}
+
+/**
+ * Open a sealed ticket.
+ * @throws Error if the ticket was not sealed with this key or has expired
+ */
+export function openTicket(
+  ticket: string,
+  ticketKey: Buffer,
+  now: number = Date.now(),
+): TicketContents {
+  const packed = Buffer.from(ticket, 'base64url');
+  if (packed.length <= TICKET_IV_LENGTH + TICKET_AUTH_TAG_LENGTH) {
+    throw new Error('Resumption failed: invalid ticket');
+  }
+
+  let contents: TicketContents;
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      ticketKey,
+      packed.subarray(0, TICKET_IV_LENGTH),
+    );
+    decipher.setAAD(TICKET_AAD);
+    decipher.setAuthTag(
+      packed.subarray(TICKET_IV_LENGTH, TICKET_IV_LENGTH + TICKET_AUTH_TAG_LENGTH),
+    );
+    const plaintext = Buffer.concat([
+      decipher.update(packed.subarray(TICKET_IV_LENGTH + TICKET_AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+    contents = JSON.parse(plaintext.toString('utf-8')) as TicketContents;
+  } catch {
+    throw new Error('Resumption failed: invalid ticket');
+  }
+
+  if (now >= contents.expiresAt) {
+    throw new Error('Resumption failed: ticket expired');
+  }
+  return contents;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function binder(secret: Buffer, ...parts: (string | Buffer)[]): Buffer {
+  const hmac = crypto.createHmac('sha256', secret);
+  for (const part of parts) hmac.update(part);
+  return hmac.digest();
+}
+
+function binderMatches(expected: Buffer, received: string): boolean {
+  const actual = Buffer.from(received, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function deriveResumedKeys(
+  sharedSecret: Buffer,
+  resumptionSecret: Buffer,
+  isInitiator: boolean,
+  init: ResumeInit,
+  reply: ResumeReply,
+): SessionKeys {
+  const transcriptHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify(init))
+    .update(JSON.stringify(reply))
+    .digest();
+  return deriveSessionKeys(
+    Buffer.concat([sharedSecret, resumptionSecret]),
+    isInitiator,
+    transcriptHash,
+  );
+}
+
+// ── Initiator (MCP Proxy side) ─────────────────────────────────────────────
+
+export class ResumptionInitiator {
+  private readonly ephemeral = crypto.generateKeyPairSync('x25519');
+  private readonly nonceI = crypto.randomBytes(32);
+  private init: ResumeInit | null = null;
+
+  constructor(private readonly ticket: SessionTicket) {}
+
+  /**
+   * Step 1: Create the resumption message.
+   */
+  createInit(): ResumeInit {
+    const ephemeralPubPem = this.ephemeral.publicKey.export({ type: 'spki', format: 'pem' });
+    this.init = {
+      type: 'resume_init',
+      ticket: this.ticket.ticket,
+      ephemeralPubKey: ephemeralPubPem,
+      nonceI: this.nonceI.toString('hex'),
+      binder: binder(
+        this.ticket.resumptionSecret,
+        this.ticket.ticket,
+        ephemeralPubPem,
+        this.nonceI,
+      ).toString('hex'),
+      version: 1,
+    };
+    return this.init;
+  }
+
+  /**
+   * Step 3: Verify the responder's binder and derive session keys.
+   */
+  processReply(reply: ResumeReply): SessionKeys {
+    if (!this.init) {
+      throw new Error('Must call createInit() first');
+    }
+
+    const expected = binder(
+      this.ticket.resumptionSecret,
+      reply.ephemeralPubKey,
+      Buffer.from(reply.nonceR, 'hex'),
+      this.nonceI,
+    );
+    if (!binderMatches(expected, reply.binder)) {
+      throw new Error('Resumption failed: responder binder invalid');
+    }
+
+    const sharedSecret = crypto.diffieHellman({
+      privateKey: this.ephemeral.privateKey,
+      publicKey: crypto.createPublicKey(reply.ephemeralPubKey),
+    });
+    return deriveResumedKeys(sharedSecret, this.ticket.resumptionSecret, true, this.init, reply);
+  }
+
+  /**
+   * Create the finish message (encrypted with the newly derived keys).
+   */
+  createFinish(keys: SessionKeys): HandshakeFinish {
+    return createFinishMessage(keys);
+  }
+}
+
+// ── Responder (Remote Server side) ──────────────────────────────────────────
+
+export class ResumptionResponder {
+  private state: {
+    ephemeral: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject };
+    resumptionSecret: Buffer;
+    reply: ResumeReply;
+  } | null = null;
+
+  constructor(
+    /** Key that sealed the tickets (see deriveTicketKey) */
+    private readonly ticketKey: Buffer,
+  ) {}
+
+  /**
+   * Step 2: Open the ticket, verify the initiator's binder and create a reply.
+   * The caller must still check that the ticket's key is valid.
+   */
+  processInit(
+    init: ResumeInit,
+    now: number = Date.now(),
+  ): { reply: ResumeReply; ticket: TicketContents } {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime validation for untrusted input regardless of static type
+    if (init.version !== 1) {
+      throw new Error(`Unsupported handshake version: ${String(init.version)}`);
+    }
+
+    const ticket = openTicket(init.ticket, this.ticketKey, now);
+    const resumptionSecret = Buffer.from(ticket.resumptionSecret, 'hex');
+
+    const expected = binder(
+      resumptionSecret,
+      init.ticket,
+      init.ephemeralPubKey,
+      Buffer.from(init.nonceI, 'hex'),
+    );
+    if (!binderMatches(expected, init.binder)) {
+      throw new Error('Resumption failed: initiator binder invalid');
+    }
+
+    const ephemeral = crypto.generateKeyPairSync('x25519');
+    const ephemeralPubPem = ephemeral.publicKey.export({ type: 'spki', format: 'pem' });
+    const nonceR = crypto.randomBytes(32);
+    const reply: ResumeReply = {
+      type: 'resume_reply',
+      ephemeralPubKey: ephemeralPubPem,
+      nonceR: nonceR.toString('hex'),
+      binder: binder(
+        resumptionSecret,
+        ephemeralPubPem,
+        nonceR,
+        Buffer.from(init.nonceI, 'hex'),
+      ).toString('hex'),
+    };
+
+    this.state = { ephemeral, resumptionSecret, reply };
+    return { reply, ticket };
+  }
+
+  /**
+   * Derive session keys after sending the reply.
+   */
+  deriveKeys(init: ResumeInit): SessionKeys {
+    if (!this.state) {
+      throw new Error('Must call processInit() first');
+    }
+
+    const sharedSecret = crypto.diffieHellman({
+      privateKey: this.state.ephemeral.privateKey,
+      publicKey: crypto.createPublicKey(init.ephemeralPubKey),
+    });
+    return deriveResumedKeys(
+      sharedSecret,
+      this.state.resumptionSecret,
+      false,
+      init,
+      this.state.reply,
+    );
+  }
+
+  /**
+   * Step 4: Verify the finish message to confirm the initiator derived the right keys.
+   */
+  verifyFinish(finish: HandshakeFinish, keys: SessionKeys): boolean {
+    return verifyFinishMessage(finish, keys);
+  }
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'node:crypto';
+import { deriveSessionKeys, EncryptedChannel } from '../crypto/index.js';
+import type { EventStreamMessage, ProxyStreamMessage } from './messages.js';
+import {
+  encodeFrame,
+  FrameDecoder,
+  MAX_FRAME_SIZE,
+  readEventStream,
+  readProxyStream,
+  type ReassembledStream,
+} from './stream.js';
+
+/** Create a connected sender (responder) / receiver (initiator) channel pair */
+function createChannels(): { sender: EncryptedChannel; receiver: EncryptedChannel } {
+  const sharedSecret = crypto.randomBytes(32);
+  const handshakeHash = crypto.randomBytes(32);
+  return {
+    sender: new EncryptedChannel(deriveSessionKeys(sharedSecret, false, handshakeHash)),
+    receiver: new EncryptedChannel(deriveSessionKeys(sharedSecret, true, handshakeHash)),
+  };
+}
+
+/** Encrypt and frame messages, then deliver them as a byte stream split at `splitEvery` */
+function toByteStream(
+  sender: EncryptedChannel,
+  messages: (ProxyStreamMessage | EventStreamMessage)[],
+  splitEvery = 7,
+): ReadableStream<Uint8Array> {
+  const bytes = Buffer.concat(messages.map((m) => encodeFrame(sender.encryptJSON(m))));
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += splitEvery) {
+        controller.enqueue(new Uint8Array(bytes.subarray(i, i + splitEvery)));
+      }
+      controller.close();
+    },
+  });
+}
+
+function streamMessages(id: string, parts: string[]): ProxyStreamMessage[] {
+  const chunks = parts.map(
+    (p, seq): ProxyStreamMessage => ({
+      type: 'proxy_stream_chunk',
+      id,
+      seq,
+      data: Buffer.from(p).toString('base64'),
+    }),
+  );
+  return [
+    { type: 'proxy_stream_start', id, status: 200, statusText: 'OK', headers: {}, timestamp: 1 },
+    ...chunks,
+    {
+      type: 'proxy_stream_end',
+      id,
+      chunks: parts.length,
+      totalBytes: parts.reduce((n, p) => n + Buffer.byteLength(p), 0),
+      timestamp: 2,
+    },
+  ];
+}
+
+describe('encodeFrame / FrameDecoder', () => {
+  it('should round-trip frames regardless of transport chunking', () => {
+    const frames = [Buffer.from('first'), Buffer.alloc(0), Buffer.from('third frame')];
+    const wire = Buffer.concat(frames.map((f) => encodeFrame(f)));
+
+    const decoder = new FrameDecoder();
+    const out: Buffer[] = [];
+    for (const byte of wire) {
+      out.push(...decoder.push(Buffer.from([byte])));
+    }
+
+    expect(out.map((f) => f.toString())).toEqual(['first', '', 'third frame']);
+    expect(decoder.bufferedBytes).toBe(0);
+  });
+
+  it('should return multiple frames from a single chunk', () => {
+    const wire = Buffer.concat([encodeFrame(Buffer.from('a')), encodeFrame(Buffer.from('b'))]);
+    const frames = new FrameDecoder().push(wire);
+    expect(frames.map((f) => f.toString())).toEqual(['a', 'b']);
+  });
+
+  it('should keep a partial frame buffered', () => {
+    const wire = encodeFrame(Buffer.from('partial'));
+    const decoder = new FrameDecoder();
+    expect(decoder.push(wire.subarray(0, 6))).toEqual([]);
+    expect(decoder.bufferedBytes).toBe(6);
+  });
+
+  it('should reject a length prefix above MAX_FRAME_SIZE', () => {
+    const prefix = Buffer.alloc(4);
+    prefix.writeUInt32BE(MAX_FRAME_SIZE + 1);
+    expect(() => new FrameDecoder().push(prefix)).toThrow('Frame too large');
+  });
+});
+
+describe('readProxyStream', () => {
+  it('should decrypt and reassemble a stream', async () => {
+    const { sender, receiver } = createChannels();
+    const progress: number[] = [];
+
+    const result: ReassembledStream = await readProxyStream(
+      toByteStream(sender, streamMessages('req-1', ['hello ', 'streamed ', 'world'])),
+      receiver,
+      'req-1',
+      ({ bytes }) => progress.push(bytes),
+    );
+
+    expect(result.start.status).toBe(200);
+    expect(result.end.chunks).toBe(3);
+    expect(result.body.toString()).toBe('hello streamed world');
+    expect(progress).toEqual([6, 15, 20]);
+  });
+
+  it('should reject frames for a different request', async () => {
+    const { sender, receiver } = createChannels();
+    await expect(
+      readProxyStream(toByteStream(sender, streamMessages('other', ['x'])), receiver, 'req-1'),
+    ).rejects.toThrow('unexpected request');
+  });
+
+  it('should reject out-of-order chunks', async () => {
+    const { sender, receiver } = createChannels();
+    const messages = streamMessages('req-1', ['a', 'b']);
+    [messages[1], messages[2]] = [messages[2], messages[1]];
+
+    await expect(
+      readProxyStream(toByteStream(sender, messages), receiver, 'req-1'),
+    ).rejects.toThrow('out of order');
+  });
+
+  it('should reject a stream that ends without an end frame', async () => {
+    const { sender, receiver } = createChannels();
+    const messages = streamMessages('req-1', ['a', 'b']).slice(0, -1);
+
+    await expect(
+      readProxyStream(toByteStream(sender, messages), receiver, 'req-1'),
+    ).rejects.toThrow('before the end frame');
+  });
+
+  it('should reject an end frame whose totals do not match', async () => {
+    const { sender, receiver } = createChannels();
+    const messages = streamMessages('req-1', ['a', 'b']);
+    messages.splice(2, 1);
+
+    await expect(
+      readProxyStream(toByteStream(sender, messages), receiver, 'req-1'),
+    ).rejects.toThrow('Stream truncated');
+  });
+});
+
+describe('readEventStream', () => {
+  function eventMessages(id: string, count: number): EventStreamMessage[] {
+    const pushes = Array.from(
+      { length: count },
+      (_, seq): EventStreamMessage => ({
+        type: 'event_push',
+        id,
+        seq,
+        event: {
+          id: seq,
+          idempotencyKey: `key-${seq}`,
+          receivedAt: '2026-01-01T00:00:00.000Z',
+          receivedAtMs: 0,
+          source: 'hook',
+          eventType: 'push',
+          data: { seq },
+        },
+      }),
+    );
+    return [
+      ...pushes,
+      { type: 'event_heartbeat', id, timestamp: 1 },
+      { type: 'event_stream_end', id, reason: 'session_closed', timestamp: 2 },
+    ];
+  }
+
+  it('should deliver every frame and return the end frame', async () => {
+    const { sender, receiver } = createChannels();
+    const types: string[] = [];
+
+    const end = await readEventStream(
+      toByteStream(sender, eventMessages('sub-1', 2)),
+      receiver,
+      'sub-1',
+      (m) => types.push(m.type),
+    );
+
+    expect(types).toEqual(['event_push', 'event_push', 'event_heartbeat', 'event_stream_end']);
+    expect(end?.reason).toBe('session_closed');
+  });
+
+  it('should return undefined when the stream closes without an end frame', async () => {
+    const { sender, receiver } = createChannels();
+    const messages = eventMessages('sub-1', 1).slice(0, -1);
+
+    expect(
+      await readEventStream(toByteStream(sender, messages), receiver, 'sub-1', () => undefined),
+    ).toBeUndefined();
+  });
+
+  it('should reject skipped events and frames after the end', async () => {
+    const { sender, receiver } = createChannels();
+    const skipped = eventMessages('sub-1', 3);
+    skipped.splice(1, 1);
+    await expect(
+      readEventStream(toByteStream(sender, skipped), receiver, 'sub-1', () => undefined),
+    ).rejects.toThrow('Event out of order');
+
+    const trailing = eventMessages('sub-1', 0);
+    trailing.push(trailing[0]);
+    const second = createChannels();
+    await expect(
+      readEventStream(
+        toByteStream(second.sender, trailing),
+        second.receiver,
+        'sub-1',
+        () => undefined,
+      ),
+    ).rejects.toThrow('after end');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Framing for streamed responses over the encrypted channel.
+ *
+ * A streamed response is a single HTTP response body carrying a sequence of
+ * independently encrypted EncryptedChannel messages. Each message is
+ * prefixed with its length so the receiver can split the byte stream back
+ * into frames regardless of how the transport chunks it:
+ *
+ *   ┌──────────────┬──────────────────────────────┐
+ *   │ length (u32) │ encrypted frame (length B)   │ ...repeated
+ *   └──────────────┴──────────────────────────────┘
+ *
+ * Every frame goes through `EncryptedChannel.encrypt()`, so each one carries
+ * its own counter — frames cannot be replayed, dropped silently (the chunk
+ * `seq` catches gaps) or reordered outside the anti-replay window.
+ */
+
+import type { EncryptedChannel } from '../crypto/index.js';
+import type {
+  EventStreamEnd,
+  EventStreamMessage,
+  ProxyStreamEnd,
+  ProxyStreamMessage,
+  ProxyStreamStart,
+} from './messages.js';
+
+/** Content-Type used for framed, streamed responses on `/request` and `/events`. */
+export const STREAM_CONTENT_TYPE = 'application/x-drawlatch-stream';
+
+/** Length prefix size (uint32 big-endian). */
+const LENGTH_PREFIX = 4;
+
+/** Upper bound for a single frame — guards the decoder against corrupt prefixes. */
+export const MAX_FRAME_SIZE = 16 * 1024 * 1024;
+
+/** Maximum body bytes carried by a single chunk frame (before base64). */
+export const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Prefix an encrypted frame with its length for transmission.
+ */
+export function encodeFrame(frame: Buffer): Buffer {
+  if (frame.length > MAX_FRAME_SIZE) {
+    throw new Error(`Frame too large: ${frame.length} bytes (max ${MAX_FRAME_SIZE})`);
+  }
+  const prefix = Buffer.alloc(LENGTH_PREFIX);
+  prefix.writeUInt32BE(frame.length);
+  return Buffer.concat([prefix, frame]);
+}
+
+/**
+ * Incremental decoder for length-prefixed frames.
+ *
+ * Feed it transport chunks as they arrive; it returns every frame that is
+ * complete so far and keeps any trailing partial frame for the next call.
+ */
+export class FrameDecoder {
+  private pending: Buffer = Buffer.alloc(0);
+
+  /**
+   * Append a transport chunk and return all frames completed by it.
+   * @throws Error if a length prefix exceeds MAX_FRAME_SIZE
+   */
+  push(chunk: Buffer): Buffer[] {
+    this.pending = this.pending.length === 0 ? chunk : Buffer.concat([this.pending, chunk]);
+
+    const frames: Buffer[] = [];
+    while (this.pending.length >= LENGTH_PREFIX) {
+      const length = this.pending.readUInt32BE(0);
+      if (length > MAX_FRAME_SIZE) {
+        throw new Error(`Frame too large: ${length} bytes (max ${MAX_FRAME_SIZE})`);
+      }
+      if (this.pending.length < LENGTH_PREFIX + length) break;
+
+      frames.push(this.pending.subarray(LENGTH_PREFIX, LENGTH_PREFIX + length));
+      this.pending = this.pending.subarray(LENGTH_PREFIX + length);
+    }
+    return frames;
+  }
+
+  /** Number of buffered bytes that do not yet form a complete frame. */
+  get bufferedBytes(): number {
+    return this.pending.length;
+  }
+}
+
+// ── Reassembly ─────────────────────────────────────────────────────────────
+
+/** A streamed response after all frames have been received and verified. */
+export interface ReassembledStream {
+  start: ProxyStreamStart;
+  end: ProxyStreamEnd;
+  /** Concatenated chunk payloads */
+  body: Buffer;
+}
+
+/**
+ * Read a framed stream to completion: decrypt every frame, check that it
+ * belongs to `requestId`, that chunk sequence numbers have no gaps, and that
+ * the end frame's totals match what was received.
+ *
+ * @param onChunk - Called after each chunk with running totals (progress reporting)
+ * @throws Error on a malformed, out-of-order or truncated stream
+ */
+export async function readProxyStream(
+  body: ReadableStream<Uint8Array>,
+  channel: EncryptedChannel,
+  requestId: string,
+  onChunk?: (received: { chunks: number; bytes: number }) => void,
+): Promise<ReassembledStream> {
+  const decoder = new FrameDecoder();
+  const parts: Buffer[] = [];
+  // Mutated from inside handle() — kept in an object so narrowing stays honest
+  const state: { start?: ProxyStreamStart; end?: ProxyStreamEnd; bytes: number } = { bytes: 0 };
+
+  const handle = (message: ProxyStreamMessage): void => {
+    if (message.id !== requestId) {
+      throw new Error(`Stream frame for unexpected request: ${message.id}`);
+    }
+    if (state.end) {
+      throw new Error('Stream frame received after end');
+    }
+    if (message.type === 'proxy_stream_start') {
+      if (state.start) throw new Error('Duplicate stream start frame');
+      state.start = message;
+      return;
+    }
+    if (!state.start) {
+      throw new Error(`Stream frame before start: ${message.type}`);
+    }
+    if (message.type === 'proxy_stream_chunk') {
+      if (message.seq !== parts.length) {
+        throw new Error(`Stream chunk out of order: expected ${parts.length}, got ${message.seq}`);
+      }
+      const data = Buffer.from(message.data, 'base64');
+      parts.push(data);
+      state.bytes += data.length;
+      onChunk?.({ chunks: parts.length, bytes: state.bytes });
+      return;
+    }
+    if (message.chunks !== parts.length || message.totalBytes !== state.bytes) {
+      throw new Error(
+        `Stream truncated: expected ${message.chunks} chunks / ${message.totalBytes} bytes, got ${parts.length} / ${state.bytes}`,
+      );
+    }
+    state.end = message;
+  };
+
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (const frame of decoder.push(Buffer.from(value))) {
+        handle(channel.decryptJSON<ProxyStreamMessage>(frame));
+      }
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    throw err;
+  }
+
+  const { start, end } = state;
+  if (!start || !end || decoder.bufferedBytes > 0) {
+    throw new Error('Stream ended before the end frame');
+  }
+  return { start, end, body: Buffer.concat(parts) };
+}
+
+// ── Event streams ──────────────────────────────────────────────────────────
+
+/** How often the remote server sends a heartbeat on an idle `/events` stream (ms). */
+export const EVENT_HEARTBEAT_INTERVAL = 15_000;
+
+/** How much unsent data an `/events` stream may buffer before it is ended as "slow_consumer" (1 MiB). */
+export const EVENT_STREAM_MAX_BUFFERED = 1024 * 1024;
+
+/**
+ * Read an `/events` stream until it closes: decrypt every frame, check that
+ * it belongs to `subscriptionId` and that pushed events have no sequence gaps,
+ * and hand each message to `onMessage` as it arrives.
+ *
+ * @returns the end frame, or undefined if the connection closed without one
+ * @throws Error on a malformed or out-of-order stream
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  channel: EncryptedChannel,
+  subscriptionId: string,
+  onMessage: (message: EventStreamMessage) => void,
+): Promise<EventStreamEnd | undefined> {
+  const decoder = new FrameDecoder();
+  let nextSeq = 0;
+  let end: EventStreamEnd | undefined;
+
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (const frame of decoder.push(Buffer.from(value))) {
+        const message = channel.decryptJSON<EventStreamMessage>(frame);
+        if (message.id !== subscriptionId) {
+          throw new Error(`Event frame for unexpected subscription: ${message.id}`);
+        }
+        if (end) throw new Error('Event frame received after end');
+        if (message.type === 'event_push') {
+          if (message.seq !== nextSeq) {
+            throw new Error(`Event out of order: expected ${nextSeq}, got ${message.seq}`);
+          }
+          nextSeq++;
+        } else if (message.type === 'event_stream_end') {
+          end = message;
+        }
+        onMessage(message);
+      }
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    throw err;
+  }
+  return end;
+}
@@ -0,0 +1,122 @@
+/**
+ * Command-based secret providers.
+ *
+ * `CommandProvider` runs an arbitrary executable (1Password `op`, `aws
+ * secretsmanager`, a company script) and uses its output as the secret.
+ * `PassProvider` decrypts entries of a `pass`-style password store with gpg.
+ * Commands are executed directly, never through a shell.
+ */
+
+import { execFile } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+
+import { selectField } from './reference.js';
+import type { SecretProvider } from './types.js';
+
+const DEFAULT_COMMAND_TIMEOUT = 10_000;
+
+const DEFAULT_PASS_COMMAND = ['gpg', '--quiet', '--batch', '--decrypt'];
+
+/** Run a command and return its stdout. */
+function run(command: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { timeout: timeoutMs, maxBuffer: 1024 * 1024, encoding: 'utf-8' },
+      (err, stdout, stderr) => {
+        if (err) {
+          const detail = stderr.trim() || err.message;
+          reject(new Error(`${path.basename(command)} failed: ${detail}`));
+          return;
+        }
+        resolve(stdout);
+      },
+    );
+  });
+}
+
+/** Strip the single trailing newline most tools print. */
+function trimNewline(output: string): string {
+  return output.replace(/\r?\n$/, '');
+}
+
+export interface CommandProviderOptions {
+  command: string;
+  args?: string[];
+  timeoutMs?: number;
+}
+
+export class CommandProvider implements SecretProvider {
+  constructor(private readonly options: CommandProviderOptions) {}
+
+  /**
+   * `{path}` / `{field}` in the arguments are substituted. Without `{path}`,
+   * the path is appended (and the field after it). When a field is requested
+   * but not passed to the command, the output is parsed as JSON and the field
+   * selected from it.
+   */
+  async get(secretPath: string, field?: string): Promise<string> {
+    const template = this.options.args ?? [];
+    const usesPath = template.some((a) => a.includes('{path}'));
+    const usesField = template.some((a) => a.includes('{field}'));
+    const args = template.map((a) =>
+      a.replaceAll('{path}', secretPath).replaceAll('{field}', field ?? ''),
+    );
+    if (!usesPath) {
+      args.push(secretPath);
+      if (field !== undefined && !usesField) args.push(field);
+    }
+
+    const output = trimNewline(
+      await run(this.options.command, args, this.options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT),
+    );
+    if (field === undefined || usesField || !usesPath) return output;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(output);
+    } catch {
+      throw new Error(`Output for ${secretPath} is not JSON — cannot select field "${field}"`);
+    }
+    return selectField(parsed, secretPath, field);
+  }
+}
+
+export interface PassProviderOptions {
+  /** Password store directory (default: $PASSWORD_STORE_DIR or ~/.password-store) */
+  dir?: string;
+  /** Decrypt command; the entry's file path is appended */
+  command?: string[];
+}
+
+export class PassProvider implements SecretProvider {
+  private readonly dir: string;
+  private readonly command: string[];
+
+  constructor(options: PassProviderOptions = {}) {
+    this.dir =
+      options.dir ?? process.env.PASSWORD_STORE_DIR ?? path.join(os.homedir(), '.password-store');
+    this.command = options.command?.length ? options.command : DEFAULT_PASS_COMMAND;
+  }
+
+  /**
+   * Follows the `pass` conventions: the first line of an entry is the
+   * password; a field selects a later `name: value` line.
+   */
+  async get(secretPath: string, field?: string): Promise<string> {
+    if (secretPath.split('/').includes('..')) {
+      throw new Error(`Invalid pass entry path: ${secretPath}`);
+    }
+    const file = path.join(this.dir, `${secretPath}.gpg`);
+    const [command, ...args] = this.command;
+    const lines = (await run(command, [...args, file], DEFAULT_COMMAND_TIMEOUT)).split(/\r?\n/);
+
+    if (field === undefined) return lines[0];
+    const prefix = `${field.toLowerCase()}:`;
+    const line = lines.slice(1).find((l) => l.toLowerCase().startsWith(prefix));
+    if (line === undefined) throw new Error(`Secret ${secretPath} has no field "${field}"`);
+    return line.slice(prefix.length).trim();
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Encrypted file vault — a JSON map of secrets sealed with AES-256-GCM.
+ *
+ * The key is derived from a passphrase with scrypt (random salt per write).
+ * The decrypted content maps paths to either a string or a key/value object:
+ *
+ *   { "github": "ghp_...", "stripe/live": { "secretKey": "sk_live_..." } }
+ *
+ * so `${file:github}` and `${file:stripe/live#secretKey}` both resolve.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { selectField } from './reference.js';
+import type { SecretProvider } from './types.js';
+
+/** Default environment variable holding the vault passphrase. */
+export const DEFAULT_VAULT_PASSPHRASE_ENV = 'DRAWLATCH_VAULT_PASSPHRASE';
+
+/** Decrypted vault content. */
+export type VaultContents = Record<string, string | Record<string, string>>;
+
+/** On-disk vault format (all binary fields base64). */
+export interface VaultFile {
+  version: 1;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { N: 16384, r: 8, p: 1 });
+}
+
+/** Seal vault content with a passphrase. */
+export function encryptVault(contents: VaultContents, passphrase: string): VaultFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf-8'), cipher.final()]);
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Open a sealed vault.
+ * @throws Error if the passphrase is wrong or the file was modified
+ */
+export function decryptVault(file: VaultFile, passphrase: string): VaultContents {
+  const key = deriveKey(passphrase, Buffer.from(file.salt, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  try {
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(file.data, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString('utf-8')) as VaultContents;
+  } catch {
+    throw new Error('Failed to decrypt vault (wrong passphrase or corrupted file)');
+  }
+}
+
+/**
+ * Read and decrypt a vault file.
+ * @throws Error if the file is not a supported vault or cannot be decrypted
+ */
+export function readVaultFile(filePath: string, passphrase: string): VaultContents {
+  const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<
+    Record<keyof VaultFile, unknown>
+  >;
+  if (file.version !== 1 || file.kdf !== 'scrypt') {
+    throw new Error(`Unsupported vault format in ${filePath}`);
+  }
+  return decryptVault(file as VaultFile, passphrase);
+}
+
+/** Encrypt and write a vault file (0600). */
+export function writeVaultFile(
+  filePath: string,
+  contents: VaultContents,
+  passphrase: string,
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(filePath, JSON.stringify(encryptVault(contents, passphrase), null, 2) + '\n', {
+    mode: 0o600,
+  });
+}
+
+export class FileVaultProvider implements SecretProvider {
+  constructor(
+    private readonly filePath: string,
+    private readonly passphrase: () => string | undefined,
+  ) {}
+
+  get(secretPath: string, field?: string): Promise<string> {
+    try {
+      return Promise.resolve(this.read(secretPath, field));
+    } catch (err) {
+      return Promise.reject(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  /** The vault is re-read on every fetch, so edits apply once cached values expire. */
+  private read(secretPath: string, field?: string): string {
+    const passphrase = this.passphrase();
+    if (!passphrase) throw new Error(`No passphrase available for vault ${this.filePath}`);
+    const contents = readVaultFile(this.filePath, passphrase);
+    if (!(secretPath in contents)) throw new Error(`Secret ${secretPath} not found in vault`);
+    return selectField(contents[secretPath], secretPath, field);
+  }
+}
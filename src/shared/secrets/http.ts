@@ -0,0 +1,52 @@
+/**
+ * HTTP secret provider in the style of HashiCorp Vault.
+ *
+ * `${vault:secret/data/github#token}` becomes `GET <url>/v1/secret/data/github`
+ * with the configured token in `X-Vault-Token`. Both KV v2 responses
+ * (`{ data: { data: {...}, metadata } }`) and KV v1 / generic responses
+ * (`{ data: {...} }`) are understood. Any server speaking the same shape —
+ * including a local stand-in — works.
+ */
+
+import { selectField } from './reference.js';
+import type { SecretProvider } from './types.js';
+
+const DEFAULT_HTTP_TIMEOUT = 10_000;
+
+export interface HttpProviderOptions {
+  url: string;
+  token?: string;
+  namespace?: string;
+  timeoutMs?: number;
+}
+
+interface VaultResponse {
+  data?: Record<string, unknown> & { data?: unknown; metadata?: unknown };
+}
+
+export class HttpProvider implements SecretProvider {
+  constructor(private readonly options: HttpProviderOptions) {}
+
+  async get(secretPath: string, field?: string): Promise<string> {
+    const url = `${this.options.url.replace(/\/+$/, '')}/v1/${secretPath.replace(/^\/+/, '')}`;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.options.token) headers['X-Vault-Token'] = this.options.token;
+    if (this.options.namespace) headers['X-Vault-Namespace'] = this.options.namespace;
+
+    const resp = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_HTTP_TIMEOUT),
+    });
+    if (!resp.ok) {
+      throw new Error(`GET ${url} returned ${resp.status} ${resp.statusText}`.trim());
+    }
+
+    const body = (await resp.json()) as VaultResponse;
+    const data = body.data;
+    if (!data) throw new Error(`GET ${url} returned no data`);
+
+    // KV v2 nests the secret one level deeper, next to its metadata
+    const secret = data.data !== undefined && data.metadata !== undefined ? data.data : data;
+    return selectField(secret, secretPath, field);
+  }
+}
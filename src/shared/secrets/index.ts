@@ -0,0 +1,52 @@
+export type {
+  SecretProvider,
+  SecretReference,
+  SecretProviderConfig,
+  FileVaultProviderConfig,
+  PassProviderConfig,
+  CommandProviderConfig,
+  HttpProviderConfig,
+} from './types.js';
+
+export { parseSecretReference, isSecretReference, selectField } from './reference.js';
+
+export {
+  DEFAULT_SECRET_TTL_SECONDS,
+  SecretProviderManager,
+  createSecretProvider,
+} from './manager.js';
+
+export {
+  DEFAULT_VAULT_PASSPHRASE_ENV,
+  type VaultContents,
+  type VaultFile,
+  encryptVault,
+  decryptVault,
+  readVaultFile,
+  writeVaultFile,
+  FileVaultProvider,
+} from './file-vault.js';
+
+export {
+  type CommandProviderOptions,
+  type PassProviderOptions,
+  CommandProvider,
+  PassProvider,
+} from './command.js';
+
+export { type HttpProviderOptions, HttpProvider } from './http.js';
+
+export {
+  SECRETS_PASSPHRASE_ENV,
+  SECRETS_KEY_FILE_ENV,
+  type SecretsStoreKeySource,
+  type SecretsStoreKey,
+  deriveKeyBundleSecret,
+  resolveSecretsStoreKey,
+  readSecretsStore,
+  writeSecretsStore,
+  loadSecretsStore,
+  clearStoredSecrets,
+  getStoredSecret,
+  maskSecret,
+} from './store.js';
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { resolveRoutes } from '../config.js';
+import { SecretProviderManager } from './manager.js';
+import { parseSecretReference } from './reference.js';
+import type { SecretProvider } from './types.js';
+
+/** In-memory provider that counts fetches. */
+function makeProvider(values: Record<string, string>) {
+  const provider = {
+    calls: 0,
+    get(secretPath: string, field?: string): Promise<string> {
+      provider.calls++;
+      const key = field ? `${secretPath}#${field}` : secretPath;
+      return key in values
+        ? Promise.resolve(values[key])
+        : Promise.reject(new Error(`Secret ${key} not found`));
+    },
+  } satisfies SecretProvider & { calls: number };
+  return provider;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseSecretReference', () => {
+  it('should parse provider, path and optional field', () => {
+    expect(parseSecretReference('${vault:secret/data/api#token}')).toEqual({
+      provider: 'vault',
+      path: 'secret/data/api',
+      field: 'token',
+    });
+    expect(parseSecretReference('${file:github}')).toEqual({ provider: 'file', path: 'github' });
+  });
+
+  it('should not match env var references or literals', () => {
+    expect(parseSecretReference('${GITHUB_TOKEN}')).toBeNull();
+    expect(parseSecretReference('ghp_abc')).toBeNull();
+    expect(parseSecretReference('prefix ${vault:a}')).toBeNull();
+  });
+});
+
+describe('SecretProviderManager', () => {
+  it('should cache values until the provider TTL expires', async () => {
+    vi.useFakeTimers();
+    const provider = makeProvider({ 'api#token': 'v1' });
+    const manager = new SecretProviderManager();
+    manager.register('vault', provider, 60);
+
+    expect(await manager.resolve('${vault:api#token}')).toBe('v1');
+    expect(await manager.resolve('${vault:api#token}')).toBe('v1');
+    expect(provider.calls).toBe(1);
+
+    vi.advanceTimersByTime(61_000);
+    expect(await manager.resolve('${vault:api#token}')).toBe('v1');
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should share one fetch between concurrent resolves', async () => {
+    const provider = makeProvider({ api: 'v1' });
+    const manager = new SecretProviderManager();
+    manager.register('vault', provider);
+
+    const values = await Promise.all([
+      manager.resolve('${vault:api}'),
+      manager.resolve('${vault:api}'),
+      manager.resolve('${vault:api}'),
+    ]);
+
+    expect(values).toEqual(['v1', 'v1', 'v1']);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('should reject unknown providers and malformed references', async () => {
+    const manager = new SecretProviderManager();
+    await expect(manager.resolve('${nope:api}')).rejects.toThrow('Unknown secret provider "nope"');
+    await expect(manager.resolve('${API_TOKEN}')).rejects.toThrow('Not a secret reference');
+  });
+
+  it('should drop cached values and providers on configure', async () => {
+    const provider = makeProvider({ api: 'v1' });
+    const manager = new SecretProviderManager();
+    manager.register('vault', provider);
+    await manager.resolve('${vault:api}');
+
+    manager.configure({});
+    await expect(manager.resolve('${vault:api}')).rejects.toThrow('Unknown secret provider');
+  });
+
+  it('should fill route secrets and re-resolve headers in ensureFresh', async () => {
+    vi.useFakeTimers();
+    const values = { 'api#token': 'tok-1' };
+    const manager = new SecretProviderManager();
+    manager.register('vault', makeProvider(values), 60);
+
+    const [route] = resolveRoutes([
+      {
+        headers: { Authorization: 'Bearer ${TOKEN}', 'X-Org': '${ORG}' },
+        secrets: { TOKEN: '${vault:api#token}', ORG: 'acme' },
+        allowedEndpoints: ['https://api.example.com/**'],
+      },
+    ]);
+
+    await manager.ensureFresh(route);
+    expect(route.secrets).toEqual({ TOKEN: 'tok-1', ORG: 'acme' });
+    expect(route.headers).toEqual({ Authorization: 'Bearer tok-1', 'X-Org': 'acme' });
+
+    // A rotated value is picked up once the cached one expires
+    values['api#token'] = 'tok-2';
+    vi.advanceTimersByTime(61_000);
+    await manager.ensureFresh(route);
+    expect(route.headers.Authorization).toBe('Bearer tok-2');
+  });
+
+  it('should name the secret and reference when ensureFresh fails', async () => {
+    const manager = new SecretProviderManager();
+    manager.register('vault', makeProvider({}));
+    const [route] = resolveRoutes([
+      { secrets: { TOKEN: '${vault:api#token}' }, allowedEndpoints: ['https://a.example/**'] },
+    ]);
+
+    await expect(manager.ensureFresh(route)).rejects.toThrow(
+      'Failed to resolve secret TOKEN from ${vault:api#token}: Secret api#token not found',
+    );
+  });
+
+  it('should fill OAuth client credentials given as references', async () => {
+    process.env.OAUTH_SECRET_REF = '${vault:oauth#secret}';
+    const manager = new SecretProviderManager();
+    manager.register('vault', makeProvider({ 'oauth#id': 'client-1', 'oauth#secret': 's3cret' }));
+    const [route] = resolveRoutes([
+      {
+        secrets: { ACCESS_TOKEN: '' },
+        allowedEndpoints: ['https://api.example.com/**'],
+        oauth: {
+          tokenUrl: 'https://auth.example.com/token',
+          grantType: 'client_credentials',
+          clientId: '${vault:oauth#id}',
+          clientSecret: '${OAUTH_SECRET_REF}',
+          accessTokenSecret: 'ACCESS_TOKEN',
+        },
+      },
+    ]);
+    delete process.env.OAUTH_SECRET_REF;
+    expect(route.oauth?.credentialRefs).toEqual({
+      clientId: '${vault:oauth#id}',
+      clientSecret: '${vault:oauth#secret}',
+    });
+
+    await manager.ensureFresh(route);
+    expect(route.oauth).toMatchObject({ clientId: 'client-1', clientSecret: 's3cret' });
+  });
+
+  it('should build providers from config', async () => {
+    const manager = new SecretProviderManager({
+      cmd: {
+        type: 'command',
+        command: process.execPath,
+        args: ['-e', 'console.log("from-" + process.argv[1])'],
+      },
+    });
+
+    expect(await manager.resolve('${cmd:db}')).toBe('from-db');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * SecretProviderManager — resolves `${provider:path#field}` references.
+ *
+ * Routes keep their provider-backed secrets as references (`secretRefs`)
+ * rather than values. Before a route is used, `ensureFresh()` fetches each
+ * reference — from the cache while it is fresh, from the provider otherwise —
+ * writes the values into the route's `secrets` and re-resolves the headers
+ * that use them. OAuth client credentials given as references are filled in
+ * the same way, before the token manager needs them. Like OAuth tokens,
+ * values are written into the session's ResolvedRoute in place, so live
+ * sessions pick up rotated secrets once the cached value expires.
+ */
+
+import {
+  resolvePlaceholders,
+  resolveSecrets,
+  type OAuthCredential,
+  type ResolvedRoute,
+} from '../config.js';
+import { createLogger } from '../logger.js';
+import { CommandProvider, PassProvider } from './command.js';
+import { DEFAULT_VAULT_PASSPHRASE_ENV, FileVaultProvider } from './file-vault.js';
+import { HttpProvider } from './http.js';
+import { parseSecretReference } from './reference.js';
+import type { SecretProvider, SecretProviderConfig } from './types.js';
+
+const log = createLogger('secrets');
+
+/** How long fetched values are cached when a provider sets no `ttlSeconds`. */
+export const DEFAULT_SECRET_TTL_SECONDS = 300;
+
+/** Build a provider from its config block. */
+export function createSecretProvider(config: SecretProviderConfig): SecretProvider {
+  switch (config.type) {
+    case 'file': {
+      const envName = config.passphraseEnv ?? DEFAULT_VAULT_PASSPHRASE_ENV;
+      return new FileVaultProvider(config.path, () => process.env[envName]);
+    }
+    case 'pass':
+      return new PassProvider({
+        ...(config.dir !== undefined && { dir: config.dir }),
+        ...(config.command !== undefined && { command: config.command }),
+      });
+    case 'command':
+      return new CommandProvider(config);
+    case 'http': {
+      // The token is usually an "${ENV_VAR}" reference
+      const token = config.token && resolveSecrets({ token: config.token }).token;
+      return new HttpProvider({
+        url: config.url,
+        ...(token && { token }),
+        ...(config.namespace !== undefined && { namespace: config.namespace }),
+        ...(config.timeoutMs !== undefined && { timeoutMs: config.timeoutMs }),
+      });
+    }
+    default:
+      throw new Error(`Unknown secret provider type: ${(config as { type: string }).type}`);
+  }
+}
+
+interface RegisteredProvider {
+  provider: SecretProvider;
+  ttlMs: number;
+}
+
+export class SecretProviderManager {
+  private providers = new Map<string, RegisteredProvider>();
+  private readonly cache = new Map<string, { value: string; expiresAt: number }>();
+  /** In-flight fetches, so concurrent requests share one provider call. */
+  private readonly inflight = new Map<string, Promise<string>>();
+
+  constructor(configs: Record<string, SecretProviderConfig> = {}) {
+    this.configure(configs);
+  }
+
+  /**
+   * Replace the provider definitions (e.g., after a config reload). Cached
+   * values are dropped so every reference is fetched again on next use.
+   * Providers with an invalid config are skipped with an error log.
+   */
+  configure(configs: Record<string, SecretProviderConfig>): void {
+    this.providers = new Map();
+    this.cache.clear();
+    for (const [name, config] of Object.entries(configs)) {
+      try {
+        this.register(name, createSecretProvider(config), config.ttlSeconds);
+      } catch (err) {
+        log.error(`Secret provider "${name}" is misconfigured:`, err);
+      }
+    }
+  }
+
+  /** Add (or replace) a provider under the name used in references. */
+  register(name: string, provider: SecretProvider, ttlSeconds?: number): void {
+    this.providers.set(name, {
+      provider,
+      ttlMs: (ttlSeconds ?? DEFAULT_SECRET_TTL_SECONDS) * 1000,
+    });
+  }
+
+  /**
+   * Resolve one `${provider:path#field}` reference.
+   * @throws Error if the reference is malformed, names an unknown provider,
+   *   or the provider cannot read it
+   */
+  async resolve(reference: string): Promise<string> {
+    const parsed = parseSecretReference(reference);
+    if (!parsed) throw new Error(`Not a secret reference: ${reference}`);
+    const entry = this.providers.get(parsed.provider);
+    if (!entry) throw new Error(`Unknown secret provider "${parsed.provider}"`);
+
+    const cached = this.cache.get(reference);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const pending = this.inflight.get(reference);
+    if (pending) return pending;
+
+    const promise = entry.provider
+      .get(parsed.path, parsed.field)
+      .then((value) => {
+        this.cache.set(reference, { value, expiresAt: Date.now() + entry.ttlMs });
+        log.debug(`Fetched ${reference}`);
+        return value;
+      })
+      .finally(() => this.inflight.delete(reference));
+    this.inflight.set(reference, promise);
+    return promise;
+  }
+
+  /**
+   * Make sure the route's provider-backed secrets and OAuth client credentials
+   * are resolved and current. No-op for routes without `secretRefs` or
+   * `oauth.credentialRefs`.
+   *
+   * @throws Error naming the secret and reference if any of them cannot be resolved
+   */
+  async ensureFresh(route: ResolvedRoute): Promise<void> {
+    const oauth = route.oauth;
+    if (oauth?.credentialRefs) {
+      for (const [name, value] of await this.resolveAll(oauth.credentialRefs, 'OAuth')) {
+        oauth[name as OAuthCredential] = value;
+      }
+    }
+
+    const refs = route.secretRefs;
+    if (!refs) return;
+
+    const values = await this.resolveAll(refs, 'secret');
+    let changed = false;
+    for (const [name, value] of values) {
+      if (route.secrets[name] === value) continue;
+      route.secrets[name] = value;
+      changed = true;
+    }
+    if (!changed) return;
+    for (const [name, template] of Object.entries(route.headerTemplates ?? {})) {
+      route.headers[name] = resolvePlaceholders(template, route.secrets);
+    }
+  }
+
+  /** Resolve named references, naming the one that failed in the error. */
+  private resolveAll(
+    refs: Record<string, string>,
+    kind: string,
+  ): Promise<(readonly [string, string])[]> {
+    return Promise.all(
+      Object.entries(refs).map(async ([name, reference]) => {
+        try {
+          return [name, await this.resolve(reference)] as const;
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          throw new Error(`Failed to resolve ${kind} ${name} from ${reference}: ${message}`);
+        }
+      }),
+    );
+  }
+
+  /** Drop all cached values. */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { CommandProvider, PassProvider } from './command.js';
+import { FileVaultProvider, readVaultFile, writeVaultFile } from './file-vault.js';
+import { HttpProvider } from './http.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-secrets-'));
+  return () => fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ── File vault ────────────────────────────────────────────────────────────
+
+describe('FileVaultProvider', () => {
+  it('should round-trip vault contents and write the file 0600', () => {
+    const file = path.join(tmpDir, 'vault.json');
+    writeVaultFile(file, { github: 'ghp_abc' }, 'correct horse');
+
+    expect(readVaultFile(file, 'correct horse')).toEqual({ github: 'ghp_abc' });
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('ghp_abc');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reject a wrong passphrase', () => {
+    const file = path.join(tmpDir, 'vault.json');
+    writeVaultFile(file, { github: 'ghp_abc' }, 'correct horse');
+
+    expect(() => readVaultFile(file, 'wrong')).toThrow('wrong passphrase or corrupted file');
+  });
+
+  it('should resolve plain and field secrets', async () => {
+    const file = path.join(tmpDir, 'vault.json');
+    writeVaultFile(file, { github: 'ghp_abc', 'stripe/live': { secretKey: 'sk_live' } }, 'pw');
+    const provider = new FileVaultProvider(file, () => 'pw');
+
+    expect(await provider.get('github')).toBe('ghp_abc');
+    expect(await provider.get('stripe/live', 'secretKey')).toBe('sk_live');
+    await expect(provider.get('missing')).rejects.toThrow('Secret missing not found in vault');
+    await expect(provider.get('stripe/live', 'other')).rejects.toThrow('has no field "other"');
+  });
+
+  it('should fail without a passphrase', async () => {
+    const provider = new FileVaultProvider(path.join(tmpDir, 'vault.json'), () => undefined);
+    await expect(provider.get('github')).rejects.toThrow('No passphrase available');
+  });
+});
+
+// ── Command / pass ────────────────────────────────────────────────────────
+
+describe('CommandProvider', () => {
+  // Prints its arguments as JSON so tests can see how they were passed
+  const echoArgs = ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))'];
+
+  it('should append the path and field when the args do not use them', async () => {
+    const provider = new CommandProvider({ command: process.execPath, args: echoArgs });
+
+    expect(await provider.get('prod/db', 'password')).toBe('["prod/db","password"]');
+  });
+
+  it('should substitute {path} and {field}', async () => {
+    const provider = new CommandProvider({
+      command: process.execPath,
+      args: [...echoArgs, 'read', 'op://{path}/{field}'],
+    });
+
+    expect(await provider.get('vault/item', 'credential')).toBe(
+      '["read","op://vault/item/credential"]',
+    );
+  });
+
+  it('should select a field from JSON output when the field is not passed', async () => {
+    const provider = new CommandProvider({
+      command: process.execPath,
+      args: ['-e', 'console.log(JSON.stringify({ user: "svc", password: "pw-1" }))', '{path}'],
+    });
+
+    expect(await provider.get('prod/db', 'password')).toBe('pw-1');
+  });
+
+  it('should report failures with the command stderr', async () => {
+    const provider = new CommandProvider({
+      command: process.execPath,
+      args: ['-e', 'console.error("item not found"); process.exit(1)'],
+    });
+
+    await expect(provider.get('missing')).rejects.toThrow('item not found');
+  });
+});
+
+describe('PassProvider', () => {
+  // `cat` stands in for gpg: entries are stored unencrypted
+  function writeEntry(name: string, content: string): void {
+    const file = path.join(tmpDir, `${name}.gpg`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  it('should return the first line, or a named field', async () => {
+    writeEntry('web/github', 'ghp_abc\nlogin: octocat\nurl: https://github.com\n');
+    const provider = new PassProvider({ dir: tmpDir, command: ['cat'] });
+
+    expect(await provider.get('web/github')).toBe('ghp_abc');
+    expect(await provider.get('web/github', 'Login')).toBe('octocat');
+    await expect(provider.get('web/github', 'otp')).rejects.toThrow('has no field "otp"');
+  });
+
+  it('should refuse paths that leave the store', async () => {
+    const provider = new PassProvider({ dir: tmpDir, command: ['cat'] });
+    await expect(provider.get('../etc/passwd')).rejects.toThrow('Invalid pass entry path');
+  });
+});
+
+// ── HTTP ──────────────────────────────────────────────────────────────────
+
+describe('HttpProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: http.IncomingHttpHeaders[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.headers);
+      const bodies: Record<string, unknown> = {
+        '/v1/secret/data/api': {
+          data: { data: { token: 'kv2-token', user: 'svc' }, metadata: { version: 3 } },
+        },
+        '/v1/kv/legacy': { data: { value: 'kv1-value' } },
+      };
+      const body = bodies[req.url ?? ''];
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body ?? { errors: [] }));
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should read KV v2 and v1 responses with token and namespace headers', async () => {
+    const provider = new HttpProvider({ url: `${baseUrl}/`, token: 's.abc', namespace: 'team' });
+
+    expect(await provider.get('secret/data/api', 'token')).toBe('kv2-token');
+    expect(await provider.get('kv/legacy')).toBe('kv1-value');
+    expect(requests[0]['x-vault-token']).toBe('s.abc');
+    expect(requests[0]['x-vault-namespace']).toBe('team');
+  });
+
+  it('should require a field for multi-value secrets', async () => {
+    const provider = new HttpProvider({ url: baseUrl });
+    await expect(provider.get('secret/data/api')).rejects.toThrow('select one with #field');
+  });
+
+  it('should surface HTTP errors', async () => {
+    const provider = new HttpProvider({ url: baseUrl });
+    await expect(provider.get('secret/data/missing')).rejects.toThrow('returned 404');
+  });
+});
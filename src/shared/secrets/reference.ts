@@ -0,0 +1,57 @@
+/**
+ * Parsing of `${provider:path#field}` secret references, and field selection
+ * shared by the providers.
+ */
+
+import type { SecretReference } from './types.js';
+
+const REFERENCE = /^\$\{([A-Za-z][\w-]*):([^}#]+)(?:#([^}]+))?\}$/;
+
+/** Parse a secret reference, or return null for anything else (literals, `${ENV_VAR}`). */
+export function parseSecretReference(value: string): SecretReference | null {
+  const match = REFERENCE.exec(value);
+  if (!match) return null;
+  const field = match.at(3);
+  return {
+    provider: match[1],
+    path: match[2],
+    ...(field !== undefined && { field }),
+  };
+}
+
+/** Whether a secret value is a provider reference. */
+export function isSecretReference(value: string): boolean {
+  return REFERENCE.test(value);
+}
+
+/**
+ * Pick the requested value out of a fetched secret.
+ *
+ * A plain string is returned as-is (a field cannot be selected from it). For
+ * a key/value secret, `field` selects the value; without a field, the secret
+ * must hold exactly one value.
+ *
+ * @throws Error if the field is missing or ambiguous
+ */
+export function selectField(secret: unknown, path: string, field?: string): string {
+  if (typeof secret === 'string') {
+    if (field !== undefined) throw new Error(`Secret ${path} has no field "${field}"`);
+    return secret;
+  }
+  if (secret === null || typeof secret !== 'object' || Array.isArray(secret)) {
+    throw new Error(`Secret ${path} is not a string or key/value object`);
+  }
+
+  const values = secret as Record<string, unknown>;
+  if (field === undefined) {
+    const keys = Object.keys(values);
+    if (keys.length !== 1) {
+      throw new Error(`Secret ${path} has ${keys.length} fields — select one with #field`);
+    }
+    field = keys[0];
+  }
+  const value = values[field];
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw new Error(`Secret ${path} has no field "${field}"`);
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { generateKeyBundle, saveKeyBundle } from '../crypto/keys.js';
+import {
+  SECRETS_KEY_FILE_ENV,
+  SECRETS_PASSPHRASE_ENV,
+  clearStoredSecrets,
+  getStoredSecret,
+  loadSecretsStore,
+  maskSecret,
+  readSecretsStore,
+  resolveSecretsStoreKey,
+  writeSecretsStore,
+} from './store.js';
+
+const originalEnv = process.env;
+let tmpDir: string;
+let storePath: string;
+
+beforeEach(() => {
+  process.env = {
+    ...originalEnv,
+    [SECRETS_PASSPHRASE_ENV]: undefined,
+    [SECRETS_KEY_FILE_ENV]: undefined,
+  };
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drawlatch-store-'));
+  storePath = path.join(tmpDir, 'secrets.enc');
+});
+
+afterEach(() => {
+  process.env = originalEnv;
+  clearStoredSecrets();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('resolveSecretsStoreKey', () => {
+  it('should prefer the passphrase, then the key file, then the key bundle', () => {
+    const keysDir = path.join(tmpDir, 'keys');
+    saveKeyBundle(generateKeyBundle(), keysDir);
+    const keyFile = path.join(tmpDir, 'store.key');
+    fs.writeFileSync(keyFile, 'file-key\n');
+
+    expect(resolveSecretsStoreKey(keysDir).source).toBe('keybundle');
+
+    process.env[SECRETS_KEY_FILE_ENV] = keyFile;
+    expect(resolveSecretsStoreKey(keysDir)).toEqual({ source: 'key-file', secret: 'file-key' });
+
+    process.env[SECRETS_PASSPHRASE_ENV] = 'pass';
+    expect(resolveSecretsStoreKey(keysDir)).toEqual({ source: 'passphrase', secret: 'pass' });
+  });
+
+  it('should derive the same key from the same key bundle', () => {
+    const keysDir = path.join(tmpDir, 'keys');
+    saveKeyBundle(generateKeyBundle(), keysDir);
+
+    expect(resolveSecretsStoreKey(keysDir)).toEqual(resolveSecretsStoreKey(keysDir));
+  });
+
+  it('should fail when no key source is available', () => {
+    expect(() => resolveSecretsStoreKey(path.join(tmpDir, 'missing'))).toThrow(
+      'No key for the secrets store',
+    );
+  });
+});
+
+describe('secrets store file', () => {
+  const key = { source: 'passphrase' as const, secret: 'correct horse' };
+
+  it('should round-trip values without storing them in plaintext', () => {
+    writeSecretsStore(storePath, { GITHUB_TOKEN: 'ghp_secret_value' }, key);
+
+    expect(readSecretsStore(storePath, key)).toEqual({ GITHUB_TOKEN: 'ghp_secret_value' });
+    const raw = fs.readFileSync(storePath, 'utf-8');
+    expect(raw).not.toContain('ghp_secret_value');
+    expect(raw).not.toContain('GITHUB_TOKEN');
+    expect(fs.statSync(storePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should explain a key source mismatch', () => {
+    writeSecretsStore(storePath, { A: '1' }, key);
+
+    expect(() => readSecretsStore(storePath, { source: 'key-file', secret: 'other' })).toThrow(
+      'encrypted with a passphrase key, but a key-file key was used',
+    );
+    expect(() => readSecretsStore(storePath, { ...key, secret: 'wrong' })).toThrow(
+      'wrong passphrase',
+    );
+  });
+
+  it('should reject names that are not variable names', () => {
+    expect(() => writeSecretsStore(storePath, { 'bad-name': 'x' }, key)).toThrow(
+      'Invalid secret name: bad-name',
+    );
+  });
+
+  it('should expose loaded values and keep them when a reload fails', () => {
+    writeSecretsStore(storePath, { API_KEY: 'stored' }, key);
+
+    expect(loadSecretsStore(storePath, key)).toBe(1);
+    expect(getStoredSecret('API_KEY')).toBe('stored');
+    expect(getStoredSecret('toString')).toBeUndefined();
+
+    expect(() => loadSecretsStore(storePath, { ...key, secret: 'wrong' })).toThrow();
+    expect(getStoredSecret('API_KEY')).toBe('stored');
+
+    clearStoredSecrets();
+    expect(getStoredSecret('API_KEY')).toBeUndefined();
+  });
+});
+
+describe('maskSecret', () => {
+  it('should never reveal the whole value', () => {
+    expect(maskSecret('sk_live_0123456789abcdef')).toBe('sk_l…(24 chars)');
+    expect(maskSecret('short')).toBe('…(5 chars)');
+  });
+});
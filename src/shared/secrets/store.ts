@@ -0,0 +1,150 @@
+/**
+ * Encrypted secrets store — an encrypted-at-rest replacement for `.env`.
+ *
+ * `~/.drawlatch/secrets.enc` holds a flat map of variable names to values,
+ * sealed in the file vault format. The remote server opens it at startup
+ * (and on reload) and resolveSecrets() falls back to it for `${VAR}`
+ * references not set in the environment. Values are kept in memory only —
+ * never copied into process.env, so commands the server spawns do not
+ * inherit them. `drawlatch secrets set/get/list/rm` manage the file.
+ *
+ * The key comes from the first of:
+ *   1. DRAWLATCH_SECRETS_PASSPHRASE
+ *   2. the file named by DRAWLATCH_SECRETS_KEY_FILE
+ *   3. the remote server's own key bundle (X25519 private key)
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { loadKeyBundle, type KeyBundle } from '../crypto/keys.js';
+import { encryptVault, readVaultFile } from './file-vault.js';
+
+export const SECRETS_PASSPHRASE_ENV = 'DRAWLATCH_SECRETS_PASSPHRASE';
+export const SECRETS_KEY_FILE_ENV = 'DRAWLATCH_SECRETS_KEY_FILE';
+
+/** Where the store key came from — recorded in the file to explain key mismatches. */
+export type SecretsStoreKeySource = 'passphrase' | 'key-file' | 'keybundle';
+
+export interface SecretsStoreKey {
+  source: SecretsStoreKeySource;
+  /** Passphrase fed to the vault KDF */
+  secret: string;
+}
+
+/** Variable names follow env var rules so stored values can replace `.env` entries. */
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Values loaded by loadSecretsStore(), consulted by resolveSecrets(). */
+let storedSecrets: Record<string, string> = {};
+
+/** Derive the store passphrase from a key bundle's X25519 private key. */
+export function deriveKeyBundleSecret(bundle: KeyBundle): string {
+  const ikm = bundle.exchange.privateKey.export({ type: 'pkcs8', format: 'der' });
+  const key = crypto.hkdfSync('sha256', ikm, 'drawlatch-secrets-store', 'secrets.enc v1', 32);
+  return Buffer.from(key).toString('base64');
+}
+
+/**
+ * Pick the key for the store.
+ * @param keysDir - Remote key bundle directory, used when neither env var is set
+ * @throws Error if no key source is available or the key file is empty
+ */
+export function resolveSecretsStoreKey(keysDir?: string): SecretsStoreKey {
+  const passphrase = process.env[SECRETS_PASSPHRASE_ENV];
+  if (passphrase) return { source: 'passphrase', secret: passphrase };
+
+  const keyFile = process.env[SECRETS_KEY_FILE_ENV];
+  if (keyFile) {
+    const secret = fs.readFileSync(keyFile, 'utf-8').trim();
+    if (!secret) throw new Error(`Key file ${keyFile} is empty`);
+    return { source: 'key-file', secret };
+  }
+
+  if (keysDir && fs.existsSync(path.join(keysDir, 'exchange.key.pem'))) {
+    return { source: 'keybundle', secret: deriveKeyBundleSecret(loadKeyBundle(keysDir)) };
+  }
+
+  throw new Error(
+    `No key for the secrets store: set ${SECRETS_PASSPHRASE_ENV} or ${SECRETS_KEY_FILE_ENV}, ` +
+      'or generate the remote server keys',
+  );
+}
+
+/**
+ * Read and decrypt a secrets store.
+ * @throws Error if the file cannot be decrypted with this key
+ */
+export function readSecretsStore(filePath: string, key: SecretsStoreKey): Record<string, string> {
+  let contents;
+  try {
+    contents = readVaultFile(filePath, key.secret);
+  } catch (err) {
+    const sealedWith = (
+      JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { keySource?: SecretsStoreKeySource }
+    ).keySource;
+    if (sealedWith && sealedWith !== key.source) {
+      throw new Error(
+        `${filePath} was encrypted with a ${sealedWith} key, but a ${key.source} key was used`,
+      );
+    }
+    throw err;
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const [name, value] of Object.entries(contents)) {
+    if (typeof value === 'string') secrets[name] = value;
+  }
+  return secrets;
+}
+
+/**
+ * Encrypt and write a secrets store (0600).
+ * @throws Error if a name is not a valid variable name
+ */
+export function writeSecretsStore(
+  filePath: string,
+  secrets: Record<string, string>,
+  key: SecretsStoreKey,
+): void {
+  for (const name of Object.keys(secrets)) {
+    if (!SECRET_NAME.test(name)) throw new Error(`Invalid secret name: ${name}`);
+  }
+  // The key source is recorded next to the ciphertext (it is not secret)
+  const file = { ...encryptVault(secrets, key.secret), keySource: key.source };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  // Write-then-rename so an interrupted write never leaves a truncated store
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Open the store and make its values available to resolveSecrets().
+ * The previously loaded values stay in place if this throws.
+ * @returns the number of secrets loaded
+ */
+export function loadSecretsStore(filePath: string, key: SecretsStoreKey): number {
+  storedSecrets = readSecretsStore(filePath, key);
+  return Object.keys(storedSecrets).length;
+}
+
+/** Forget loaded values (e.g., the store file was removed). */
+export function clearStoredSecrets(): void {
+  storedSecrets = {};
+}
+
+/** Look up a loaded value by variable name. */
+export function getStoredSecret(name: string): string | undefined {
+  return Object.hasOwn(storedSecrets, name) ? storedSecrets[name] : undefined;
+}
+
+/**
+ * Show enough of a value to recognise it, never all of it:
+ * "sk_l…(24 chars)". Values under 12 characters show no prefix.
+ */
+export function maskSecret(value: string): string {
+  const prefix = value.length >= 12 ? value.slice(0, 4) : '';
+  return `${prefix}…(${value.length} chars)`;
+}
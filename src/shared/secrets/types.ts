@@ -0,0 +1,80 @@
+/**
+ * Secret provider types and reference syntax.
+ *
+ * A secret value of the form `${<provider>:<path>#<field>}` (field optional)
+ * is fetched from the named provider instead of being read from the
+ * environment, e.g. `"GITHUB_TOKEN": "${vault:secret/data/github#token}"`.
+ * Providers are declared in the remote config's `secretProviders` map.
+ */
+
+/** A backend that secret references are fetched from. */
+export interface SecretProvider {
+  /**
+   * Fetch one secret value.
+   * @param field - Selects one value of a multi-value secret
+   * @throws Error if the secret cannot be read
+   */
+  get(path: string, field?: string): Promise<string>;
+}
+
+/** A parsed `${provider:path#field}` reference. */
+export interface SecretReference {
+  provider: string;
+  path: string;
+  field?: string;
+}
+
+/** Options shared by all provider types. */
+interface BaseProviderConfig {
+  /** How long fetched values are cached, in seconds (default: 300) */
+  ttlSeconds?: number;
+}
+
+/** AES-256-GCM encrypted JSON file, unlocked with a passphrase. */
+export interface FileVaultProviderConfig extends BaseProviderConfig {
+  type: 'file';
+  /** Path to the vault file */
+  path: string;
+  /** Environment variable holding the passphrase (default: DRAWLATCH_VAULT_PASSPHRASE) */
+  passphraseEnv?: string;
+}
+
+/** A `pass`-style directory of gpg-encrypted files (`<dir>/<path>.gpg`). */
+export interface PassProviderConfig extends BaseProviderConfig {
+  type: 'pass';
+  /** Password store directory (default: $PASSWORD_STORE_DIR or ~/.password-store) */
+  dir?: string;
+  /** Decrypt command; the file path is appended (default: gpg --quiet --batch --decrypt) */
+  command?: string[];
+}
+
+/** Runs a command and uses its standard output as the secret. */
+export interface CommandProviderConfig extends BaseProviderConfig {
+  type: 'command';
+  /** Executable to run (not through a shell) */
+  command: string;
+  /** Arguments. `{path}` and `{field}` are substituted; without `{path}`,
+   *  the path (and field, if any) are appended. */
+  args?: string[];
+  /** Kill the command after this many ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+/** An HTTP secret store in the style of HashiCorp Vault (`GET <url>/v1/<path>`). */
+export interface HttpProviderConfig extends BaseProviderConfig {
+  type: 'http';
+  /** Base URL, e.g. https://vault.internal:8200 */
+  url: string;
+  /** Token sent as X-Vault-Token. Use "${ENV_VAR}" to read it from the environment. */
+  token?: string;
+  /** Sent as X-Vault-Namespace (Vault Enterprise / HCP) */
+  namespace?: string;
+  /** Request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+export type SecretProviderConfig =
+  | FileVaultProviderConfig
+  | PassProviderConfig
+  | CommandProviderConfig
+  | HttpProviderConfig;